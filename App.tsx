@@ -1,10 +1,11 @@
 
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import { 
   DocumentaryProject, 
   ProjectPhase, 
   UserProfile,
-  Notification
+  Notification,
+  NotificationLink
 } from './types';
 import Sidebar from './components/Sidebar';
 import Dashboard from './components/Dashboard';
@@ -20,78 +21,115 @@ import CloudServices from './components/CloudServices';
 import ProducerChat from './components/ProducerChat';
 import NotificationCenter from './components/NotificationCenter';
 import LoginScreen from './components/LoginScreen';
+import { projectService } from './services/projectService';
+import { authService } from './services/authService';
+import { projectAccess } from './lib/permissions';
+import { PHASE_LOCK_PERMISSIONS } from './lib/locks';
+import PermissionSettings from './components/PermissionSettings';
+import ProjectLockBanner from './components/ProjectLockBanner';
+import { usePresence } from './hooks/usePresence';
 
 const App: React.FC = () => {
   // Start with no user to show Login Screen
   const [user, setUser] = useState<UserProfile | null>(null);
 
-  const [projects, setProjects] = useState<DocumentaryProject[]>([
-    {
-      id: 'proj-declassified',
-      title: 'Declassified',
-      description: 'An investigative anthology series revealing redacted truths behind NASA, massive engineering failures, and the worlds abandoned places.',
-      series_name: 'Declassified',
-      episode_number: 1,
-      target_duration_minutes: 60,
-      target_format: 'documentary',
-      current_phase: 'research',
-      progress: 15,
-      status: 'active',
-      created_at: new Date().toISOString()
-    },
-    // Demo project locked by another user
-    {
-      id: 'proj-eng-fail',
-      title: 'Engineering Failures',
-      description: 'The science behind catastrophic structural collapses in the 20th century.',
-      series_name: 'Declassified',
-      episode_number: 2,
-      target_duration_minutes: 45,
-      target_format: 'documentary',
-      current_phase: 'assembly',
-      progress: 85,
-      status: 'active',
-      created_at: new Date().toISOString(),
-      locked_by: 'u2', // Locked by Sarah
-      locked_by_avatar: 'https://api.dicebear.com/7.x/avataaars/svg?seed=Sarah'
-    }
-  ]);
+  const [projects, setProjects] = useState<DocumentaryProject[]>([]);
 
   const [notifications, setNotifications] = useState<Notification[]>([]);
   const [activeProjectId, setActiveProjectId] = useState<string | null>(null);
   const [showNotifications, setShowNotifications] = useState(false);
   const [currentGlobalPhase, setCurrentGlobalPhase] = useState<ProjectPhase | null>(null);
   
-  // Is the current user viewing a project they didn't lock?
-  const [isSpectatorMode, setIsSpectatorMode] = useState(false);
+  // Phase this user is looking at. Team members work in different phases at the same time, so
+  // only advancing a phase moves the project's own current_phase
+  const [openPhase, setOpenPhase] = useState<ProjectPhase | null>(null);
+  const [showPermissions, setShowPermissions] = useState(false);
+  const [focusThreadId, setFocusThreadId] = useState<string | null>(null);
 
   const activeProject = projects.find(p => p.id === activeProjectId) || null;
+  const access = activeProject && user ? projectAccess(activeProject, user) : null;
+
+  const viewPhase = activeProject ? openPhase || activeProject.current_phase : null;
+  // Users who can't write the viewed phase never hold or ask for its lock
+  const lockPermission = viewPhase ? PHASE_LOCK_PERMISSIONS[viewPhase] : undefined;
+  const lockDenial = lockPermission ? access?.reason(lockPermission) : undefined;
+  const collaboration = usePresence(
+    user,
+    activeProjectId,
+    viewPhase,
+    access,
+    (title, message, type, link) => addNotification(title, message, type, link)
+  );
+  // Is someone else holding the lock on the phase the current user is viewing?
+  const isSpectatorMode = collaboration.isSpectator;
+
+  // Load the project list from the server store once signed in
+  useEffect(() => {
+    if (!user) return;
+    projectService.listProjects()
+      .then(setProjects)
+      .catch(error => {
+        console.error('Failed to load projects:', error);
+        addNotification('Sync Error', 'Could not load projects from the server.', 'error');
+      });
+  }, [user?.id]);
+
+  // Others change project settings (sign-offs, timeline tracks) too, so opening a phase reloads it
+  useEffect(() => {
+    if (!activeProjectId || !viewPhase) return;
+    let cancelled = false;
+    projectService.getProject(activeProjectId)
+      .then(project => { if (!cancelled) setProjects(prev => prev.map(p => p.id === project.id ? project : p)); })
+      .catch(error => console.error('Failed to reload project:', error));
+    return () => { cancelled = true; };
+  }, [activeProjectId, viewPhase]);
+
+  // Apply a change locally and persist it to the server store
+  const saveProject = (id: string, changes: Partial<DocumentaryProject>) => {
+    setProjects(prev => prev.map(p => p.id === id ? { ...p, ...changes } : p));
+    projectService.updateProject(id, changes).catch(error => {
+      console.error('Failed to save project:', error);
+      addNotification('Sync Error', 'Project changes could not be saved.', 'error');
+    });
+  };
 
   const handleLogin = (selectedUser: UserProfile) => {
     setUser(selectedUser);
   };
 
   const handleLogout = () => {
+    authService.signOut().catch(error => console.error('Sign-out failed:', error));
     setUser(null);
+    setProjects([]);
     setActiveProjectId(null);
     setCurrentGlobalPhase(null);
   };
 
-  const addNotification = (title: string, message: string, type: Notification['type'] = 'info') => {
+  const addNotification = (title: string, message: string, type: Notification['type'] = 'info', link?: NotificationLink) => {
     const newNotif: Notification = {
       id: Date.now().toString(),
       title,
       message,
       type,
       timestamp: new Date().toLocaleTimeString(),
-      read: false
+      read: false,
+      ...(link ? { link } : {})
     };
     setNotifications(prev => [newNotif, ...prev]);
   };
 
-  const handleCreateProject = (title: string, desc: string, templateId?: string) => {
-    const newProj: DocumentaryProject = {
-      id: `proj-${Date.now()}`,
+  // Opening a notification goes to what it is about, e.g. the comment thread someone was mentioned in
+  const openNotificationLink = (link: NotificationLink) => {
+    if (!projects.some(p => p.id === link.project_id)) return;
+    setActiveProjectId(link.project_id);
+    setOpenPhase(link.phase);
+    setCurrentGlobalPhase(null);
+    setFocusThreadId(link.thread_id || null);
+    setShowNotifications(false);
+  };
+
+  const handleCreateProject = async (title: string, desc: string, templateId?: string) => {
+    const draft: Omit<DocumentaryProject, 'id' | 'created_at'> = {
       title,
       description: desc,
       target_duration_minutes: 30,
@@ -99,53 +137,44 @@ const App: React.FC = () => {
       current_phase: 'research',
       progress: 0,
       status: 'active',
-      created_at: new Date().toISOString(),
-      template_id: templateId,
-      locked_by: user?.id // Auto-lock for creator
+      template_id: templateId
     };
+    let newProj: DocumentaryProject;
+    try {
+      newProj = await projectService.createProject(draft);
+    } catch (error) {
+      console.error('Failed to create project:', error);
+      addNotification('Create Failed', `Could not create "${title}".`, 'error');
+      return;
+    }
     setProjects(prev => [...prev, newProj]);
     setActiveProjectId(newProj.id);
-    setIsSpectatorMode(false);
+    setOpenPhase(null);
     setCurrentGlobalPhase(null);
     addNotification('Project Created', `Started work on "${title}"`, 'success');
   };
 
+  // usePresence takes the phase's lock if it is free; otherwise the phase opens in spectator mode
   const handleSelectProject = (projectId: string) => {
-      const proj = projects.find(p => p.id === projectId);
-      if (!proj) return;
-
-      if (proj.locked_by && proj.locked_by !== user?.id) {
-          // Project is locked by someone else -> Spectator Mode
-          setIsSpectatorMode(true);
-          addNotification('Spectator Mode', 'This project is currently being edited by another user. You are in read-only mode.', 'warning');
-      } else {
-          // Project is free or locked by us -> Edit Mode
-          setIsSpectatorMode(false);
-          // If free, lock it for the current user
-          if (!proj.locked_by) {
-             setProjects(prev => prev.map(p => p.id === projectId ? { ...p, locked_by: user?.id, locked_by_avatar: user?.avatar } : p));
-          }
-      }
+      if (!projects.some(p => p.id === projectId)) return;
       setActiveProjectId(projectId);
+      setOpenPhase(null);
       setCurrentGlobalPhase(null);
   };
 
+  // Finishing a phase moves the project on; spectators of that phase only move their own view
   const updateProjectPhase = (id: string, phase: ProjectPhase, progress: number) => {
-    if (isSpectatorMode) {
-        alert("Action blocked: You are in Spectator Mode.");
-        return;
-    }
-    setProjects(prev => prev.map(p => p.id === id ? { ...p, current_phase: phase, progress } : p));
+    if (!isSpectatorMode) saveProject(id, { current_phase: phase, progress });
+    setOpenPhase(phase);
     setCurrentGlobalPhase(null);
   };
 
   const handleGlobalPhaseSwitch = (phase: ProjectPhase) => {
     if (phase === 'cloud_management' || phase === 'settings') {
       setCurrentGlobalPhase(phase);
-    } else {
-      if (activeProjectId) {
-        updateProjectPhase(activeProjectId, phase, activeProject?.progress || 0);
-      }
+    } else if (activeProjectId) {
+      setOpenPhase(phase);
+      setCurrentGlobalPhase(null);
     }
   };
 
@@ -155,21 +184,31 @@ const App: React.FC = () => {
     if (currentGlobalPhase === 'cloud_management') return <CloudServices />;
     if (currentGlobalPhase === 'settings') return <ProfileSettings user={user} onUpdate={(u) => setUser(u)} />;
     
-    if (!activeProject) return <Dashboard user={user} projects={projects} onSelectProject={handleSelectProject} onCreateProject={handleCreateProject} />;
+    if (!activeProject || !access) return <Dashboard user={user} projects={projects} presence={collaboration.presence} onSelectProject={handleSelectProject} onCreateProject={handleCreateProject} />;
 
-    const commonProps = { project: activeProject, onNotify: addNotification };
-    // We could pass isSpectatorMode down to disable inputs in phases, 
-    // but for this demo, the Dashboard alerts are the primary indicator.
+    const commonProps = { project: activeProject, access, onNotify: addNotification };
+    // Spectators see the same screens: the wrapper below blocks input and the server refuses their writes
 
-    switch (activeProject.current_phase) {
-      case 'research': return <ResearchPhase {...commonProps} user={user} onAdvance={() => updateProjectPhase(activeProject.id, 'archive', 30)} />;
-      case 'archive': return <ArchivePhase {...commonProps} onAdvance={() => updateProjectPhase(activeProject.id, 'scripting', 45)} />;
-      case 'scripting': return <ScriptingPhase project={activeProject} onAdvance={() => updateProjectPhase(activeProject.id, 'expert_interview', 60)} />;
+    switch (viewPhase) {
+      case 'research': return <ResearchPhase {...commonProps} user={user} onUpdateProject={changes => saveProject(activeProject.id, changes)} onAdvance={() => updateProjectPhase(activeProject.id, 'archive', 30)} />;
+      case 'archive': return <ArchivePhase {...commonProps} entityLocks={collaboration.entityLocks} onAdvance={() => updateProjectPhase(activeProject.id, 'scripting', 45)} />;
+      case 'scripting': return <ScriptingPhase {...commonProps} user={user} entityLocks={collaboration.entityLocks} focusThreadId={focusThreadId} onFocusHandled={() => setFocusThreadId(null)} onAdvance={() => updateProjectPhase(activeProject.id, 'expert_interview', 60)} />;
       case 'expert_interview': return <ExpertInterviewPhase {...commonProps} onAdvance={() => updateProjectPhase(activeProject.id, 'voice_over', 70)} />;
-      case 'voice_over': return <VoiceOverPhase project={activeProject} user={user} onAdvance={() => updateProjectPhase(activeProject.id, 'assembly', 85)} />;
-      case 'assembly': return <AssemblyPhase project={activeProject} onAdvance={() => updateProjectPhase(activeProject.id, 'review', 95)} />;
-      case 'review': return <ReviewPhase project={activeProject} user={user} onComplete={() => alert('Project Complete!')} />;
-      default: return <Dashboard user={user} projects={projects} onSelectProject={handleSelectProject} onCreateProject={handleCreateProject} />;
+      case 'voice_over': return <VoiceOverPhase project={activeProject} user={user} access={access} onAdvance={() => updateProjectPhase(activeProject.id, 'assembly', 85)} />;
+      case 'assembly': return <AssemblyPhase project={activeProject} access={access} onUpdateProject={changes => saveProject(activeProject.id, changes)} onAdvance={() => updateProjectPhase(activeProject.id, 'review', 95)} />;
+      case 'review': return (
+        <ReviewPhase
+          project={activeProject}
+          user={user}
+          access={access}
+          onUpdateProject={changes => saveProject(activeProject.id, changes)}
+          onComplete={() => {
+            saveProject(activeProject.id, { status: 'completed', progress: 100 });
+            addNotification('Project Complete', `"${activeProject.title}" has its final sign-off.`, 'success');
+          }}
+        />
+      );
+      default: return <Dashboard user={user} projects={projects} presence={collaboration.presence} onSelectProject={handleSelectProject} onCreateProject={handleCreateProject} />;
     }
   };
 
@@ -181,24 +220,31 @@ const App: React.FC = () => {
     <div className="flex h-screen bg-[#0a0a0a] text-gray-100 overflow-hidden font-sans">
       <Sidebar 
         activeProject={activeProject} 
+        viewPhase={viewPhase}
+        presence={collaboration.current}
         user={user}
         onSelectDashboard={() => { setActiveProjectId(null); setCurrentGlobalPhase(null); }} 
         onSwitchPhase={handleGlobalPhaseSwitch}
         onToggleNotifications={() => setShowNotifications(!showNotifications)}
         onLogout={handleLogout}
+        onOpenPermissions={() => setShowPermissions(true)}
+        permissionsDenial={access?.reason('project.manage')}
         notificationCount={notifications.filter(n => !n.read).length}
       />
       
       <main className="flex-1 overflow-y-auto relative p-8">
-        {/* Spectator Mode Banner */}
-        {isSpectatorMode && activeProject && (
-            <div className="absolute top-0 left-0 right-0 bg-yellow-600/20 border-b border-yellow-600/30 text-yellow-500 text-xs font-bold px-8 py-2 flex items-center justify-between z-50 backdrop-blur-md">
-                <span className="flex items-center gap-2">
-                    <span className="text-xl">👁️</span> 
-                    SPECTATOR MODE: This project is currently locked by another user. Editing is disabled.
-                </span>
-                <span className="uppercase tracking-widest opacity-70">Read Only</span>
-            </div>
+        {/* Spectator banner, or edit requests for the lock holder */}
+        {activeProject && !currentGlobalPhase && viewPhase && (
+            <ProjectLockBanner
+              presence={collaboration.current}
+              phase={viewPhase}
+              user={user}
+              editDenial={lockDenial}
+              takeoverDenial={access?.reason('lock.takeover') || lockDenial}
+              onRequestEdit={collaboration.requestEdit}
+              onTakeover={collaboration.takeover}
+              onRespond={collaboration.respond}
+            />
         )}
         
         <div className={isSpectatorMode ? 'mt-8 pointer-events-none opacity-80' : ''}>
@@ -211,6 +257,15 @@ const App: React.FC = () => {
           notifications={notifications} 
           onClose={() => setShowNotifications(false)} 
           onMarkRead={(id) => setNotifications(prev => prev.map(n => n.id === id ? { ...n, read: true } : n))}
+          onOpen={openNotificationLink}
+        />
+      )}
+
+      {showPermissions && activeProject && (
+        <PermissionSettings
+          project={activeProject}
+          onSave={permissions => saveProject(activeProject.id, { permissions })}
+          onClose={() => setShowPermissions(false)}
         />
       )}
 
@@ -0,0 +1,36 @@
+import React from 'react';
+import { ScriptStatus, ScriptVersion } from '../types';
+import { SCRIPT_STATUS_LABELS } from '../lib/scriptReview';
+
+interface ApprovedScriptNoticeProps {
+  approved: { version: ScriptVersion | null; status: ScriptStatus | null; isLoaded: boolean }; // From useApprovedScript()
+}
+
+/**
+ * Which approved script version a phase is working from, or that there isn't one yet.
+ */
+const ApprovedScriptNotice: React.FC<ApprovedScriptNoticeProps> = ({ approved }) => {
+  if (!approved.isLoaded) return null;
+  if (!approved.version) {
+    return (
+      <div className="mb-4 px-4 py-2 rounded-lg border border-yellow-600/30 bg-yellow-600/5 text-xs text-yellow-500 flex items-center gap-2">
+        <span>⏳</span>
+        <span>Nothing to work from yet: this phase follows the approved script, and the script hasn't been approved.</span>
+      </div>
+    );
+  }
+  return (
+    <div className="mb-4 px-4 py-2 rounded-lg border border-[#333] bg-[#151515] text-xs text-gray-400 flex items-center gap-2">
+      <span>✅</span>
+      <span>
+        Working from the script approved {new Date(approved.version.created_at).toLocaleString()}
+        {approved.version.created_by_name && <> by {approved.version.created_by_name}</>}
+        {approved.status && approved.status !== 'approved' && (
+          <span className="text-gray-500"> · the script is now {SCRIPT_STATUS_LABELS[approved.status].toLowerCase()}; changes reach this phase once it is approved again.</span>
+        )}
+      </span>
+    </div>
+  );
+};
+
+export default ApprovedScriptNotice;
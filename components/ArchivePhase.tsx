@@ -1,6 +1,14 @@
-import React, { useState, useRef } from 'react';
+import React, { useState, useRef, useEffect } from 'react';
 import { DocumentaryProject, ArchiveClip, ArchiveFolder } from '../types';
 import { geminiService } from '../services/geminiService';
+import { documentService } from '../services/documentService';
+import { useProjectCollection } from '../hooks/useProjectCollection';
+import PermissionNotice from './PermissionNotice';
+import { ProjectAccess } from '../lib/permissions';
+import { entityScope } from '../lib/locks';
+import { EntityLockControls } from '../hooks/usePresence';
+import { useApprovedScript } from '../hooks/useApprovedScript';
+import { beatExcerpt, beatsOfType, isOrphaned } from '../lib/scriptBeats';
 
 // Format seconds to mm:ss display
 const formatDuration = (seconds: number): string => {
@@ -11,36 +19,56 @@ const formatDuration = (seconds: number): string => {
 
 interface ArchivePhaseProps {
   project: DocumentaryProject;
+  access: ProjectAccess;
+  entityLocks?: EntityLockControls; // Folder locks; people can work in different folders at once
   onAdvance: () => void;
   onNotify: (title: string, msg: string, type: any) => void;
 }
 
-const ArchivePhase: React.FC<ArchivePhaseProps> = ({ project, onAdvance, onNotify }) => {
-  const [folders, setFolders] = useState<ArchiveFolder[]>([
-    { id: 'folder-1', name: 'Raw Footage', type: 'local', icon: '📂' },
-    { id: 'folder-2', name: 'Interviews', type: 'local', icon: '🎤' },
-    { id: 'src-nasa', name: 'NASA Images', type: 'external_api', api_source: 'nasa', icon: '🚀' },
-    { id: 'src-getty', name: 'Getty Images', type: 'external_api', api_source: 'getty', icon: '📸' },
-    { id: 'src-ap', name: 'AP Archive', type: 'external_api', api_source: 'ap', icon: '📰' },
-  ]);
+// Built-in collections and archive connections available to every project
+const DEFAULT_FOLDERS: ArchiveFolder[] = [
+  { id: 'folder-1', name: 'Raw Footage', type: 'local', icon: '📂' },
+  { id: 'folder-2', name: 'Interviews', type: 'local', icon: '🎤' },
+  { id: 'src-nasa', name: 'NASA Images', type: 'external_api', api_source: 'nasa', icon: '🚀' },
+  { id: 'src-getty', name: 'Getty Images', type: 'external_api', api_source: 'getty', icon: '📸' },
+  { id: 'src-ap', name: 'AP Archive', type: 'external_api', api_source: 'ap', icon: '📰' },
+];
+
+const ArchivePhase: React.FC<ArchivePhaseProps> = ({ project, access, entityLocks, onAdvance, onNotify }) => {
+  const importDenial = access.reason('archive.import');
+  // Reload when someone takes or hands back a folder so their finished work shows up
+  const [customFolders, setCustomFolders] = useProjectCollection<ArchiveFolder>(project.id, 'archive_folders', entityLocks?.key);
+  const folders = [...DEFAULT_FOLDERS, ...customFolders];
 
   const [activeFolderId, setActiveFolderId] = useState<string>('folder-1');
-  const [clips, setClips] = useState<ArchiveClip[]>([
-    {
-      id: 'clip-001',
-      project_id: project.id,
-      folder_id: 'folder-1',
-      title: 'Historical Discovery',
-      archive_source: 'BBC Archive',
-      duration_seconds: 5,
-      in_point: 0,
-      category: 'Historical',
-      thumbnail_url: 'https://picsum.photos/seed/hist1/400/225',
-      visual_description: 'Foundational historical footage.',
-      quality_score: 85,
-      mood: 'Epic'
-    }
-  ]);
+  const [clips, setClips] = useProjectCollection<ArchiveClip>(project.id, 'archive_clips', entityLocks?.key);
+
+  const folderLock = (folderId: string) => entityLocks?.lockOf('archive_folder', folderId);
+  const lockedByOther = (folderId: string) => {
+    const lock = folderLock(folderId);
+    return lock && lock.user_id !== entityLocks?.userId ? lock : undefined;
+  };
+  const activeHolder = lockedByOther(activeFolderId);
+  // Why the open folder can't be changed: no archive.import permission, or someone else is working in it
+  const folderDenial = importDenial || (activeHolder ? `${activeHolder.username} is working in this folder` : undefined);
+
+  // Working in a collection locks it: take the open folder whenever it is free, let it go when leaving
+  const activeLockHolder = folderLock(activeFolderId)?.user_id;
+  const activeScope = () => {
+    const folder = folders.find(f => f.id === activeFolderId);
+    if (!entityLocks || importDenial || folder?.type !== 'local') return null;
+    return entityScope('archive', 'archive_folder', folder.id, folder.name);
+  };
+  useEffect(() => {
+    const scope = activeScope();
+    if (!scope || activeLockHolder) return;
+    entityLocks!.acquire(scope).catch(error => console.error('Folder lock failed:', error));
+  }, [activeFolderId, activeLockHolder, importDenial]);
+  useEffect(() => {
+    const scope = activeScope();
+    if (!scope) return;
+    return () => { entityLocks!.release(scope).catch(error => console.error('Folder release failed:', error)); };
+  }, [activeFolderId, importDenial]);
 
   const [searchQuery, setSearchQuery] = useState('');
   const [isSearching, setIsSearching] = useState(false);
@@ -52,13 +80,13 @@ const ArchivePhase: React.FC<ArchivePhaseProps> = ({ project, onAdvance, onNotif
   const [newFolderName, setNewFolderName] = useState('');
   const fileInputRef = useRef<HTMLInputElement>(null);
 
-  // Mock script beats for linking
-  const mockScriptBeats = [
-    { id: 'beat-01', title: 'Intro Sequence: Cold Open' },
-    { id: 'beat-02', title: 'Act 1: The Discovery' },
-    { id: 'beat-03', title: 'Act 2: Engineering Failure' },
-    { id: 'beat-04', title: 'Interview: Lead Scientist' },
-  ];
+  // Clips are linked to the archive beats of the approved script
+  const approved = useApprovedScript(project.id);
+  const archiveBeats = approved.script ? beatsOfType(approved.script, 'archive') : [];
+  const linkedBeatLabel = (beatId: string) => {
+    const ref = archiveBeats.find(r => r.beat.id === beatId);
+    return ref ? `${ref.context}: ${beatExcerpt(ref.beat, 40)}` : undefined;
+  };
 
   const activeFolder = folders.find(f => f.id === activeFolderId);
   const displayedClips = clips.filter(c => c.folder_id === activeFolderId);
@@ -105,10 +133,10 @@ const ArchivePhase: React.FC<ArchivePhaseProps> = ({ project, onAdvance, onNotif
     setSelectedClipIds(new Set<string>());
   };
 
-  const linkToBeat = (beatId: string) => {
+  const linkToBeat = (beatId: string | undefined) => {
     setClips(prev => prev.map(c => selectedClipIds.has(c.id) ? { ...c, linked_beat_id: beatId } : c));
     setShowLinkModal(false);
-    onNotify('Linked', `${selectedClipIds.size} clips linked to beat.`, 'success');
+    onNotify(beatId ? 'Linked' : 'Unlinked', `${selectedClipIds.size} clips ${beatId ? 'linked to beat' : 'unlinked'}.`, 'success');
     setSelectedClipIds(new Set<string>());
   };
 
@@ -116,11 +144,12 @@ const ArchivePhase: React.FC<ArchivePhaseProps> = ({ project, onAdvance, onNotif
     if (!newFolderName) return;
     const newFolder: ArchiveFolder = {
         id: `folder-${Date.now()}`,
+        project_id: project.id,
         name: newFolderName,
         type: 'local',
         icon: '📂'
     };
-    setFolders(prev => [...prev, newFolder]);
+    setCustomFolders(prev => [...prev, newFolder]);
     setNewFolderName('');
     onNotify('Folder Created', `${newFolderName} added to collections.`, 'success');
   };
@@ -156,6 +185,11 @@ const ArchivePhase: React.FC<ArchivePhaseProps> = ({ project, onAdvance, onNotif
   const importExternalClip = (clip: ArchiveClip) => {
     const importFolder = folders.find(f => f.name === 'Raw Footage') || folders[0];
     if (!importFolder) return;
+    const holder = lockedByOther(importFolder.id);
+    if (holder) {
+      onNotify('Folder Locked', `${holder.username} is working in ${importFolder.name}; try again once they finish.`, 'warning');
+      return;
+    }
     const newClip = { ...clip, id: `imp-${Date.now()}`, folder_id: importFolder.id };
     setClips(prev => [newClip, ...prev]);
     onNotify('Clip Imported', `Added to ${importFolder.name}`, 'success');
@@ -165,25 +199,12 @@ const ArchivePhase: React.FC<ArchivePhaseProps> = ({ project, onAdvance, onNotif
     const file = e.target.files?.[0];
     if (!file) return;
 
-    if (file.name.endsWith('.csv') || file.name.endsWith('.xlsx')) {
+    if (file.name.toLowerCase().endsWith('.csv')) {
       onNotify('Processing Log', 'Analyzing CSV metadata with Vertex AI...', 'info');
 
       try {
-        // Read file content
-        const content = await file.text();
-
-        // Call Vertex AI to analyze the CSV
-        const response = await fetch('/api/analyze-document', {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({
-            content: content,
-            fileName: file.name,
-            fileType: 'text/csv'
-          })
-        });
-
-        const analysis = await response.json();
+        // The server parses the CSV and analyzes it, chunking long manifests
+        const analysis = await documentService.analyzeDocument(file);
 
         // Create clips from analyzed content
         const newClips: ArchiveClip[] = (analysis.timeline_events || []).slice(0, 5).map((event: any, i: number) => ({
@@ -214,22 +235,14 @@ const ArchivePhase: React.FC<ArchivePhaseProps> = ({ project, onAdvance, onNotif
 
       try {
         // Call Vertex AI to analyze the video file name and create metadata
-        const response = await fetch('/api/chat', {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({
-            message: `Analyze this video file name and suggest metadata: "${file.name}"
-              Return JSON with: title, category (Interview/B-Roll/Establishing/Action), estimated_duration_seconds, visual_description`,
-            systemInstruction: 'You are a video archive specialist. Respond with valid JSON only.',
-            history: []
-          })
+        const result = await geminiService.createAssistantChat('You are a video archive specialist. Respond with valid JSON only.').sendMessage({
+          message: `Analyze this video file name and suggest metadata: "${file.name}"
+              Return JSON with: title, category (Interview/B-Roll/Establishing/Action), estimated_duration_seconds, visual_description`
         });
-
-        const result = await response.json();
         let metadata = { title: file.name, category: 'B-Roll', duration_seconds: 60 };
 
         try {
-          const parsed = JSON.parse(result.response);
+          const parsed = JSON.parse(result.text);
           metadata = { ...metadata, ...parsed };
         } catch (e) {
           // Use defaults if parsing fails
@@ -291,15 +304,15 @@ const ArchivePhase: React.FC<ArchivePhaseProps> = ({ project, onAdvance, onNotif
         <div className="flex gap-4">
           {selectedClipIds.size > 0 ? (
             <div className="flex gap-2 animate-in fade-in">
-              <button onClick={() => setShowLinkModal(true)} className="bg-purple-600 hover:bg-purple-700 text-white font-bold px-4 py-2 rounded text-xs">
+              <button onClick={() => setShowLinkModal(true)} disabled={Boolean(folderDenial)} title={folderDenial} className="disabled:opacity-40 bg-purple-600 hover:bg-purple-700 text-white font-bold px-4 py-2 rounded text-xs">
                 LINK TO SCRIPT ({selectedClipIds.size})
               </button>
-              <button onClick={batchAnalyze} className="bg-blue-600 hover:bg-blue-700 text-white font-bold px-4 py-2 rounded text-xs">
+              <button onClick={batchAnalyze} disabled={Boolean(folderDenial)} title={folderDenial} className="disabled:opacity-40 bg-blue-600 hover:bg-blue-700 text-white font-bold px-4 py-2 rounded text-xs">
                 BATCH ANALYZE ({selectedClipIds.size})
               </button>
             </div>
           ) : (
-            <button onClick={() => setShowUploadModal(true)} className="bg-red-600 hover:bg-red-700 text-white font-bold px-6 py-2 rounded flex items-center gap-2 transition shadow-lg">
+            <button onClick={() => setShowUploadModal(true)} disabled={Boolean(folderDenial)} title={folderDenial} className="disabled:opacity-40 disabled:hover:bg-red-600 bg-red-600 hover:bg-red-700 text-white font-bold px-6 py-2 rounded flex items-center gap-2 transition shadow-lg">
                 ↑ UPLOAD / IMPORT LOG
             </button>
           )}
@@ -309,6 +322,8 @@ const ArchivePhase: React.FC<ArchivePhaseProps> = ({ project, onAdvance, onNotif
         </div>
       </div>
 
+      <PermissionNotice reason={importDenial} />
+
       <div className="flex-1 grid grid-cols-12 gap-6 min-h-0">
         {/* Left: Folders & Sources */}
         <div className="col-span-3 border-r border-[#222] pr-4 flex flex-col gap-6">
@@ -318,6 +333,7 @@ const ArchivePhase: React.FC<ArchivePhaseProps> = ({ project, onAdvance, onNotif
               <div className="space-y-1 mb-4">
                  {folders.filter(f => f.type === 'local').map(f => {
                     const thumb = getFolderThumbnail(f.id);
+                    const lock = folderLock(f.id);
                     return (
                         <button
                             key={f.id}
@@ -334,7 +350,17 @@ const ArchivePhase: React.FC<ArchivePhaseProps> = ({ project, onAdvance, onNotif
                                 )}
                                 <span>{f.name}</span>
                             </span>
-                            {activeFolderId === f.id && <span className="text-[9px] bg-red-600/20 text-red-500 px-1.5 rounded">{clips.filter(c => c.folder_id === f.id).length}</span>}
+                            <span className="flex items-center gap-1.5">
+                                {lock && (
+                                    <img
+                                        src={lock.avatar || `https://api.dicebear.com/7.x/avataaars/svg?seed=${encodeURIComponent(lock.user_id)}`}
+                                        title={`${lock.user_id === entityLocks?.userId ? 'You are' : `${lock.username} is`} working here`}
+                                        className={`w-4 h-4 rounded-full border ${lock.user_id === entityLocks?.userId ? 'border-green-500' : 'border-yellow-500'}`}
+                                        alt=""
+                                    />
+                                )}
+                                {activeFolderId === f.id && <span className="text-[9px] bg-red-600/20 text-red-500 px-1.5 rounded">{clips.filter(c => c.folder_id === f.id).length}</span>}
+                            </span>
                         </button>
                     );
                  })}
@@ -345,9 +371,10 @@ const ArchivePhase: React.FC<ArchivePhaseProps> = ({ project, onAdvance, onNotif
                     value={newFolderName}
                     onChange={(e) => setNewFolderName(e.target.value)}
                     placeholder="New Folder Name"
+                    disabled={Boolean(importDenial)}
                     className="flex-1 bg-[#0a0a0a] border border-[#333] rounded px-2 py-1 text-xs focus:outline-none focus:border-white"
                   />
-                  <button onClick={handleCreateFolder} className="bg-[#222] hover:bg-[#333] text-white px-3 rounded text-xs">+</button>
+                  <button onClick={handleCreateFolder} disabled={Boolean(importDenial)} title={importDenial} className="disabled:opacity-40 bg-[#222] hover:bg-[#333] text-white px-3 rounded text-xs">+</button>
               </div>
            </div>
 
@@ -409,7 +436,9 @@ const ArchivePhase: React.FC<ArchivePhaseProps> = ({ project, onAdvance, onNotif
                                         <p className="text-[10px] text-gray-500 line-clamp-2 mb-3">{clip.description}</p>
                                         <button 
                                             onClick={() => importExternalClip(clip)}
-                                            className="w-full py-1.5 bg-[#222] hover:bg-[#1a73e8] hover:text-white rounded text-[10px] font-bold text-gray-400 transition"
+                                            disabled={Boolean(importDenial)}
+                                            title={importDenial}
+                                            className="w-full py-1.5 bg-[#222] hover:bg-[#1a73e8] hover:text-white rounded text-[10px] font-bold text-gray-400 transition disabled:opacity-40 disabled:hover:bg-[#222] disabled:hover:text-gray-400"
                                         >
                                             IMPORT TO BIN
                                         </button>
@@ -433,6 +462,7 @@ const ArchivePhase: React.FC<ArchivePhaseProps> = ({ project, onAdvance, onNotif
                         <div>
                             <h3 className="text-xl font-bold">{activeFolder?.name}</h3>
                             <p className="text-xs text-gray-500">{displayedClips.length} assets stored locally</p>
+                            {activeHolder && <p className="text-xs text-yellow-500 mt-1">🔒 {activeHolder.username} is working in this folder. It is read-only until they finish.</p>}
                         </div>
                     </div>
                 </div>
@@ -459,9 +489,11 @@ const ArchivePhase: React.FC<ArchivePhaseProps> = ({ project, onAdvance, onNotif
                                             {clip.quality_score && (
                                                 <span className="text-[8px] font-bold text-white bg-green-600 px-1.5 py-0.5 rounded uppercase font-mono">Q:{clip.quality_score}</span>
                                             )}
-                                            {clip.linked_beat_id && (
-                                                <span className="text-[8px] font-bold text-white bg-purple-600 px-1.5 py-0.5 rounded uppercase">LINKED</span>
-                                            )}
+                                            {clip.linked_beat_id && (isOrphaned(clip.linked_beat_id, approved.script) ? (
+                                                <span className="text-[8px] font-bold text-black bg-yellow-500 px-1.5 py-0.5 rounded uppercase" title="Its beat is no longer in the approved script">ORPHANED</span>
+                                            ) : (
+                                                <span className="text-[8px] font-bold text-white bg-purple-600 px-1.5 py-0.5 rounded uppercase" title={linkedBeatLabel(clip.linked_beat_id)}>LINKED</span>
+                                            ))}
                                         </div>
                                     </div>
                                     <div className="p-3">
@@ -478,8 +510,9 @@ const ArchivePhase: React.FC<ArchivePhaseProps> = ({ project, onAdvance, onNotif
                                         )}
                                         <button 
                                           onClick={() => analyzeClip(clip.id)}
-                                          disabled={analyzingIds.has(clip.id)}
-                                          className="w-full py-1.5 bg-[#222] hover:bg-[#333] text-[9px] font-bold rounded uppercase tracking-widest text-gray-400 transition"
+                                          disabled={analyzingIds.has(clip.id) || Boolean(folderDenial)}
+                                          title={folderDenial}
+                                          className="w-full py-1.5 bg-[#222] hover:bg-[#333] text-[9px] font-bold rounded uppercase tracking-widest text-gray-400 transition disabled:opacity-40"
                                         >
                                             {analyzingIds.has(clip.id) ? 'ANALYZING...' : 'AI INSPECT'}
                                         </button>
@@ -488,7 +521,7 @@ const ArchivePhase: React.FC<ArchivePhaseProps> = ({ project, onAdvance, onNotif
                             ))}
                         </div>
                     ) : (
-                        <div className="h-full flex flex-col items-center justify-center opacity-30 cursor-pointer" onClick={() => setShowUploadModal(true)}>
+                        <div className="h-full flex flex-col items-center justify-center opacity-30 cursor-pointer" onClick={() => !folderDenial && setShowUploadModal(true)}>
                             <span className="text-6xl mb-4">📁</span>
                             <p className="text-sm font-bold uppercase tracking-widest">Folder Empty</p>
                             <p className="text-xs">Drag & drop files or import log</p>
@@ -513,11 +546,11 @@ const ArchivePhase: React.FC<ArchivePhaseProps> = ({ project, onAdvance, onNotif
                             type="file"
                             className="absolute inset-0 opacity-0 cursor-pointer"
                             onChange={handleFileUpload}
-                            accept="video/*,.csv,.xlsx"
+                            accept="video/*,.csv"
                         />
                         <div className="text-4xl mb-4 grayscale group-hover:grayscale-0 transition">📥</div>
                         <p className="text-sm font-bold text-white">Drag & Drop Files Here</p>
-                        <p className="text-xs text-gray-500 mt-2">Supports .mp4, .mov, or .csv/.xlsx (Manifest Logs)</p>
+                        <p className="text-xs text-gray-500 mt-2">Supports .mp4, .mov, or .csv (Manifest Logs)</p>
                     </div>
 
                     <div className="bg-[#111] p-4 rounded-lg border border-[#222]">
@@ -550,17 +583,24 @@ const ArchivePhase: React.FC<ArchivePhaseProps> = ({ project, onAdvance, onNotif
                 <h3 className="text-xl font-bold text-white mb-4">Link Clips to Script Beat</h3>
                 <p className="text-xs text-gray-500 mb-4">Select a beat to associate with the {selectedClipIds.size} selected clips.</p>
                 <div className="space-y-2 max-h-64 overflow-y-auto custom-scrollbar">
-                    {mockScriptBeats.map(beat => (
+                    {archiveBeats.map(({ beat, context }) => (
                         <button 
                             key={beat.id}
                             onClick={() => linkToBeat(beat.id)}
                             className="w-full text-left p-3 rounded bg-[#111] hover:bg-[#222] border border-[#222] hover:border-gray-600 transition text-sm text-gray-300"
                         >
-                            {beat.title}
+                            <span className="block text-[10px] font-bold text-gray-500 uppercase">{context}</span>
+                            {beatExcerpt(beat) || 'Archive beat'}
                         </button>
                     ))}
+                    {approved.isLoaded && archiveBeats.length === 0 && (
+                        <p className="text-xs text-gray-600 text-center py-6">
+                            {approved.script ? 'The approved script has no archive beats.' : "The script hasn't been approved yet, so there are no beats to link to."}
+                        </p>
+                    )}
                 </div>
-                <div className="mt-6 flex justify-end">
+                <div className="mt-6 flex justify-between">
+                    <button onClick={() => linkToBeat(undefined)} className="text-xs font-bold text-gray-500 hover:text-red-400 uppercase tracking-widest">Remove Link</button>
                     <button onClick={() => setShowLinkModal(false)} className="text-xs font-bold text-gray-500 hover:text-white uppercase tracking-widest">Cancel</button>
                 </div>
              </div>
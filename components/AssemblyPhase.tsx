@@ -1,83 +1,355 @@
 
 import React, { useState, useEffect, useRef } from 'react';
-import { DocumentaryProject, TimelineItem } from '../types';
+import { ArchiveClip, DocumentaryProject, InterviewPlan, TimelineItem, TimelineTrackState, VoiceOver } from '../types';
+import { useProjectCollection } from '../hooks/useProjectCollection';
+import PermissionNotice from './PermissionNotice';
+import ApprovedScriptNotice from './ApprovedScriptNotice';
+import { ProjectAccess } from '../lib/permissions';
+import { useApprovedScript } from '../hooks/useApprovedScript';
+import { isOrphaned } from '../lib/scriptBeats';
+import { movedTimelineItems } from '../lib/scriptImpact';
+import { DEFAULT_TIMECODE_FORMAT, FRAME_RATES, FrameRate, TimecodeFormat, secondsToTimecode } from '../lib/timecode';
+import { EDL_AUDIO_CHANNELS, EdlPictureTrack, buildEdl } from '../lib/edl';
+import { buildFcpxml, buildXmeml } from '../lib/timelineXml';
+import { OtioImport, buildOtio, parseOtio } from '../lib/otio';
+import { TrackRef, beatMarkers, timelineTracks, trackKey, trackName } from '../lib/timelineMedia';
+import { RoughCut, UNCOVERED_REASONS, assembleRoughCut } from '../lib/autoAssemble';
+import { ItemEdge, TrimMode, moveItems, removeItems, snapShift, timelineDuration, trimItem } from '../lib/timelineEdit';
+import { useUndoHistory } from '../hooks/useUndoHistory';
+
+const LABEL_WIDTH = 192; // The track label column, w-48
+const ZOOM_LEVELS = [2, 4, 6, 10, 16, 25, 40, 60, 100]; // Pixels per second
+const RULER_STEPS = [1, 2, 5, 10, 15, 30, 60, 120, 300, 600]; // Seconds between ruler labels
+const SNAP_PIXELS = 8;
+// Track types top to bottom; each has a row for every index in use
+const TRACK_ORDER: TimelineItem['track_type'][] = ['graphics', 'video', 'expert', 'audio', 'music', 'sfx'];
+
+const TRIM_MODES: Array<{ id: TrimMode; label: string; hint: string }> = [
+  { id: 'trim', label: 'Trim', hint: 'Dragging an edge changes only that item' },
+  { id: 'ripple', label: 'Ripple', hint: 'Later items on the track follow the edge; deleting closes the gap' },
+  { id: 'roll', label: 'Roll', hint: 'Moves the cut between two touching items' },
+];
+
+interface Drag {
+  kind: 'move' | ItemEdge;
+  id: string;
+  ids: Set<string>; // The items a move takes along
+  x: number;
+  base: TimelineItem[];
+}
+
+const rulerLabel = (seconds: number) => `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
 
 interface AssemblyPhaseProps {
   project: DocumentaryProject;
+  access: ProjectAccess;
+  onUpdateProject: (changes: Partial<DocumentaryProject>) => void;
   onAdvance: () => void;
 }
 
-const AssemblyPhase: React.FC<AssemblyPhaseProps> = ({ project, onAdvance }) => {
-  const [items, setItems] = useState<TimelineItem[]>([
-    { id: 'ti-1', project_id: project.id, track_type: 'audio', track_index: 0, start_time: 0, end_time: 12, duration: 12, source_type: 'voice_over', label: 'VO Part 1', color: 'bg-blue-600' },
-    { id: 'ti-2', project_id: project.id, track_type: 'video', track_index: 1, start_time: 0, end_time: 15, duration: 15, source_type: 'archive_clip', label: 'Historical Stock Floor', color: 'bg-yellow-600' },
-    { id: 'ti-3', project_id: project.id, track_type: 'music', track_index: 2, start_time: 0, end_time: 30, duration: 30, source_type: 'music', label: 'Ambient Synth Bed', color: 'bg-purple-600' },
-    { id: 'ti-4', project_id: project.id, track_type: 'video', track_index: 1, start_time: 15, end_time: 30, duration: 15, source_type: 'ai_generated', label: 'AI: 90s Startup Office', color: 'bg-red-600' },
-  ]);
+const AssemblyPhase: React.FC<AssemblyPhaseProps> = ({ project, access, onUpdateProject, onAdvance }) => {
+  const editDenial = access.reason('timeline.edit');
+  const [items, setItems, isLoaded] = useProjectCollection<TimelineItem>(project.id, 'timeline_items');
+  const history = useUndoHistory(items, setItems);
+  // Items whose beat has moved or been cut in the approved script are flagged
+  const approved = useApprovedScript(project.id);
+  const moved = approved.script ? movedTimelineItems(items, approved.script) : new Set<string>();
+  const itemFlag = (item: TimelineItem) =>
+    isOrphaned(item.beat_id, approved.script) ? 'Its beat has been cut from the script'
+    : moved.has(item.id) ? 'Its beat has moved in the script'
+    : null;
+
+  // Sources the exports name and point at
+  const [clips] = useProjectCollection<ArchiveClip>(project.id, 'archive_clips');
+  const [voiceOvers] = useProjectCollection<VoiceOver>(project.id, 'voice_overs');
+  const [plans] = useProjectCollection<InterviewPlan>(project.id, 'interview_plans');
+  const [timecodeFormat, setTimecodeFormat] = useState<TimecodeFormat>(DEFAULT_TIMECODE_FORMAT);
+  const [pictureTrack, setPictureTrack] = useState<EdlPictureTrack>('video:0');
+  const [showExport, setShowExport] = useState(false);
+  const [otioImport, setOtioImport] = useState<OtioImport | null>(null);
+  const [importError, setImportError] = useState('');
+  const otioInputRef = useRef<HTMLInputElement>(null);
+  const [roughCut, setRoughCut] = useState<RoughCut | null>(null);
 
   const [isPlaying, setIsPlaying] = useState(false);
   const [currentTime, setCurrentTime] = useState(0); // in seconds
   const requestRef = useRef<number>();
   const startTimeRef = useRef<number>(0);
 
-  const tracks: Array<{ id: string; label: string; type: any }> = [
-    { id: 'graphics', label: 'Graphics', type: 'graphics' },
-    { id: 'video', label: 'Video', type: 'video' },
-    { id: 'expert', label: 'Expert', type: 'expert' },
-    { id: 'audio', label: 'Voice Over', type: 'audio' },
-    { id: 'music', label: 'Music', type: 'music' },
-    { id: 'sfx', label: 'SFX', type: 'sfx' },
-  ];
+  // Editing: a drag shows its result as a draft and commits it to the history on release
+  const [draft, setDraft] = useState<TimelineItem[] | null>(null);
+  const draftRef = useRef<TimelineItem[] | null>(null);
+  const [snapLine, setSnapLine] = useState<number | null>(null);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [trimMode, setTrimMode] = useState<TrimMode>('trim');
+  const [snapping, setSnapping] = useState(true);
+  const [zoom, setZoom] = useState(ZOOM_LEVELS.indexOf(10));
+  const scrollRef = useRef<HTMLDivElement>(null);
+
+  const canEdit = !editDenial;
+  const shown = draft || items;
+  const pixelsPerSecond = ZOOM_LEVELS[zoom];
+  const duration = timelineDuration(items);
+  const durationRef = useRef(duration);
+  durationRef.current = duration;
+  const markers = beatMarkers(items, approved.script);
+  const timelineWidth = (Math.max(timelineDuration(shown), currentTime) + 60) * pixelsPerSecond;
+  const rulerStep = RULER_STEPS.find(step => step * pixelsPerSecond >= 60) || RULER_STEPS[RULER_STEPS.length - 1];
+
+  // The first track of each type always has a row, so there is somewhere to see it's empty
+  const tracks = TRACK_ORDER.flatMap(type => [...new Set([0, ...shown.filter(item => item.track_type === type).map(item => item.track_index)])]
+    .sort((a, b) => a - b)
+    .map(index => ({ track_type: type, track_index: index, key: trackKey({ track_type: type, track_index: index }) })));
 
-  const pixelsPerSecond = 10;
-  const maxDuration = 300; // 5 mins for mock
+  // Lock and mute are saved on the project, so they outlast a reload and everyone sees the same
+  const trackStates = project.timeline_tracks || {};
+  const isLocked = (track: TrackRef) => Boolean(trackStates[trackKey(track)]?.locked);
+  const isMuted = (track: TrackRef) => Boolean(trackStates[trackKey(track)]?.muted);
+  const toggleTrack = (track: TrackRef, key: keyof TimelineTrackState) => {
+    if (!canEdit) return;
+    const id = trackKey(track);
+    onUpdateProject({ timeline_tracks: { ...trackStates, [id]: { ...trackStates[id], [key]: !trackStates[id]?.[key] } } });
+  };
+  // Muted tracks stay out of the exports, as they would from an editing application
+  // An EDL has no way to switch a track off, so it leaves muted tracks out; the others write them disabled
+  const exportItems = items.filter(item => !isMuted(item));
+  const mutedTracks = tracks.filter(track => isMuted(track) && items.some(item => trackKey(item) === track.key));
+  const muted = Object.keys(trackStates).filter(key => trackStates[key]?.muted);
+  const pictureTracks = tracks.filter(track => track.track_type !== 'audio' && track.track_type !== 'music' && track.track_type !== 'sfx');
+  const edlAudioLeftOut = timelineTracks(exportItems).filter(track => track.kind === 'audio').slice(EDL_AUDIO_CHANNELS.length);
 
   const togglePlay = () => {
       if (isPlaying) {
           setIsPlaying(false);
           if (requestRef.current) cancelAnimationFrame(requestRef.current);
       } else {
+          const from = currentTime >= duration ? 0 : currentTime;
           setIsPlaying(true);
-          startTimeRef.current = performance.now() - (currentTime * 1000);
+          setCurrentTime(from);
+          startTimeRef.current = performance.now() - (from * 1000);
           requestRef.current = requestAnimationFrame(animate);
       }
   };
 
   const animate = (time: number) => {
       const elapsed = (time - startTimeRef.current) / 1000;
-      if (elapsed > maxDuration) {
+      if (elapsed > durationRef.current) {
           setIsPlaying(false);
-          setCurrentTime(maxDuration);
+          setCurrentTime(durationRef.current);
       } else {
           setCurrentTime(elapsed);
           requestRef.current = requestAnimationFrame(animate);
       }
   };
 
+  const seek = (seconds: number) => {
+      const to = Math.max(0, seconds);
+      setCurrentTime(to);
+      startTimeRef.current = performance.now() - (to * 1000);
+  };
+
+  const stopAt = (seconds: number) => {
+      setIsPlaying(false);
+      if (requestRef.current) cancelAnimationFrame(requestRef.current);
+      seek(seconds);
+  };
+
   useEffect(() => {
       return () => {
           if (requestRef.current) cancelAnimationFrame(requestRef.current);
       }
   }, []);
 
-  const formatTimecode = (seconds: number) => {
-      const h = Math.floor(seconds / 3600);
-      const m = Math.floor((seconds % 3600) / 60);
-      const s = Math.floor(seconds % 60);
-      const f = Math.floor((seconds % 1) * 24); // 24fps
-      return `${h.toString().padStart(2, '0')}:${m.toString().padStart(2, '0')}:${s.toString().padStart(2, '0')}:${f.toString().padStart(2, '0')}`;
+  const zoomBy = (steps: number) => setZoom(z => Math.min(ZOOM_LEVELS.length - 1, Math.max(0, z + steps)));
+
+  // The closest zoom that shows the whole timeline
+  const zoomToFit = () => {
+    const width = (scrollRef.current?.clientWidth || 1000) - LABEL_WIDTH - 40;
+    const fits = ZOOM_LEVELS.filter(level => duration * level <= width);
+    setZoom(fits.length > 0 ? ZOOM_LEVELS.indexOf(fits[fits.length - 1]) : 0);
   };
 
-  const exportEDL = () => {
-    const edl = `TITLE: ${project.title}\nFCM: NON-DROP FRAME\n\n001  AX  V  C  00:00:00:00 00:00:15:00 00:00:00:00 00:00:15:00\n* FROM CLIP NAME: Stock_Floor_1995.mp4`;
-    const blob = new Blob([edl], { type: 'text/plain' });
-    const url = URL.createObjectURL(blob);
+  // Item edges, beats and the playhead pull a dragged edge in when it comes within a few pixels
+  const snapTargets = (exclude: Set<string>) => [
+    0,
+    currentTime,
+    ...markers.map(marker => marker.start),
+    ...items.filter(item => !exclude.has(item.id)).flatMap(item => [item.start_time, item.start_time + item.duration]),
+  ];
+
+  const startDrag = (e: React.PointerEvent, item: TimelineItem, kind: Drag['kind']) => {
+    e.stopPropagation();
+    if (!canEdit || isLocked(item)) return;
+    const additive = e.shiftKey || e.metaKey || e.ctrlKey;
+    let selection = selected;
+    if (additive) {
+      selection = new Set(selected);
+      if (selection.has(item.id)) selection.delete(item.id);
+      else selection.add(item.id);
+    } else if (!selected.has(item.id) || kind !== 'move') {
+      selection = new Set([item.id]);
+    }
+    setSelected(selection);
+    if (!selection.has(item.id)) return;
+
+    const ids = kind === 'move'
+      ? new Set(items.filter(i => selection.has(i.id) && !isLocked(i)).map(i => i.id))
+      : new Set([item.id]);
+    const drag: Drag = { kind, id: item.id, ids, x: e.clientX, base: items };
+    const targets = snapTargets(ids);
+    const media = { clips, voiceOvers, plans };
+    const edit = (delta: number) => (drag.kind === 'move'
+      ? moveItems(drag.base, drag.ids, delta)
+      : trimItem(drag.base, drag.id, drag.kind, delta, trimMode, media));
+    // The edges that move: both for a move, otherwise the trimmed one (a ripple keeps the start where it is)
+    const movingEdges = (next: TimelineItem[]) => next.filter(i => drag.ids.has(i.id)).flatMap(i => {
+      const end = i.start_time + i.duration;
+      if (drag.kind === 'move') return [i.start_time, end];
+      return drag.kind === 'start' && trimMode !== 'ripple' ? [i.start_time] : [end];
+    });
+
+    const onMove = (move: PointerEvent) => {
+      const delta = (move.clientX - drag.x) / pixelsPerSecond;
+      let next = edit(delta);
+      let line: number | null = null;
+      // Alt holds snapping off for the moment
+      if (snapping && !move.altKey) {
+        const snap = snapShift(movingEdges(next), targets, SNAP_PIXELS / pixelsPerSecond);
+        if (snap.target !== undefined) {
+          next = edit(delta + snap.shift);
+          line = snap.target;
+        }
+      }
+      draftRef.current = next;
+      setDraft(next);
+      setSnapLine(line);
+    };
+    const onUp = () => {
+      window.removeEventListener('pointermove', onMove);
+      window.removeEventListener('pointerup', onUp);
+      if (draftRef.current) history.commit(draftRef.current);
+      draftRef.current = null;
+      setDraft(null);
+      setSnapLine(null);
+    };
+    window.addEventListener('pointermove', onMove);
+    window.addEventListener('pointerup', onUp);
+  };
+
+  const deleteSelected = () => {
+    const ids = new Set(items.filter(item => selected.has(item.id) && !isLocked(item)).map(item => item.id));
+    if (ids.size === 0) return;
+    history.commit(removeItems(items, ids, trimMode === 'ripple'));
+    setSelected(new Set());
+  };
+
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement | null;
+      if (target?.closest?.('input, textarea, select, [contenteditable="true"]') || roughCut || otioImport) return;
+      const mod = e.metaKey || e.ctrlKey;
+      if (mod && canEdit && e.key.toLowerCase() === 'z') {
+        e.preventDefault();
+        if (e.shiftKey) history.redo();
+        else history.undo();
+      } else if (mod && canEdit && e.key.toLowerCase() === 'y') {
+        e.preventDefault();
+        history.redo();
+      } else if ((e.key === 'Delete' || e.key === 'Backspace') && canEdit && selected.size > 0) {
+        e.preventDefault();
+        deleteSelected();
+      } else if (e.key === 'Escape') {
+        setSelected(new Set());
+      } else if (!mod && (e.key === '=' || e.key === '+')) {
+        zoomBy(1);
+      } else if (!mod && e.key === '-') {
+        zoomBy(-1);
+      }
+    };
+    window.addEventListener('keydown', onKey);
+    return () => window.removeEventListener('keydown', onKey);
+  });
+
+  const formatTimecode = (seconds: number) => secondsToTimecode(seconds, timecodeFormat);
+
+  const download = (content: string, filename: string, type: string) => {
+    const url = URL.createObjectURL(new Blob([content], { type }));
     const a = document.createElement('a');
     a.href = url;
-    a.download = 'timeline.edl';
+    a.download = filename;
     a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const fileBase = project.title.replace(/[^\w-]+/g, '_') || 'timeline';
+
+  const exportEDL = () => {
+    const edl = buildEdl(exportItems, { clips, voiceOvers, plans }, { title: project.title, pictureTrack, ...timecodeFormat });
+    download(edl, `${fileBase}_${pictureTrack.replace(':', '_')}.edl`, 'text/plain');
+    setShowExport(false);
+  };
+
+  // FCPXML and Premiere XML keep every track, with the script's beats as markers
+  const exportXML = (kind: 'fcpxml' | 'xmeml') => {
+    const options = { title: project.title, markers: beatMarkers(exportItems, approved.script), muted, ...timecodeFormat };
+    const media = { clips, voiceOvers, plans };
+    if (kind === 'fcpxml') download(buildFcpxml(items, media, options), `${fileBase}.fcpxml`, 'application/xml');
+    else download(buildXmeml(items, media, options), `${fileBase}.xml`, 'application/xml');
+    setShowExport(false);
+  };
+
+  const exportOTIO = () => {
+    const otio = buildOtio(items, { clips, voiceOvers, plans }, { title: project.title, markers: beatMarkers(exportItems, approved.script), muted, ...timecodeFormat });
+    download(otio, `${fileBase}.otio`, 'application/json');
+    setShowExport(false);
+  };
+
+  // An edited .otio comes back as a proposed timeline, applied once the user has seen what matched
+  const handleOtioFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setImportError('');
+    try {
+      setOtioImport(parseOtio(await file.text(), items, { clips, voiceOvers, plans }, project.id));
+    } catch (error) {
+      setImportError(error instanceof Error ? error.message : 'Could not read the file');
+    }
+  };
+
+  // Locked tracks stay as they are when the timeline is replaced: nothing lands on them, and nothing on them goes
+  const lockedItems = items.filter(item => isLocked(item));
+  const keepLocked = (incoming: TimelineItem[], kept: TimelineItem[]) => {
+    const keptIds = new Set(kept.map(item => item.id));
+    return [...incoming.filter(item => !isLocked(item) && !keptIds.has(item.id)), ...kept];
+  };
+  const importRemoved = otioImport ? otioImport.removed.filter(item => !isLocked(item)) : [];
+
+  const applyOtioImport = () => {
+    if (!otioImport) return;
+    history.commit(keepLocked(otioImport.items, lockedItems));
+    setOtioImport(null);
+  };
+
+  // Music and effects aren't in the script, so an assembly keeps whatever is on those tracks
+  const keptOnAssembly = items.filter(item => item.track_type === 'music' || item.track_type === 'sfx' || isLocked(item));
+
+  const autoAssemble = () => {
+    if (approved.script) setRoughCut(assembleRoughCut(approved.script, { clips, voiceOvers, plans }, project.id));
   };
 
+  const applyRoughCut = () => {
+    if (!roughCut) return;
+    history.commit(keepLocked(roughCut.items, keptOnAssembly));
+    setRoughCut(null);
+  };
+
+  const importCounts: Record<string, number> = {};
+  if (otioImport) Object.keys(otioImport.matches).forEach(id => {
+    const match = otioImport.matches[id];
+    importCounts[match] = (importCounts[match] || 0) + 1;
+  });
+
   return (
     <div className="animate-in fade-in slide-in-from-bottom-4 duration-500 flex flex-col h-full">
       <div className="flex justify-between items-center mb-8">
@@ -86,80 +358,342 @@ const AssemblyPhase: React.FC<AssemblyPhaseProps> = ({ project, onAdvance }) =>
           <p className="text-gray-500">Professional NLE Sequence Mapping.</p>
         </div>
         <div className="flex gap-4">
-          <button 
-            onClick={exportEDL}
-            className="bg-[#222] hover:bg-[#333] text-white font-bold px-6 py-2 rounded flex items-center gap-2"
+          <button
+            onClick={autoAssemble}
+            disabled={Boolean(editDenial) || !approved.script}
+            title={editDenial || (approved.script ? 'Lay out a rough cut from the approved script' : 'Needs an approved script')}
+            className="bg-[#222] hover:bg-[#333] disabled:opacity-40 text-white font-bold px-6 py-2 rounded flex items-center gap-2"
           >
-            EXPORT EDL/XML
+            AUTO-ASSEMBLE
           </button>
+          <button
+            onClick={() => otioInputRef.current?.click()}
+            disabled={Boolean(editDenial)}
+            title={editDenial || 'Bring back a timeline edited in another application'}
+            className="bg-[#222] hover:bg-[#333] disabled:opacity-40 text-white font-bold px-6 py-2 rounded flex items-center gap-2"
+          >
+            IMPORT OTIO
+          </button>
+          <input ref={otioInputRef} type="file" accept=".otio,application/json" className="hidden" onChange={handleOtioFile} />
+          <div className="relative">
+            <button 
+              onClick={() => setShowExport(!showExport)}
+              className="bg-[#222] hover:bg-[#333] text-white font-bold px-6 py-2 rounded flex items-center gap-2"
+            >
+              EXPORT EDL/XML
+            </button>
+            {showExport && (
+              <div className="absolute right-0 mt-2 w-72 bg-[#1a1a1a] border border-[#333] rounded-xl p-4 shadow-2xl z-[60] space-y-3 animate-in fade-in">
+                {mutedTracks.length > 0 && (
+                  <div className="text-[10px] text-red-300 bg-red-900/20 border border-red-900/50 rounded px-2 py-1.5">
+                    Muted: {mutedTracks.map(track => trackName(track)).join(', ')}. Left out of the EDL, and disabled in XML and OTIO.
+                  </div>
+                )}
+                <label className="block">
+                  <span className="text-[9px] font-bold uppercase text-gray-500">Frame Rate</span>
+                  <select
+                    value={timecodeFormat.rate}
+                    onChange={e => setTimecodeFormat({ rate: e.target.value as FrameRate, dropFrame: e.target.value === '29.97' && timecodeFormat.dropFrame })}
+                    className="w-full mt-1 bg-[#0a0a0a] border border-[#333] rounded px-2 py-1 text-xs text-white outline-none"
+                  >
+                    {(Object.keys(FRAME_RATES) as FrameRate[]).map(rate => (
+                      <option key={rate} value={rate}>{FRAME_RATES[rate].label}</option>
+                    ))}
+                  </select>
+                </label>
+                {timecodeFormat.rate === '29.97' && (
+                  <label className="flex items-center gap-2 text-xs text-gray-300">
+                    <input
+                      type="checkbox"
+                      checked={timecodeFormat.dropFrame}
+                      onChange={e => setTimecodeFormat({ ...timecodeFormat, dropFrame: e.target.checked })}
+                    />
+                    Drop-frame timecode
+                  </label>
+                )}
+                <label className="block">
+                  <span className="text-[9px] font-bold uppercase text-gray-500">Picture Track (EDL)</span>
+                  <select
+                    value={pictureTrack}
+                    onChange={e => setPictureTrack(e.target.value as EdlPictureTrack)}
+                    className="w-full mt-1 bg-[#0a0a0a] border border-[#333] rounded px-2 py-1 text-xs text-white outline-none"
+                  >
+                    {pictureTracks.map(track => <option key={track.key} value={track.key}>{trackName(track)}</option>)}
+                  </select>
+                  <span className="block text-[9px] text-gray-600 mt-1">
+                    An EDL holds one picture track, and the first four audio tracks go on A to A4.
+                    {edlAudioLeftOut.length > 0 && ` Left out: ${edlAudioLeftOut.map(track => track.name).join(', ')}.`}
+                  </span>
+                </label>
+                <button
+                  onClick={exportEDL}
+                  disabled={exportItems.length === 0}
+                  className="w-full bg-white text-black text-[10px] font-bold uppercase py-2 rounded disabled:opacity-40"
+                >
+                  Download CMX3600 EDL
+                </button>
+                <div className="border-t border-[#333] pt-3 space-y-2">
+                  <span className="block text-[9px] text-gray-600">All tracks, with script beats as markers:</span>
+                  <div className="flex gap-2">
+                    <button
+                      onClick={() => exportXML('fcpxml')}
+                      disabled={items.length === 0}
+                      className="flex-1 bg-[#222] hover:bg-[#333] text-white text-[10px] font-bold uppercase py-2 rounded disabled:opacity-40"
+                      title="Final Cut Pro and DaVinci Resolve"
+                    >
+                      FCPXML
+                    </button>
+                    <button
+                      onClick={() => exportXML('xmeml')}
+                      disabled={items.length === 0}
+                      className="flex-1 bg-[#222] hover:bg-[#333] text-white text-[10px] font-bold uppercase py-2 rounded disabled:opacity-40"
+                      title="Adobe Premiere Pro (Final Cut 7 XML)"
+                    >
+                      Premiere XML
+                    </button>
+                    <button
+                      onClick={exportOTIO}
+                      disabled={items.length === 0}
+                      className="flex-1 bg-[#222] hover:bg-[#333] text-white text-[10px] font-bold uppercase py-2 rounded disabled:opacity-40"
+                      title="OpenTimelineIO, for any editor with an OTIO adapter"
+                    >
+                      OTIO
+                    </button>
+                  </div>
+                </div>
+              </div>
+            )}
+          </div>
           <button onClick={onAdvance} className="bg-white text-black font-bold px-6 py-2 rounded flex items-center gap-2">
             FINAL REVIEW <span className="text-xl">→</span>
           </button>
         </div>
       </div>
 
-      <div className="flex-1 bg-[#111] border border-[#222] rounded-2xl overflow-hidden flex flex-col relative">
-        {/* Playhead Line */}
-        <div 
-            className="absolute top-0 bottom-16 w-0.5 bg-red-500 z-50 pointer-events-none transition-transform duration-75 ease-linear"
-            style={{ left: `${currentTime * pixelsPerSecond}px` }}
-        >
-            <div className="w-3 h-3 bg-red-500 -ml-1.5 rotate-45 transform -mt-1.5"></div>
+      <PermissionNotice reason={editDenial} />
+      <ApprovedScriptNotice approved={approved} />
+
+      {importError && (
+        <div className="mb-4 px-4 py-2 rounded-lg border border-red-500/30 bg-red-500/10 text-xs text-red-400 flex justify-between">
+          <span>OTIO import failed: {importError}</span>
+          <button onClick={() => setImportError('')} className="text-gray-500 hover:text-white">✕</button>
         </div>
+      )}
 
-        {/* Timeline Ruler */}
-        <div className="h-8 border-b border-[#222] bg-[#1a1a1a] flex relative font-mono text-[9px] text-gray-600 overflow-hidden">
-           <div className="absolute inset-0" style={{ transform: `translateX(${-currentTime * pixelsPerSecond + (currentTime > 0 ? 100 : 0)}px)` }}> 
-              {/* Note: Ideally we scroll the timeline container, but for this mock we just move playhead mostly */}
-               {Array.from({ length: 100 }).map((_, i) => (
-                <div key={i} className="absolute h-full border-r border-[#333] px-1" style={{ left: `${i * 10 * pixelsPerSecond}px` }}>
-                  00:{i * 10}:00
-                </div>
-              ))}
-           </div>
+      {roughCut && (
+        <div className="fixed inset-0 bg-black/80 backdrop-blur-sm z-[70] flex items-center justify-center p-4">
+          <div className="bg-[#1a1a1a] border border-[#333] w-full max-w-lg max-h-[80vh] flex flex-col p-6 rounded-2xl shadow-2xl animate-in fade-in">
+            <h3 className="text-xl font-bold text-white mb-1">Rough Cut</h3>
+            <p className="text-xs text-gray-500 mb-4">
+              {roughCut.items.length} items, {formatTimecode(roughCut.duration)} long, from approved version {approved.version?.version_number}.
+              {items.length > 0 && ` This replaces the timeline${keptOnAssembly.length > 0 ? ', keeping music, SFX and locked tracks' : ''}.`}
+            </p>
+            <div className="flex-1 overflow-y-auto custom-scrollbar space-y-4 mb-4">
+              <div>
+                <h4 className="text-[10px] font-bold uppercase tracking-widest text-gray-500 mb-2">Beats Without Coverage ({roughCut.uncovered.length})</h4>
+                {roughCut.uncovered.length === 0 ? (
+                  <p className="text-xs text-green-500">Every beat has its media.</p>
+                ) : (
+                  <ul className="space-y-2">
+                    {roughCut.uncovered.map(beat => (
+                      <li key={beat.beat_id} className="text-xs border-l-2 border-yellow-500/50 pl-2">
+                        <span className="font-bold text-yellow-500">{UNCOVERED_REASONS[beat.reason]}</span>
+                        <span className="text-gray-500"> · {beat.context}</span>
+                        {beat.excerpt && <p className="text-gray-400 truncate">{beat.excerpt}</p>}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+              <div>
+                <h4 className="text-[10px] font-bold uppercase tracking-widest text-gray-500 mb-2">Picture Gaps ({roughCut.gaps.length})</h4>
+                {roughCut.gaps.length === 0 ? (
+                  <p className="text-xs text-green-500">There is picture all the way through.</p>
+                ) : (
+                  <ul className="space-y-1 font-mono text-[10px] text-gray-400">
+                    {roughCut.gaps.map(gap => (
+                      <li key={gap.start}>{formatTimecode(gap.start)} – {formatTimecode(gap.end)}</li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            </div>
+            <div className="flex justify-between">
+              <button onClick={() => setRoughCut(null)} className="text-xs font-bold text-gray-500 hover:text-white uppercase tracking-widest">Cancel</button>
+              <button onClick={applyRoughCut} className="bg-white text-black font-bold px-6 py-2 rounded text-xs uppercase tracking-widest">
+                {items.length > 0 ? 'Replace Timeline' : 'Use Rough Cut'}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {otioImport && (
+        <div className="fixed inset-0 bg-black/80 backdrop-blur-sm z-[70] flex items-center justify-center p-4">
+          <div className="bg-[#1a1a1a] border border-[#333] w-full max-w-md p-6 rounded-2xl shadow-2xl animate-in fade-in">
+            <h3 className="text-xl font-bold text-white mb-1">Import Edited Timeline</h3>
+            <p className="text-xs text-gray-500 mb-4">{otioImport.items.length} clips read. This replaces the current timeline.</p>
+            <ul className="space-y-1 text-xs text-gray-300 mb-4">
+              {importCounts.item > 0 && <li>✓ {importCounts.item} matched to their timeline items</li>}
+              {importCounts.media > 0 && <li>✓ {importCounts.media} matched to project media by file</li>}
+              {importCounts.name > 0 && <li>≈ {importCounts.name} matched by name only</li>}
+              {importCounts.new > 0 && <li className="text-yellow-500">+ {importCounts.new} new, with no project source or script beat</li>}
+              {importRemoved.length > 0 && (
+                <li className="text-red-400" title={importRemoved.map(i => i.label || i.id).join(', ')}>
+                  − {importRemoved.length} timeline items are no longer in the edit
+                </li>
+              )}
+              {lockedItems.length > 0 && <li className="text-gray-500">= {lockedItems.length} items on locked tracks are kept as they are</li>}
+            </ul>
+            <p className="text-[10px] text-gray-600 mb-4">Items keep their script beats, so moved or cut beats are flagged on the timeline afterwards.</p>
+            <div className="flex justify-between">
+              <button onClick={() => setOtioImport(null)} className="text-xs font-bold text-gray-500 hover:text-white uppercase tracking-widest">Cancel</button>
+              <button onClick={applyOtioImport} className="bg-white text-black font-bold px-6 py-2 rounded text-xs uppercase tracking-widest">Replace Timeline</button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      <div className="flex-1 bg-[#111] border border-[#222] rounded-2xl overflow-hidden flex flex-col relative">
+        {/* Edit Toolbar */}
+        <div className="h-11 px-4 bg-[#151515] border-b border-[#222] flex items-center gap-4 text-[10px] font-bold uppercase tracking-widest z-30">
+          <div className="flex rounded overflow-hidden border border-[#333]">
+            {TRIM_MODES.map(mode => (
+              <button
+                key={mode.id}
+                onClick={() => setTrimMode(mode.id)}
+                title={mode.hint}
+                className={`px-3 py-1 ${trimMode === mode.id ? 'bg-white text-black' : 'text-gray-500 hover:text-white'}`}
+              >
+                {mode.label}
+              </button>
+            ))}
+          </div>
+          <button
+            onClick={() => setSnapping(!snapping)}
+            title="Edges snap to beats, the playhead and other items. Hold Alt while dragging to place freely."
+            className={snapping ? 'text-purple-400' : 'text-gray-600 hover:text-white'}
+          >
+            Snap {snapping ? 'On' : 'Off'}
+          </button>
+          <button onClick={history.undo} disabled={!canEdit || !history.canUndo} className="text-gray-400 hover:text-white disabled:opacity-30" title="Undo (Ctrl+Z)">↶ Undo</button>
+          <button onClick={history.redo} disabled={!canEdit || !history.canRedo} className="text-gray-400 hover:text-white disabled:opacity-30" title="Redo (Ctrl+Shift+Z)">↷ Redo</button>
+          <button onClick={deleteSelected} disabled={!canEdit || selected.size === 0} className="text-gray-400 hover:text-red-400 disabled:opacity-30" title={trimMode === 'ripple' ? 'Delete and close the gap (Delete)' : 'Delete (Delete)'}>
+            Delete{selected.size > 1 ? ` ${selected.size}` : ''}
+          </button>
+          <div className="ml-auto flex items-center gap-3 text-gray-500">
+            <span className="font-mono normal-case tracking-normal" title="Timeline duration">{formatTimecode(duration)}</span>
+            <button onClick={() => zoomBy(-1)} disabled={zoom === 0} className="w-6 h-6 rounded bg-[#222] hover:bg-[#333] text-white disabled:opacity-30" title="Zoom out (-)">−</button>
+            <button onClick={() => zoomBy(1)} disabled={zoom === ZOOM_LEVELS.length - 1} className="w-6 h-6 rounded bg-[#222] hover:bg-[#333] text-white disabled:opacity-30" title="Zoom in (+)">+</button>
+            <button onClick={zoomToFit} disabled={duration === 0} className="hover:text-white disabled:opacity-30">Fit</button>
+          </div>
         </div>
 
         {/* Tracks Area */}
-        <div className="flex-1 overflow-auto custom-scrollbar relative">
-          <div className="min-w-[2000px]">
+        <div ref={scrollRef} className="flex-1 overflow-auto custom-scrollbar relative">
+          {isLoaded && items.length === 0 && (
+            <div className="absolute inset-0 z-20 flex items-center justify-center pointer-events-none">
+              <p className="text-xs text-gray-600">
+                {approved.script ? 'The timeline is empty. Auto-assemble lays out a rough cut from the approved script.' : 'The timeline is empty.'}
+              </p>
+            </div>
+          )}
+          <div className="relative min-w-full" style={{ width: `${LABEL_WIDTH + timelineWidth}px` }}>
+            {/* Timeline Ruler */}
+            <div className="h-8 sticky top-0 z-30 flex border-b border-[#222] bg-[#1a1a1a] font-mono text-[9px] text-gray-600">
+              <div className="w-48 shrink-0 sticky left-0 z-10 bg-[#1a1a1a] border-r border-[#222]" />
+              <div className="relative flex-1 cursor-pointer" onPointerDown={e => seek((e.clientX - e.currentTarget.getBoundingClientRect().left) / pixelsPerSecond)}>
+                {Array.from({ length: Math.ceil(timelineWidth / pixelsPerSecond / rulerStep) }).map((_, i) => (
+                  <div key={i} className="absolute h-full border-l border-[#333] pl-1 pointer-events-none" style={{ left: `${i * rulerStep * pixelsPerSecond}px` }}>
+                    {rulerLabel(i * rulerStep)}
+                  </div>
+                ))}
+                {markers.map(marker => (
+                  <div key={`${marker.start}-${marker.name}`} title={marker.name} className="absolute bottom-0 h-3 w-0.5 bg-purple-500" style={{ left: `${marker.start * pixelsPerSecond}px` }} />
+                ))}
+              </div>
+            </div>
+
             {tracks.map(track => (
-              <div key={track.id} className="h-16 border-b border-[#222] flex relative group">
+              <div key={track.key} className="h-16 border-b border-[#222] flex relative group">
                 {/* Track Label */}
-                <div className="w-48 bg-[#151515] border-r border-[#222] sticky left-0 z-10 flex items-center px-4 font-bold text-[10px] uppercase tracking-widest text-gray-500 shadow-xl">
-                  {track.label}
+                <div className="w-48 shrink-0 bg-[#151515] border-r border-[#222] sticky left-0 z-10 flex items-center justify-between px-4 font-bold text-[10px] uppercase tracking-widest text-gray-500 shadow-xl">
+                  <span className={isMuted(track) ? 'line-through text-gray-700' : ''}>{trackName(track)}</span>
+                  <div className="flex gap-1">
+                    <button
+                      onClick={() => toggleTrack(track, 'locked')}
+                      disabled={!canEdit}
+                      title={isLocked(track) ? 'Unlock track' : 'Lock track'}
+                      className={`w-5 h-5 rounded text-[9px] ${isLocked(track) ? 'bg-yellow-600 text-black' : 'bg-[#222] text-gray-500 hover:text-white'}`}
+                    >
+                      L
+                    </button>
+                    <button
+                      onClick={() => toggleTrack(track, 'muted')}
+                      disabled={!canEdit}
+                      title={isMuted(track) ? 'Unmute track' : 'Mute track (disabled in exports)'}
+                      className={`w-5 h-5 rounded text-[9px] ${isMuted(track) ? 'bg-red-600 text-white' : 'bg-[#222] text-gray-500 hover:text-white'}`}
+                    >
+                      M
+                    </button>
+                  </div>
                 </div>
                 {/* Items in track */}
-                <div className="relative flex-1">
-                  {items.filter(item => item.track_type === track.type).map(item => (
-                    <div 
-                      key={item.id}
-                      className={`absolute h-10 top-3 rounded px-3 flex items-center shadow-lg border border-white/10 ${item.color} cursor-pointer hover:brightness-110 transition group`}
-                      style={{ 
-                        left: `${item.start_time * pixelsPerSecond}px`, 
-                        width: `${item.duration * pixelsPerSecond}px` 
-                      }}
-                    >
-                      <span className="text-[10px] font-bold text-white truncate drop-shadow-md">{item.label}</span>
-                      <div className="absolute right-0 top-0 bottom-0 w-1 bg-white/20 opacity-0 group-hover:opacity-100 cursor-ew-resize" />
-                    </div>
-                  ))}
+                <div className={`relative flex-1 ${isLocked(track) ? 'bg-[repeating-linear-gradient(45deg,transparent,transparent_8px,#ffffff05_8px,#ffffff05_16px)]' : ''}`} onPointerDown={() => setSelected(new Set())}>
+                  {shown.filter(item => trackKey(item) === track.key).map(item => {
+                    const flag = itemFlag(item);
+                    const editable = canEdit && !isLocked(track);
+                    return (
+                      <div 
+                        key={item.id}
+                        title={flag || item.label}
+                        onPointerDown={e => startDrag(e, item, 'move')}
+                        className={`absolute h-10 top-3 rounded px-3 flex items-center shadow-lg border ${flag ? 'border-yellow-400 border-dashed' : 'border-white/10'} ${selected.has(item.id) ? 'ring-2 ring-white z-10' : ''} ${item.color} ${editable ? 'cursor-grab active:cursor-grabbing' : 'cursor-default'} ${isMuted(track) ? 'opacity-30' : ''} hover:brightness-110 select-none touch-none group`}
+                        style={{ 
+                          left: `${item.start_time * pixelsPerSecond}px`, 
+                          width: `${Math.max(2, item.duration * pixelsPerSecond)}px` 
+                        }}
+                      >
+                        <span className="text-[10px] font-bold text-white truncate drop-shadow-md">{flag && '⚠ '}{item.label}</span>
+                        {editable && (
+                          <>
+                            <div onPointerDown={e => startDrag(e, item, 'start')} className="absolute left-0 top-0 bottom-0 w-1.5 rounded-l bg-white/30 opacity-0 group-hover:opacity-100 cursor-ew-resize" />
+                            <div onPointerDown={e => startDrag(e, item, 'end')} className="absolute right-0 top-0 bottom-0 w-1.5 rounded-r bg-white/30 opacity-0 group-hover:opacity-100 cursor-ew-resize" />
+                          </>
+                        )}
+                      </div>
+                    );
+                  })}
                 </div>
               </div>
             ))}
+
+            {/* Snap Line */}
+            {snapLine !== null && (
+              <div className="absolute top-8 bottom-0 w-px bg-purple-400 z-40 pointer-events-none" style={{ left: `${LABEL_WIDTH + snapLine * pixelsPerSecond}px` }} />
+            )}
+
+            {/* Playhead Line */}
+            <div 
+                className="absolute top-0 bottom-0 w-0.5 bg-red-500 z-40 pointer-events-none"
+                style={{ left: `${LABEL_WIDTH + currentTime * pixelsPerSecond}px` }}
+            >
+                <div className="w-3 h-3 bg-red-500 -ml-1.5 rotate-45 transform -mt-1.5"></div>
+            </div>
           </div>
         </div>
 
         {/* Playback Controls Footer */}
         <div className="p-4 bg-[#151515] border-t border-[#222] flex items-center justify-between z-20 relative">
           <div className="flex items-center gap-6">
-            <button className="text-xl hover:text-white text-gray-400" onClick={() => { setCurrentTime(0); setIsPlaying(false); }}>⏮</button>
+            <button className="text-xl hover:text-white text-gray-400" onClick={() => stopAt(0)}>⏮</button>
             <button 
                 onClick={togglePlay}
                 className="text-3xl bg-red-600 hover:bg-red-700 w-12 h-12 rounded-full flex items-center justify-center pl-1 shadow-lg shadow-red-900/40 transition active:scale-95"
             >
                 {isPlaying ? '⏸' : '▶'}
             </button>
-            <button className="text-xl hover:text-white text-gray-400">⏭</button>
+            <button className="text-xl hover:text-white text-gray-400" onClick={() => stopAt(duration)}>⏭</button>
             <div className="text-xl font-mono tracking-tighter text-red-500 w-32">
               {formatTimecode(currentTime)}
             </div>
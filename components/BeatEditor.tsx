@@ -0,0 +1,215 @@
+import React, { useEffect, useLayoutEffect, useRef, useState } from 'react';
+import { CommentAnchor, ScriptCursor } from '../types';
+import { diffText, sanitizeBeatHtml } from '../lib/collab';
+import { locateAnchor } from '../lib/scriptComments';
+
+interface BeatEditorProps {
+  html: string;
+  editable: boolean;
+  title?: string;
+  cursors: ScriptCursor[]; // Other writers' carets in this beat
+  onChange: (html: string) => void;
+  onCursor: (cursor: { index: number; length: number } | null) => void;
+  // Commented ranges to highlight; the active one is the thread open in the comments panel
+  anchors?: { id: string; anchor: CommentAnchor; active: boolean }[];
+  // Text selected in this beat, to comment on; reported even when the beat isn't editable
+  onSelect?: (anchor: CommentAnchor | null) => void;
+  className?: string;
+}
+
+interface CaretMark {
+  cursor: ScriptCursor;
+  left: number;
+  top: number;
+  height: number;
+}
+
+interface HighlightMark {
+  key: string;
+  active: boolean;
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+// Text offsets ignore markup, so they mean the same thing in every writer's browser
+const textOffset = (root: HTMLElement, node: Node, offset: number) => {
+  const range = document.createRange();
+  range.selectNodeContents(root);
+  range.setEnd(node, offset);
+  return range.toString().length;
+};
+
+const pointAt = (root: HTMLElement, offset: number): { node: Node; offset: number } => {
+  const walker = document.createTreeWalker(root, NodeFilter.SHOW_TEXT);
+  let remaining = offset;
+  let last: Text | null = null;
+  for (let node = walker.nextNode() as Text | null; node; node = walker.nextNode() as Text | null) {
+    if (remaining <= node.length) return { node, offset: remaining };
+    remaining -= node.length;
+    last = node;
+  }
+  return last ? { node: last, offset: last.length } : { node: root, offset: root.childNodes.length };
+};
+
+const selectionIn = (root: HTMLElement) => {
+  const selection = window.getSelection();
+  if (!selection || selection.rangeCount === 0) return null;
+  const range = selection.getRangeAt(0);
+  if (!root.contains(range.startContainer) || !root.contains(range.endContainer)) return null;
+  const start = textOffset(root, range.startContainer, range.startOffset);
+  return { index: start, length: textOffset(root, range.endContainer, range.endOffset) - start };
+};
+
+const select = (root: HTMLElement, index: number, length: number) => {
+  const selection = window.getSelection();
+  if (!selection) return;
+  const start = pointAt(root, index);
+  const end = pointAt(root, index + length);
+  const range = document.createRange();
+  range.setStart(start.node, start.offset);
+  range.setEnd(end.node, end.offset);
+  selection.removeAllRanges();
+  selection.addRange(range);
+};
+
+/**
+ * Rich text editor for one beat of a shared script. Local typing is reported as HTML through
+ * onChange; when the HTML changes underneath (another writer), the markup is replaced and
+ * the caret kept in place. Other writers' carets are drawn with their avatar, and commented
+ * text is highlighted.
+ */
+const BeatEditor: React.FC<BeatEditorProps> = ({ html, editable, title, cursors, onChange, onCursor, anchors = [], onSelect, className }) => {
+  const ref = useRef<HTMLDivElement>(null);
+  const [marks, setMarks] = useState<CaretMark[]>([]);
+  const [highlights, setHighlights] = useState<HighlightMark[]>([]);
+  const cursorRef = useRef(onCursor);
+  cursorRef.current = onCursor;
+  const selectRef = useRef(onSelect);
+  selectRef.current = onSelect;
+  // Parents pass fresh arrays every render; only redraw carets and highlights when they actually move
+  const cursorKey = JSON.stringify(cursors);
+  const anchorKey = JSON.stringify(anchors);
+
+  useLayoutEffect(() => {
+    const root = ref.current;
+    // Other writers' markup is cut down to the editor's formatting before it reaches the page
+    const safe = sanitizeBeatHtml(html);
+    if (!root || root.innerHTML === safe) return;
+    const focused = document.activeElement === root;
+    const before = root.textContent || '';
+    const selection = focused ? selectionIn(root) : null;
+    root.innerHTML = safe;
+    if (!selection) return;
+    // Text inserted or removed ahead of the caret moves it along
+    const change = diffText(before, root.textContent || '');
+    const shift = change.insert.length - change.remove;
+    const index = change.index < selection.index ? Math.max(change.index, selection.index + shift) : selection.index;
+    select(root, index, selection.length);
+  }, [html]);
+
+  useLayoutEffect(() => {
+    const root = ref.current;
+    if (!root || cursors.length === 0) {
+      setMarks([]);
+      return;
+    }
+    const box = root.getBoundingClientRect();
+    setMarks(cursors.map(cursor => {
+      const point = pointAt(root, cursor.index);
+      const range = document.createRange();
+      range.setStart(point.node, point.offset);
+      range.collapse(true);
+      const rect = range.getClientRects()[0] || (point.node as Element).getBoundingClientRect?.() || box;
+      return { cursor, left: rect.left - box.left, top: rect.top - box.top, height: rect.height || 16 };
+    }));
+  }, [cursorKey, html]);
+
+  // Commented ranges, found again by their quote if the text around them has changed
+  useLayoutEffect(() => {
+    const root = ref.current;
+    if (!root || anchors.length === 0) {
+      setHighlights([]);
+      return;
+    }
+    const box = root.getBoundingClientRect();
+    const text = root.textContent || '';
+    setHighlights(anchors.flatMap(({ id, anchor, active }) => {
+      const found = locateAnchor(anchor, text);
+      if (!found) return [];
+      const start = pointAt(root, found.index);
+      const end = pointAt(root, found.index + found.length);
+      const range = document.createRange();
+      range.setStart(start.node, start.offset);
+      range.setEnd(end.node, end.offset);
+      return Array.from(range.getClientRects()).map((rect, i) => ({
+        key: `${id}-${i}`,
+        active,
+        left: rect.left - box.left,
+        top: rect.top - box.top,
+        width: rect.width,
+        height: rect.height,
+      }));
+    }));
+  }, [anchorKey, html]);
+
+  // Report text selected in this beat for commenting; a caret inside it clears the selection
+  useEffect(() => {
+    if (!onSelect) return;
+    const onSelectionChange = () => {
+      const root = ref.current;
+      const selection = root && selectionIn(root);
+      if (!selection) return;
+      const quote = (root.textContent || '').slice(selection.index, selection.index + selection.length);
+      selectRef.current?.(selection.length > 0 && quote.trim() ? { ...selection, quote } : null);
+    };
+    document.addEventListener('selectionchange', onSelectionChange);
+    return () => document.removeEventListener('selectionchange', onSelectionChange);
+  }, [Boolean(onSelect)]);
+
+  // Report the caret while this beat has focus
+  useEffect(() => {
+    if (!editable) return;
+    const onSelectionChange = () => {
+      const root = ref.current;
+      if (root && document.activeElement === root) cursorRef.current(selectionIn(root));
+    };
+    document.addEventListener('selectionchange', onSelectionChange);
+    return () => document.removeEventListener('selectionchange', onSelectionChange);
+  }, [editable]);
+
+  return (
+    <div className="relative">
+      {highlights.map(({ key, active, left, top, width, height }) => (
+        <div
+          key={key}
+          className={`absolute pointer-events-none rounded-sm ${active ? 'bg-yellow-400/40' : 'bg-yellow-400/15 border-b border-yellow-400/60'}`}
+          style={{ left, top, width, height }}
+        />
+      ))}
+      <div
+        ref={ref}
+        contentEditable={editable}
+        suppressContentEditableWarning
+        title={title}
+        onInput={e => onChange(e.currentTarget.innerHTML)}
+        onBlur={() => onCursor(null)}
+        className={className}
+      />
+      {marks.map(({ cursor, left, top, height }) => (
+        <div key={cursor.user_id} className="absolute pointer-events-none" style={{ left, top }}>
+          <div className="w-0.5 bg-yellow-400" style={{ height }} />
+          <img
+            src={cursor.avatar || `https://api.dicebear.com/7.x/avataaars/svg?seed=${encodeURIComponent(cursor.user_id)}`}
+            title={cursor.username}
+            className="absolute -top-4 -left-2 w-4 h-4 rounded-full border border-yellow-400"
+            alt={cursor.username}
+          />
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default BeatEditor;
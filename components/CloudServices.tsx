@@ -7,6 +7,7 @@ const CloudServices: React.FC = () => {
   const [buckets, setBuckets] = useState<GCSBucket[]>([]);
   const [models, setModels] = useState<VertexModelStatus[]>([]);
   const [isLoading, setIsLoading] = useState(true);
+  const [loadError, setLoadError] = useState('');
   const [showCreateBucketModal, setShowCreateBucketModal] = useState(false);
   const [newBucketName, setNewBucketName] = useState('');
   const [newBucketRegion, setNewBucketRegion] = useState('us-central1');
@@ -24,6 +25,7 @@ const CloudServices: React.FC = () => {
         setModels(modelData);
       } catch (error) {
         console.error("Failed to load cloud resources", error);
+        setLoadError(error instanceof Error ? error.message : 'Failed to load cloud resources');
       } finally {
         setIsLoading(false);
       }
@@ -54,8 +56,12 @@ const CloudServices: React.FC = () => {
   };
 
   const handlePurgeCache = async () => {
-    const success = await gcpService.purgeCache();
-    if(success) alert("CDN Cache Purged Successfully");
+    try {
+      const success = await gcpService.purgeCache();
+      if(success) alert("CDN Cache Purged Successfully");
+    } catch (error) {
+      alert(`Cache purge failed: ${error instanceof Error ? error.message : error}`);
+    }
   };
 
   const handleConsoleLogin = () => {
@@ -104,6 +110,7 @@ const CloudServices: React.FC = () => {
             <h2 className="text-4xl font-black text-white italic uppercase tracking-tighter">Cloud Infrastructure</h2>
           </div>
           <p className="text-gray-500">Vertex AI Orchestration & Cloud Storage Management.</p>
+          {loadError && <p className="text-xs text-red-400 mt-2">{loadError}</p>}
         </div>
         <div className="flex gap-4">
           <button 
@@ -1,10 +1,12 @@
 
 import React, { useState } from 'react';
-import { DocumentaryProject, ProjectTemplate, UserProfile } from '../types';
+import { DocumentaryProject, ProjectPresence, ProjectTemplate, UserProfile } from '../types';
+import { describeScope } from '../lib/locks';
 
 interface DashboardProps {
   user: UserProfile;
   projects: DocumentaryProject[];
+  presence: Record<string, ProjectPresence>; // Live locks and viewers per project id
   onSelectProject: (id: string) => void;
   onCreateProject: (title: string, desc: string, templateId?: string) => void;
 }
@@ -15,7 +17,7 @@ const templates: ProjectTemplate[] = [
   { id: 'short-int', name: 'Short Form Interview', description: 'Portrait mode, punchy captions, and single talent.', format: 'short_form' },
 ];
 
-const Dashboard: React.FC<DashboardProps> = ({ user, projects, onSelectProject, onCreateProject }) => {
+const Dashboard: React.FC<DashboardProps> = ({ user, projects, presence, onSelectProject, onCreateProject }) => {
   const [showModal, setShowModal] = useState(false);
   const [newTitle, setNewTitle] = useState('');
   const [newDesc, setNewDesc] = useState('');
@@ -38,7 +40,11 @@ const Dashboard: React.FC<DashboardProps> = ({ user, projects, onSelectProject,
 
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
         {projects.map(proj => {
-          const isLockedByOther = proj.locked_by && proj.locked_by !== user.id;
+          const otherLocks = (presence[proj.id]?.locks || []).filter(l => l.user_id !== user.id);
+          // One avatar per person editing, however many phases or scenes they hold
+          const editors = otherLocks.filter((l, i) => otherLocks.findIndex(o => o.user_id === l.user_id) === i);
+          const isLockedByOther = editors.length > 0;
+          const viewers = (presence[proj.id]?.viewers || []).filter(v => !editors.some(e => e.user_id === v.user_id));
           
           return (
             <div 
@@ -51,10 +57,14 @@ const Dashboard: React.FC<DashboardProps> = ({ user, projects, onSelectProject,
                 }`}
             >
                 {/* Active Editor Badge */}
-                {isLockedByOther && proj.locked_by_avatar && (
-                    <div className="absolute top-4 right-4 flex items-center gap-2 bg-yellow-600/10 border border-yellow-600/30 pl-2 pr-1 py-1 rounded-full z-10">
+                {isLockedByOther && (
+                    <div className="absolute top-4 right-4 flex items-center gap-2 bg-yellow-600/10 border border-yellow-600/30 pl-2 pr-1 py-1 rounded-full z-10" title={otherLocks.map(l => `${l.username} is editing ${describeScope(l)}`).join('\n')}>
                         <span className="text-[9px] font-bold text-yellow-500 uppercase tracking-wide">Editing</span>
-                        <img src={proj.locked_by_avatar} className="w-5 h-5 rounded-full border border-yellow-500" alt="Editor" />
+                        <div className="flex -space-x-1.5">
+                            {editors.slice(0, 3).map(l => (
+                                <img key={l.user_id} src={l.avatar || `https://api.dicebear.com/7.x/avataaars/svg?seed=${encodeURIComponent(l.user_id)}`} className="w-5 h-5 rounded-full border border-yellow-500" alt={l.username} />
+                            ))}
+                        </div>
                     </div>
                 )}
 
@@ -74,6 +84,22 @@ const Dashboard: React.FC<DashboardProps> = ({ user, projects, onSelectProject,
                 <div className="w-full h-1.5 bg-[#222] rounded-full overflow-hidden">
                     <div className="h-full bg-red-600 transition-all duration-1000" style={{ width: `${proj.progress}%` }} />
                 </div>
+                {viewers.length > 0 && (
+                    <div className="flex items-center gap-2">
+                        <div className="flex -space-x-2">
+                            {viewers.slice(0, 4).map(v => (
+                                <img
+                                  key={v.user_id}
+                                  src={v.avatar || `https://api.dicebear.com/7.x/avataaars/svg?seed=${encodeURIComponent(v.user_id)}`}
+                                  title={`${v.username} · ${v.phase.replace('_', ' ')}`}
+                                  className="w-5 h-5 rounded-full border-2 border-[#151515]"
+                                  alt={v.username}
+                                />
+                            ))}
+                        </div>
+                        <span className="text-[9px] text-gray-500 uppercase tracking-wider">{viewers.length} viewing</span>
+                    </div>
+                )}
                 </div>
 
                 {/* Conflict Warning Overlay on Hover */}
@@ -81,7 +107,8 @@ const Dashboard: React.FC<DashboardProps> = ({ user, projects, onSelectProject,
                     <div className="absolute inset-0 bg-black/80 flex items-center justify-center opacity-0 group-hover:opacity-100 transition backdrop-blur-sm">
                         <div className="text-center">
                             <span className="text-2xl mb-2 block">👁️</span>
-                            <p className="text-xs font-bold text-white uppercase tracking-widest">Enter Read-Only Mode</p>
+                            <p className="text-xs font-bold text-white uppercase tracking-widest">Open Alongside {editors.map(e => e.username).join(', ')}</p>
+                            <p className="text-[10px] text-gray-400 mt-1">What they have locked stays read-only</p>
                         </div>
                     </div>
                 )}
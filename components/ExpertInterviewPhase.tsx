@@ -1,45 +1,28 @@
 
 import React, { useState, useEffect } from 'react';
-import { DocumentaryProject, DocumentaryScript, InterviewPlan, ExpertCandidate, AvatarEnvironment, DigitalTwin } from '../types';
+import { DocumentaryProject, InterviewPlan, ExpertCandidate, AvatarEnvironment, DigitalTwin } from '../types';
 import { geminiService } from '../services/geminiService';
+import { useProjectCollection } from '../hooks/useProjectCollection';
+import { useApprovedScript } from '../hooks/useApprovedScript';
+import PermissionNotice from './PermissionNotice';
+import ApprovedScriptNotice from './ApprovedScriptNotice';
+import { ProjectAccess } from '../lib/permissions';
+import { inScriptOrder, isOrphaned, isPlanUnderWay, syncInterviewPlans } from '../lib/scriptBeats';
+import { changedTopic } from '../lib/scriptImpact';
 
 interface ExpertInterviewPhaseProps {
   project: DocumentaryProject;
+  access: ProjectAccess;
   onAdvance: () => void;
   onNotify: (title: string, msg: string, type: any) => void;
 }
 
-const ExpertInterviewPhase: React.FC<ExpertInterviewPhaseProps> = ({ project, onAdvance, onNotify }) => {
-  // In a real app, this script would be passed down or fetched. 
-  // We'll mock the script context here based on previous phases for the demo.
-  const [mockScript] = useState<DocumentaryScript>({
-    id: 'script-v1',
-    project_id: project.id,
-    version: 1,
-    is_current: true,
-    status: 'draft',
-    estimated_duration_minutes: project.target_duration_minutes,
-    parts: [
-      {
-        id: 'p1',
-        part_number: 1,
-        title: 'The Hidden Frontier',
-        scenes: [
-          {
-            id: 's1',
-            scene_number: 1,
-            title: 'Cold Open',
-            beats: [
-              { id: 'b1', type: 'expert', duration_seconds: 20, topic: 'The scale of the failure', content: '[EXPERT] describes the emotional impact of the disaster.' },
-              { id: 'b2', type: 'expert', duration_seconds: 15, topic: 'The technical oversight', content: '[EXPERT] explains the specific O-ring flaw simply.' }
-            ]
-          }
-        ]
-      }
-    ]
-  });
+const ExpertInterviewPhase: React.FC<ExpertInterviewPhaseProps> = ({ project, access, onAdvance, onNotify }) => {
+  const editDenial = access.reason('interviews.edit');
+  // Interview plans follow the expert beats of the approved script
+  const approved = useApprovedScript(project.id);
 
-  const [plans, setPlans] = useState<InterviewPlan[]>([]);
+  const [plans, setPlans, plansLoaded] = useProjectCollection<InterviewPlan>(project.id, 'interview_plans');
   const [loadingPlanIds, setLoadingPlanIds] = useState<Set<string>>(new Set());
   const [loadingCandidatesIds, setLoadingCandidatesIds] = useState<Set<string>>(new Set());
   
@@ -52,30 +35,27 @@ const ExpertInterviewPhase: React.FC<ExpertInterviewPhaseProps> = ({ project, on
       { id: 'twin-3', name: 'Elena Rossi (Engineer)', thumbnailUrl: 'https://api.dicebear.com/7.x/avataaars/svg?seed=Elena', voice_match_score: 92 },
   ]);
 
-  // Initialize Plans from Script Beats
+  // Keep a plan for every expert beat of the approved script, following the beats as they change
   useEffect(() => {
-    const initialPlans: InterviewPlan[] = [];
-    mockScript.parts.forEach(part => {
-      part.scenes.forEach(scene => {
-        scene.beats.forEach(beat => {
-          if (beat.type === 'expert') {
-            initialPlans.push({
-              id: `plan-${beat.id}`,
-              beat_id: beat.id,
-              scene_context: `${part.title} - ${scene.title}`,
-              topic: beat.topic || 'General Commentary',
-              ideal_soundbite: '',
-              questions: [],
-              candidates: [],
-              status: 'planning',
-              production_status: 'pending_audio'
-            });
-          }
-        });
-      });
-    });
-    setPlans(initialPlans);
-  }, [mockScript]);
+    if (!plansLoaded || !approved.script || editDenial) return;
+    const synced = syncInterviewPlans(plans, approved.script);
+    if (synced) setPlans(synced);
+  }, [approved.script, plansLoaded, editDenial]);
+
+  const orderedPlans = inScriptOrder(plans, approved.script);
+
+  // A plan under way keeps its topic when the beat's changes, until someone takes the new one
+  const newTopic = (plan: InterviewPlan) => (isPlanUnderWay(plan) ? changedTopic(plan, approved.script) : null);
+  const takeTopic = (plan: InterviewPlan, topic: string) => {
+    setPlans(prev => prev.map(p => p.id === plan.id ? { ...p, topic } : p));
+    onNotify('Topic Updated', `Check the questions and candidates still fit "${topic}".`, 'info');
+  };
+
+  const removePlan = (plan: InterviewPlan) => {
+    if (!confirm(`Remove the interview plan for "${plan.topic}"? Its questions, candidates and footage go with it.`)) return;
+    setPlans(prev => prev.filter(p => p.id !== plan.id));
+    if (activeProductionId === plan.id) setActiveProductionId(null);
+  };
 
   const generateStrategy = async (planId: string) => {
     setLoadingPlanIds(prev => new Set(prev).add(planId));
@@ -244,24 +224,47 @@ const ExpertInterviewPhase: React.FC<ExpertInterviewPhaseProps> = ({ project, on
         </div>
       </div>
 
+      <PermissionNotice reason={editDenial} />
+      <ApprovedScriptNotice approved={approved} />
+
       <div className="space-y-8">
-        {plans.length === 0 && (
+        {plans.length === 0 && approved.script && (
           <div className="text-center py-12 border border-[#222] rounded-2xl bg-[#111]">
             <span className="text-4xl">🤷‍♂️</span>
-            <p className="text-gray-500 mt-4 font-mono text-sm">No 'Expert' beats found in the current script.</p>
+            <p className="text-gray-500 mt-4 font-mono text-sm">No 'Expert' beats found in the approved script.</p>
           </div>
         )}
 
-        {plans.map((plan, index) => (
+        {orderedPlans.map((plan, index) => (
           <div key={plan.id} className="bg-[#111] border border-[#222] rounded-2xl overflow-hidden shadow-xl">
             {/* Header */}
             <div className="bg-[#151515] p-4 border-b border-[#222] flex justify-between items-center">
               <div className="flex items-center gap-4">
                 <span className="text-xs font-black bg-red-600 text-white px-2 py-1 rounded">INTERVIEW #{index + 1}</span>
                 <span className="text-sm font-bold text-gray-300">{plan.scene_context}</span>
+                {isOrphaned(plan.beat_id, approved.script) && (
+                  <span className="flex items-center gap-2">
+                    <span className="text-[9px] font-bold uppercase bg-yellow-600/20 text-yellow-500 px-2 py-0.5 rounded" title="Its expert beat is no longer in the approved script">
+                      ⚠ Orphaned
+                    </span>
+                    <button onClick={() => removePlan(plan)} disabled={Boolean(editDenial)} title={editDenial} className="text-[10px] text-gray-500 hover:text-red-400 disabled:opacity-40">
+                      Remove
+                    </button>
+                  </span>
+                )}
               </div>
               <div className="flex items-center gap-4">
                  <span className="text-xs font-mono text-gray-500 uppercase">Focus: {plan.topic}</span>
+                 {newTopic(plan) && (
+                   <span className="flex items-center gap-2">
+                     <span className="text-[9px] font-bold uppercase bg-orange-600/20 text-orange-400 px-2 py-0.5 rounded" title={`The beat's topic is now "${newTopic(plan)}"`}>
+                       ⚠ Topic changed
+                     </span>
+                     <button onClick={() => takeTopic(plan, newTopic(plan)!)} disabled={Boolean(editDenial)} title={editDenial || `Use "${newTopic(plan)}"`} className="text-[10px] text-gray-500 hover:text-white disabled:opacity-40">
+                       Use New Topic
+                     </button>
+                   </span>
+                 )}
                  {plan.status === 'booked' && (
                      <button 
                         onClick={() => setActiveProductionId(activeProductionId === plan.id ? null : plan.id)}
@@ -297,7 +300,8 @@ const ExpertInterviewPhase: React.FC<ExpertInterviewPhaseProps> = ({ project, on
                                     className="absolute inset-0 opacity-0 cursor-pointer"
                                     onChange={(e) => handleAudioUpload(e, plan.id)}
                                     accept="audio/*"
-                                    disabled={plan.production_status !== 'pending_audio'}
+                                    disabled={plan.production_status !== 'pending_audio' || Boolean(editDenial)}
+                                    title={editDenial}
                                 />
                                 <div className="text-2xl mb-2">🎙️</div>
                                 <p className="text-xs font-bold text-gray-400">
@@ -340,6 +344,8 @@ const ExpertInterviewPhase: React.FC<ExpertInterviewPhaseProps> = ({ project, on
                                         <button 
                                             key={twin.id}
                                             onClick={() => selectAvatar(plan.id, twin)}
+                                            disabled={Boolean(editDenial)}
+                                            title={editDenial}
                                             className={`flex-shrink-0 w-16 text-center ${plan.selected_avatar?.id === twin.id ? 'opacity-100' : 'opacity-50 hover:opacity-100'}`}
                                         >
                                             <img 
@@ -353,7 +359,9 @@ const ExpertInterviewPhase: React.FC<ExpertInterviewPhaseProps> = ({ project, on
                                 </div>
                                 <button 
                                     onClick={handleCreateTwin}
-                                    className="w-full mt-2 text-[8px] text-gray-500 border border-[#333] rounded py-1 hover:text-white hover:border-gray-400"
+                                    disabled={Boolean(editDenial)}
+                                    title={editDenial}
+                                    className="w-full mt-2 text-[8px] text-gray-500 border border-[#333] rounded py-1 hover:text-white hover:border-gray-400 disabled:opacity-40 disabled:hover:text-gray-500 disabled:hover:border-[#333]"
                                 >
                                     + Create New Twin (Requires Source Video)
                                 </button>
@@ -376,7 +384,8 @@ const ExpertInterviewPhase: React.FC<ExpertInterviewPhaseProps> = ({ project, on
                                 <div className="h-full flex flex-col justify-center">
                                     <button 
                                         onClick={() => generateAvatarVideo(plan.id)}
-                                        disabled={isProcessingAvatar || !plan.selected_avatar || !plan.selected_environment}
+                                        disabled={isProcessingAvatar || !plan.selected_avatar || !plan.selected_environment || Boolean(editDenial)}
+                                        title={editDenial}
                                         className="w-full bg-blue-600 hover:bg-blue-700 disabled:bg-[#333] disabled:text-gray-500 text-white font-bold py-4 rounded-xl transition shadow-lg flex flex-col items-center gap-2"
                                     >
                                         {isProcessingAvatar ? (
@@ -409,7 +418,8 @@ const ExpertInterviewPhase: React.FC<ExpertInterviewPhaseProps> = ({ project, on
                       <h4 className="text-xs font-bold text-gray-500 uppercase tracking-widest">1. The Ideal Sync (Soundbite)</h4>
                       <button 
                         onClick={() => generateStrategy(plan.id)}
-                        disabled={loadingPlanIds.has(plan.id)}
+                        disabled={loadingPlanIds.has(plan.id) || Boolean(editDenial)}
+                        title={editDenial}
                         className="text-[10px] bg-[#222] hover:bg-white hover:text-black border border-[#333] px-3 py-1 rounded transition disabled:opacity-50"
                       >
                         {loadingPlanIds.has(plan.id) ? 'GENERATING...' : '✨ GENERATE STRATEGY'}
@@ -449,7 +459,8 @@ const ExpertInterviewPhase: React.FC<ExpertInterviewPhaseProps> = ({ project, on
                     <h4 className="text-xs font-bold text-gray-500 uppercase tracking-widest">3. Candidate Search</h4>
                     <button 
                       onClick={() => findExperts(plan.id)}
-                      disabled={loadingCandidatesIds.has(plan.id)}
+                      disabled={loadingCandidatesIds.has(plan.id) || Boolean(editDenial)}
+                      title={editDenial}
                       className="text-[10px] bg-[#1a73e8] hover:bg-[#1557b0] text-white px-3 py-1 rounded transition disabled:opacity-50"
                     >
                       {loadingCandidatesIds.has(plan.id) ? 'SCOUTING...' : '🔍 FIND EXPERTS'}
@@ -0,0 +1,93 @@
+import React from 'react';
+import { ArchiveClip, DocumentaryScript, InterviewPlan, TimelineItem, VoiceOver } from '../types';
+import { useProjectCollection } from '../hooks/useProjectCollection';
+import { ImpactEntry, ImpactKind, downstreamImpact } from '../lib/scriptImpact';
+
+interface ImpactReportProps {
+  script: DocumentaryScript; // The script as it would be approved
+  isBusy: boolean;
+  onConfirm: () => void;
+  onCancel: () => void;
+}
+
+const KIND_LABELS: Record<ImpactKind, { label: string; style: string }> = {
+  stale: { label: 'Stale', style: 'bg-orange-600/20 text-orange-400' },
+  topic_changed: { label: 'Topic changed', style: 'bg-orange-600/20 text-orange-400' },
+  moved: { label: 'Moved', style: 'bg-yellow-600/20 text-yellow-500' },
+  orphaned: { label: 'Orphaned', style: 'bg-yellow-600/20 text-yellow-500' },
+  updated: { label: 'Updates', style: 'bg-blue-600/20 text-blue-400' },
+  added: { label: 'New', style: 'bg-green-600/20 text-green-400' },
+};
+
+const AREA_LABELS: Record<ImpactEntry['area'], string> = {
+  interviews: 'Expert Interviews',
+  voice_over: 'Voice-Over',
+  archive: 'Archive',
+  timeline: 'Timeline',
+};
+
+/**
+ * What approving the script would do to the work downstream of it: recordings gone stale,
+ * interviews whose topic moved on, timeline items out of order, work left orphaned, and the
+ * items that simply follow along. Shown before the approval goes ahead.
+ */
+const ImpactReport: React.FC<ImpactReportProps> = ({ script, isBusy, onConfirm, onCancel }) => {
+  const [plans, , plansLoaded] = useProjectCollection<InterviewPlan>(script.project_id, 'interview_plans');
+  const [voiceOvers, , voiceOversLoaded] = useProjectCollection<VoiceOver>(script.project_id, 'voice_overs');
+  const [clips, , clipsLoaded] = useProjectCollection<ArchiveClip>(script.project_id, 'archive_clips');
+  const [timeline, , timelineLoaded] = useProjectCollection<TimelineItem>(script.project_id, 'timeline_items');
+  const isLoaded = plansLoaded && voiceOversLoaded && clipsLoaded && timelineLoaded;
+
+  const entries = isLoaded ? downstreamImpact(script, { plans, voiceOvers, clips, timeline }) : [];
+  const flagged = entries.filter(e => e.kind !== 'updated' && e.kind !== 'added').length;
+  const areas = (Object.keys(AREA_LABELS) as ImpactEntry['area'][]).filter(area => entries.some(e => e.area === area));
+
+  return (
+    <div className="mt-3 border-t border-[#222] pt-3">
+      <div className="flex items-center gap-3 mb-2">
+        <h4 className="text-[10px] font-bold uppercase tracking-widest text-gray-400">Downstream Impact</h4>
+        {isLoaded && (
+          <span className={`text-[10px] ${flagged ? 'text-orange-400' : 'text-gray-500'}`}>
+            {entries.length === 0 ? 'Nothing downstream changes.' : `${flagged} item${flagged === 1 ? '' : 's'} will need attention`}
+          </span>
+        )}
+      </div>
+
+      {!isLoaded ? (
+        <p className="text-xs text-gray-600 animate-pulse">Checking interviews, voice-over, archive and timeline…</p>
+      ) : (
+        <div className="space-y-3 max-h-64 overflow-y-auto custom-scrollbar">
+          {areas.map(area => (
+            <div key={area}>
+              <p className="text-[9px] font-bold uppercase text-gray-500 mb-1">{AREA_LABELS[area]}</p>
+              <ul className="space-y-1">
+                {entries.filter(e => e.area === area).map(entry => (
+                  <li key={`${entry.kind}-${entry.id}`} className="flex items-center gap-2 text-[11px] text-gray-300">
+                    <span className={`text-[9px] font-bold uppercase px-1.5 py-0.5 rounded shrink-0 ${KIND_LABELS[entry.kind].style}`}>
+                      {KIND_LABELS[entry.kind].label}
+                    </span>
+                    <span className="truncate">{entry.label}</span>
+                    {entry.detail && <span className="text-gray-600 truncate">· {entry.detail}</span>}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="flex justify-end gap-2 mt-3">
+        <button onClick={onCancel} className="text-[10px] text-gray-500 hover:text-white px-2">Cancel</button>
+        <button
+          onClick={onConfirm}
+          disabled={isBusy || !isLoaded}
+          className="bg-green-600 hover:bg-green-700 text-white text-[10px] font-bold px-3 py-1.5 rounded uppercase disabled:opacity-50"
+        >
+          {flagged ? 'Approve Anyway' : 'Approve'}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ImpactReport;
@@ -1,11 +1,13 @@
 
-import React from 'react';
-import { UserProfile } from '../types';
+import React, { useEffect, useState } from 'react';
+import { AuthIssuerKind, UserProfile } from '../types';
+import { authService } from '../services/authService';
 
 interface LoginScreenProps {
   onLogin: (user: UserProfile) => void;
 }
 
+// Test profiles for the server's local issuer (development and mock mode)
 const MOCK_USERS: UserProfile[] = [
   {
     id: 'u1',
@@ -46,6 +48,40 @@ const MOCK_USERS: UserProfile[] = [
 ];
 
 const LoginScreen: React.FC<LoginScreenProps> = ({ onLogin }) => {
+  const [issuers, setIssuers] = useState<AuthIssuerKind[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isSigningIn, setIsSigningIn] = useState(false);
+
+  useEffect(() => {
+    authService.getIssuers()
+      .then(async available => {
+        setIssuers(available);
+        const restored = await authService.restoreSession(available);
+        if (restored) onLogin(restored);
+      })
+      .catch(err => {
+        console.error('Sign-in setup failed:', err);
+        setIssuers([]);
+        setError('Could not reach the server to sign in.');
+      });
+  }, []);
+
+  const signIn = async (attempt: () => Promise<UserProfile | void>) => {
+    setIsSigningIn(true);
+    setError(null);
+    try {
+      const profile = await attempt();
+      if (profile) onLogin(profile);
+    } catch (err) {
+      console.error('Sign-in failed:', err);
+      setError(err instanceof Error ? err.message : 'Sign-in failed.');
+    } finally {
+      setIsSigningIn(false);
+    }
+  };
+
+  const hasLocal = issuers?.includes('local');
+
   return (
     <div className="min-h-screen bg-[#050505] flex flex-col items-center justify-center font-sans animate-in fade-in duration-700">
       <div className="text-center mb-16">
@@ -55,12 +91,49 @@ const LoginScreen: React.FC<LoginScreenProps> = ({ onLogin }) => {
         <p className="text-gray-500 uppercase tracking-widest text-sm">Intelligent Media Production Environment v2.0</p>
       </div>
 
+      {error && (
+        <div className="mb-8 px-4 py-2 rounded border border-red-900/50 bg-red-900/20 text-sm text-red-400">{error}</div>
+      )}
+
+      {issuers && (issuers.includes('firebase') || issuers.includes('supabase')) && (
+        <div className="flex gap-4 mb-12">
+          {issuers.includes('firebase') && (
+            <button
+              disabled={isSigningIn}
+              onClick={() => signIn(() => authService.signInWithFirebase())}
+              className="px-6 py-3 bg-white text-black font-bold rounded hover:bg-gray-200 transition disabled:opacity-50"
+            >
+              Sign in with Google
+            </button>
+          )}
+          {issuers.includes('supabase') && (
+            <button
+              disabled={isSigningIn}
+              onClick={() => signIn(() => authService.signInWithSupabase())}
+              className="px-6 py-3 bg-[#111] text-white font-bold rounded border border-[#333] hover:border-red-600 transition disabled:opacity-50"
+            >
+              Sign in with Google (Supabase)
+            </button>
+          )}
+        </div>
+      )}
+
+      {issuers && issuers.length === 0 && !error && (
+        <p className="text-sm text-gray-500">No sign-in method is configured on the server.</p>
+      )}
+
+      {hasLocal && (
       <div className="w-full max-w-4xl">
-        <h2 className="text-center text-xl text-gray-300 font-medium mb-10">Who is working today?</h2>
+        <h2 className="text-center text-xl text-gray-300 font-medium mb-2">Who is working today?</h2>
+        <p className="text-center text-[10px] font-bold uppercase tracking-widest text-gray-600 mb-10">Local test sign-in</p>
         
         <div className="grid grid-cols-2 md:grid-cols-4 gap-8 px-8">
           {MOCK_USERS.map(user => (
-            <div key={user.id} className="group flex flex-col items-center gap-4 cursor-pointer" onClick={() => onLogin(user)}>
+            <div
+              key={user.id}
+              className={`group flex flex-col items-center gap-4 ${isSigningIn ? 'pointer-events-none opacity-50' : 'cursor-pointer'}`}
+              onClick={() => signIn(() => authService.signInLocal(user))}
+            >
               <div className="w-32 h-32 rounded-full overflow-hidden border-4 border-transparent group-hover:border-red-600 transition-all duration-300 relative shadow-2xl">
                  <img src={user.avatar} className="w-full h-full object-cover group-hover:scale-110 transition duration-500" alt={user.username} />
                  <div className="absolute inset-0 bg-black/20 group-hover:bg-transparent transition"></div>
@@ -75,6 +148,7 @@ const LoginScreen: React.FC<LoginScreenProps> = ({ onLogin }) => {
           ))}
         </div>
       </div>
+      )}
 
       <div className="mt-20">
          <button className="text-xs font-bold text-gray-600 uppercase tracking-widest hover:text-white transition">
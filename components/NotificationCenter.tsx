@@ -1,14 +1,15 @@
 
 import React from 'react';
-import { Notification } from '../types';
+import { Notification, NotificationLink } from '../types';
 
 interface NotificationCenterProps {
   notifications: Notification[];
   onClose: () => void;
   onMarkRead: (id: string) => void;
+  onOpen: (link: NotificationLink) => void; // For notifications about something, e.g. a comment thread
 }
 
-const NotificationCenter: React.FC<NotificationCenterProps> = ({ notifications, onClose, onMarkRead }) => {
+const NotificationCenter: React.FC<NotificationCenterProps> = ({ notifications, onClose, onMarkRead, onOpen }) => {
   return (
     <div className="fixed inset-y-0 right-0 w-80 bg-[#111] border-l border-[#222] shadow-2xl z-50 flex flex-col animate-in slide-in-from-right duration-300">
       <div className="p-6 border-b border-[#222] flex justify-between items-center bg-[#151515]">
@@ -30,7 +31,8 @@ const NotificationCenter: React.FC<NotificationCenterProps> = ({ notifications,
             <div 
               key={n.id} 
               onMouseEnter={() => !n.read && onMarkRead(n.id)}
-              className={`p-4 rounded-xl border transition cursor-default ${
+              onClick={() => n.link && onOpen(n.link)}
+              className={`p-4 rounded-xl border transition ${n.link ? 'cursor-pointer hover:border-red-600/60' : 'cursor-default'} ${
                 n.read ? 'bg-[#151515] border-[#222]' : 'bg-[#1a1a1a] border-red-600/30'
               }`}
             >
@@ -39,6 +41,7 @@ const NotificationCenter: React.FC<NotificationCenterProps> = ({ notifications,
                 <span className="text-[8px] font-mono text-gray-600">{n.timestamp}</span>
               </div>
               <p className="text-[10px] text-gray-500 leading-relaxed">{n.message}</p>
+              {n.link && <p className="mt-2 text-[9px] font-bold uppercase tracking-widest text-red-500">{n.link.thread_id ? 'Open thread →' : 'Open →'}</p>}
               {!n.read && <div className="mt-2 w-1.5 h-1.5 bg-red-600 rounded-full"></div>}
             </div>
           ))
@@ -0,0 +1,20 @@
+import React from 'react';
+
+interface PermissionNoticeProps {
+  reason?: string; // From ProjectAccess.reason(); nothing renders when undefined
+}
+
+/**
+ * "View only" banner for a phase the user can see but not change.
+ */
+const PermissionNotice: React.FC<PermissionNoticeProps> = ({ reason }) => {
+  if (!reason) return null;
+  return (
+    <div className="mb-4 px-4 py-2 rounded-lg border border-[#333] bg-[#151515] text-xs text-gray-400 flex items-center gap-2">
+      <span>🔒</span>
+      <span><span className="font-bold text-gray-300 uppercase tracking-wider text-[10px] mr-2">View only</span>{reason}</span>
+    </div>
+  );
+};
+
+export default PermissionNotice;
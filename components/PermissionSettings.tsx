@@ -0,0 +1,109 @@
+import React, { useState } from 'react';
+import { DocumentaryProject, Permission, PermissionMatrix, UserRole } from '../types';
+import { DEFAULT_PERMISSIONS, LOCKED_GRANT, PERMISSIONS, ROLES, permissionMatrix } from '../lib/permissions';
+
+interface PermissionSettingsProps {
+  project: DocumentaryProject;
+  onSave: (permissions: Partial<PermissionMatrix>) => void;
+  onClose: () => void;
+}
+
+const ROLE_LABELS: Record<UserRole, string> = {
+  producer: 'Producer',
+  editor: 'Editor',
+  researcher: 'Researcher',
+  legal: 'Legal',
+  archivist: 'Archivist',
+};
+
+const sameRoles = (a: UserRole[], b: UserRole[]) => a.length === b.length && a.every(role => b.includes(role));
+
+/**
+ * Per-project permission matrix: which roles may do what. Only rows that differ from the
+ * studio defaults are saved, so projects pick up later changes to the defaults.
+ */
+const PermissionSettings: React.FC<PermissionSettingsProps> = ({ project, onSave, onClose }) => {
+  const [matrix, setMatrix] = useState<PermissionMatrix>(() => permissionMatrix(project));
+
+  const toggle = (permission: Permission, role: UserRole) => {
+    setMatrix(prev => {
+      const roles = prev[permission];
+      const next = roles.includes(role) ? roles.filter(r => r !== role) : ROLES.filter(r => r === role || roles.includes(r));
+      return { ...prev, [permission]: next };
+    });
+  };
+
+  const save = () => {
+    const overrides: Partial<PermissionMatrix> = {};
+    for (const permission of Object.keys(PERMISSIONS) as Permission[]) {
+      if (!sameRoles(matrix[permission], DEFAULT_PERMISSIONS[permission])) overrides[permission] = matrix[permission];
+    }
+    onSave(overrides);
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/80 backdrop-blur-sm z-50 flex items-center justify-center p-4" onClick={onClose}>
+      <div className="bg-[#1a1a1a] border border-[#333] w-full max-w-2xl rounded-2xl shadow-2xl" onClick={e => e.stopPropagation()}>
+        <div className="flex items-center justify-between p-5 border-b border-[#333]">
+          <div>
+            <h3 className="text-lg font-bold text-white">Permissions</h3>
+            <p className="text-[10px] text-gray-500 mt-1">Choose which roles can do what on {project.title}</p>
+          </div>
+          <button onClick={onClose} className="text-gray-500 hover:text-white text-sm">✕</button>
+        </div>
+
+        <div className="p-5 max-h-[60vh] overflow-y-auto custom-scrollbar">
+          <table className="w-full text-left">
+            <thead>
+              <tr className="text-[9px] font-bold uppercase tracking-widest text-gray-500">
+                <th className="pb-3">Action</th>
+                {ROLES.map(role => <th key={role} className="pb-3 text-center">{ROLE_LABELS[role]}</th>)}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-[#222]">
+              {(Object.keys(PERMISSIONS) as Permission[]).map(permission => {
+                const customised = !sameRoles(matrix[permission], DEFAULT_PERMISSIONS[permission]);
+                return (
+                  <tr key={permission}>
+                    <td className="py-2 text-xs text-white">
+                      {PERMISSIONS[permission].label}
+                      {customised && <span className="ml-2 text-[8px] font-bold uppercase text-yellow-500">Custom</span>}
+                    </td>
+                    {ROLES.map(role => {
+                      const locked = permission === LOCKED_GRANT.permission && role === LOCKED_GRANT.role;
+                      return (
+                        <td key={role} className="py-2 text-center">
+                          <input
+                            type="checkbox"
+                            checked={matrix[permission].includes(role)}
+                            onChange={() => toggle(permission, role)}
+                            disabled={locked}
+                            title={locked ? 'Producers always manage the project.' : undefined}
+                            className="accent-red-600 disabled:opacity-40"
+                          />
+                        </td>
+                      );
+                    })}
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="flex justify-between gap-2 p-4 border-t border-[#333]">
+          <button onClick={() => setMatrix({ ...DEFAULT_PERMISSIONS })} className="px-4 py-2 text-xs text-gray-400 hover:text-white">Reset to defaults</button>
+          <div className="flex gap-2">
+            <button onClick={onClose} className="px-4 py-2 text-xs text-gray-400 hover:text-white">Cancel</button>
+            <button onClick={save} className="px-4 py-2 text-xs font-bold rounded bg-[#1a73e8] text-white hover:bg-[#1557b0]">
+              Save
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PermissionSettings;
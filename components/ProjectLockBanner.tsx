@@ -0,0 +1,124 @@
+import React, { useState } from 'react';
+import { ProjectPhase, ProjectPresence, UserProfile } from '../types';
+import { describeScope, PHASE_NAMES, phaseScope, sameScope, scopesOverlap } from '../lib/locks';
+
+interface ProjectLockBannerProps {
+  presence?: ProjectPresence;
+  phase: ProjectPhase; // The phase the user is viewing
+  user: UserProfile;
+  editDenial?: string; // Why the user can't edit the phase, so has nothing to ask for
+  takeoverDenial?: string; // From ProjectAccess.reason('lock.takeover')
+  onRequestEdit: () => Promise<void>;
+  onTakeover: () => Promise<void>;
+  onRespond: (requestId: string, accept: boolean) => Promise<void>;
+}
+
+/**
+ * Who is in the open project: the spectator banner with request/takeover actions when someone
+ * else holds the lock on the phase being viewed, and edit requests for locks the user holds.
+ */
+const ProjectLockBanner: React.FC<ProjectLockBannerProps> = ({ presence, phase, user, editDenial, takeoverDenial, onRequestEdit, onTakeover, onRespond }) => {
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState('');
+  if (!presence) return null;
+
+  const { locks, viewers } = presence;
+  const scope = phaseScope(phase);
+  const lock = locks.find(l => l.user_id !== user.id && sameScope(l, scope));
+  const hasRequested = presence.requests.some(r => r.user_id === user.id && sameScope(r, scope));
+  // Requests for anything the user holds, whichever phase they are in
+  const mine = locks.filter(l => l.user_id === user.id);
+  const requests = presence.requests.filter(r => r.user_id !== user.id && mine.some(l => scopesOverlap(l, r)));
+  const others = viewers.filter(v => v.user_id !== user.id);
+
+  const run = async (action: () => Promise<void>) => {
+    setBusy(true);
+    setError('');
+    try {
+      await action();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Request failed');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const viewerStrip = others.length > 0 && (
+    <div className="flex items-center -space-x-2">
+      {others.slice(0, 5).map(v => (
+        <img
+          key={v.user_id}
+          src={v.avatar || `https://api.dicebear.com/7.x/avataaars/svg?seed=${encodeURIComponent(v.user_id)}`}
+          title={`${v.username} · ${PHASE_NAMES[v.phase] || v.phase}`}
+          className="w-6 h-6 rounded-full border-2 border-[#0a0a0a]"
+          alt={v.username}
+        />
+      ))}
+      {others.length > 5 && <span className="pl-3 text-[10px] text-gray-500">+{others.length - 5}</span>}
+    </div>
+  );
+
+  if (lock) {
+    return (
+      <div className="absolute top-0 left-0 right-0 bg-yellow-600/20 border-b border-yellow-600/30 text-yellow-500 text-xs font-bold px-8 py-2 flex items-center justify-between gap-4 z-50 backdrop-blur-md">
+        <span className="flex items-center gap-2">
+          <span className="text-xl">👁️</span>
+          {lock.avatar && <img src={lock.avatar} className="w-5 h-5 rounded-full border border-yellow-500" alt="" />}
+          SPECTATOR MODE: {lock.username} is editing {describeScope(lock)}. Editing is disabled.
+        </span>
+        <div className="flex items-center gap-3">
+          {viewerStrip}
+          {error && <span className="text-red-400 font-normal">{error}</span>}
+          <button
+            onClick={() => run(onRequestEdit)}
+            disabled={busy || hasRequested || Boolean(editDenial)}
+            title={editDenial}
+            className="uppercase tracking-widest text-[10px] px-3 py-1 rounded border border-yellow-600/50 hover:bg-yellow-600/20 disabled:opacity-50"
+          >
+            {hasRequested ? 'Request Sent' : 'Request Edit Access'}
+          </button>
+          <button
+            onClick={() => run(onTakeover)}
+            disabled={busy || Boolean(takeoverDenial)}
+            title={takeoverDenial || `Take editing over from ${lock.username}`}
+            className="uppercase tracking-widest text-[10px] px-3 py-1 rounded bg-yellow-600 text-black hover:bg-yellow-500 disabled:opacity-40"
+          >
+            Force Takeover
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  if (requests.length === 0 && !viewerStrip) return null;
+
+  return (
+    <div className="absolute top-0 left-0 right-0 bg-[#151515]/90 border-b border-[#222] text-xs px-8 py-2 flex items-center justify-between gap-4 z-50 backdrop-blur-md">
+      <div className="flex flex-col gap-1">
+        {requests.map(request => (
+          <div key={request.id} className="flex items-center gap-3 text-gray-300">
+            <span>✋ <span className="font-bold text-white">{request.username}</span> asked to edit {describeScope(request)}.</span>
+            <button
+              onClick={() => run(() => onRespond(request.id, true))}
+              disabled={busy}
+              className="text-[10px] font-bold uppercase px-2 py-0.5 rounded bg-green-600 text-white hover:bg-green-500 disabled:opacity-50"
+            >
+              Hand Over
+            </button>
+            <button
+              onClick={() => run(() => onRespond(request.id, false))}
+              disabled={busy}
+              className="text-[10px] font-bold uppercase px-2 py-0.5 rounded border border-[#333] text-gray-400 hover:text-white disabled:opacity-50"
+            >
+              Keep Editing
+            </button>
+          </div>
+        ))}
+        {error && <span className="text-red-400">{error}</span>}
+      </div>
+      {viewerStrip}
+    </div>
+  );
+};
+
+export default ProjectLockBanner;
@@ -0,0 +1,105 @@
+import React, { useEffect, useState } from 'react';
+import { AIProviderId, DocumentaryProject, EngineProviderConfig, ResearchEngine, ResearchProviderSettings } from '../types';
+import { providerService, ProviderCatalog } from '../services/providerService';
+
+interface ResearchEngineSettingsProps {
+  project: DocumentaryProject;
+  onSave: (settings: ResearchProviderSettings) => void;
+  onClose: () => void;
+}
+
+const ENGINE_LABELS: Record<ResearchEngine, string> = {
+  google_deep_research: 'Deep Research',
+  vertex_ai: 'Vertex AI',
+  gemini_pro: 'Gemini Pro',
+  perplexity: 'Perplexity',
+};
+
+/**
+ * Per-project choice of which AI provider (and model) runs each research engine.
+ * Engines left on "Server default" follow the server's configuration.
+ */
+const ResearchEngineSettings: React.FC<ResearchEngineSettingsProps> = ({ project, onSave, onClose }) => {
+  const [catalog, setCatalog] = useState<ProviderCatalog | null>(null);
+  const [loadError, setLoadError] = useState('');
+  const [settings, setSettings] = useState<ResearchProviderSettings>(project.research_providers || {});
+
+  useEffect(() => {
+    providerService.getCatalog()
+      .then(setCatalog)
+      .catch(error => setLoadError(error.message));
+  }, []);
+
+  const updateEngine = (engine: ResearchEngine, config: EngineProviderConfig | null) => {
+    setSettings(prev => {
+      const next = { ...prev };
+      if (config) next[engine] = config;
+      else delete next[engine];
+      return next;
+    });
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/80 backdrop-blur-sm z-50 flex items-center justify-center p-4" onClick={onClose}>
+      <div className="bg-[#1a1a1a] border border-[#333] w-full max-w-xl rounded-2xl shadow-2xl" onClick={e => e.stopPropagation()}>
+        <div className="flex items-center justify-between p-5 border-b border-[#333]">
+          <div>
+            <h3 className="text-lg font-bold text-white">Research Engines</h3>
+            <p className="text-[10px] text-gray-500 mt-1">Choose the AI provider behind each engine for {project.title}</p>
+          </div>
+          <button onClick={onClose} className="text-gray-500 hover:text-white text-sm">✕</button>
+        </div>
+
+        <div className="p-5 space-y-3">
+          {loadError && <p className="text-xs text-red-400">{loadError}</p>}
+          {!catalog && !loadError && <p className="text-xs text-gray-500">Loading providers...</p>}
+          {catalog && (Object.keys(ENGINE_LABELS) as ResearchEngine[]).map(engine => {
+            const config = settings[engine];
+            const fallback = catalog.engine_defaults[engine];
+            const provider = catalog.providers.find(p => p.id === (config || fallback).provider);
+            return (
+              <div key={engine} className="grid grid-cols-[120px_1fr_1fr] gap-2 items-center">
+                <span className="text-xs font-bold text-white">{ENGINE_LABELS[engine]}</span>
+                <select
+                  value={config?.provider || ''}
+                  onChange={(e) => updateEngine(engine, e.target.value ? { provider: e.target.value as AIProviderId } : null)}
+                  className="bg-[#111] border border-[#333] text-xs px-2 py-2 rounded text-white"
+                >
+                  <option value="">Server default ({catalog.providers.find(p => p.id === fallback.provider)?.label || fallback.provider})</option>
+                  {catalog.providers.map(p => (
+                    <option key={p.id} value={p.id} disabled={Boolean(p.unavailable_reason)}>
+                      {p.label}{p.unavailable_reason ? ' (not configured)' : ''}
+                    </option>
+                  ))}
+                </select>
+                <input
+                  value={config?.model || ''}
+                  onChange={(e) => config && updateEngine(engine, { ...config, model: e.target.value || undefined })}
+                  disabled={!config}
+                  placeholder={(config ? provider?.default_model : fallback.model || provider?.default_model) || 'Model'}
+                  className="bg-[#111] border border-[#333] text-xs px-2 py-2 rounded text-white placeholder-gray-600 disabled:opacity-40"
+                />
+                {provider?.unavailable_reason && (
+                  <p className="col-start-2 col-span-2 text-[10px] text-yellow-500">{provider.label}: {provider.unavailable_reason}</p>
+                )}
+              </div>
+            );
+          })}
+        </div>
+
+        <div className="flex justify-end gap-2 p-4 border-t border-[#333]">
+          <button onClick={onClose} className="px-4 py-2 text-xs text-gray-400 hover:text-white">Cancel</button>
+          <button
+            onClick={() => { onSave(settings); onClose(); }}
+            disabled={!catalog}
+            className="px-4 py-2 text-xs font-bold rounded bg-[#1a73e8] text-white hover:bg-[#1557b0] disabled:opacity-40"
+          >
+            Save
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ResearchEngineSettings;
@@ -1,45 +1,27 @@
 
-import React, { useState, useRef } from 'react';
-import { DocumentaryProject, DocumentaryNotebook, UserProfile, ResearchSeries, ResearchEpisode, KnowledgeAsset, ArchiveClip, ManualSource } from '../types';
+import React, { useState, useRef, useEffect } from 'react';
+import { DocumentaryProject, DocumentaryNotebook, UserProfile, ResearchSeries, ResearchEpisode, KnowledgeAsset, ArchiveClip, ManualSource, ResearchSource, ResearchQuery, SourceCitation, ResearchEngine, ResearchProviderSettings } from '../types';
 import { geminiService } from '../services/geminiService';
+import { documentService } from '../services/documentService';
+import { retrievalService } from '../services/retrievalService';
+import { useProjectCollection } from '../hooks/useProjectCollection';
+import SourceViewer from './SourceViewer';
+import ResearchEngineSettings from './ResearchEngineSettings';
+import PermissionNotice from './PermissionNotice';
+import { ProjectAccess } from '../lib/permissions';
 
 interface ResearchPhaseProps {
   project: DocumentaryProject;
   user: UserProfile;
+  access: ProjectAccess;
   onAdvance: () => void;
+  onUpdateProject: (changes: Partial<DocumentaryProject>) => void;
   onNotify: (title: string, message: string, type: 'info' | 'success' | 'warning' | 'error') => void;
 }
 
-// Extended types for NotebookLM-style sources with Vertex AI analysis
-interface ResearchSource {
-  id: string;
-  episode_id: string;
-  type: 'url' | 'file' | 'text' | 'youtube';
-  title: string;
-  content?: string;
-  url?: string;
-  file_name?: string;
-  file_size?: string;
-  status: 'pending' | 'processing' | 'indexed' | 'error';
-  added_at: string;
-  summary?: string;
-  key_topics?: string[];
-  key_facts?: string[];
-  suggested_questions?: string[];
-}
-
-interface ResearchQuery {
-  id: string;
-  episode_id: string;
-  query: string;
-  response?: string;
-  key_facts?: string[];
-  sources_used?: string[];
-  timestamp: string;
-  engine: string;
-}
+const ResearchPhase: React.FC<ResearchPhaseProps> = ({ project, user, access, onAdvance, onUpdateProject, onNotify }) => {
+  const editDenial = access.reason('research.edit');
 
-const ResearchPhase: React.FC<ResearchPhaseProps> = ({ project, user, onAdvance, onNotify }) => {
   // ---------------------------------------------------------------------------
   // DATA MODEL: Series & Episodes
   // ---------------------------------------------------------------------------
@@ -67,47 +49,10 @@ const ResearchPhase: React.FC<ResearchPhaseProps> = ({ project, user, onAdvance,
   // ---------------------------------------------------------------------------
   // STATE: NotebookLM-style Sources & Research
   // ---------------------------------------------------------------------------
-  const [sources, setSources] = useState<ResearchSource[]>([
-    {
-      id: 'src-1',
-      episode_id: 'ep-1',
-      type: 'url',
-      title: 'CIA FOIA: Project Azorian Documents',
-      url: 'https://www.cia.gov/readingroom/collection/glomar-explorer',
-      status: 'indexed',
-      added_at: '2 hours ago',
-      summary: 'Declassified documents about the Glomar Explorer operation to recover Soviet submarine K-129.'
-    },
-    {
-      id: 'src-2',
-      episode_id: 'ep-1',
-      type: 'file',
-      title: 'Mission_Report_Declassified_1974.pdf',
-      file_name: 'Mission_Report_Declassified_1974.pdf',
-      file_size: '14.2 MB',
-      status: 'indexed',
-      added_at: '1 hour ago',
-      summary: 'Primary source document containing redacted flight logs and operational details.'
-    }
-  ]);
-
-  const [researchQueries, setResearchQueries] = useState<ResearchQuery[]>([
-    {
-      id: 'q-1',
-      episode_id: 'ep-1',
-      query: 'What was the cover story for Project Azorian?',
-      response: 'The CIA created an elaborate cover story involving Howard Hughes and his company, Summa Corporation. The official narrative was that the Glomar Explorer was a deep-sea mining vessel designed to harvest manganese nodules from the ocean floor.',
-      key_facts: [
-        'Howard Hughes provided the cover identity',
-        'Summa Corporation was used as the front company',
-        'Manganese nodule mining was the public explanation',
-        'The cover lasted until 1975 when it was exposed'
-      ],
-      sources_used: ['src-1', 'src-2'],
-      timestamp: '1 hour ago',
-      engine: 'google_deep_research'
-    }
-  ]);
+  const [sources, setSources] = useProjectCollection<ResearchSource>(project.id, 'research_sources');
+  const [researchQueries, setResearchQueries] = useProjectCollection<ResearchQuery>(project.id, 'research_queries');
+  // One knowledge asset per source, tracking its vectorizing → indexing → ready progress
+  const [knowledgeAssets, setKnowledgeAssets] = useProjectCollection<KnowledgeAsset>(project.id, 'knowledge_assets');
 
   // Add source modal state
   const [showAddSourceModal, setShowAddSourceModal] = useState(false);
@@ -118,10 +63,16 @@ const ResearchPhase: React.FC<ResearchPhaseProps> = ({ project, user, onAdvance,
 
   // Research query state
   const [researchPrompt, setResearchPrompt] = useState('');
-  const [selectedEngine, setSelectedEngine] = useState<string>('google_deep_research');
+  const [selectedEngine, setSelectedEngine] = useState<ResearchEngine>('google_deep_research');
+  const [showEngineSettings, setShowEngineSettings] = useState(false);
+  const engineOverride = project.research_providers?.[selectedEngine];
   const [isResearching, setIsResearching] = useState(false);
   const [researchStep, setResearchStep] = useState('');
 
+  // Citation being verified in the source viewer
+  const [openCitation, setOpenCitation] = useState<SourceCitation | null>(null);
+  const citedSource = openCitation ? sources.find(s => s.id === openCitation.source_id) : undefined;
+
   // Refs
   const fileInputRef = useRef<HTMLInputElement>(null);
 
@@ -131,6 +82,7 @@ const ResearchPhase: React.FC<ResearchPhaseProps> = ({ project, user, onAdvance,
   const filteredEpisodes = episodesList.filter(e => e.series_id === activeSeriesId);
   const episodeSources = sources.filter(s => s.episode_id === activeEpisodeId);
   const episodeQueries = researchQueries.filter(q => q.episode_id === activeEpisodeId);
+  const assetForSource = (sourceId: string) => knowledgeAssets.find(a => a.source_id === sourceId);
 
   // ---------------------------------------------------------------------------
   // ACTIONS: Episodes
@@ -157,6 +109,68 @@ const ResearchPhase: React.FC<ResearchPhaseProps> = ({ project, user, onAdvance,
     setActiveEpisodeId(newEp.id);
   };
 
+  // ---------------------------------------------------------------------------
+  // RETRIEVAL: Chunk & embed indexed sources so queries can cite passages
+  // ---------------------------------------------------------------------------
+  const vectorizeSource = async (source: ResearchSource) => {
+    const text = source.pages?.length ? undefined : source.content;
+    if (!source.pages?.length && !text) return;
+
+    const extension = source.file_name?.split('.').pop()?.toLowerCase();
+    const asset: KnowledgeAsset = {
+      id: `ka-${source.id}`,
+      project_id: project.id,
+      series_id: activeSeriesId,
+      episode_id: source.episode_id,
+      source_id: source.id,
+      name: source.title,
+      type: extension === 'pdf' || extension === 'docx' || extension === 'csv' ? extension : 'txt',
+      size: source.file_size || `${((text || '').length / 1024).toFixed(1)} KB`,
+      upload_date: new Date().toLocaleDateString(),
+      status: 'uploading',
+      analysis_summary: source.summary
+    };
+    setKnowledgeAssets(prev => [asset, ...prev.filter(a => a.source_id !== source.id)]);
+
+    try {
+      const doc = await retrievalService.indexDocument(project.id, {
+        document_id: source.id,
+        title: source.title,
+        pages: source.pages,
+        text
+      });
+      setKnowledgeAssets(prev => prev.map(a => a.id === asset.id ? { ...a, status: doc.status, vector_id: doc.vector_id } : a));
+    } catch (error) {
+      console.error('Vectorizing failed:', error);
+      setKnowledgeAssets(prev => prev.map(a => a.id === asset.id ? { ...a, status: 'error' } : a));
+    }
+  };
+
+  // Poll the server while any asset is still being embedded (also resumes after a reload)
+  const pendingVectorIds = knowledgeAssets
+    .filter(a => a.vector_id && (a.status === 'vectorizing' || a.status === 'indexing'))
+    .map(a => a.vector_id as string);
+  const pendingKey = pendingVectorIds.join(',');
+
+  useEffect(() => {
+    if (!pendingKey) return;
+    const timer = setInterval(async () => {
+      const statuses = await Promise.all(pendingKey.split(',').map(id =>
+        retrievalService.getStatus(project.id, id).catch(() => null)
+      ));
+      for (const doc of statuses) {
+        if (doc?.status === 'ready') onNotify('Source Ready', `${doc.title} embedded as ${doc.chunk_count} passages.`, 'success');
+        if (doc?.status === 'error') onNotify('Vectorizing Failed', doc.error || `Could not embed ${doc.title}.`, 'error');
+      }
+      setKnowledgeAssets(prev => prev.map(a => {
+        const doc = statuses.find(d => d && d.vector_id === a.vector_id);
+        if (!doc || (doc.status === a.status && doc.chunk_count === a.chunk_count)) return a;
+        return { ...a, status: doc.status, chunk_count: doc.chunk_count };
+      }));
+    }, 1500);
+    return () => clearInterval(timer);
+  }, [pendingKey, project.id]);
+
   // ---------------------------------------------------------------------------
   // ACTIONS: Sources (NotebookLM-style) - Real Vertex AI Intelligence
   // ---------------------------------------------------------------------------
@@ -170,6 +184,7 @@ const ResearchPhase: React.FC<ResearchPhaseProps> = ({ project, user, onAdvance,
       if (!newSourceUrl.trim()) return;
       newSource = {
         id: `src-${Date.now()}`,
+        project_id: project.id,
         episode_id: activeEpisodeId,
         type: newSourceType,
         title: newSourceTitle || new URL(newSourceUrl).hostname,
@@ -181,6 +196,7 @@ const ResearchPhase: React.FC<ResearchPhaseProps> = ({ project, user, onAdvance,
       if (!newSourceText.trim()) return;
       newSource = {
         id: `src-${Date.now()}`,
+        project_id: project.id,
         episode_id: activeEpisodeId,
         type: 'text',
         title: newSourceTitle || 'Pasted Text',
@@ -201,19 +217,13 @@ const ResearchPhase: React.FC<ResearchPhaseProps> = ({ project, user, onAdvance,
 
     // Real Vertex AI indexing
     try {
-      const response = await fetch('/api/index-source', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          type: newSource.type,
-          url: newSource.url,
-          content: newSource.content,
-          title: newSource.title
-        })
+      const analysis = await geminiService.indexSource({
+        type: newSource.type,
+        url: newSource.url,
+        content: newSource.content,
+        title: newSource.title
       });
 
-      const analysis = await response.json();
-
       if (analysis.status === 'indexed') {
         setSources(prev => prev.map(s =>
           s.id === newSource.id
@@ -221,22 +231,30 @@ const ResearchPhase: React.FC<ResearchPhaseProps> = ({ project, user, onAdvance,
                 ...s,
                 status: 'indexed',
                 title: analysis.title || s.title,
+                content: analysis.content,
+                content_type: analysis.content_type,
+                fetched_at: analysis.fetched_at,
                 summary: analysis.summary,
                 key_topics: analysis.key_topics,
-                key_facts: analysis.key_facts
+                key_facts: analysis.key_facts,
+                suggested_questions: analysis.suggested_questions
               }
             : s
         ));
+        vectorizeSource({ ...newSource, title: analysis.title || newSource.title, content: analysis.content, summary: analysis.summary });
+        if (analysis.transcript_available === false) {
+          onNotify('No Transcript', `${analysis.title || newSource.title} has no captions; analyzed the video description instead.`, 'warning');
+        }
         onNotify('Source Indexed', `${analysis.title || newSource.title} analyzed successfully.`, 'success');
       } else {
-        throw new Error(analysis.error || 'Indexing failed');
+        throw new Error('Indexing failed');
       }
     } catch (error) {
       console.error('Source indexing failed:', error);
       setSources(prev => prev.map(s =>
         s.id === newSource.id ? { ...s, status: 'error' } : s
       ));
-      onNotify('Indexing Failed', `Could not analyze ${newSource.title}.`, 'error');
+      onNotify('Indexing Failed', error instanceof Error ? error.message : `Could not analyze ${newSource.title}.`, 'error');
     }
   };
 
@@ -249,6 +267,7 @@ const ResearchPhase: React.FC<ResearchPhaseProps> = ({ project, user, onAdvance,
     for (const file of files) {
       const newSource: ResearchSource = {
         id: `src-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+        project_id: project.id,
         episode_id: activeEpisodeId,
         type: 'file',
         title: file.name,
@@ -261,76 +280,46 @@ const ResearchPhase: React.FC<ResearchPhaseProps> = ({ project, user, onAdvance,
       setSources(prev => [newSource, ...prev]);
       onNotify('File Uploaded', `Analyzing ${file.name} with Vertex AI...`, 'info');
 
-      // Read file content and analyze with Vertex AI
+      // Upload the file itself; the server extracts text (PDF, DOCX, CSV, TXT) and analyzes it
       try {
-        const fileContent = await readFileContent(file);
-
-        const response = await fetch('/api/analyze-document', {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({
-            content: fileContent,
-            fileName: file.name,
-            fileType: file.type || getFileTypeFromName(file.name)
-          })
-        });
-
-        const analysis = await response.json();
-
-        if (analysis.status === 'indexed') {
-          setSources(prev => prev.map(s =>
-            s.id === newSource.id
-              ? {
-                  ...s,
-                  status: 'indexed',
-                  title: analysis.title || s.title,
-                  summary: analysis.summary,
-                  key_topics: analysis.key_topics,
-                  key_facts: analysis.key_facts
-                }
-              : s
-          ));
-          onNotify('Document Analyzed', `${file.name} indexed with ${(analysis.key_facts || []).length} key facts.`, 'success');
-        } else {
-          throw new Error(analysis.error || 'Analysis failed');
-        }
+        const analysis = await documentService.analyzeDocument(file);
+
+        setSources(prev => prev.map(s =>
+          s.id === newSource.id
+            ? {
+                ...s,
+                status: 'indexed',
+                title: analysis.title || s.title,
+                summary: analysis.summary,
+                key_topics: analysis.key_topics,
+                key_facts: analysis.key_facts,
+                suggested_questions: analysis.suggested_questions,
+                page_count: analysis.page_count,
+                pages: analysis.pages
+              }
+            : s
+        ));
+        onNotify('Document Analyzed', `${file.name} indexed with ${(analysis.key_facts || []).length} key facts across ${analysis.page_count} pages.`, 'success');
+        vectorizeSource({ ...newSource, title: analysis.title || newSource.title, pages: analysis.pages, summary: analysis.summary });
       } catch (error) {
         console.error('File analysis failed:', error);
         setSources(prev => prev.map(s =>
           s.id === newSource.id ? { ...s, status: 'error' } : s
         ));
-        onNotify('Analysis Failed', `Could not analyze ${file.name}.`, 'error');
+        onNotify('Analysis Failed', error instanceof Error ? error.message : `Could not analyze ${file.name}.`, 'error');
       }
     }
 
     e.target.value = '';
   };
 
-  // Helper to read file content as text
-  const readFileContent = (file: File): Promise<string> => {
-    return new Promise((resolve, reject) => {
-      const reader = new FileReader();
-      reader.onload = () => resolve(reader.result as string);
-      reader.onerror = reject;
-      reader.readAsText(file);
-    });
-  };
-
-  // Helper to get file type from name
-  const getFileTypeFromName = (fileName: string): string => {
-    const ext = fileName.split('.').pop()?.toLowerCase();
-    switch (ext) {
-      case 'pdf': return 'application/pdf';
-      case 'docx': return 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
-      case 'txt': return 'text/plain';
-      case 'md': return 'text/markdown';
-      case 'csv': return 'text/csv';
-      case 'json': return 'application/json';
-      default: return 'text/plain';
-    }
-  };
-
   const removeSource = (sourceId: string) => {
+    const asset = assetForSource(sourceId);
+    if (asset?.vector_id) {
+      retrievalService.removeDocument(project.id, asset.vector_id)
+        .catch(error => console.error('Failed to remove vectors:', error));
+    }
+    setKnowledgeAssets(prev => prev.filter(a => a.source_id !== sourceId));
     setSources(prev => prev.filter(s => s.id !== sourceId));
     onNotify('Source Removed', 'Source removed from research context.', 'info');
   };
@@ -345,8 +334,11 @@ const ResearchPhase: React.FC<ResearchPhaseProps> = ({ project, user, onAdvance,
     const queryId = `q-${Date.now()}`;
     const indexedSources = episodeSources.filter(s => s.status === 'indexed');
 
+    const embeddedCount = indexedSources.filter(s => assetForSource(s.id)?.status === 'ready').length;
+
     const steps = [
       `Loading ${indexedSources.length} indexed sources...`,
+      `Retrieving top passages from ${embeddedCount} embedded sources...`,
       `Engine: ${selectedEngine.replace(/_/g, ' ').toUpperCase()}`,
       "Cross-referencing across sources...",
       "Synthesizing findings with Vertex AI..."
@@ -361,6 +353,8 @@ const ResearchPhase: React.FC<ResearchPhaseProps> = ({ project, user, onAdvance,
 
       // Prepare source data for the query
       const sourcesForQuery = indexedSources.map(s => ({
+        id: s.id,
+        vector_id: assetForSource(s.id)?.status === 'ready' ? assetForSource(s.id)?.vector_id : undefined,
         title: s.title,
         summary: s.summary || '',
         key_facts: s.key_facts || [],
@@ -369,29 +363,21 @@ const ResearchPhase: React.FC<ResearchPhaseProps> = ({ project, user, onAdvance,
       }));
 
       // Call the multi-source query API
-      const response = await fetch('/api/query-sources', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          query: researchPrompt,
-          sources: sourcesForQuery,
-          engine: selectedEngine
-        })
-      });
-
-      const result = await response.json();
-
-      if (result.error) {
-        throw new Error(result.error);
-      }
+      const result = await geminiService.querySources(researchPrompt, sourcesForQuery, selectedEngine, project.id);
 
       const newQuery: ResearchQuery = {
         id: queryId,
+        project_id: project.id,
         episode_id: activeEpisodeId,
         query: researchPrompt,
         response: result.response || 'Research completed.',
         key_facts: result.key_facts || [],
+        cited_facts: result.cited_facts,
         sources_used: indexedSources.map(s => s.id),
+        source_citations: result.source_citations || [],
+        web_urls: result.web_urls,
+        provider: result.provider,
+        model: result.model,
         timestamp: new Date().toLocaleTimeString(),
         engine: selectedEngine
       };
@@ -401,7 +387,7 @@ const ResearchPhase: React.FC<ResearchPhaseProps> = ({ project, user, onAdvance,
       onNotify('Research Complete', `Found ${(result.key_facts || []).length} key facts from ${indexedSources.length} sources.`, 'success');
     } catch (error) {
       console.error("Research Failed", error);
-      onNotify('Research Error', 'Failed to complete research query.', 'error');
+      onNotify('Research Error', error instanceof Error ? error.message : 'Failed to complete research query.', 'error');
     } finally {
       setIsResearching(false);
       setResearchStep('');
@@ -444,6 +430,8 @@ const ResearchPhase: React.FC<ResearchPhaseProps> = ({ project, user, onAdvance,
         </button>
       </div>
 
+      <PermissionNotice reason={editDenial} />
+
       <div className="flex-1 grid grid-cols-12 gap-4 min-h-0">
 
         {/* COL 1: Series & Episode Selection */}
@@ -477,7 +465,7 @@ const ResearchPhase: React.FC<ResearchPhaseProps> = ({ project, user, onAdvance,
                 </button>
               ))}
               {!isAddingEpisode ? (
-                <button onClick={() => setIsAddingEpisode(true)} className="w-full text-left p-2 text-[10px] text-gray-600 hover:text-gray-400">+ Add Episode</button>
+                <button onClick={() => setIsAddingEpisode(true)} disabled={Boolean(editDenial)} title={editDenial} className="w-full text-left p-2 text-[10px] text-gray-600 hover:text-gray-400 disabled:opacity-40 disabled:hover:text-gray-600">+ Add Episode</button>
               ) : (
                 <div className="p-2 bg-[#1a1a1a] rounded">
                   <input
@@ -507,7 +495,8 @@ const ResearchPhase: React.FC<ResearchPhaseProps> = ({ project, user, onAdvance,
             </h4>
             <button
               onClick={() => setShowAddSourceModal(true)}
-              disabled={!activeEpisodeId}
+              disabled={!activeEpisodeId || Boolean(editDenial)}
+              title={editDenial}
               className="text-[10px] bg-[#1a73e8] hover:bg-[#1557b0] text-white px-3 py-1 rounded font-bold transition disabled:opacity-50"
             >
               + ADD SOURCE
@@ -545,12 +534,26 @@ const ResearchPhase: React.FC<ResearchPhaseProps> = ({ project, user, onAdvance,
                         }`}>
                           {source.status}
                         </span>
+                        {assetForSource(source.id) && (
+                          <span
+                            title={assetForSource(source.id)?.chunk_count ? `${assetForSource(source.id)?.chunk_count} passages` : undefined}
+                            className={`text-[8px] px-1.5 py-0.5 rounded font-bold uppercase ${
+                              assetForSource(source.id)?.status === 'ready' ? 'bg-purple-900/30 text-purple-400' :
+                              assetForSource(source.id)?.status === 'error' ? 'bg-red-900/30 text-red-400' :
+                              'bg-blue-900/30 text-blue-400 animate-pulse'
+                            }`}
+                          >
+                            {assetForSource(source.id)?.status === 'ready' ? 'RAG' : assetForSource(source.id)?.status}
+                          </span>
+                        )}
                         <span className="text-[9px] text-gray-600">{source.added_at}</span>
                       </div>
                     </div>
                     <button
                       onClick={() => removeSource(source.id)}
-                      className="opacity-0 group-hover:opacity-100 text-gray-500 hover:text-red-500 transition text-xs"
+                      disabled={Boolean(editDenial)}
+                      title={editDenial}
+                      className="opacity-0 group-hover:opacity-100 text-gray-500 hover:text-red-500 transition text-xs disabled:hidden"
                     >
                       ✕
                     </button>
@@ -582,7 +585,7 @@ const ResearchPhase: React.FC<ResearchPhaseProps> = ({ project, user, onAdvance,
             <div className="flex items-center gap-2 mb-3">
               <select
                 value={selectedEngine}
-                onChange={(e) => setSelectedEngine(e.target.value)}
+                onChange={(e) => setSelectedEngine(e.target.value as ResearchEngine)}
                 className="bg-[#1a1a1a] border border-[#333] text-[10px] px-3 py-2 rounded font-bold uppercase text-white"
               >
                 <option value="google_deep_research">Deep Research</option>
@@ -590,6 +593,14 @@ const ResearchPhase: React.FC<ResearchPhaseProps> = ({ project, user, onAdvance,
                 <option value="gemini_pro">Gemini Pro</option>
                 <option value="perplexity">Perplexity</option>
               </select>
+              <button
+                onClick={() => setShowEngineSettings(true)}
+                disabled={Boolean(editDenial)}
+                title={editDenial || 'Choose the AI provider for each engine'}
+                className="text-[10px] px-2 py-2 rounded border border-[#333] text-gray-400 hover:text-white disabled:opacity-50 disabled:hover:text-gray-400"
+              >
+                ⚙ {engineOverride ? `${engineOverride.provider}${engineOverride.model ? ` · ${engineOverride.model}` : ''}` : 'Default provider'}
+              </button>
               <span className="text-[10px] text-gray-500">
                 {episodeSources.filter(s => s.status === 'indexed').length} sources indexed
               </span>
@@ -599,15 +610,15 @@ const ResearchPhase: React.FC<ResearchPhaseProps> = ({ project, user, onAdvance,
               <textarea
                 value={researchPrompt}
                 onChange={(e) => setResearchPrompt(e.target.value)}
-                placeholder={activeEpisodeId ? `Ask a question about "${activeEpisode?.title}"...` : 'Select an episode to start researching'}
+                placeholder={editDenial || (activeEpisodeId ? `Ask a question about "${activeEpisode?.title}"...` : 'Select an episode to start researching')}
                 className="w-full bg-[#1a1a1a] border border-[#333] text-white placeholder-gray-500 text-sm p-4 pr-14 rounded-xl outline-none resize-none focus:border-[#1a73e8] transition"
                 rows={2}
-                disabled={!activeEpisodeId || isResearching}
+                disabled={!activeEpisodeId || isResearching || Boolean(editDenial)}
                 onKeyDown={(e) => { if (e.key === 'Enter' && !e.shiftKey) { e.preventDefault(); executeResearch(); } }}
               />
               <button
                 onClick={executeResearch}
-                disabled={!researchPrompt.trim() || !activeEpisodeId || isResearching}
+                disabled={!researchPrompt.trim() || !activeEpisodeId || isResearching || Boolean(editDenial)}
                 className={`absolute right-3 bottom-3 w-10 h-10 rounded-full flex items-center justify-center transition ${
                   researchPrompt.trim() && activeEpisodeId && !isResearching
                     ? 'bg-[#1a73e8] text-white hover:bg-[#1557b0]'
@@ -643,6 +654,7 @@ const ResearchPhase: React.FC<ResearchPhaseProps> = ({ project, user, onAdvance,
             ) : (
               episodeQueries.map(q => {
                 const badge = getEngineBadge(q.engine);
+                let footnote = 0;
                 return (
                   <div key={q.id} className="bg-[#0a0a0a] border border-[#222] rounded-xl p-4">
                     {/* Query */}
@@ -654,6 +666,9 @@ const ResearchPhase: React.FC<ResearchPhaseProps> = ({ project, user, onAdvance,
                         <p className="text-sm text-white font-medium">{q.query}</p>
                         <div className="flex items-center gap-2 mt-1">
                           <span className={`text-[8px] px-1.5 py-0.5 rounded font-bold ${badge.color}`}>{badge.label}</span>
+                          {q.provider && (
+                            <span className="text-[9px] text-gray-600 font-mono">{q.provider}{q.model ? ` · ${q.model}` : ''}</span>
+                          )}
                           <span className="text-[9px] text-gray-500">{q.timestamp}</span>
                         </div>
                       </div>
@@ -667,7 +682,34 @@ const ResearchPhase: React.FC<ResearchPhaseProps> = ({ project, user, onAdvance,
                       <div className="flex-1">
                         <p className="text-sm text-gray-300 leading-relaxed">{q.response}</p>
 
-                        {q.key_facts && q.key_facts.length > 0 && (
+                        {q.cited_facts && q.cited_facts.length > 0 ? (
+                          <div className="mt-4 bg-[#1a1a1a] rounded-lg p-3">
+                            <h5 className="text-[10px] font-bold text-gray-500 uppercase mb-2">Key Facts</h5>
+                            <ul className="space-y-1">
+                              {q.cited_facts.map((fact, i) => (
+                                <li key={i} className="text-xs text-gray-400 flex items-start gap-2">
+                                  <span className="text-green-500">•</span>
+                                  <span>
+                                    {fact.text}
+                                    {fact.citations.map((c, j) => (
+                                      <button
+                                        key={j}
+                                        onClick={() => setOpenCitation(c)}
+                                        title={`${c.source_title}${c.page_number ? `, p. ${c.page_number}` : ''}${c.quote ? `: "${c.quote}"` : ''}`}
+                                        className={`ml-1 align-super text-[9px] font-mono hover:underline ${c.quote_verified === false ? 'text-yellow-500' : 'text-[#8ab4f8]'}`}
+                                      >
+                                        [{++footnote}]
+                                      </button>
+                                    ))}
+                                    {fact.citations.length === 0 && (
+                                      <span className="ml-1 text-[9px] text-gray-600 italic">uncited</span>
+                                    )}
+                                  </span>
+                                </li>
+                              ))}
+                            </ul>
+                          </div>
+                        ) : q.key_facts && q.key_facts.length > 0 && (
                           <div className="mt-4 bg-[#1a1a1a] rounded-lg p-3">
                             <h5 className="text-[10px] font-bold text-gray-500 uppercase mb-2">Key Facts</h5>
                             <ul className="space-y-1">
@@ -681,6 +723,44 @@ const ResearchPhase: React.FC<ResearchPhaseProps> = ({ project, user, onAdvance,
                           </div>
                         )}
 
+                        {q.source_citations && q.source_citations.length > 0 && (
+                          <div className="mt-2 bg-[#1a1a1a] rounded-lg p-3">
+                            <h5 className="text-[10px] font-bold text-gray-500 uppercase mb-2">Citations</h5>
+                            <ol className="space-y-2">
+                              {q.source_citations.map((c, i) => (
+                                <li key={c.passage_id || i} className="text-xs text-gray-400">
+                                  <button
+                                    onClick={() => setOpenCitation(c)}
+                                    disabled={!sources.some(s => s.id === c.source_id)}
+                                    className="flex items-center gap-2 w-full text-left hover:text-white disabled:cursor-default"
+                                  >
+                                    <span className="text-[#8ab4f8] font-mono">[{i + 1}]</span>
+                                    <span className="text-gray-200 font-bold truncate">{c.source_title}</span>
+                                    {c.page_number && <span className="text-[9px] text-gray-500">p. {c.page_number}</span>}
+                                  </button>
+                                  <p className="mt-0.5">{c.relevant_info}</p>
+                                  {c.excerpt && (
+                                    <blockquote className="mt-1 border-l-2 border-[#333] pl-2 text-[10px] text-gray-500 italic line-clamp-3">{c.excerpt}</blockquote>
+                                  )}
+                                </li>
+                              ))}
+                            </ol>
+                          </div>
+                        )}
+
+                        {q.web_urls && q.web_urls.length > 0 && (
+                          <div className="mt-2 bg-[#1a1a1a] rounded-lg p-3">
+                            <h5 className="text-[10px] font-bold text-gray-500 uppercase mb-2">Web Sources</h5>
+                            <ul className="space-y-1">
+                              {q.web_urls.map(url => (
+                                <li key={url} className="text-[10px] truncate">
+                                  <a href={url} target="_blank" rel="noreferrer" className="text-[#8ab4f8] hover:underline">{url}</a>
+                                </li>
+                              ))}
+                            </ul>
+                          </div>
+                        )}
+
                         {q.sources_used && q.sources_used.length > 0 && (
                           <div className="mt-2 flex items-center gap-1 text-[9px] text-gray-500">
                             <span>Sources used:</span>
@@ -702,6 +782,22 @@ const ResearchPhase: React.FC<ResearchPhaseProps> = ({ project, user, onAdvance,
         </div>
       </div>
 
+      {/* Cited passage viewer */}
+      {openCitation && citedSource && (
+        <SourceViewer source={citedSource} citation={openCitation} onClose={() => setOpenCitation(null)} />
+      )}
+
+      {showEngineSettings && (
+        <ResearchEngineSettings
+          project={project}
+          onSave={(settings: ResearchProviderSettings) => {
+            onUpdateProject({ research_providers: settings });
+            onNotify('Research Engines Updated', 'New queries will use the selected providers.', 'success');
+          }}
+          onClose={() => setShowEngineSettings(false)}
+        />
+      )}
+
       {/* Add Source Modal */}
       {showAddSourceModal && (
         <div className="fixed inset-0 bg-black/80 backdrop-blur-sm z-50 flex items-center justify-center p-4">
@@ -1,42 +1,42 @@
 
-import React, { useState } from 'react';
-import { DocumentaryProject, UserProfile } from '../types';
+import React from 'react';
+import { DocumentaryProject, ReviewCheck, UserProfile } from '../types';
+import { permissionMatrix, ProjectAccess, REVIEW_PERMISSIONS } from '../lib/permissions';
 
 interface ReviewPhaseProps {
   project: DocumentaryProject;
   user: UserProfile;
+  access: ProjectAccess;
+  onUpdateProject: (changes: Partial<DocumentaryProject>) => void;
   onComplete: () => void;
 }
 
-const ReviewPhase: React.FC<ReviewPhaseProps> = ({ project, user, onComplete }) => {
-  const [checklist, setChecklist] = useState([
-    { id: 1, label: 'Fact Check: All claims verified with sources', done: false, reviewer: 'Researcher' },
-    { id: 2, label: 'Legal Clear: No copyright/clearance issues', done: false, reviewer: 'Legal' },
-    { id: 3, label: 'Brand Check: Tone matches series style', done: false, reviewer: 'Producer' },
-    { id: 4, label: 'Technical QA: Export plays correctly', done: false, reviewer: 'Editor' },
-    { id: 5, label: 'Duration Check: Meets target length', done: false, reviewer: 'Producer' },
-  ]);
+const CHECKLIST: { id: ReviewCheck; label: string }[] = [
+  { id: 'fact_check', label: 'Fact Check: All claims verified with sources' },
+  { id: 'legal', label: 'Legal Clear: No copyright/clearance issues' },
+  { id: 'brand', label: 'Brand Check: Tone matches series style' },
+  { id: 'technical', label: 'Technical QA: Export plays correctly' },
+  { id: 'duration', label: 'Duration Check: Meets target length' },
+];
 
-  // Determine if user can check off an item based on their role
-  const canReview = (requiredRole: string) => {
-      // Producer implies admin power in this demo
-      if (user.role === 'producer') return true; 
-      // Mapping nice labels to role IDs
-      if (requiredRole === 'Legal' && user.role === 'legal') return true;
-      if (requiredRole === 'Editor' && user.role === 'editor') return true;
-      if (requiredRole === 'Researcher' && user.role === 'researcher') return true;
-      return false;
-  };
+const ReviewPhase: React.FC<ReviewPhaseProps> = ({ project, user, access, onUpdateProject, onComplete }) => {
+  const signoffs = project.review_signoffs || {};
+  const matrix = permissionMatrix(project);
 
-  const toggleCheck = (id: number, reviewerRole: string) => {
-    if (!canReview(reviewerRole)) {
-        alert(`Access Denied: Only a ${reviewerRole} (or Producer) can sign off on this item.`);
-        return;
-    }
-    setChecklist(prev => prev.map(item => item.id === id ? { ...item, done: !item.done } : item));
+  // The server records who signed off; the local entry only shows it until the save returns
+  const toggleCheck = (id: ReviewCheck) => {
+    if (!access.can(REVIEW_PERMISSIONS[id])) return;
+    onUpdateProject({
+      review_signoffs: {
+        ...signoffs,
+        [id]: signoffs[id] ? undefined : { user_id: user.id, username: user.username, signed_at: new Date().toISOString() }
+      }
+    });
   };
 
-  const allDone = checklist.every(item => item.done);
+  const allDone = CHECKLIST.every(item => signoffs[item.id]);
+  const isComplete = project.status === 'completed';
+  const finalDenial = access.reason('review.final');
 
   return (
     <div className="animate-in fade-in slide-in-from-bottom-4 duration-500 max-w-3xl mx-auto">
@@ -48,37 +48,38 @@ const ReviewPhase: React.FC<ReviewPhaseProps> = ({ project, user, onComplete })
       <div className="bg-[#111] border border-[#222] rounded-3xl overflow-hidden mb-12 shadow-2xl">
         <div className="p-8 border-b border-[#222] flex justify-between items-center bg-[#151515]">
           <h3 className="text-xl font-bold">QA Checklist</h3>
-          <span className="text-xs font-mono text-gray-500">{checklist.filter(c => c.done).length} / {checklist.length} APPROVED</span>
+          <span className="text-xs font-mono text-gray-500">{CHECKLIST.filter(c => signoffs[c.id]).length} / {CHECKLIST.length} APPROVED</span>
         </div>
         
         <div className="divide-y divide-[#222]">
-          {checklist.map(item => {
-            const allowed = canReview(item.reviewer);
+          {CHECKLIST.map(item => {
+            const permission = REVIEW_PERMISSIONS[item.id];
+            const denial = access.reason(permission);
+            const signoff = signoffs[item.id];
             return (
-                <div 
+                <button
                 key={item.id} 
-                onClick={() => toggleCheck(item.id, item.reviewer)}
-                className={`p-6 flex items-center gap-6 transition relative group ${allowed ? 'cursor-pointer hover:bg-white/5' : 'cursor-not-allowed opacity-60'}`}
+                onClick={() => toggleCheck(item.id)}
+                disabled={Boolean(denial) || isComplete}
+                title={denial}
+                className={`w-full text-left p-6 flex items-center gap-6 transition relative group ${!denial && !isComplete ? 'cursor-pointer hover:bg-white/5' : 'cursor-not-allowed opacity-60'}`}
                 >
                 <div className={`w-8 h-8 rounded-full border-2 flex items-center justify-center transition ${
-                    item.done ? 'bg-green-600 border-green-600 text-white' : 'border-[#444] text-transparent'
+                    signoff ? 'bg-green-600 border-green-600 text-white' : 'border-[#444] text-transparent'
                 }`}>
                     ✓
                 </div>
                 <div className="flex-1">
-                    <p className={`font-medium transition ${item.done ? 'text-gray-400 line-through' : 'text-white'}`}>{item.label}</p>
-                    <span className={`text-[10px] font-bold uppercase tracking-widest mt-1 block ${allowed ? 'text-blue-400' : 'text-gray-600'}`}>
-                        Reviewer: {item.reviewer} {allowed ? '(YOU)' : ''}
+                    <p className={`font-medium transition ${signoff ? 'text-gray-400 line-through' : 'text-white'}`}>{item.label}</p>
+                    <span className={`text-[10px] font-bold uppercase tracking-widest mt-1 block ${denial ? 'text-gray-600' : 'text-blue-400'}`}>
+                        Reviewer: {matrix[permission].join(' / ')} {denial ? '' : '(YOU)'}
                     </span>
+                    {signoff && (
+                      <span className="text-[10px] text-gray-500 mt-1 block">Signed off by {signoff.username} · {new Date(signoff.signed_at).toLocaleString()}</span>
+                    )}
+                    {denial && <span className="text-[10px] text-red-500/80 mt-1 block">🔒 {denial}</span>}
                 </div>
-                
-                {/* Tooltip for disallowed users */}
-                {!allowed && (
-                    <div className="absolute right-4 text-[10px] text-red-500 font-bold opacity-0 group-hover:opacity-100 transition uppercase tracking-wider">
-                        🔒 Restricted
-                    </div>
-                )}
-                </div>
+                </button>
             );
           })}
         </div>
@@ -87,14 +88,16 @@ const ReviewPhase: React.FC<ReviewPhaseProps> = ({ project, user, onComplete })
       <div className="text-center">
         <button 
           onClick={onComplete}
-          disabled={!allDone}
+          disabled={!allDone || Boolean(finalDenial) || isComplete}
+          title={finalDenial}
           className={`px-12 py-4 rounded-full font-black text-xl tracking-tighter transition shadow-2xl ${
-            allDone ? 'bg-red-600 hover:bg-red-700 text-white shadow-red-900/50' : 'bg-[#222] text-gray-600 cursor-not-allowed'
+            allDone && !finalDenial && !isComplete ? 'bg-red-600 hover:bg-red-700 text-white shadow-red-900/50' : 'bg-[#222] text-gray-600 cursor-not-allowed'
           }`}
         >
-          FINAL SIGN-OFF & LOCK
+          {isComplete ? 'SIGNED OFF & LOCKED' : 'FINAL SIGN-OFF & LOCK'}
         </button>
         {!allDone && <p className="text-[10px] text-gray-600 mt-4 font-mono uppercase tracking-widest">Awaiting department approvals</p>}
+        {allDone && finalDenial && !isComplete && <p className="text-[10px] text-gray-600 mt-4 font-mono uppercase tracking-widest">{finalDenial}</p>}
       </div>
     </div>
   );
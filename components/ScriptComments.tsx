@@ -0,0 +1,231 @@
+import React, { useState } from 'react';
+import { CommentAnchor, DocumentaryScript, ScriptCommentThread } from '../types';
+import { ROLES } from '../lib/permissions';
+import { CommentFilter, DEFAULT_COMMENT_FILTER, MentionCandidate, filterThreads, findBeat, isDetached, mentionsIn } from '../lib/scriptComments';
+
+interface ScriptCommentsProps {
+  script: DocumentaryScript;
+  threads: ScriptCommentThread[];
+  people: MentionCandidate[]; // Who can be @mentioned
+  userId: string;
+  draft: { beat_id: string; anchor?: CommentAnchor } | null; // A new thread being written
+  activeThreadId: string | null;
+  beatId: string | null; // Only this beat's threads
+  commentDenial?: string;
+  onActivate: (threadId: string | null) => void;
+  onClearBeat: () => void;
+  onCreate: (body: string, mentions: string[]) => Promise<void>;
+  onCancelDraft: () => void;
+  onReply: (threadId: string, body: string, mentions: string[]) => Promise<void>;
+  onSetStatus: (threadId: string, status: ScriptCommentThread['status']) => Promise<void>;
+  onClose: () => void;
+}
+
+interface MentionInputProps {
+  people: MentionCandidate[];
+  placeholder: string;
+  disabled?: boolean;
+  onSubmit: (body: string, mentions: string[]) => Promise<void>;
+  onCancel?: () => void;
+}
+
+// Comment box; typing @ offers the team to mention
+const MentionInput: React.FC<MentionInputProps> = ({ people, placeholder, disabled, onSubmit, onCancel }) => {
+  const [body, setBody] = useState('');
+  const [isSending, setIsSending] = useState(false);
+  const query = /(?:^|\s)@([^\s@]*)$/.exec(body)?.[1]?.toLowerCase();
+  const suggestions = query === undefined ? [] : people.filter(p => p.username.toLowerCase().startsWith(query)).slice(0, 5);
+
+  const mention = (person: MentionCandidate) => setBody(body.replace(/@([^\s@]*)$/, `@${person.username} `));
+
+  const send = async () => {
+    if (!body.trim()) return;
+    setIsSending(true);
+    try {
+      await onSubmit(body.trim(), mentionsIn(body, people));
+      setBody('');
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <textarea
+        value={body}
+        onChange={e => setBody(e.target.value)}
+        onKeyDown={e => e.key === 'Enter' && (e.metaKey || e.ctrlKey) && send()}
+        disabled={disabled || isSending}
+        placeholder={placeholder}
+        rows={2}
+        className="w-full bg-[#222] border border-[#333] rounded px-3 py-2 text-xs focus:border-red-600 outline-none resize-none disabled:opacity-50"
+      />
+      {suggestions.length > 0 && (
+        <div className="absolute left-0 right-0 top-full mt-1 bg-[#1a1a1a] border border-[#333] rounded shadow-xl z-10">
+          {suggestions.map(person => (
+            <button
+              key={person.user_id}
+              onMouseDown={e => { e.preventDefault(); mention(person); }}
+              className="block w-full text-left px-3 py-1.5 text-xs text-gray-300 hover:bg-white/10"
+            >
+              @{person.username}
+            </button>
+          ))}
+        </div>
+      )}
+      <div className="flex justify-end gap-2 mt-1">
+        {onCancel && <button onClick={onCancel} className="text-[10px] text-gray-500 hover:text-white px-2">Cancel</button>}
+        <button
+          onClick={send}
+          disabled={disabled || isSending || !body.trim()}
+          className="bg-red-600 hover:bg-red-700 text-white text-[10px] font-bold px-3 py-1 rounded uppercase disabled:opacity-50"
+        >
+          {isSending ? '...' : 'Comment'}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+/**
+ * Side panel with the script's comment threads: filters, each thread with its replies, and
+ * the box for a new comment on the beat or text the writer picked.
+ */
+const ScriptComments: React.FC<ScriptCommentsProps> = ({
+  script, threads, people, userId, draft, activeThreadId, beatId, commentDenial,
+  onActivate, onClearBeat, onCreate, onCancelDraft, onReply, onSetStatus, onClose
+}) => {
+  const [filter, setFilter] = useState<CommentFilter>(DEFAULT_COMMENT_FILTER);
+
+  // The thread a notification opened stays visible whatever the filters say
+  const shown = filterThreads(threads, filter)
+    .concat(threads.filter(t => t.id === activeThreadId && !filterThreads([t], filter).length))
+    .filter(t => !beatId || t.beat_id === beatId || t.id === activeThreadId);
+
+  const where = (thread: Pick<ScriptCommentThread, 'beat_id'>) => {
+    const found = findBeat(script, thread.beat_id);
+    return found ? `Scene ${found.scene.scene_number} · ${found.beat.type.replace('_', ' ')}` : 'Removed beat';
+  };
+
+  return (
+    <div className="fixed inset-y-0 right-0 w-96 bg-[#111] border-l border-[#222] shadow-2xl z-40 flex flex-col animate-in slide-in-from-right duration-300">
+      <div className="p-4 border-b border-[#222] flex justify-between items-center bg-[#151515]">
+        <h3 className="text-sm font-bold uppercase tracking-widest text-white">Comments</h3>
+        <button onClick={onClose} className="text-gray-500 hover:text-white text-xl">×</button>
+      </div>
+
+      <div className="p-3 border-b border-[#222] flex flex-wrap gap-2 text-[10px]">
+        <select
+          value={filter.status}
+          onChange={e => setFilter({ ...filter, status: e.target.value as CommentFilter['status'] })}
+          className="bg-[#222] border border-[#333] rounded px-2 py-1 text-gray-300"
+        >
+          <option value="open">Unresolved</option>
+          <option value="resolved">Resolved</option>
+          <option value="all">All</option>
+        </select>
+        <select
+          value={filter.role || ''}
+          onChange={e => setFilter({ ...filter, role: (e.target.value || null) as CommentFilter['role'] })}
+          className="bg-[#222] border border-[#333] rounded px-2 py-1 text-gray-300 capitalize"
+        >
+          <option value="">From anyone</option>
+          {ROLES.map(role => <option key={role} value={role}>From {role}</option>)}
+        </select>
+        <button
+          onClick={() => setFilter({ ...filter, mentioning: filter.mentioning ? null : userId })}
+          className={`px-2 py-1 rounded border ${filter.mentioning ? 'border-red-600 text-red-400' : 'border-[#333] text-gray-400'}`}
+        >
+          @Me
+        </button>
+        {beatId && (
+          <button onClick={onClearBeat} className="px-2 py-1 rounded border border-[#333] text-gray-400 hover:text-white">
+            {where({ beat_id: beatId })} ×
+          </button>
+        )}
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-3 space-y-3">
+        {draft && (
+          <div className="p-3 rounded-xl border border-red-600/40 bg-[#1a1a1a] space-y-2">
+            <p className="text-[10px] font-bold uppercase tracking-wider text-gray-500">{where(draft)}</p>
+            {draft.anchor && <p className="text-xs text-gray-300 border-l-2 border-yellow-400 pl-2 italic">"{draft.anchor.quote}"</p>}
+            <MentionInput
+              people={people}
+              placeholder="Add a comment; @ to mention someone"
+              disabled={Boolean(commentDenial)}
+              onSubmit={onCreate}
+              onCancel={onCancelDraft}
+            />
+          </div>
+        )}
+
+        {shown.length === 0 && !draft && (
+          <div className="text-center py-12 opacity-40">
+            <p className="text-xs font-bold uppercase tracking-widest">No comments</p>
+            <p className="text-[10px] mt-2">Select text in a beat, or use a beat's 💬, to start a thread.</p>
+          </div>
+        )}
+
+        {shown.map(thread => {
+          const found = findBeat(script, thread.beat_id);
+          const active = thread.id === activeThreadId;
+          return (
+            <div
+              key={thread.id}
+              onClick={() => !active && onActivate(thread.id)}
+              className={`p-3 rounded-xl border transition ${active ? 'border-yellow-400/50 bg-[#1a1a1a]' : 'border-[#222] bg-[#151515] cursor-pointer hover:border-[#333]'} ${thread.status === 'resolved' ? 'opacity-60' : ''}`}
+            >
+              <div className="flex justify-between items-center mb-2">
+                <span className="text-[10px] font-bold uppercase tracking-wider text-gray-500">{where(thread)}</span>
+                <div className="flex items-center gap-2">
+                  {found && isDetached(thread, found.beat.content) && (
+                    <span className="text-[9px] text-yellow-500" title="The commented text has been changed">Detached</span>
+                  )}
+                  <button
+                    onClick={e => { e.stopPropagation(); onSetStatus(thread.id, thread.status === 'open' ? 'resolved' : 'open'); }}
+                    disabled={Boolean(commentDenial)}
+                    title={commentDenial}
+                    className="text-[9px] font-bold uppercase px-2 py-0.5 rounded border border-[#333] text-gray-400 hover:text-white disabled:opacity-40"
+                  >
+                    {thread.status === 'open' ? 'Resolve' : 'Reopen'}
+                  </button>
+                </div>
+              </div>
+              {thread.anchor && <p className="text-xs text-gray-400 border-l-2 border-yellow-400/60 pl-2 italic mb-2 line-clamp-2">"{thread.anchor.quote}"</p>}
+              <div className="space-y-2">
+                {(active ? thread.comments : thread.comments.slice(0, 1)).map(comment => (
+                  <div key={comment.id}>
+                    <p className="text-[10px] text-gray-500">
+                      <span className="font-bold text-gray-300">{comment.username}</span>
+                      <span className="capitalize"> · {comment.role}</span> · {new Date(comment.created_at).toLocaleString()}
+                    </p>
+                    <p className="text-xs text-gray-200 whitespace-pre-wrap">{comment.body}</p>
+                  </div>
+                ))}
+                {!active && thread.comments.length > 1 && (
+                  <p className="text-[10px] text-gray-500">{thread.comments.length - 1} more {thread.comments.length === 2 ? 'reply' : 'replies'}</p>
+                )}
+              </div>
+              {thread.status === 'resolved' && thread.resolved_by_name && (
+                <p className="text-[10px] text-green-500 mt-2">Resolved by {thread.resolved_by_name}</p>
+              )}
+              {active && (
+                <div className="mt-3" onClick={e => e.stopPropagation()}>
+                  <MentionInput
+                    people={people}
+                    placeholder={thread.status === 'resolved' ? 'Reply to reopen' : 'Reply'}
+                    disabled={Boolean(commentDenial)}
+                    onSubmit={(body, mentions) => onReply(thread.id, body, mentions)}
+                  />
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default ScriptComments;
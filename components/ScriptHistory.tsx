@@ -0,0 +1,305 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { DocumentaryScript, ScriptBeat, ScriptVersion, ScriptVersionReason } from '../types';
+import { scriptVersionService } from '../services/scriptVersionService';
+import { BeatDiff, DiffStatus, WordChange, countChanges, diffScripts } from '../lib/scriptDiff';
+
+interface ScriptHistoryProps {
+  projectId: string;
+  script: DocumentaryScript; // The current script, with live beat text
+  editDenial?: string;
+  onBeforeRecord: () => Promise<void>; // Lets pending typing reach the server first
+  onChanged: () => void; // The script was restored or a scene brought back
+  onNotify: (title: string, msg: string, type: any) => void;
+  onClose: () => void;
+}
+
+const CURRENT = 'current';
+
+const REASON_LABELS: Record<ScriptVersionReason, string> = {
+  generated: 'Generated',
+  saved: 'Saved',
+  ai_rewrite: 'AI Rewrite',
+  restored: 'Restored',
+  cherry_pick: 'Scene Restored',
+  approved: 'Approved',
+};
+
+const STATUS_STYLES: Record<DiffStatus, string> = {
+  added: 'border-green-600/40 text-green-400',
+  removed: 'border-red-600/40 text-red-400',
+  changed: 'border-yellow-600/40 text-yellow-400',
+  unchanged: 'border-[#333] text-gray-500',
+};
+
+const StatusBadge: React.FC<{ status: DiffStatus }> = ({ status }) => (
+  <span className={`text-[8px] font-bold uppercase tracking-widest px-1.5 py-0.5 rounded border ${STATUS_STYLES[status]}`}>{status}</span>
+);
+
+// One side of a beat: the words it shares with the other side plus its own, highlighted
+const BeatSide: React.FC<{ beat?: ScriptBeat; words: WordChange[]; side: 'removed' | 'added' }> = ({ beat, words, side }) => {
+  if (!beat) return <div className="p-3 rounded border border-dashed border-[#222]" />;
+  return (
+    <div className="p-3 rounded bg-[#111] border border-[#222]">
+      <div className="text-[8px] font-black uppercase tracking-widest text-gray-500 mb-1">
+        {beat.type.replace('_', ' ')} · {beat.duration_seconds}s{beat.speaker ? ` · ${beat.speaker}` : ''}
+      </div>
+      <p className="text-xs text-gray-300 leading-relaxed whitespace-pre-wrap">
+        {words.length === 0 && <span className="text-gray-600 italic">Empty</span>}
+        {words.filter(w => w.op === 'same' || w.op === side).map((w, i) => (
+          <span key={i} className={w.op === 'same' ? '' : side === 'added' ? 'bg-green-600/30 text-green-200' : 'bg-red-600/30 text-red-200 line-through'}>
+            {w.text}
+          </span>
+        ))}
+      </p>
+    </div>
+  );
+};
+
+const BeatRow: React.FC<{ diff: BeatDiff }> = ({ diff }) => (
+  <div className="grid grid-cols-2 gap-3">
+    <BeatSide beat={diff.before} words={diff.words} side="removed" />
+    <BeatSide beat={diff.after} words={diff.words} side="added" />
+  </div>
+);
+
+/**
+ * A script's version history: every version with who made it and why, a side-by-side diff of
+ * any version against the current script (or another version), named milestones, and
+ * restoring a whole version or bringing back one of its scenes.
+ */
+const ScriptHistory: React.FC<ScriptHistoryProps> = ({ projectId, script, editDenial, onBeforeRecord, onChanged, onNotify, onClose }) => {
+  const [versions, setVersions] = useState<ScriptVersion[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [compareId, setCompareId] = useState<string>(CURRENT);
+  const [showUnchanged, setShowUnchanged] = useState(false);
+  const [milestoneDraft, setMilestoneDraft] = useState('');
+  const [namingId, setNamingId] = useState<string | null>(null);
+  const [nameDraft, setNameDraft] = useState('');
+  const [isBusy, setIsBusy] = useState(false);
+
+  const load = async () => {
+    try {
+      const list = await scriptVersionService.list(projectId, script.id);
+      setVersions(list);
+      setSelectedId(prev => (prev && list.some(v => v.id === prev) ? prev : list[0]?.id || null));
+    } catch (error: any) {
+      onNotify('History Unavailable', error.message, 'warning');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    load();
+  }, [projectId, script.id]);
+
+  const selected = versions.find(v => v.id === selectedId) || null;
+  const compared = compareId === CURRENT ? null : versions.find(v => v.id === compareId) || null;
+  const newerParts = compared ? compared.parts : script.parts;
+  // The live script is a new object on every render; only diff again when its content changes
+  const newerKey = JSON.stringify(newerParts);
+  const diff = useMemo(() => (selected ? diffScripts(selected.parts, newerParts) : []), [selected, newerKey]);
+  const changes = countChanges(diff);
+
+  const run = async (task: () => Promise<unknown>, success?: [string, string]) => {
+    setIsBusy(true);
+    try {
+      await task();
+      if (success) onNotify(success[0], success[1], 'success');
+      await load();
+    } catch (error: any) {
+      onNotify('History Action Failed', error.message, 'warning');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const saveVersion = () => run(async () => {
+    await onBeforeRecord();
+    const milestone = milestoneDraft.trim();
+    const version = await scriptVersionService.record(projectId, script.id, { reason: 'saved', milestone: milestone || undefined });
+    setMilestoneDraft('');
+    setSelectedId(version.id);
+  }, ['Version Saved', milestoneDraft.trim() ? `Milestone "${milestoneDraft.trim()}" saved.` : 'The script was saved as a new version.']);
+
+  const saveName = (version: ScriptVersion) => run(async () => {
+    await scriptVersionService.name(projectId, script.id, version.id, nameDraft);
+    setNamingId(null);
+  });
+
+  const restore = (version: ScriptVersion) => {
+    if (!confirm(`Restore version ${version.version}? The current script is kept in the history.`)) return;
+    run(async () => {
+      await onBeforeRecord();
+      await scriptVersionService.restore(projectId, script.id, version.id);
+      setCompareId(CURRENT);
+      onChanged();
+    }, ['Version Restored', `The script is back to version ${version.version}.`]);
+  };
+
+  const cherryPick = (version: ScriptVersion, sceneId: string, title: string) => run(async () => {
+    await onBeforeRecord();
+    await scriptVersionService.cherryPick(projectId, script.id, version.id, sceneId);
+    onChanged();
+  }, ['Scene Restored', `"${title}" is back as it was in version ${version.version}.`]);
+
+  return (
+    <div className="fixed inset-0 bg-black/80 backdrop-blur-sm z-50 flex items-center justify-center p-4" onClick={onClose}>
+      <div className="bg-[#1a1a1a] border border-[#333] w-full max-w-6xl h-[85vh] rounded-2xl shadow-2xl flex flex-col" onClick={e => e.stopPropagation()}>
+        <div className="flex items-center justify-between p-5 border-b border-[#333] gap-4">
+          <div>
+            <h3 className="text-lg font-bold text-white">Version History</h3>
+            <p className="text-[10px] text-gray-500 mt-1">Every generation, rewrite and save of this script. Compare, restore, or bring back a single scene.</p>
+          </div>
+          <div className="flex items-center gap-2 ml-auto">
+            <input
+              value={milestoneDraft}
+              onChange={e => setMilestoneDraft(e.target.value)}
+              onKeyDown={e => e.key === 'Enter' && !isBusy && !editDenial && saveVersion()}
+              placeholder="Milestone name (optional), e.g. Locked for legal"
+              disabled={Boolean(editDenial)}
+              className="w-72 bg-[#222] border border-[#333] rounded px-3 py-1.5 text-xs focus:border-red-600 outline-none disabled:opacity-50"
+            />
+            <button
+              onClick={saveVersion}
+              disabled={isBusy || Boolean(editDenial)}
+              title={editDenial}
+              className="bg-red-600 hover:bg-red-700 text-white text-[10px] font-bold px-4 py-2 rounded uppercase disabled:opacity-50"
+            >
+              Save Version
+            </button>
+          </div>
+          <button onClick={onClose} className="text-gray-500 hover:text-white text-sm">✕</button>
+        </div>
+
+        <div className="flex flex-1 min-h-0">
+          <div className="w-72 border-r border-[#333] overflow-y-auto custom-scrollbar p-3 space-y-2">
+            {isLoading && <p className="text-xs text-gray-500 p-2">Loading history...</p>}
+            {!isLoading && versions.length === 0 && <p className="text-xs text-gray-500 p-2">No versions yet. They are taken as the script is saved.</p>}
+            {versions.map(version => (
+              <div
+                key={version.id}
+                onClick={() => setSelectedId(version.id)}
+                className={`p-3 rounded-lg border cursor-pointer transition ${version.id === selectedId ? 'border-red-600 bg-red-600/10' : 'border-[#333] hover:border-[#555]'}`}
+              >
+                <div className="flex items-center gap-2">
+                  <span className="text-xs font-bold text-white">v{version.version}</span>
+                  <span className="text-[8px] font-bold uppercase tracking-widest text-gray-400 bg-[#222] px-1.5 py-0.5 rounded">{REASON_LABELS[version.reason]}</span>
+                  {version.milestone && <span className="text-[9px] font-bold text-yellow-400 truncate">🏷 {version.milestone}</span>}
+                </div>
+                <p className="text-[10px] text-gray-500 mt-1">
+                  {new Date(version.created_at).toLocaleString()}{version.created_by_name ? ` · ${version.created_by_name}` : ''}
+                </p>
+                {version.note && <p className="text-[10px] text-gray-400 mt-1 italic">{version.note}</p>}
+                {namingId === version.id ? (
+                  <div className="flex gap-1 mt-2" onClick={e => e.stopPropagation()}>
+                    <input
+                      autoFocus
+                      value={nameDraft}
+                      onChange={e => setNameDraft(e.target.value)}
+                      onKeyDown={e => e.key === 'Enter' && saveName(version)}
+                      placeholder="Milestone name"
+                      className="flex-1 min-w-0 bg-[#222] border border-[#333] rounded px-2 py-1 text-[10px] focus:border-red-600 outline-none"
+                    />
+                    <button onClick={() => saveName(version)} disabled={isBusy} className="text-[9px] font-bold text-white bg-[#333] px-2 rounded">OK</button>
+                  </div>
+                ) : !editDenial && (
+                  <button
+                    onClick={e => { e.stopPropagation(); setNamingId(version.id); setNameDraft(version.milestone || ''); }}
+                    className="text-[9px] text-gray-500 hover:text-white mt-1"
+                  >
+                    {version.milestone ? 'Rename milestone' : 'Name as milestone'}
+                  </button>
+                )}
+              </div>
+            ))}
+          </div>
+
+          <div className="flex-1 flex flex-col min-w-0">
+            {selected ? (
+              <>
+                <div className="flex items-center gap-3 p-4 border-b border-[#333] text-xs">
+                  <span className="font-bold text-white">v{selected.version}</span>
+                  <span className="text-gray-500">compared with</span>
+                  <select
+                    value={compareId}
+                    onChange={e => setCompareId(e.target.value)}
+                    className="bg-[#222] border border-[#333] rounded px-2 py-1 text-xs outline-none"
+                  >
+                    <option value={CURRENT}>Current script</option>
+                    {versions.filter(v => v.id !== selected.id).map(v => (
+                      <option key={v.id} value={v.id}>v{v.version}{v.milestone ? ` (${v.milestone})` : ''}</option>
+                    ))}
+                  </select>
+                  <span className="text-gray-500">{changes.scenes} scene{changes.scenes === 1 ? '' : 's'}, {changes.beats} beat{changes.beats === 1 ? '' : 's'} differ</span>
+                  <label className="flex items-center gap-1 text-gray-500 ml-auto">
+                    <input type="checkbox" checked={showUnchanged} onChange={e => setShowUnchanged(e.target.checked)} />
+                    Show unchanged
+                  </label>
+                  <button
+                    onClick={() => restore(selected)}
+                    disabled={isBusy || Boolean(editDenial)}
+                    title={editDenial}
+                    className="bg-white text-black text-[10px] font-bold px-4 py-1.5 rounded uppercase disabled:opacity-50"
+                  >
+                    Restore v{selected.version}
+                  </button>
+                </div>
+
+                <div className="grid grid-cols-2 gap-3 px-4 pt-3 text-[9px] font-bold uppercase tracking-widest text-gray-500">
+                  <span>Version {selected.version}</span>
+                  <span>{compared ? `Version ${compared.version}` : 'Current script'}</span>
+                </div>
+
+                <div className="flex-1 overflow-y-auto custom-scrollbar p-4 space-y-6">
+                  {changes.scenes === 0 && !showUnchanged && <p className="text-xs text-gray-500">No differences.</p>}
+                  {diff.filter(part => showUnchanged || part.status !== 'unchanged').map(part => (
+                    <div key={part.id} className="space-y-4">
+                      <div className="flex items-center gap-3 border-b border-[#333] pb-1">
+                        <h4 className="text-sm font-bold text-white">
+                          Part {(part.after || part.before)!.part_number}: {(part.after || part.before)!.title}
+                        </h4>
+                        <StatusBadge status={part.status} />
+                      </div>
+                      {part.scenes.filter(scene => showUnchanged || scene.status !== 'unchanged').map(scene => (
+                        <div key={scene.id} className="ml-4 space-y-2">
+                          <div className="flex items-center gap-3">
+                            <span className="text-xs font-bold text-gray-300">{(scene.after || scene.before)!.title}</span>
+                            <StatusBadge status={scene.status} />
+                            {!compared && scene.before && scene.status !== 'unchanged' && (
+                              <button
+                                onClick={() => cherryPick(selected, scene.id, scene.before!.title)}
+                                disabled={isBusy || Boolean(editDenial)}
+                                title={editDenial || `Replace the current scene with the one from v${selected.version}`}
+                                className="ml-auto text-[9px] font-bold text-gray-400 hover:text-white border border-[#333] hover:border-[#555] px-2 py-0.5 rounded disabled:opacity-40"
+                              >
+                                Use this scene
+                              </button>
+                            )}
+                          </div>
+                          {scene.before && scene.after && scene.before.title !== scene.after.title && (
+                            <p className="text-[10px] text-gray-500">Renamed from "{scene.before.title}"</p>
+                          )}
+                          {scene.beats.filter(beat => showUnchanged || beat.status !== 'unchanged').map(beat => (
+                            <BeatRow key={beat.id} diff={beat} />
+                          ))}
+                        </div>
+                      ))}
+                    </div>
+                  ))}
+                </div>
+              </>
+            ) : (
+              <div className="flex-1 flex items-center justify-center text-xs text-gray-500">
+                {isLoading ? '' : 'Pick a version to compare it with the current script.'}
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ScriptHistory;
@@ -0,0 +1,128 @@
+import React, { useState } from 'react';
+import { DocumentaryProject, DocumentaryScript, ScriptReviewAction, ScriptStatus } from '../types';
+import { ProjectAccess } from '../lib/permissions';
+import ImpactReport from './ImpactReport';
+import { SCRIPT_ACTIONS, SCRIPT_STATUS_LABELS, describeReview, latestReview, scriptActionDenial } from '../lib/scriptReview';
+
+interface ScriptReviewBarProps {
+  project: DocumentaryProject;
+  script: DocumentaryScript;
+  access: ProjectAccess;
+  onAction: (action: ScriptReviewAction, comment?: string) => Promise<void>;
+}
+
+const STATUS_STYLES: Record<ScriptStatus, string> = {
+  draft: 'bg-gray-700/40 text-gray-300',
+  review: 'bg-blue-600/20 text-blue-400',
+  approved: 'bg-green-600/20 text-green-400',
+  archived: 'bg-[#222] text-gray-500',
+};
+
+/**
+ * The script's approval status with the workflow actions open to it. Actions the user's role
+ * can't take stay visible but disabled, with the reason. Sending a script back asks for a comment;
+ * approving shows the downstream impact first.
+ */
+const ScriptReviewBar: React.FC<ScriptReviewBarProps> = ({ project, script, access, onAction }) => {
+  const [commenting, setCommenting] = useState<ScriptReviewAction | null>(null);
+  const [comment, setComment] = useState('');
+  const [showHistory, setShowHistory] = useState(false);
+  const [showImpact, setShowImpact] = useState(false);
+  const [isBusy, setIsBusy] = useState(false);
+
+  const latest = latestReview(script);
+  const actions = (Object.keys(SCRIPT_ACTIONS) as ScriptReviewAction[]).filter(a => SCRIPT_ACTIONS[a].from.includes(script.status));
+
+  const take = async (action: ScriptReviewAction, impactChecked = false) => {
+    if (SCRIPT_ACTIONS[action].commentRequired && !comment.trim()) {
+      setCommenting(action);
+      return;
+    }
+    if (action === 'approve' && !impactChecked) {
+      setShowImpact(true);
+      return;
+    }
+    setIsBusy(true);
+    try {
+      await onAction(action, comment.trim() || undefined);
+      setCommenting(null);
+      setComment('');
+      setShowImpact(false);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  return (
+    <div className="max-w-4xl mx-auto mb-8 bg-[#111] border border-[#222] rounded-xl p-4">
+      <div className="flex items-center gap-4">
+        <span className={`text-[10px] font-black uppercase tracking-widest px-3 py-1 rounded-full ${STATUS_STYLES[script.status]}`}>
+          {SCRIPT_STATUS_LABELS[script.status]}
+        </span>
+        {latest && (
+          <button onClick={() => setShowHistory(!showHistory)} className="text-xs text-gray-400 hover:text-white text-left truncate">
+            {describeReview(latest)} <span className="text-gray-600">· {new Date(latest.at).toLocaleString()}</span>
+          </button>
+        )}
+        <div className="flex gap-2 ml-auto shrink-0">
+          {actions.map(action => {
+            const denial = scriptActionDenial(script, action, access.role, project) || undefined;
+            return (
+              <button
+                key={action}
+                onClick={() => take(action)}
+                disabled={isBusy || Boolean(denial)}
+                title={denial}
+                className={`text-[10px] font-bold uppercase px-3 py-1.5 rounded border transition disabled:opacity-40 ${
+                  action === 'approve' ? 'bg-green-600 border-green-600 text-white hover:bg-green-700'
+                  : action === 'block' || action === 'reject' ? 'border-red-600/50 text-red-400 hover:bg-red-600/10'
+                  : 'border-[#333] text-gray-300 hover:border-[#555]'
+                }`}
+              >
+                {SCRIPT_ACTIONS[action].label}
+              </button>
+            );
+          })}
+        </div>
+      </div>
+
+      {commenting && (
+        <div className="mt-3 flex gap-2">
+          <input
+            autoFocus
+            value={comment}
+            onChange={e => setComment(e.target.value)}
+            onKeyDown={e => e.key === 'Enter' && comment.trim() && take(commenting)}
+            placeholder={commenting === 'block' ? 'What has to change before this can go ahead?' : 'What should the writers change?'}
+            className="flex-1 bg-[#222] border border-[#333] rounded px-3 py-1.5 text-xs focus:border-red-600 outline-none"
+          />
+          <button
+            onClick={() => take(commenting)}
+            disabled={isBusy || !comment.trim()}
+            className="bg-red-600 hover:bg-red-700 text-white text-[10px] font-bold px-3 rounded uppercase disabled:opacity-50"
+          >
+            {SCRIPT_ACTIONS[commenting].label}
+          </button>
+          <button onClick={() => { setCommenting(null); setComment(''); }} className="text-[10px] text-gray-500 hover:text-white px-2">Cancel</button>
+        </div>
+      )}
+
+      {showImpact && (
+        <ImpactReport script={script} isBusy={isBusy} onConfirm={() => take('approve', true)} onCancel={() => setShowImpact(false)} />
+      )}
+
+      {showHistory && (script.review_history?.length || 0) > 0 && (
+        <ol className="mt-3 border-t border-[#222] pt-3 space-y-1">
+          {[...script.review_history!].reverse().map(event => (
+            <li key={event.id} className="text-[11px] text-gray-400">
+              <span className="text-gray-600 font-mono mr-2">{new Date(event.at).toLocaleString()}</span>
+              {describeReview(event)}
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+};
+
+export default ScriptReviewBar;
@@ -1,23 +1,131 @@
 
-import React, { useState } from 'react';
-import { DocumentaryProject, DocumentaryScript, ScriptPart, ScriptBeat, ReferenceDocument } from '../types';
+import React, { useEffect, useState } from 'react';
+import { CommentAnchor, DocumentaryProject, DocumentaryScript, ScriptPart, ScriptBeat, ScriptScene, ScriptSuggestion, SuggestionDecision, ReferenceDocument, ScriptReviewAction, UserProfile } from '../types';
 import { geminiService } from '../services/geminiService';
+import { documentService } from '../services/documentService';
+import { useProjectCollection } from '../hooks/useProjectCollection';
+import PermissionNotice from './PermissionNotice';
+import { ProjectAccess } from '../lib/permissions';
+import { entityScope } from '../lib/locks';
+import { EntityLockControls } from '../hooks/usePresence';
+import { useScriptCollab } from '../hooks/useScriptCollab';
+import BeatEditor from './BeatEditor';
+import ScriptHistory from './ScriptHistory';
+import ScriptReviewBar from './ScriptReviewBar';
+import ScriptComments from './ScriptComments';
+import { useScriptComments } from '../hooks/useScriptComments';
+import { MentionCandidate, findBeat } from '../lib/scriptComments';
+import SuggestionCard from './SuggestionCard';
+import { useScriptSuggestions } from '../hooks/useScriptSuggestions';
+import { scriptVersionService } from '../services/scriptVersionService';
+import { scriptReviewService } from '../services/scriptReviewService';
+import { SCRIPT_ACTIONS, SCRIPT_STATUS_LABELS, scriptReadOnlyReason } from '../lib/scriptReview';
 
 interface ScriptingPhaseProps {
   project: DocumentaryProject;
+  user: UserProfile;
+  access: ProjectAccess;
+  entityLocks?: EntityLockControls; // Scene locks; people can write different scenes at once
   onAdvance: () => void;
+  onNotify: (title: string, msg: string, type: any) => void;
+  focusThreadId?: string | null; // A comment thread to open, from a notification
+  onFocusHandled?: () => void;
 }
 
-const ScriptingPhase: React.FC<ScriptingPhaseProps> = ({ project, onAdvance }) => {
-  const [script, setScript] = useState<DocumentaryScript | null>(null);
+const ScriptingPhase: React.FC<ScriptingPhaseProps> = ({ project, user, access, entityLocks, onAdvance, onNotify, focusThreadId, onFocusHandled }) => {
+  // Bumped when the server changed the script (regenerate, restore, cherry-pick, review)
+  const [serverRevision, setServerRevision] = useState(0);
+  const [showHistory, setShowHistory] = useState(false);
+  // Reload when someone takes or hands back a scene so their finished edits show up
+  const [scripts, setScripts] = useProjectCollection<DocumentaryScript>(project.id, 'scripts', `${entityLocks?.key || ''}#${serverRevision}`);
+  const storedScript = scripts.find(s => s.is_current) || null;
+  // Approved and archived scripts are read-only until reopened
+  const editDenial = access.reason('script.edit') || scriptReadOnlyReason(storedScript) || undefined;
+  // Beat text is shared live with the other writers; structure comes from the scripts collection
+  const collab = useScriptCollab(project.id, storedScript?.id || null, user.id,
+    reason => onNotify('Edit Not Saved', reason, 'warning'));
+  const script = storedScript && collab.withLiveText(storedScript);
+  // Saving a script makes it the current one for the project
+  const setScript = (next: DocumentaryScript) => {
+    setScripts(prev => [
+      ...prev.filter(s => s.id !== next.id).map(s => ({ ...s, is_current: false })),
+      { ...next, is_current: true }
+    ]);
+  };
   const [isGenerating, setIsGenerating] = useState(false);
+
+  const sceneScope = (scene: ScriptScene) => entityScope('scripting', 'script_scene', scene.id, scene.title);
+  const sceneLock = (scene: ScriptScene) => entityLocks?.lockOf('script_scene', scene.id);
+  // Why the scene can't be rewritten right now: no script.edit permission, or someone else has it
+  const sceneDenial = (scene: ScriptScene) => {
+    const lock = sceneLock(scene);
+    return editDenial || (lock && lock.user_id !== entityLocks?.userId ? `${lock.username} is editing this scene` : undefined);
+  };
+  // AI rewrites and B-roll replace whole beats, so they lock the scene for the user
+  const claimScene = (scene: ScriptScene) => {
+    if (!entityLocks || sceneLock(scene)) return;
+    entityLocks.acquire(sceneScope(scene)).catch(error => console.error('Scene lock failed:', error));
+  };
+  // Comment threads on beats and on text selected in them
+  const commentDenial = access.reason('script.comment');
+  const [commentsRevision, setCommentsRevision] = useState(0);
+  const comments = useScriptComments(project.id, storedScript?.id || null, `${serverRevision}#${commentsRevision}`);
+  const [showComments, setShowComments] = useState(false);
+  const [activeThreadId, setActiveThreadId] = useState<string | null>(null);
+  const [commentBeatId, setCommentBeatId] = useState<string | null>(null);
+  const [commentDraft, setCommentDraft] = useState<{ beat_id: string; anchor?: CommentAnchor } | null>(null);
+  const [selection, setSelection] = useState<(CommentAnchor & { beat_id: string }) | null>(null);
+  // Project members and everyone who has commented can be @mentioned
+  const people: MentionCandidate[] = [
+    ...(project.members || []).map(m => ({ user_id: m.user_id, username: m.username || m.user_id })),
+    ...comments.threads.flatMap(t => t.comments.map(c => ({ user_id: c.user_id, username: c.username }))),
+  ].filter((person, i, all) => person.user_id !== user.id && all.findIndex(p => p.user_id === person.user_id) === i);
+
+  // A notification opened a thread: load the latest comments and show it
+  useEffect(() => {
+    if (!focusThreadId) return;
+    setCommentsRevision(r => r + 1);
+    setShowComments(true);
+    setCommentDraft(null);
+    setCommentBeatId(null);
+    setActiveThreadId(focusThreadId);
+    onFocusHandled?.();
+  }, [focusThreadId]);
+
+  // Scroll to the beat of the thread being read
+  const activeBeatId = comments.threads.find(t => t.id === activeThreadId)?.beat_id;
+  useEffect(() => {
+    if (activeBeatId) document.getElementById(`beat-${activeBeatId}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  }, [activeBeatId]);
+
+  const startComment = (beat: ScriptBeat) => {
+    setCommentDraft({ beat_id: beat.id, anchor: selection?.beat_id === beat.id ? selection : undefined });
+    setActiveThreadId(null);
+    setShowComments(true);
+  };
+
+  const commentAction = async (task: () => Promise<unknown>) => {
+    try {
+      await task();
+    } catch (error: any) {
+      onNotify('Comment Not Saved', error.message, 'warning');
+    }
+  };
+
   const [references, setReferences] = useState<ReferenceDocument[]>([]);
   
   // Refinement State
   const [rewritingBeatId, setRewritingBeatId] = useState<string | null>(null);
   const [rewriteInstruction, setRewriteInstruction] = useState('');
+  const [rewriteAlternatives, setRewriteAlternatives] = useState(1);
   const [isRewriting, setIsRewriting] = useState(false);
 
+  // AI rewrites, and edits made in suggest mode, wait as tracked changes until a writer decides
+  const suggestions = useScriptSuggestions(project.id, storedScript?.id || null, String(serverRevision));
+  const [suggestMode, setSuggestMode] = useState(false);
+  // Suggest-mode edits not yet proposed, with the beat text they started from
+  const [drafts, setDrafts] = useState<Record<string, { base: string; html: string }>>({});
+
   // Agent State
   const [agentStep, setAgentStep] = useState<string>('');
   const [agentLogs, setAgentLogs] = useState<string[]>([]);
@@ -40,8 +148,9 @@ const ScriptingPhase: React.FC<ScriptingPhaseProps> = ({ project, onAdvance }) =
 
     // Trigger Vertex AI Analysis
     try {
-      // Read file content
-      const content = await file.text();
+      // Extract text server-side so PDF and DOCX references are readable
+      const { pages } = await documentService.extractDocument(file);
+      const content = pages.map(p => p.text).join('\n\n');
 
       // Analyze document style with Vertex AI
       const styleAnalysis = await geminiService.analyzeDocumentStyle(file.name, content);
@@ -104,17 +213,17 @@ const ScriptingPhase: React.FC<ScriptingPhaseProps> = ({ project, onAdvance }) =
           ["NASA Launch Footage", "Getty Editorial", "Submarine Blueprints"]
       );
       
-      const parts: ScriptPart[] = partsData.map((p: any, idx: number) => ({
+      const parts: ScriptPart[] = partsData.map((p, idx) => ({
         id: `part-${idx}`,
         part_number: idx + 1,
         title: p.title,
-        scenes: p.scenes.map((s: any, sIdx: number) => ({
+        scenes: p.scenes.map((s, sIdx) => ({
           id: `scene-${idx}-${sIdx}`,
           scene_number: sIdx + 1,
           title: s.title,
-          beats: s.beats.map((b: any, bIdx: number) => ({
+          beats: s.beats.map((b, bIdx) => ({
             id: `beat-${idx}-${sIdx}-${bIdx}`,
-            type: b.type as any,
+            type: b.type,
             content: b.content,
             speaker: b.speaker,
             duration_seconds: b.duration_seconds || 15
@@ -122,10 +231,23 @@ const ScriptingPhase: React.FC<ScriptingPhaseProps> = ({ project, onAdvance }) =
         }))
       }));
 
+      // Regenerating keeps the script, and its history, and replaces the parts on the server
+      if (storedScript) {
+        await collab.saved();
+        await scriptVersionService.record(project.id, storedScript.id, {
+          reason: 'generated',
+          parts,
+          estimated_duration_minutes: project.target_duration_minutes
+        });
+        setServerRevision(r => r + 1);
+        addAgentLog('SYSTEM: Generation Complete. The previous draft is in the version history.');
+        return;
+      }
+
       setScript({
-        id: 'script-v1',
+        id: `script-${Date.now()}`,
         project_id: project.id,
-        version: 1,
+        version: scripts.reduce((max, s) => Math.max(max, s.version), 0) + 1,
         is_current: true,
         status: 'draft',
         parts,
@@ -143,7 +265,7 @@ const ScriptingPhase: React.FC<ScriptingPhaseProps> = ({ project, onAdvance }) =
   };
 
   const updateBeatContent = (beatId: string, newContentHtml: string) => {
-    if (!script) return;
+    if (!script || collab.editBeat(beatId, newContentHtml)) return;
     const nextParts = script.parts.map(p => ({
       ...p,
       scenes: p.scenes.map(s => ({
@@ -158,17 +280,54 @@ const ScriptingPhase: React.FC<ScriptingPhaseProps> = ({ project, onAdvance }) =
     if (!rewriteInstruction.trim()) return;
     setIsRewriting(true);
     try {
-        const newContent = await geminiService.refineScriptBeat(currentContent, rewriteInstruction);
-        updateBeatContent(beatId, newContent);
+        const instruction = rewriteInstruction.trim();
+        const proposals = await geminiService.refineScriptBeatAlternatives(currentContent, instruction, rewriteAlternatives);
+        await suggestions.propose({ beat_id: beatId, source: 'ai', instruction, base: currentContent, proposals });
         setRewritingBeatId(null);
         setRewriteInstruction('');
-    } catch (e) {
+    } catch (e: any) {
         console.error("Rewrite failed", e);
+        onNotify('Rewrite Failed', e.message, 'warning');
     } finally {
         setIsRewriting(false);
     }
   };
 
+  const proposeDraft = async (beatId: string) => {
+    const draft = drafts[beatId];
+    if (!draft) return;
+    try {
+      await suggestions.propose({ beat_id: beatId, source: 'human', base: draft.base, proposals: [draft.html] });
+      setDrafts(({ [beatId]: _, ...rest }) => rest);
+    } catch (error: any) {
+      onNotify('Suggestion Not Saved', error.message, 'warning');
+    }
+  };
+
+  // Accepted hunks go into the beat like any other edit; a finished AI rewrite is versioned
+  const decideSuggestion = async (suggestion: ScriptSuggestion, decisions: SuggestionDecision[], content: string) => {
+    try {
+      const [decided] = await suggestions.decide(suggestion.id, decisions);
+      const beat = script && findBeat(script, suggestion.beat_id)?.beat;
+      if (beat && beat.content !== content) updateBeatContent(beat.id, content);
+      if (decided.status === 'accepted' && decided.source === 'ai' && storedScript) {
+        await collab.saved();
+        await scriptVersionService.record(project.id, storedScript.id, { reason: 'ai_rewrite', note: decided.instruction })
+          .catch(error => console.error('Version after rewrite failed:', error));
+      }
+    } catch (error: any) {
+      onNotify('Suggestion Not Applied', error.message, 'warning');
+    }
+  };
+
+  const dismissSuggestion = async (suggestion: ScriptSuggestion) => {
+    try {
+      await suggestions.dismiss(suggestion.id);
+    } catch (error: any) {
+      onNotify('Suggestion Not Dismissed', error.message, 'warning');
+    }
+  };
+
   const generateVisualForBeat = async (beat: ScriptBeat) => {
     // Allows generating visuals for VO, AI Visuals, or Placeholder Archive clips
     if (!script || !beat.content) return;
@@ -197,6 +356,20 @@ const ScriptingPhase: React.FC<ScriptingPhaseProps> = ({ project, onAdvance }) =
     }
   };
 
+  const reviewScript = async (action: ScriptReviewAction, comment?: string) => {
+    if (!storedScript) return;
+    try {
+      await collab.saved();
+      await scriptReviewService.transition(project.id, storedScript.id, action, comment);
+      setServerRevision(r => r + 1);
+      onNotify(SCRIPT_ACTIONS[action].notice, action === 'approve'
+        ? 'Expert interviews and voice-over now work from this version.'
+        : `The script is now ${SCRIPT_STATUS_LABELS[SCRIPT_ACTIONS[action].to].toLowerCase()}.`, 'success');
+    } catch (error: any) {
+      onNotify('Review Action Failed', error.message, 'warning');
+    }
+  };
+
   const handleFormat = (command: string, value?: string) => {
     document.execCommand(command, false, value);
   };
@@ -235,13 +408,46 @@ const ScriptingPhase: React.FC<ScriptingPhaseProps> = ({ project, onAdvance }) =
         <div className="flex gap-4">
           {!script && (
              <button 
-              disabled={isGenerating}
+              disabled={isGenerating || Boolean(editDenial)}
+              title={editDenial}
               onClick={generateScript}
               className="bg-red-600 text-white font-bold px-8 py-3 rounded-full hover:bg-red-700 disabled:opacity-50 transition shadow-xl shadow-red-900/40"
             >
               {isGenerating ? 'AGENTS WORKING...' : 'IGNITE AGENT SWARM'}
             </button>
           )}
+          {script && (
+            <>
+              <button
+                onClick={() => setSuggestMode(!suggestMode)}
+                disabled={Boolean(editDenial)}
+                title={editDenial || 'Edits become suggestions the other writers accept or reject'}
+                className={`border font-bold px-6 py-2 rounded disabled:opacity-50 ${suggestMode ? 'bg-green-600/20 border-green-600 text-green-400' : 'bg-[#222] border-[#333] hover:border-[#555] text-white'}`}
+              >
+                {suggestMode ? 'SUGGESTING' : 'SUGGEST MODE'}
+              </button>
+              <button
+                onClick={() => { setCommentBeatId(null); setShowComments(!showComments); }}
+                className="bg-[#222] border border-[#333] hover:border-[#555] text-white font-bold px-6 py-2 rounded"
+              >
+                COMMENTS{comments.threads.some(t => t.status === 'open') && ` (${comments.threads.filter(t => t.status === 'open').length})`}
+              </button>
+              <button
+                onClick={() => setShowHistory(true)}
+                className="bg-[#222] border border-[#333] hover:border-[#555] text-white font-bold px-6 py-2 rounded"
+              >
+                HISTORY
+              </button>
+              <button
+                disabled={isGenerating || Boolean(editDenial)}
+                title={editDenial || 'Generate a new draft; this one stays in the version history'}
+                onClick={() => confirm('Regenerate the script? The current draft stays in the version history.') && generateScript()}
+                className="bg-[#222] border border-[#333] hover:border-red-600 text-white font-bold px-6 py-2 rounded disabled:opacity-50"
+              >
+                {isGenerating ? 'AGENTS WORKING...' : 'REGENERATE'}
+              </button>
+            </>
+          )}
           {script && (
             <button onClick={exportForAssembly} className="bg-white text-black font-bold px-6 py-2 rounded flex items-center gap-2">
               EXPORT TO ASSEMBLY <span className="text-xl">→</span>
@@ -250,6 +456,49 @@ const ScriptingPhase: React.FC<ScriptingPhaseProps> = ({ project, onAdvance }) =
         </div>
       </div>
 
+      <PermissionNotice reason={editDenial} />
+
+      {storedScript && (
+        <ScriptReviewBar project={project} script={storedScript} access={access} onAction={reviewScript} />
+      )}
+
+      {showHistory && script && (
+        <ScriptHistory
+          projectId={project.id}
+          script={script}
+          editDenial={editDenial}
+          onBeforeRecord={collab.saved}
+          onChanged={() => setServerRevision(r => r + 1)}
+          onNotify={onNotify}
+          onClose={() => setShowHistory(false)}
+        />
+      )}
+
+      {showComments && script && (
+        <ScriptComments
+          script={script}
+          threads={comments.threads}
+          people={people}
+          userId={user.id}
+          draft={commentDraft}
+          activeThreadId={activeThreadId}
+          beatId={commentBeatId}
+          commentDenial={commentDenial}
+          onActivate={setActiveThreadId}
+          onClearBeat={() => setCommentBeatId(null)}
+          onCreate={(body, mentions) => commentAction(async () => {
+            const thread = await comments.open({ ...commentDraft!, body, mentions });
+            setCommentDraft(null);
+            setSelection(null);
+            setActiveThreadId(thread.id);
+          })}
+          onCancelDraft={() => setCommentDraft(null)}
+          onReply={(threadId, body, mentions) => commentAction(() => comments.reply(threadId, body, mentions))}
+          onSetStatus={(threadId, status) => commentAction(() => comments.setStatus(threadId, status))}
+          onClose={() => { setShowComments(false); setActiveThreadId(null); setCommentDraft(null); }}
+        />
+      )}
+
       {!script && !isGenerating && (
         <div className="grid grid-cols-2 gap-8">
             <div className="space-y-6">
@@ -258,9 +507,11 @@ const ScriptingPhase: React.FC<ScriptingPhaseProps> = ({ project, onAdvance }) =
                     <div className="border-2 border-dashed border-[#333] hover:border-red-600 rounded-xl p-8 text-center transition cursor-pointer relative group">
                         <input 
                             type="file" 
-                            className="absolute inset-0 opacity-0 cursor-pointer"
+                            className="absolute inset-0 opacity-0 cursor-pointer disabled:cursor-not-allowed"
                             onChange={handleFileUpload}
-                            accept=".pdf,.doc,.docx,.txt"
+                            disabled={Boolean(editDenial)}
+                            title={editDenial}
+                            accept=".pdf,.docx,.txt"
                         />
                         <div className="text-3xl mb-2 group-hover:scale-110 transition">📄</div>
                         <p className="text-sm font-bold text-white">Upload Reference Script</p>
@@ -349,32 +600,75 @@ const ScriptingPhase: React.FC<ScriptingPhaseProps> = ({ project, onAdvance }) =
                 <h3 className="text-2xl font-bold mb-2">{part.title}</h3>
               </div>
               
-              {part.scenes.map(scene => (
-                <div key={scene.id} className="ml-8 space-y-4">
+              {part.scenes.map(scene => {
+                const lock = sceneLock(scene);
+                const denial = sceneDenial(scene);
+                return (
+                <div key={scene.id} className={`ml-8 space-y-4 ${lock && lock.user_id !== entityLocks?.userId ? 'opacity-70' : ''}`}>
                   <div className="flex items-center gap-4">
                     <span className="text-[10px] font-mono text-gray-500 bg-[#111] px-2 py-1 rounded">SCENE {scene.scene_number}</span>
                     <h4 className="text-lg font-bold text-gray-300">{scene.title}</h4>
+                    {lock && (
+                      <span className={`ml-auto flex items-center gap-2 text-[10px] font-bold uppercase tracking-wide px-2 py-1 rounded-full border ${
+                        lock.user_id === entityLocks?.userId ? 'border-green-600/40 text-green-500' : 'border-yellow-600/40 text-yellow-500'
+                      }`}>
+                        <img src={lock.avatar || `https://api.dicebear.com/7.x/avataaars/svg?seed=${encodeURIComponent(lock.user_id)}`} className="w-4 h-4 rounded-full" alt="" />
+                        {lock.user_id === entityLocks?.userId ? 'You are editing' : `${lock.username} is editing`}
+                        {lock.user_id === entityLocks?.userId && (
+                          <button
+                            onClick={() => entityLocks?.release(sceneScope(scene)).catch(error => console.error('Scene release failed:', error))}
+                            className="text-gray-400 hover:text-white underline"
+                          >
+                            Done
+                          </button>
+                        )}
+                      </span>
+                    )}
                   </div>
                   
                   <div className="space-y-3">
-                    {scene.beats.map(beat => (
-                      <div key={beat.id} className={`p-4 rounded-lg border-l-4 ${getBeatColor(beat.type)} group relative flex gap-4`}>
+                    {scene.beats.map(beat => {
+                      const beatThreads = comments.threads.filter(t => t.beat_id === beat.id);
+                      const openThreads = beatThreads.filter(t => t.status === 'open').length;
+                      const beatSuggestions = suggestions.suggestions.filter(s => s.beat_id === beat.id && s.status === 'pending');
+                      return (
+                      <div key={beat.id} id={`beat-${beat.id}`} className={`p-4 rounded-lg border-l-4 ${getBeatColor(beat.type)} group relative flex gap-4`}>
                         <div className="flex-1">
                           <div className="flex justify-between items-start mb-2">
                             <span className="text-[8px] font-black uppercase tracking-widest text-gray-500 opacity-50 group-hover:opacity-100 transition">{beat.type.replace('_', ' ')}</span>
                             <div className="flex items-center gap-3">
                                 <span className="text-[10px] font-mono text-gray-500">{beat.duration_seconds}s</span>
+                                {openThreads > 0 && (
+                                    <button
+                                        onClick={() => { setCommentBeatId(beat.id); setCommentDraft(null); setShowComments(true); }}
+                                        className="text-[9px] text-yellow-400 flex items-center gap-1 px-2 py-0.5 rounded bg-yellow-400/10 hover:bg-yellow-400/20 transition"
+                                    >
+                                        💬 {openThreads}
+                                    </button>
+                                )}
+                                <button
+                                    onMouseDown={e => e.preventDefault()}
+                                    onClick={() => startComment(beat)}
+                                    disabled={Boolean(commentDenial)}
+                                    title={commentDenial || 'Select text first to comment on just that part'}
+                                    className="text-[9px] text-gray-500 hover:text-white flex items-center gap-1 px-2 py-0.5 rounded hover:bg-white/10 transition disabled:opacity-40"
+                                >
+                                    {selection?.beat_id === beat.id ? '💬 Comment on selection' : '💬 Comment'}
+                                </button>
                                 <button 
-                                    onClick={() => setRewritingBeatId(rewritingBeatId === beat.id ? null : beat.id)}
-                                    className="text-[9px] text-gray-500 hover:text-white flex items-center gap-1 px-2 py-0.5 rounded hover:bg-white/10 transition"
+                                    onClick={() => { claimScene(scene); setRewritingBeatId(rewritingBeatId === beat.id ? null : beat.id); }}
+                                    disabled={Boolean(denial)}
+                                    title={denial}
+                                    className="text-[9px] text-gray-500 hover:text-white flex items-center gap-1 px-2 py-0.5 rounded hover:bg-white/10 transition disabled:opacity-40 disabled:hover:text-gray-500 disabled:hover:bg-transparent"
                                 >
                                     ✨ Rewrite
                                 </button>
                                 {['voice_over', 'ai_visual', 'archive'].includes(beat.type) && (
                                     <button 
-                                      onClick={() => generateVisualForBeat(beat)}
-                                      disabled={beat.is_generating_visual}
-                                      className={`text-[8px] font-bold px-2 py-0.5 rounded border transition ${beat.is_generating_visual ? 'animate-pulse bg-purple-600/20 border-purple-500' : 'bg-[#222] border-[#333] hover:border-purple-500'}`}
+                                      onClick={() => { claimScene(scene); generateVisualForBeat(beat); }}
+                                      disabled={beat.is_generating_visual || Boolean(denial)}
+                                      title={denial}
+                                      className={`text-[8px] font-bold px-2 py-0.5 rounded border transition ${beat.is_generating_visual ? 'animate-pulse bg-purple-600/20 border-purple-500' : 'bg-[#222] border-[#333] hover:border-purple-500'} disabled:opacity-40`}
                                     >
                                       {beat.is_generating_visual ? 'VEO...' : 'GENERATE B-ROLL'}
                                     </button>
@@ -384,15 +678,50 @@ const ScriptingPhase: React.FC<ScriptingPhaseProps> = ({ project, onAdvance }) =
                           
                           {beat.speaker && <p className="text-xs font-bold text-red-500 mb-1">{beat.speaker.toUpperCase()}:</p>}
                           
-                          {/* Rich Text Editor */}
-                          <div 
-                            contentEditable
-                            suppressContentEditableWarning
-                            onBlur={(e) => updateBeatContent(beat.id, e.currentTarget.innerHTML)}
-                            dangerouslySetInnerHTML={{ __html: beat.content || `[${beat.type.toUpperCase()} PLACEHOLDER]` }}
+                          {/* Rich Text Editor, shared live with the other writers */}
+                          <BeatEditor
+                            html={drafts[beat.id]?.html ?? (beat.content || `[${beat.type.toUpperCase()} PLACEHOLDER]`)}
+                            editable={!editDenial}
+                            title={editDenial}
+                            cursors={suggestMode ? [] : collab.cursors.filter(c => c.beat_id === beat.id)}
+                            onChange={html => suggestMode || drafts[beat.id]
+                              ? setDrafts(prev => ({ ...prev, [beat.id]: { base: prev[beat.id]?.base ?? (beat.content || ''), html } }))
+                              : updateBeatContent(beat.id, html)}
+                            onCursor={cursor => collab.setCursor(cursor && !suggestMode ? { beat_id: beat.id, ...cursor } : null)}
+                            anchors={[
+                              ...beatThreads
+                                .filter(t => t.anchor && (t.status === 'open' || t.id === activeThreadId))
+                                .map(t => ({ id: t.id, anchor: t.anchor!, active: t.id === activeThreadId })),
+                              ...(commentDraft?.beat_id === beat.id && commentDraft.anchor ? [{ id: 'draft', anchor: commentDraft.anchor, active: true }] : []),
+                            ]}
+                            onSelect={anchor => setSelection(prev => anchor ? { ...anchor, beat_id: beat.id } : prev?.beat_id === beat.id ? null : prev)}
                             className="text-sm text-gray-200 leading-relaxed outline-none focus:ring-1 focus:ring-red-600/30 rounded p-1"
                           />
                           
+                          {drafts[beat.id] && (
+                              <div className="mt-2 flex items-center gap-2">
+                                  <span className="text-[10px] text-green-500">Suggested edit, not yet in the script</span>
+                                  <button onClick={() => proposeDraft(beat.id)} className="text-[10px] font-bold uppercase px-3 py-1 rounded bg-green-600 hover:bg-green-700 text-white">
+                                      Suggest Change
+                                  </button>
+                                  <button onClick={() => setDrafts(({ [beat.id]: _, ...rest }) => rest)} className="text-[10px] text-gray-500 hover:text-white px-2">
+                                      Discard
+                                  </button>
+                              </div>
+                          )}
+
+                          {/* Pending suggestions, alternatives of one rewrite together */}
+                          {[...new Set(beatSuggestions.map(s => s.group_id))].map(groupId => (
+                              <SuggestionCard
+                                  key={groupId}
+                                  alternatives={beatSuggestions.filter(s => s.group_id === groupId)}
+                                  beatHtml={beat.content || ''}
+                                  denial={denial}
+                                  onDecide={decideSuggestion}
+                                  onDismiss={dismissSuggestion}
+                              />
+                          ))}
+
                           {/* Magic Rewrite UI */}
                           {rewritingBeatId === beat.id && (
                               <div className="mt-3 p-3 bg-[#111] rounded border border-gray-700 animate-in fade-in slide-in-from-top-1">
@@ -420,17 +749,29 @@ const ScriptingPhase: React.FC<ScriptingPhaseProps> = ({ project, onAdvance }) =
                                               {opt}
                                           </button>
                                       ))}
+                                      <div className="ml-auto flex items-center gap-1 text-[9px] text-gray-500">
+                                          Alternatives
+                                          {[1, 2, 3].map(n => (
+                                              <button
+                                                  key={n}
+                                                  onClick={() => setRewriteAlternatives(n)}
+                                                  className={`w-5 h-5 rounded ${rewriteAlternatives === n ? 'bg-red-600 text-white' : 'bg-[#222] hover:text-white'}`}
+                                              >
+                                                  {n}
+                                              </button>
+                                          ))}
+                                      </div>
                                   </div>
                               </div>
                           )}
                           
                           {/* Toolbar helper */}
-                          <div className="mt-2 flex gap-2 opacity-0 group-hover:opacity-100 transition">
+                          {!editDenial && <div className="mt-2 flex gap-2 opacity-0 group-hover:opacity-100 transition">
                             <button onMouseDown={(e) => { e.preventDefault(); handleFormat('bold'); }} className="text-[10px] text-gray-600 hover:text-white font-bold px-1.5 py-0.5 hover:bg-white/10 rounded">B</button>
                             <button onMouseDown={(e) => { e.preventDefault(); handleFormat('italic'); }} className="text-[10px] text-gray-600 hover:text-white italic px-1.5 py-0.5 hover:bg-white/10 rounded">I</button>
                             <button onMouseDown={(e) => { e.preventDefault(); handleFormat('underline'); }} className="text-[10px] text-gray-600 hover:text-white underline px-1.5 py-0.5 hover:bg-white/10 rounded">U</button>
                             <button onMouseDown={(e) => { e.preventDefault(); handleFormat('hiliteColor', '#b45309'); }} className="text-[10px] text-gray-600 hover:text-white bg-yellow-600/20 px-1.5 py-0.5 rounded">HL</button>
-                          </div>
+                          </div>}
                         </div>
 
                         {beat.visual_url && (
@@ -439,10 +780,12 @@ const ScriptingPhase: React.FC<ScriptingPhaseProps> = ({ project, onAdvance }) =
                             </div>
                         )}
                       </div>
-                    ))}
+                      );
+                    })}
                   </div>
                 </div>
-              ))}
+                );
+              })}
             </div>
           ))}
         </div>
@@ -1,24 +1,52 @@
 
 import React from 'react';
-import { DocumentaryProject, ProjectPhase, UserProfile } from '../types';
+import { DocumentaryProject, ProjectPhase, ProjectPresence, UserProfile } from '../types';
+import { describeScope } from '../lib/locks';
 
 interface SidebarProps {
   activeProject: DocumentaryProject | null;
+  viewPhase: ProjectPhase | null; // The phase the user is looking at
+  presence?: ProjectPresence; // Locks on the open project, shown next to each phase
   user: UserProfile;
   onSelectDashboard: () => void;
   onSwitchPhase: (phase: ProjectPhase) => void;
   onToggleNotifications: () => void;
   onLogout: () => void;
+  onOpenPermissions: () => void;
+  permissionsDenial?: string; // Why the current user can't change the project's permissions
   notificationCount: number;
 }
 
+// Who holds the phase, or its scenes/folders, as a small avatar stack
+const LockHolders: React.FC<{ locks: ProjectPresence['locks']; userId: string }> = ({ locks, userId }) => {
+  if (locks.length === 0) return null;
+  const title = locks.map(l => `${l.user_id === userId ? 'You' : l.username} · ${describeScope(l)}`).join('\n');
+  return (
+    <span className="ml-auto flex items-center -space-x-1.5" title={title}>
+      {locks.slice(0, 3).map(l => (
+        <img
+          key={`${l.user_id}:${l.entity_id || ''}`}
+          src={l.avatar || `https://api.dicebear.com/7.x/avataaars/svg?seed=${encodeURIComponent(l.user_id)}`}
+          className={`w-5 h-5 rounded-full border ${l.user_id === userId ? 'border-green-500' : 'border-yellow-500'}`}
+          alt={l.username}
+        />
+      ))}
+      {locks.length > 3 && <span className="pl-2 text-[10px] text-gray-500">+{locks.length - 3}</span>}
+    </span>
+  );
+};
+
 const Sidebar: React.FC<SidebarProps> = ({ 
   activeProject, 
+  viewPhase,
+  presence,
   user, 
   onSelectDashboard, 
   onSwitchPhase, 
   onToggleNotifications,
   onLogout,
+  onOpenPermissions,
+  permissionsDenial,
   notificationCount 
 }) => {
   const phases: { id: ProjectPhase; label: string; icon: string }[] = [
@@ -80,13 +108,23 @@ const Sidebar: React.FC<SidebarProps> = ({
                   key={phase.id}
                   onClick={() => onSwitchPhase(phase.id)}
                   className={`w-full text-left p-3 rounded-lg text-sm flex items-center gap-3 transition ${
-                    activeProject.current_phase === phase.id ? 'bg-red-600/20 text-red-500 font-semibold' : 'text-gray-400 hover:bg-white/5'
+                    viewPhase === phase.id ? 'bg-red-600/20 text-red-500 font-semibold' : 'text-gray-400 hover:bg-white/5'
                   }`}
                 >
                   <span className="text-lg opacity-80">{phase.icon}</span>
                   {phase.label}
+                  <LockHolders locks={(presence?.locks || []).filter(l => l.phase === phase.id)} userId={user.id} />
                 </button>
               ))}
+              <button
+                onClick={onOpenPermissions}
+                disabled={Boolean(permissionsDenial)}
+                title={permissionsDenial || 'Choose which roles can do what on this project'}
+                className="w-full text-left p-3 rounded-lg text-sm flex items-center gap-3 transition text-gray-400 hover:bg-white/5 disabled:opacity-40 disabled:hover:bg-transparent"
+              >
+                <span className="text-lg opacity-80">🔐</span>
+                Permissions
+              </button>
             </div>
           </div>
         )}
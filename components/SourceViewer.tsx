@@ -0,0 +1,101 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ResearchSource, SourceCitation } from '../types';
+
+interface SourceViewerProps {
+  source: ResearchSource;
+  citation: SourceCitation;
+  onClose: () => void;
+}
+
+// Locates the cited span: stored offsets first, then the excerpt text for citations made before offsets existed
+const findSpan = (text: string, citation: SourceCitation): [number, number] | null => {
+  if (citation.char_start !== undefined && citation.char_end !== undefined && citation.char_end <= text.length) {
+    return [citation.char_start, citation.char_end];
+  }
+  const needle = citation.quote || citation.excerpt;
+  const index = needle ? text.indexOf(needle) : -1;
+  return index === -1 ? null : [index, index + (needle as string).length];
+};
+
+/**
+ * Opens a research source at a cited passage so fact-checkers can verify a claim in context.
+ */
+const SourceViewer: React.FC<SourceViewerProps> = ({ source, citation, onClose }) => {
+  const pages = source.pages || [];
+  const [pageNumber, setPageNumber] = useState(citation.page_number || pages[0]?.page_number || 0);
+  const highlightRef = useRef<HTMLElement>(null);
+
+  const text = pages.length > 0
+    ? pages.find(p => p.page_number === pageNumber)?.text || ''
+    : source.content || '';
+  const span = pageNumber === citation.page_number || pages.length === 0 ? findSpan(text, citation) : null;
+
+  useEffect(() => {
+    highlightRef.current?.scrollIntoView({ block: 'center' });
+  }, [pageNumber, citation]);
+
+  return (
+    <div className="fixed inset-0 bg-black/80 backdrop-blur-sm z-50 flex items-center justify-center p-4" onClick={onClose}>
+      <div className="bg-[#1a1a1a] border border-[#333] w-full max-w-3xl max-h-[85vh] flex flex-col rounded-2xl shadow-2xl" onClick={e => e.stopPropagation()}>
+        <div className="flex items-start justify-between gap-4 p-5 border-b border-[#333]">
+          <div className="min-w-0">
+            <h3 className="text-lg font-bold text-white truncate">{source.title}</h3>
+            <div className="flex items-center gap-2 mt-1 text-[10px] text-gray-500">
+              {citation.page_number && <span>Page {citation.page_number}</span>}
+              {source.url && <a href={source.url} target="_blank" rel="noreferrer" className="text-[#1a73e8] truncate hover:underline">{source.url}</a>}
+              {citation.quote_verified === false && (
+                <span className="bg-yellow-900/30 text-yellow-500 px-1.5 py-0.5 rounded font-bold uppercase">Quote not found verbatim</span>
+              )}
+            </div>
+          </div>
+          <button onClick={onClose} className="text-gray-500 hover:text-white text-sm">✕</button>
+        </div>
+
+        <div className="px-5 py-3 bg-[#111] border-b border-[#222]">
+          <p className="text-xs text-gray-300">{citation.relevant_info}</p>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-5">
+          {text ? (
+            <p className="text-sm text-gray-400 leading-relaxed whitespace-pre-wrap">
+              {span ? (
+                <>
+                  {text.slice(0, span[0])}
+                  <mark ref={highlightRef} className="bg-yellow-500/30 text-white rounded px-0.5">{text.slice(span[0], span[1])}</mark>
+                  {text.slice(span[1])}
+                </>
+              ) : text}
+            </p>
+          ) : (
+            <div className="text-center py-8">
+              <p className="text-xs text-gray-500 mb-3">The full text of this source is not stored. Cited excerpt:</p>
+              <blockquote className="border-l-2 border-yellow-500 pl-3 text-sm text-gray-300 italic text-left">{citation.quote || citation.excerpt}</blockquote>
+            </div>
+          )}
+        </div>
+
+        {pages.length > 1 && (
+          <div className="flex items-center justify-between p-3 border-t border-[#333] text-xs">
+            <button
+              onClick={() => setPageNumber(n => Math.max(pages[0].page_number, n - 1))}
+              disabled={pageNumber <= pages[0].page_number}
+              className="px-3 py-1 rounded bg-[#222] text-gray-300 disabled:opacity-30"
+            >
+              ← Prev
+            </button>
+            <span className="text-gray-500">Page {pageNumber} of {pages.length}</span>
+            <button
+              onClick={() => setPageNumber(n => Math.min(pages[pages.length - 1].page_number, n + 1))}
+              disabled={pageNumber >= pages[pages.length - 1].page_number}
+              className="px-3 py-1 rounded bg-[#222] text-gray-300 disabled:opacity-30"
+            >
+              Next →
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SourceViewer;
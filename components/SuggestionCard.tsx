@@ -0,0 +1,121 @@
+import React, { useState } from 'react';
+import { ScriptSuggestion, SuggestionDecision } from '../types';
+import { stripMarkup } from '../lib/scriptDiff';
+import { applyDecisions, isOutdated, suggestionPieces } from '../lib/suggestions';
+
+interface SuggestionCardProps {
+  alternatives: ScriptSuggestion[]; // The pending suggestions of one group, in order
+  beatHtml: string; // The beat's text now
+  denial?: string; // Why the user can't decide, e.g. someone else is editing the scene
+  onDecide: (suggestion: ScriptSuggestion, decisions: SuggestionDecision[], content: string) => Promise<void>;
+  onDismiss: (suggestion: ScriptSuggestion) => Promise<void>;
+}
+
+/**
+ * A suggested rewrite of a beat as tracked changes: deletions struck through, insertions in
+ * green, each change with its own accept and reject. AI rewrites show their instruction and
+ * their alternatives side by side as tabs.
+ */
+const SuggestionCard: React.FC<SuggestionCardProps> = ({ alternatives, beatHtml, denial, onDecide, onDismiss }) => {
+  const [selected, setSelected] = useState(0);
+  const [isBusy, setIsBusy] = useState(false);
+  const suggestion = alternatives[Math.min(selected, alternatives.length - 1)];
+  const pieces = suggestionPieces(suggestion.base, suggestion.proposed);
+  const outdated = isOutdated(suggestion, beatHtml);
+  const blocked = isBusy || Boolean(denial);
+
+  const run = async (task: () => Promise<void>) => {
+    setIsBusy(true);
+    try {
+      await task();
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const decide = (decisions: SuggestionDecision[]) =>
+    run(() => onDecide(suggestion, decisions, applyDecisions(pieces, decisions)));
+  const decideHunk = (index: number, decision: SuggestionDecision) =>
+    decide(suggestion.decisions.map((d, i) => (i === index ? decision : d)));
+  const decideRest = (decision: SuggestionDecision) =>
+    decide(suggestion.decisions.map(d => d ?? decision));
+
+  return (
+    <div className="mt-3 p-3 bg-[#111] rounded border border-green-600/30 animate-in fade-in">
+      <div className="flex items-center gap-2 mb-2">
+        <span className="text-[9px] font-bold uppercase tracking-widest text-green-500">
+          {suggestion.source === 'ai' ? '✨ AI suggestion' : `✎ ${suggestion.created_by_name} suggests`}
+        </span>
+        {suggestion.instruction && <span className="text-[10px] text-gray-400 italic truncate">"{suggestion.instruction}"</span>}
+        {alternatives.length > 1 && (
+          <div className="flex gap-1 ml-auto">
+            {alternatives.map((alt, i) => (
+              <button
+                key={alt.id}
+                onClick={() => setSelected(i)}
+                className={`text-[9px] font-bold w-5 h-5 rounded ${i === selected ? 'bg-green-600 text-white' : 'bg-[#222] text-gray-400 hover:text-white'}`}
+              >
+                {String.fromCharCode(65 + i)}
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <p className="text-sm text-gray-300 leading-relaxed whitespace-pre-wrap">
+        {pieces.map((piece, i) => {
+          if (piece.kind === 'same') return <span key={i}>{stripMarkup(piece.text)}</span>;
+          const decision = suggestion.decisions[piece.index];
+          const removed = stripMarkup(piece.removed);
+          const added = stripMarkup(piece.added);
+          if (decision === 'accepted') return <span key={i} className="text-green-300">{added}</span>;
+          if (decision === 'rejected') return <span key={i}>{removed}</span>;
+          return (
+            <span key={i} className="bg-white/5 rounded">
+              {removed && <del className="text-red-400 decoration-red-400">{removed}</del>}
+              {added && <ins className="text-green-400 no-underline bg-green-600/10">{added}</ins>}
+              {!removed.trim() && !added.trim() && <span className="text-[9px] text-gray-500">[formatting]</span>}
+              {!outdated && (
+                <span className="inline-flex gap-0.5 mx-1 align-middle">
+                  <button onClick={() => decideHunk(piece.index, 'accepted')} disabled={blocked} title={denial || 'Accept this change'} className="text-[9px] text-green-500 hover:bg-green-600/20 rounded px-1 disabled:opacity-40">✓</button>
+                  <button onClick={() => decideHunk(piece.index, 'rejected')} disabled={blocked} title={denial || 'Reject this change'} className="text-[9px] text-red-500 hover:bg-red-600/20 rounded px-1 disabled:opacity-40">✗</button>
+                </span>
+              )}
+            </span>
+          );
+        })}
+      </p>
+
+      <div className="flex items-center gap-2 mt-3">
+        {outdated ? (
+          <>
+            <span className="text-[10px] text-yellow-500">The beat has changed since this was suggested.</span>
+            <button
+              onClick={() => confirm('Replace the beat with this suggestion? Changes made to it since will be lost.')
+                && run(() => onDecide(suggestion, suggestion.decisions.map(() => 'accepted'), suggestion.proposed))}
+              disabled={blocked}
+              title={denial}
+              className="ml-auto text-[10px] font-bold uppercase px-3 py-1 rounded border border-green-600/50 text-green-400 hover:bg-green-600/10 disabled:opacity-40"
+            >
+              Use This Version
+            </button>
+          </>
+        ) : (
+          <>
+            <button onClick={() => decideRest('accepted')} disabled={blocked} title={denial} className="text-[10px] font-bold uppercase px-3 py-1 rounded bg-green-600 hover:bg-green-700 text-white disabled:opacity-40">
+              Accept All
+            </button>
+            <button onClick={() => decideRest('rejected')} disabled={blocked} title={denial} className="text-[10px] font-bold uppercase px-3 py-1 rounded border border-red-600/50 text-red-400 hover:bg-red-600/10 disabled:opacity-40">
+              Reject All
+            </button>
+          </>
+        )}
+        <button onClick={() => run(() => onDismiss(suggestion))} disabled={blocked} title={denial} className={`text-[10px] text-gray-500 hover:text-white px-2 disabled:opacity-40 ${outdated ? '' : 'ml-auto'}`}>
+          Dismiss
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default SuggestionCard;
@@ -2,10 +2,19 @@
 import React, { useState, useEffect } from 'react';
 import { DocumentaryProject, VoiceOver, VoiceTalent, ElevenLabsSettings, UserProfile } from '../types';
 import { elevenLabsService } from '../services/elevenLabsService';
+import { useProjectCollection } from '../hooks/useProjectCollection';
+import PermissionNotice from './PermissionNotice';
+import ApprovedScriptNotice from './ApprovedScriptNotice';
+import { useApprovedScript } from '../hooks/useApprovedScript';
+import { beatsOfType, inScriptOrder, isOrphaned, lineFollowsBeat, syncVoiceOvers } from '../lib/scriptBeats';
+import { isStaleVoiceOver } from '../lib/scriptImpact';
+import { plainText } from '../lib/scriptDiff';
+import { ProjectAccess } from '../lib/permissions';
 
 interface VoiceOverPhaseProps {
   project: DocumentaryProject;
   user: UserProfile;
+  access: ProjectAccess;
   onAdvance: () => void;
 }
 
@@ -27,58 +36,109 @@ const INTONATION_TAGS = [
     { label: 'Laugh', tag: '[laugh]' }
 ];
 
-const VoiceOverPhase: React.FC<VoiceOverPhaseProps> = ({ project, user, onAdvance }) => {
+const VoiceOverPhase: React.FC<VoiceOverPhaseProps> = ({ project, user, access, onAdvance }) => {
+  const recordDenial = access.reason('voiceover.record');
+  const approveDenial = access.reason('voiceover.approve');
   const [availableVoices, setAvailableVoices] = useState<VoiceTalent[]>([]);
   const [isLoadingVoices, setIsLoadingVoices] = useState(false);
+  const [voiceError, setVoiceError] = useState('');
   
   const apiKey = user.elevenLabsApiKey || '';
 
-  const [voiceOvers, setVoiceOvers] = useState<VoiceOver[]>([
-    {
-      id: 'vo-1',
-      project_id: project.id,
-      beat_id: 'beat-0-0-1',
-      voice_id: '', 
-      voice_name: 'Select Voice',
-      voice_provider: 'elevenlabs',
-      text: 'In the heart of 1990s London, a quiet revolution was beginning. Not one of politics, but of silicon and ambition.',
-      status: 'pending',
-      duration_seconds: 0,
-      generation_settings: { ...defaultSettings }
-    },
-    {
-      id: 'vo-2',
-      project_id: project.id,
-      beat_id: 'beat-0-0-2',
-      voice_id: '',
-      voice_name: 'Select Voice',
-      voice_provider: 'elevenlabs',
-      text: 'Venture capital was about to change the landscape of British business forever.',
-      status: 'pending',
-      duration_seconds: 0,
-      generation_settings: { ...defaultSettings }
-    }
-  ]);
+  const [voiceOvers, setVoiceOvers, voiceOversLoaded] = useProjectCollection<VoiceOver>(project.id, 'voice_overs');
+  const approved = useApprovedScript(project.id);
 
   // Track cursor position to insert tags seamlessly
   const [lastCursorPos, setLastCursorPos] = useState<{ id: string, start: number, end: number } | null>(null);
 
+  // Changing an approved or rejected line reopens it, which is the approver's call
+  const lineDenial = (vo: VoiceOver) =>
+    recordDenial || (vo.status === 'approved' || vo.status === 'rejected' ? approveDenial : undefined);
+
   useEffect(() => {
     const fetchVoices = async () => {
         setIsLoadingVoices(true);
-        const voices = await elevenLabsService.getVoices(apiKey);
-        setAvailableVoices(voices);
-        
-        if (voices.length > 0) {
-            setVoiceOvers(prev => prev.map(vo => 
-                vo.voice_id ? vo : { ...vo, voice_id: voices[0].id, voice_name: voices[0].name }
-            ));
+        setVoiceError('');
+        try {
+            setAvailableVoices(await elevenLabsService.getVoices(apiKey));
+        } catch (error) {
+            setAvailableVoices([]);
+            setVoiceError(error instanceof Error ? error.message : 'Could not load voices');
+        } finally {
+            setIsLoadingVoices(false);
         }
-        setIsLoadingVoices(false);
     };
     fetchVoices();
   }, [apiKey]);
 
+  // Default unassigned lines to the first available voice once both lists are in
+  useEffect(() => {
+    if (!voiceOversLoaded || availableVoices.length === 0 || recordDenial) return;
+    if (!voiceOvers.some(vo => !vo.voice_id)) return;
+    setVoiceOvers(prev => prev.map(vo =>
+        vo.voice_id ? vo : { ...vo, voice_id: availableVoices[0].id, voice_name: availableVoices[0].name }
+    ));
+  }, [voiceOversLoaded, availableVoices, voiceOvers, recordDenial]);
+
+  // Every voice-over beat of the approved script gets a line to record, which follows the beat until edited
+  useEffect(() => {
+    if (!voiceOversLoaded || !approved.script || recordDenial) return;
+    const voice = availableVoices[0];
+    const synced = syncVoiceOvers(voiceOvers, approved.script, (beat, text) => ({
+        id: `vo-${beat.id}`,
+        project_id: project.id,
+        beat_id: beat.id,
+        voice_id: voice?.id || '',
+        voice_name: voice?.name || 'Select Voice',
+        voice_provider: 'elevenlabs',
+        text,
+        beat_text: text,
+        status: 'pending',
+        duration_seconds: 0,
+        generation_settings: { ...defaultSettings }
+    }));
+    if (synced) setVoiceOvers(synced);
+  }, [voiceOversLoaded, approved.script, voiceOvers, recordDenial]);
+
+  const orderedLines = inScriptOrder(voiceOvers, approved.script);
+
+  const voiceBeats = approved.script ? beatsOfType(approved.script, 'voice_over') : [];
+  // Where a line sits in the approved script, for its label
+  const beatLabel = (vo: VoiceOver) =>
+    vo.beat_id ? voiceBeats.find(ref => ref.beat.id === vo.beat_id)?.context || vo.beat_id : 'Added line';
+
+  // The beat's text in the approved script, for a line recorded or edited from older text
+  const newBeatText = (vo: VoiceOver) => {
+    if (lineFollowsBeat(vo) || !isStaleVoiceOver(vo, approved.script)) return null;
+    const ref = voiceBeats.find(r => r.beat.id === vo.beat_id);
+    return ref ? plainText(ref.beat.content) : null;
+  };
+
+  const takeBeatText = (vo: VoiceOver, text: string) => {
+    setVoiceOvers(prev => prev.map(v => v.id === vo.id ? { ...v, text, beat_text: text, status: 'pending' } : v));
+  };
+
+  const removeLine = (vo: VoiceOver) => {
+    if (!confirm(`Remove this line${vo.audio_url ? ' and its recording' : ''}?`)) return;
+    setVoiceOvers(prev => prev.filter(v => v.id !== vo.id));
+  };
+
+  const addLine = () => {
+    const voice = availableVoices[0];
+    setVoiceOvers(prev => [...prev, {
+        id: `vo-${Date.now()}`,
+        project_id: project.id,
+        beat_id: '',
+        voice_id: voice?.id || '',
+        voice_name: voice?.name || 'Select Voice',
+        voice_provider: 'elevenlabs',
+        text: '',
+        status: 'pending',
+        duration_seconds: 0,
+        generation_settings: { ...defaultSettings }
+    }]);
+  };
+
   const generateLine = async (voId: string) => {
     const vo = voiceOvers.find(v => v.id === voId);
     if (!vo || !vo.voice_id) return;
@@ -105,6 +165,10 @@ const VoiceOverPhase: React.FC<VoiceOverPhaseProps> = ({ project, user, onAdvanc
     }
   };
 
+  const setReview = (voId: string, status: 'approved' | 'rejected' | 'complete') => {
+    setVoiceOvers(prev => prev.map(v => v.id === voId ? { ...v, status } : v));
+  };
+
   const updateSettings = (voId: string, key: keyof ElevenLabsSettings, value: number | boolean) => {
     setVoiceOvers(prev => prev.map(vo => {
         if (vo.id !== voId) return vo;
@@ -165,17 +229,23 @@ const VoiceOverPhase: React.FC<VoiceOverPhaseProps> = ({ project, user, onAdvanc
           <div className="flex items-center gap-2 mt-1">
              <span className={`w-2 h-2 rounded-full ${apiKey ? 'bg-green-500' : 'bg-yellow-500 animate-pulse'}`}></span>
              <p className="text-gray-500 text-xs">
-                 {apiKey ? 'Connected to Your ElevenLabs API' : 'Demo Mode (Mock Voices)'}
+                 {apiKey ? 'Connected to Your ElevenLabs API' : 'Studio Voice Account'}
              </p>
           </div>
         </div>
         <div className="flex gap-4">
+          <button onClick={addLine} disabled={Boolean(recordDenial)} title={recordDenial} className="bg-[#222] hover:bg-[#333] disabled:opacity-40 disabled:hover:bg-[#222] text-white font-bold px-6 py-2 rounded">
+            + ADD LINE
+          </button>
           <button onClick={onAdvance} className="bg-white text-black font-bold px-6 py-2 rounded flex items-center gap-2">
             LOCK AUDIO <span className="text-xl">→</span>
           </button>
         </div>
       </div>
 
+      <PermissionNotice reason={recordDenial} />
+      <ApprovedScriptNotice approved={approved} />
+
       {!apiKey && (
           <div className="bg-yellow-500/10 border border-yellow-500/30 p-4 rounded-lg mb-6 flex justify-between items-center">
               <div className="flex items-center gap-3">
@@ -186,11 +256,18 @@ const VoiceOverPhase: React.FC<VoiceOverPhaseProps> = ({ project, user, onAdvanc
                   </div>
               </div>
               <div className="text-[10px] uppercase font-bold text-yellow-500">
-                  Using Fallback Voices
+                  Using Studio Voices
               </div>
           </div>
       )}
 
+      {voiceError && (
+          <div className="bg-red-500/10 border border-red-500/30 p-4 rounded-lg mb-6">
+              <h4 className="text-sm font-bold text-red-400">Voices Unavailable</h4>
+              <p className="text-xs text-red-200/70">{voiceError}</p>
+          </div>
+      )}
+
       <div className="bg-[#111] border border-[#222] rounded-2xl overflow-hidden shadow-2xl">
         <table className="w-full text-left border-collapse">
           <thead>
@@ -202,12 +279,33 @@ const VoiceOverPhase: React.FC<VoiceOverPhaseProps> = ({ project, user, onAdvanc
             </tr>
           </thead>
           <tbody className="divide-y divide-[#222]">
-            {voiceOvers.map(vo => (
+            {orderedLines.map(vo => (
               <tr key={vo.id} className="hover:bg-white/5 transition group">
                 {/* COL 1: Voice Selection */}
                 <td className="p-4 align-top">
                   <div className="space-y-2">
-                     <p className="text-[10px] text-gray-500 font-mono">{vo.beat_id}</p>
+                     {isOrphaned(vo.beat_id, approved.script) ? (
+                        <div className="flex items-center gap-2">
+                            <span className="text-[9px] font-bold uppercase bg-yellow-600/20 text-yellow-500 px-2 py-0.5 rounded" title="Its voice-over beat is no longer in the approved script">
+                                ⚠ Orphaned
+                            </span>
+                            <button onClick={() => removeLine(vo)} disabled={Boolean(lineDenial(vo))} title={lineDenial(vo)} className="text-[10px] text-gray-500 hover:text-red-400 disabled:opacity-40">
+                                Remove
+                            </button>
+                        </div>
+                     ) : (
+                        <p className="text-[10px] text-gray-500 font-mono truncate" title={vo.beat_id}>{beatLabel(vo)}</p>
+                     )}
+                     {newBeatText(vo) !== null && (
+                        <div className="flex items-center gap-2">
+                            <span className="text-[9px] font-bold uppercase bg-orange-600/20 text-orange-400 px-2 py-0.5 rounded" title={`The beat now reads: ${newBeatText(vo)}`}>
+                                ⚠ Stale
+                            </span>
+                            <button onClick={() => takeBeatText(vo, newBeatText(vo)!)} disabled={Boolean(lineDenial(vo))} title={lineDenial(vo) || 'Replace the line with the beat\'s new text; it will need recording again'} className="text-[10px] text-gray-500 hover:text-white disabled:opacity-40">
+                                Take New Text
+                            </button>
+                        </div>
+                     )}
                      <div className="flex items-center gap-3">
                         <div className="w-10 h-10 rounded-full bg-gradient-to-br from-[#1a1a1a] to-[#333] border border-[#444] flex items-center justify-center">
                             {isLoadingVoices ? '...' : '🗣️'}
@@ -216,6 +314,8 @@ const VoiceOverPhase: React.FC<VoiceOverPhaseProps> = ({ project, user, onAdvanc
                             <select 
                                 value={vo.voice_id}
                                 onChange={(e) => updateVoiceSelection(vo.id, e.target.value)}
+                                disabled={Boolean(lineDenial(vo))}
+                                title={lineDenial(vo)}
                                 className="w-full bg-[#0a0a0a] border border-[#333] rounded px-2 py-1 text-xs font-bold text-white focus:border-blue-500 outline-none"
                             >
                                 {availableVoices.map(v => (
@@ -240,6 +340,8 @@ const VoiceOverPhase: React.FC<VoiceOverPhaseProps> = ({ project, user, onAdvanc
                         onSelect={(e) => handleTextSelect(e, vo.id)}
                         onClick={(e) => handleTextSelect(e, vo.id)}
                         onKeyUp={(e) => handleTextSelect(e, vo.id)}
+                        readOnly={Boolean(lineDenial(vo))}
+                        title={lineDenial(vo)}
                         className="w-full h-24 bg-transparent text-sm text-gray-300 leading-relaxed resize-none focus:outline-none border border-transparent focus:border-[#333] rounded p-2"
                     />
                     {/* Director's Cues Toolbar */}
@@ -250,7 +352,9 @@ const VoiceOverPhase: React.FC<VoiceOverPhaseProps> = ({ project, user, onAdvanc
                                 <button
                                     key={tag.label}
                                     onClick={() => insertTag(vo.id, tag.tag)}
-                                    className="text-[9px] bg-[#222] hover:bg-white hover:text-black border border-[#333] px-2 py-1 rounded transition uppercase font-bold text-gray-400"
+                                    disabled={Boolean(lineDenial(vo))}
+                                    title={lineDenial(vo)}
+                                    className="text-[9px] bg-[#222] hover:bg-white hover:text-black border border-[#333] px-2 py-1 rounded transition uppercase font-bold text-gray-400 disabled:opacity-40 disabled:hover:bg-[#222] disabled:hover:text-gray-400"
                                 >
                                     {tag.label}
                                 </button>
@@ -272,6 +376,7 @@ const VoiceOverPhase: React.FC<VoiceOverPhaseProps> = ({ project, user, onAdvanc
                             type="range" min="0" max="1" step="0.01"
                             value={vo.generation_settings?.stability}
                             onChange={(e) => updateSettings(vo.id, 'stability', parseFloat(e.target.value))}
+                            disabled={Boolean(lineDenial(vo))}
                             className="w-full h-1 bg-[#333] rounded-lg appearance-none cursor-pointer"
                         />
                       </div>
@@ -285,6 +390,7 @@ const VoiceOverPhase: React.FC<VoiceOverPhaseProps> = ({ project, user, onAdvanc
                             type="range" min="0" max="1" step="0.01"
                             value={vo.generation_settings?.similarity_boost}
                             onChange={(e) => updateSettings(vo.id, 'similarity_boost', parseFloat(e.target.value))}
+                            disabled={Boolean(lineDenial(vo))}
                             className="w-full h-1 bg-[#333] rounded-lg appearance-none cursor-pointer"
                         />
                       </div>
@@ -298,6 +404,7 @@ const VoiceOverPhase: React.FC<VoiceOverPhaseProps> = ({ project, user, onAdvanc
                             type="range" min="0" max="1" step="0.01"
                             value={vo.generation_settings?.style}
                             onChange={(e) => updateSettings(vo.id, 'style', parseFloat(e.target.value))}
+                            disabled={Boolean(lineDenial(vo))}
                             className="w-full h-1 bg-[#333] rounded-lg appearance-none cursor-pointer"
                         />
                       </div>
@@ -308,8 +415,9 @@ const VoiceOverPhase: React.FC<VoiceOverPhaseProps> = ({ project, user, onAdvanc
                 <td className="p-4 align-top text-right">
                    <div className="flex flex-col items-end gap-3">
                       <span className={`text-[9px] font-bold px-2 py-1 rounded uppercase ${
+                        vo.status === 'approved' ? 'bg-green-500 text-black' :
                         vo.status === 'complete' ? 'bg-green-500/10 text-green-500' : 
-                        vo.status === 'failed' ? 'bg-red-500/10 text-red-500' :
+                        vo.status === 'failed' || vo.status === 'rejected' ? 'bg-red-500/10 text-red-500' :
                         vo.status === 'generating' ? 'bg-blue-500/10 text-blue-500 animate-pulse' :
                         'bg-yellow-500/10 text-yellow-500'
                       }`}>
@@ -318,12 +426,50 @@ const VoiceOverPhase: React.FC<VoiceOverPhaseProps> = ({ project, user, onAdvanc
                       
                       <button 
                         onClick={() => generateLine(vo.id)}
-                        disabled={vo.status === 'generating'}
+                        disabled={vo.status === 'generating' || Boolean(lineDenial(vo))}
+                        title={lineDenial(vo)}
                         className="bg-white hover:bg-gray-200 disabled:opacity-50 text-black font-bold text-[10px] px-4 py-2 rounded uppercase tracking-wider transition"
                       >
                          {vo.status === 'generating' ? 'Recording...' : 'Record Line'}
                       </button>
 
+                      {['complete', 'approved', 'rejected'].includes(vo.status) && (
+                          <div className="flex gap-1">
+                              {vo.status === 'complete' ? (
+                                  <>
+                                      <button
+                                        onClick={() => setReview(vo.id, 'approved')}
+                                        disabled={Boolean(approveDenial)}
+                                        title={approveDenial}
+                                        className="text-[9px] font-bold uppercase px-2 py-1 rounded border border-green-700 text-green-500 hover:bg-green-500 hover:text-black disabled:opacity-40 disabled:hover:bg-transparent disabled:hover:text-green-500 transition"
+                                      >
+                                          Approve
+                                      </button>
+                                      <button
+                                        onClick={() => setReview(vo.id, 'rejected')}
+                                        disabled={Boolean(approveDenial)}
+                                        title={approveDenial}
+                                        className="text-[9px] font-bold uppercase px-2 py-1 rounded border border-red-800 text-red-500 hover:bg-red-600 hover:text-white disabled:opacity-40 disabled:hover:bg-transparent disabled:hover:text-red-500 transition"
+                                      >
+                                          Reject
+                                      </button>
+                                  </>
+                              ) : (
+                                  <button
+                                    onClick={() => setReview(vo.id, 'complete')}
+                                    disabled={Boolean(approveDenial)}
+                                    title={approveDenial}
+                                    className="text-[9px] font-bold uppercase px-2 py-1 rounded border border-[#333] text-gray-400 hover:text-white disabled:opacity-40 disabled:hover:text-gray-400 transition"
+                                  >
+                                      Reopen
+                                  </button>
+                              )}
+                          </div>
+                      )}
+                      {approveDenial && vo.status === 'complete' && (
+                          <p className="text-[9px] text-gray-600 max-w-[160px]">🔒 {approveDenial}</p>
+                      )}
+
                       {vo.audio_url && (
                           <audio controls src={vo.audio_url} className="w-32 h-6 mt-2" />
                       )}
@@ -331,6 +477,13 @@ const VoiceOverPhase: React.FC<VoiceOverPhaseProps> = ({ project, user, onAdvanc
                 </td>
               </tr>
             ))}
+            {voiceOversLoaded && voiceOvers.length === 0 && (
+              <tr>
+                <td colSpan={4} className="p-12 text-center text-gray-600 text-xs font-mono">
+                  No voice-over lines yet. Add a line to start recording.
+                </td>
+              </tr>
+            )}
           </tbody>
         </table>
       </div>
@@ -0,0 +1,45 @@
+import { useEffect, useMemo, useState } from 'react';
+import { DocumentaryScript, ScriptVersion } from '../types';
+import { useProjectCollection } from './useProjectCollection';
+import { scriptVersionService } from '../services/scriptVersionService';
+
+/**
+ * The current script as it was last approved, for the phases that work from it (expert
+ * interviews, voice-over). Null until the script has been approved. A reopened script keeps
+ * its approved version here while the writers rework it.
+ */
+export function useApprovedScript(projectId: string) {
+  const [scripts, , scriptsLoaded] = useProjectCollection<DocumentaryScript>(projectId, 'scripts');
+  const current = scripts.find(s => s.is_current) || null;
+  const versionId = current?.approved_version_id || null;
+  const [version, setVersion] = useState<ScriptVersion | null>(null);
+  const [isLoaded, setIsLoaded] = useState(false);
+
+  useEffect(() => {
+    if (!scriptsLoaded) return;
+    if (!current || !versionId) {
+      setVersion(null);
+      setIsLoaded(true);
+      return;
+    }
+    let cancelled = false;
+    setIsLoaded(false);
+    scriptVersionService.get(projectId, current.id, versionId)
+      .then(found => { if (!cancelled) setVersion(found); })
+      .catch(error => console.error('Failed to load the approved script:', error))
+      .finally(() => { if (!cancelled) setIsLoaded(true); });
+    return () => { cancelled = true; };
+  }, [projectId, scriptsLoaded, current?.id, versionId]);
+
+  const script = useMemo<DocumentaryScript | null>(() => (current && version
+    ? { ...current, parts: version.parts, estimated_duration_minutes: version.estimated_duration_minutes }
+    : null), [current, version]);
+
+  return {
+    script,
+    version,
+    // The script's status now, e.g. to say a newer draft is being worked on
+    status: current?.status || null,
+    isLoaded,
+  };
+}
@@ -0,0 +1,153 @@
+import { useEffect, useRef, useState } from 'react';
+import { LockEntityType, LockScope, Notification, NotificationLink, ProjectLock, ProjectPhase, ProjectPresence, UserProfile } from '../types';
+import { HEARTBEAT_MS, presenceService } from '../services/presenceService';
+import { conflictingLocks, describeScope, ENTITY_LOCK_TYPES, PHASE_LOCK_PERMISSIONS, phaseScope, sameScope } from '../lib/locks';
+import { ProjectAccess } from '../lib/permissions';
+
+type NoticeHandler = (title: string, message: string, type: Notification['type'], link?: NotificationLink) => void;
+
+/** What phases split into scenes or folders need to lock them one at a time. */
+export interface EntityLockControls {
+  userId: string;
+  // Changes whenever someone else takes or lets go of an entity in the viewed phase
+  key: string;
+  lockOf: (entityType: LockEntityType, entityId: string) => ProjectLock | undefined;
+  acquire: (scope: LockScope) => Promise<boolean>;
+  release: (scope: LockScope) => Promise<void>;
+}
+
+/**
+ * Live presence for every project the user can see, plus the locks on the open project.
+ * The phase being viewed is locked as a whole unless its work is split into entities (script
+ * scenes, archive folders), which the phase locks one at a time through acquire/release.
+ * Opening a phase takes its lock when nobody holds it, beats while it stays open, picks the
+ * lock up once the previous editor leaves, and lets go when the user moves to another phase.
+ * Only users who may write the phase's work (PHASE_LOCK_PERMISSIONS) take its locks; the rest
+ * just look.
+ */
+export function usePresence(
+  user: UserProfile | null,
+  projectId: string | null,
+  phase: ProjectPhase | null,
+  access: ProjectAccess | null,
+  onNotice: NoticeHandler
+) {
+  const [presence, setPresence] = useState<Record<string, ProjectPresence>>({});
+  const noticeRef = useRef(onNotice);
+  noticeRef.current = onNotice;
+  const phaseRef = useRef(phase);
+  phaseRef.current = phase;
+  const beatRef = useRef<() => Promise<void>>(async () => undefined);
+  const accessRef = useRef(access);
+  accessRef.current = access;
+  const mayLock = (lockPhase: ProjectPhase) => {
+    const permission = PHASE_LOCK_PERMISSIONS[lockPhase];
+    return Boolean(permission && accessRef.current?.can(permission));
+  };
+
+  const merge = (state: ProjectPresence) => setPresence(prev => ({ ...prev, [state.project_id]: state }));
+
+  useEffect(() => {
+    if (!user) return;
+    setPresence({});
+    return presenceService.subscribe(event => {
+      if (event.type === 'state') merge(event.presence);
+      else noticeRef.current(event.title, event.message, event.kind, event.link);
+    });
+  }, [user?.id]);
+
+  useEffect(() => {
+    if (!user || !projectId) return;
+    let stopped = false;
+
+    const beat = async () => {
+      const viewing = phaseRef.current || 'research';
+      try {
+        const state = await presenceService.heartbeat(projectId, viewing);
+        if (stopped) return;
+        merge(state);
+        // Locks in phases the user has left go back to the team
+        const mine = state.locks.filter(lock => lock.user_id === user.id);
+        await Promise.all(mine.filter(lock => lock.phase !== viewing)
+          .map(lock => presenceService.releaseLock(projectId, lock)));
+
+        const scope = phaseScope(viewing);
+        const holdsPhase = mine.some(lock => sameScope(lock, scope));
+        if (mayLock(viewing) && !ENTITY_LOCK_TYPES[viewing] && !holdsPhase && conflictingLocks(state.locks, scope, user.id).length === 0) {
+          await presenceService.acquireLock(projectId, scope);
+        }
+      } catch (error) {
+        console.warn('Presence heartbeat failed:', error);
+      }
+    };
+    beatRef.current = beat;
+
+    beat();
+    const timer = setInterval(beat, HEARTBEAT_MS);
+    const onUnload = () => { presenceService.leave(projectId); };
+    window.addEventListener('beforeunload', onUnload);
+    return () => {
+      stopped = true;
+      beatRef.current = async () => undefined;
+      clearInterval(timer);
+      window.removeEventListener('beforeunload', onUnload);
+      presenceService.leave(projectId).catch(error => console.warn('Leaving project failed:', error));
+    };
+  }, [user?.id, projectId]);
+
+  // Report phase changes and swap locks straight away rather than on the next beat
+  useEffect(() => {
+    if (!user || !projectId || !phase) return;
+    beatRef.current();
+  }, [phase]);
+
+  const current = projectId ? presence[projectId] : undefined;
+  const locks = current?.locks || [];
+  const viewedScope = phase ? phaseScope(phase) : null;
+  // Another user holds the whole phase being viewed
+  const phaseHolder = (user && viewedScope && locks.find(l => l.user_id !== user.id && sameScope(l, viewedScope))) || null;
+  const othersEntityLocks = locks.filter(l => l.user_id !== user?.id && l.phase === phase && l.entity_type);
+
+  const entityLocks: EntityLockControls = {
+    userId: user?.id || '',
+    key: othersEntityLocks.map(l => `${l.entity_id}:${l.user_id}`).sort().join(','),
+    lockOf: (entityType, entityId) =>
+      locks.find(l => l.phase === phase && l.entity_type === entityType && l.entity_id === entityId),
+    // Tells the user who has the entity when it is taken
+    acquire: async scope => {
+      if (!projectId || !mayLock(scope.phase)) return false;
+      const lock = await presenceService.acquireLock(projectId, scope);
+      if (!lock) noticeRef.current('Locked', `Someone else is editing ${describeScope(scope)}.`, 'warning');
+      return Boolean(lock);
+    },
+    release: async scope => {
+      if (!projectId) return;
+      await presenceService.releaseLock(projectId, scope);
+    },
+  };
+
+  return {
+    presence,
+    current,
+    locks,
+    phaseHolder,
+    isSpectator: Boolean(phaseHolder),
+    myRequest: (viewedScope && current?.requests.find(r => r.user_id === user?.id && sameScope(r, viewedScope))) || null,
+    entityLocks,
+    requestEdit: async (scope?: LockScope) => {
+      const target = scope || viewedScope;
+      if (!projectId || !target || !mayLock(target.phase)) return;
+      const { request } = await presenceService.requestEdit(projectId, target);
+      if (request) noticeRef.current('Request Sent', `Whoever is editing ${describeScope(target)} has been asked to hand it over.`, 'info');
+    },
+    takeover: async (scope?: LockScope) => {
+      const target = scope || viewedScope;
+      if (!projectId || !target) return;
+      await presenceService.takeover(projectId, target);
+    },
+    respond: async (requestId: string, accept: boolean) => {
+      if (!projectId) return;
+      merge(await presenceService.respondToRequest(projectId, requestId, accept));
+    },
+  };
+}
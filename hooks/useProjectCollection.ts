@@ -0,0 +1,70 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ProjectCollection } from '../types';
+import { projectService } from '../services/projectService';
+
+const SAVE_DEBOUNCE_MS = 600;
+
+/**
+ * Loads a per-project collection from the server store and writes local edits back.
+ * Behaves like useState: components keep their existing setX(prev => ...) updates
+ * and every change is synced (debounced) once the initial load has completed.
+ * Changing reloadKey saves pending edits and loads the collection again, e.g. when
+ * someone else hands back a scene they had locked.
+ */
+export function useProjectCollection<T extends { id: string }>(
+  projectId: string,
+  collection: ProjectCollection,
+  reloadKey?: string
+): [T[], React.Dispatch<React.SetStateAction<T[]>>, boolean] {
+  const [items, setItems] = useState<T[]>([]);
+  const [isLoaded, setIsLoaded] = useState(false);
+  const lastSynced = useRef<string>('[]');
+  // Never overwrite server data with local state if the initial load failed
+  const canSync = useRef(false);
+  const pending = useRef<T[] | null>(null);
+  // The last flush, so a reload can't read the collection before it lands
+  const flushed = useRef<Promise<unknown>>(Promise.resolve());
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoaded(false);
+    canSync.current = false;
+    flushed.current
+      .then(() => projectService.listCollection<T>(projectId, collection))
+      .then(records => {
+        if (cancelled) return;
+        lastSynced.current = JSON.stringify(records);
+        canSync.current = true;
+        setItems(records);
+      })
+      .catch(error => console.error(`Failed to load ${collection}:`, error))
+      .finally(() => { if (!cancelled) setIsLoaded(true); });
+
+    return () => {
+      cancelled = true;
+      // Flush edits made inside the debounce window before switching project or phase
+      if (canSync.current && pending.current) {
+        flushed.current = projectService.replaceCollection(projectId, collection, pending.current)
+          .catch(error => console.error(`Failed to save ${collection}:`, error));
+      }
+      pending.current = null;
+    };
+  }, [projectId, collection, reloadKey]);
+
+  useEffect(() => {
+    if (!isLoaded || !canSync.current) return;
+    const snapshot = JSON.stringify(items);
+    if (snapshot === lastSynced.current) return;
+
+    pending.current = items;
+    const timer = setTimeout(() => {
+      pending.current = null;
+      lastSynced.current = snapshot;
+      projectService.replaceCollection(projectId, collection, items)
+        .catch(error => console.error(`Failed to save ${collection}:`, error));
+    }, SAVE_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [items, isLoaded, projectId, collection]);
+
+  return [items, setItems, isLoaded];
+}
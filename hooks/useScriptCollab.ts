@@ -0,0 +1,138 @@
+import { useEffect, useRef, useState } from 'react';
+import * as Y from 'yjs';
+import { DocumentaryScript, ScriptCursor } from '../types';
+import { collabService } from '../services/collabService';
+import { beatTexts, decodeUpdate, encodeUpdate, setBeatText, withBeatText } from '../lib/collab';
+
+const RETRY_MS = 2000;
+const CURSOR_THROTTLE_MS = 150;
+const SAVED_POLL_MS = 100;
+const SAVED_TIMEOUT_MS = 5000;
+const REMOTE = 'remote';
+
+/**
+ * Live, shared beat text for a script. Edits are applied to a local Yjs document at once and
+ * posted to the server, which merges them with everyone else's; remote edits arrive over the
+ * collab stream. Also tracks the other writers' cursors.
+ */
+export function useScriptCollab(
+  projectId: string,
+  scriptId: string | null,
+  userId: string,
+  onRejected: (reason: string) => void
+) {
+  const docRef = useRef<Y.Doc | null>(null);
+  const [ready, setReady] = useState(false);
+  // Bumped on every document change so components re-render with the new text
+  const [, setRevision] = useState(0);
+  const [cursors, setCursors] = useState<ScriptCursor[]>([]);
+  // Bumped to start over from the server's copy after it refused a change
+  const [session, setSession] = useState(0);
+  const rejectedRef = useRef(onRejected);
+  rejectedRef.current = onRejected;
+  const cursorTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+  // Whether every local change has been posted
+  const idleRef = useRef(() => true);
+
+  useEffect(() => {
+    if (!scriptId) return;
+    const doc = new Y.Doc();
+    const clientId = String(doc.clientID);
+    docRef.current = doc;
+    setReady(false);
+    let stopped = false;
+
+    // Local changes are merged into one pending update and posted one request at a time
+    let pending: Uint8Array | null = null;
+    let sending = false;
+    idleRef.current = () => !pending && !sending;
+    const flush = async () => {
+      if (sending || !pending || stopped) return;
+      sending = true;
+      const update = pending;
+      pending = null;
+      try {
+        const refusal = await collabService.sendUpdate(projectId, scriptId, encodeUpdate(update), clientId);
+        if (refusal && !stopped) {
+          rejectedRef.current(refusal);
+          setSession(s => s + 1);
+          return;
+        }
+      } catch (error) {
+        console.warn('Script update failed, retrying:', error);
+        pending = pending ? Y.mergeUpdates([update, pending]) : update;
+        setTimeout(flush, RETRY_MS);
+        return;
+      } finally {
+        sending = false;
+      }
+      flush();
+    };
+
+    doc.on('update', (update: Uint8Array, origin: unknown) => {
+      setRevision(r => r + 1);
+      if (origin === REMOTE) return;
+      pending = pending ? Y.mergeUpdates([pending, update]) : update;
+      flush();
+    });
+
+    const stop = collabService.subscribe(projectId, scriptId, event => {
+      if (event.type === 'sync') {
+        Y.applyUpdate(doc, decodeUpdate(event.state), REMOTE);
+        setReady(true);
+      } else if (event.type === 'update') {
+        if (event.origin !== clientId) Y.applyUpdate(doc, decodeUpdate(event.update), REMOTE);
+      } else {
+        setCursors(event.cursors.filter(c => c.user_id !== userId));
+      }
+    });
+
+    return () => {
+      stopped = true;
+      stop();
+      if (cursorTimer.current) clearTimeout(cursorTimer.current);
+      collabService.setCursor(projectId, scriptId, null).catch(() => undefined);
+      docRef.current = null;
+      idleRef.current = () => true;
+      doc.destroy();
+      setCursors([]);
+    };
+  }, [projectId, scriptId, userId, session]);
+
+  const textOf = (beatId: string) => (ready && docRef.current ? beatTexts(docRef.current).get(beatId) : undefined);
+
+  return {
+    ready,
+    cursors,
+
+    /** The script with beat content from the shared document. */
+    withLiveText: (script: DocumentaryScript) => (ready && docRef.current ? withBeatText(docRef.current, script) : script),
+
+    /**
+     * Changes a beat's HTML. False when the beat isn't in the shared document yet (it is
+     * added once the script structure is saved); callers then edit the script record instead.
+     */
+    editBeat: (beatId: string, html: string) => {
+      const text = textOf(beatId);
+      if (!text) return false;
+      setBeatText(text, html);
+      return true;
+    },
+
+    /** Resolves once local edits have reached the server, or after a few seconds if they can't. */
+    saved: async () => {
+      for (let waited = 0; waited < SAVED_TIMEOUT_MS && !idleRef.current(); waited += SAVED_POLL_MS) {
+        await new Promise(resolve => setTimeout(resolve, SAVED_POLL_MS));
+      }
+    },
+
+    /** Shares the caret position in a beat (throttled), or clears it with null. */
+    setCursor: (cursor: Pick<ScriptCursor, 'beat_id' | 'index' | 'length'> | null) => {
+      if (!scriptId) return;
+      if (cursorTimer.current) clearTimeout(cursorTimer.current);
+      cursorTimer.current = setTimeout(() => {
+        collabService.setCursor(projectId, scriptId, cursor).catch(error => console.warn('Cursor update failed:', error));
+      }, CURSOR_THROTTLE_MS);
+    },
+  };
+}
@@ -0,0 +1,44 @@
+import { useEffect, useState } from 'react';
+import { ScriptCommentThread } from '../types';
+import { NewCommentInput, scriptCommentService } from '../services/scriptCommentService';
+
+/**
+ * The comment threads on a script. Threads are written through the API server, so each call
+ * swaps in the thread it returns. Changing reloadKey loads them again, e.g. when a
+ * notification opens a thread someone else just wrote in.
+ */
+export function useScriptComments(projectId: string, scriptId: string | null, reloadKey?: string) {
+  const [threads, setThreads] = useState<ScriptCommentThread[]>([]);
+
+  useEffect(() => {
+    if (!scriptId) {
+      setThreads([]);
+      return;
+    }
+    let cancelled = false;
+    scriptCommentService.list(projectId, scriptId)
+      .then(found => { if (!cancelled) setThreads(found); })
+      .catch(error => console.error('Failed to load comments:', error));
+    return () => { cancelled = true; };
+  }, [projectId, scriptId, reloadKey]);
+
+  const put = (thread: ScriptCommentThread) => {
+    setThreads(prev => prev.some(t => t.id === thread.id)
+      ? prev.map(t => t.id === thread.id ? thread : t)
+      : [...prev, thread]);
+    return thread;
+  };
+
+  return {
+    threads,
+    async open(input: NewCommentInput) {
+      return put(await scriptCommentService.open(projectId, scriptId!, input));
+    },
+    async reply(threadId: string, body: string, mentions: string[]) {
+      return put(await scriptCommentService.reply(projectId, scriptId!, threadId, body, mentions));
+    },
+    async setStatus(threadId: string, status: ScriptCommentThread['status']) {
+      return put(await scriptCommentService.setStatus(projectId, scriptId!, threadId, status));
+    },
+  };
+}
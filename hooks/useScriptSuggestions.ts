@@ -0,0 +1,44 @@
+import { useEffect, useState } from 'react';
+import { ScriptSuggestion, SuggestionDecision } from '../types';
+import { SuggestionInput, scriptSuggestionService } from '../services/scriptSuggestionService';
+
+/**
+ * The suggested changes on a script. Suggestions are written through the API server, so each
+ * call swaps in the suggestions it returns. Changing reloadKey loads them again.
+ */
+export function useScriptSuggestions(projectId: string, scriptId: string | null, reloadKey?: string) {
+  const [suggestions, setSuggestions] = useState<ScriptSuggestion[]>([]);
+
+  useEffect(() => {
+    if (!scriptId) {
+      setSuggestions([]);
+      return;
+    }
+    let cancelled = false;
+    scriptSuggestionService.list(projectId, scriptId)
+      .then(found => { if (!cancelled) setSuggestions(found); })
+      .catch(error => console.error('Failed to load suggestions:', error));
+    return () => { cancelled = true; };
+  }, [projectId, scriptId, reloadKey]);
+
+  const put = (changed: ScriptSuggestion[]) => {
+    setSuggestions(prev => [
+      ...prev.map(s => changed.find(c => c.id === s.id) || s),
+      ...changed.filter(c => !prev.some(s => s.id === c.id)),
+    ]);
+    return changed;
+  };
+
+  return {
+    suggestions,
+    async propose(input: SuggestionInput) {
+      return put(await scriptSuggestionService.propose(projectId, scriptId!, input));
+    },
+    async decide(suggestionId: string, decisions: SuggestionDecision[]) {
+      return put(await scriptSuggestionService.decide(projectId, scriptId!, suggestionId, decisions));
+    },
+    async dismiss(suggestionId: string) {
+      return put(await scriptSuggestionService.dismiss(projectId, scriptId!, suggestionId));
+    },
+  };
+}
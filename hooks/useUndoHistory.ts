@@ -0,0 +1,44 @@
+import { useRef, useState } from 'react';
+
+const HISTORY_LIMIT = 100;
+
+/**
+ * Undo and redo over a value kept elsewhere, such as a project collection. Edits go through
+ * commit, which remembers the value they replace; changes made straight to the value (a
+ * reload, someone else's save) aren't recorded, and undo puts back the value from before the
+ * last commit.
+ */
+export function useUndoHistory<T>(value: T, setValue: (next: T) => void) {
+  const past = useRef<T[]>([]);
+  const future = useRef<T[]>([]);
+  // The stacks live in refs; this re-renders when they change so canUndo/canRedo stay current
+  const [, setRevision] = useState(0);
+  const changed = () => setRevision(revision => revision + 1);
+
+  return {
+    canUndo: past.current.length > 0,
+    canRedo: future.current.length > 0,
+    commit(next: T) {
+      past.current = [...past.current, value].slice(-HISTORY_LIMIT);
+      future.current = [];
+      setValue(next);
+      changed();
+    },
+    undo() {
+      const previous = past.current[past.current.length - 1];
+      if (past.current.length === 0) return;
+      past.current = past.current.slice(0, -1);
+      future.current = [...future.current, value];
+      setValue(previous);
+      changed();
+    },
+    redo() {
+      const next = future.current[future.current.length - 1];
+      if (future.current.length === 0) return;
+      future.current = future.current.slice(0, -1);
+      past.current = [...past.current, value];
+      setValue(next);
+      changed();
+    },
+  };
+}
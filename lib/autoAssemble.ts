@@ -0,0 +1,162 @@
+import type { ArchiveClip, DocumentaryScript, ScriptBeat, TimelineItem, VoiceOver } from '../types';
+import { beatExcerpt, sceneContext } from './scriptBeats';
+import { TRACK_COLORS, TRACK_LAYOUT, TimelineMedia } from './timelineMedia';
+
+// ========== Rough Cut Assembly ==========
+// A first timeline laid out from the approved script. The beats play one after another, each
+// on the track of its kind: titles on graphics, recorded voice-over lines on the voice-over
+// track with the archive clips linked to the beat laid under them, archive beats' clips on
+// video, generated interviews on expert. A beat lasts as long as its media when that has a
+// length (a recorded line, an interview) and as long as the script says otherwise, so a beat
+// with nothing to play still holds its place. Picture left empty is reported as a gap, and
+// beats still missing their media (a recording, an interview, clips) as uncovered.
+
+export type UncoveredReason = 'no_recording' | 'no_interview' | 'no_clips' | 'no_visual';
+
+export interface UncoveredBeat {
+    beat_id: string;
+    type: ScriptBeat['type'];
+    context: string; // "Part - Scene"
+    excerpt: string;
+    reason: UncoveredReason;
+}
+
+export interface AssemblyGap {
+    start: number; // Seconds
+    end: number;
+    beat_id?: string; // The beat the gap starts in
+}
+
+export interface RoughCut {
+    items: TimelineItem[];
+    duration: number;
+    gaps: AssemblyGap[];
+    uncovered: UncoveredBeat[];
+}
+
+export const UNCOVERED_REASONS: Record<UncoveredReason, string> = {
+    no_recording: 'No recorded voice-over',
+    no_interview: 'No generated interview',
+    no_clips: 'No archive clips linked',
+    no_visual: 'No visual generated',
+};
+
+// The clips linked to a beat, from either side of the link, in the beat's order first
+const linkedClips = (beat: ScriptBeat, clips: ArchiveClip[]) => {
+    const listed = (beat.archive_clip_ids || []).map(id => clips.find(c => c.id === id)).filter((c): c is ArchiveClip => Boolean(c));
+    return [...listed, ...clips.filter(c => c.linked_beat_id === beat.id && !listed.includes(c))];
+};
+
+// The line to use for a beat: an approved take before a finished one
+const recordedLine = (beatId: string, lines: VoiceOver[]) => {
+    const usable = lines.filter(line => line.beat_id === beatId && line.audio_url && line.duration_seconds > 0 && (line.status === 'approved' || line.status === 'complete'));
+    return usable.find(line => line.status === 'approved') || usable[0];
+};
+
+// Seconds of a clip between its in and out points
+const usableLength = (clip: ArchiveClip) => Math.max(0, (clip.out_point ?? clip.duration_seconds) - (clip.in_point || 0));
+
+const PICTURE_TRACKS = new Set(TRACK_LAYOUT.filter(layout => layout.kind === 'video').map(layout => layout.track_type));
+
+/** Spans up to `end` where no picture track (video, expert, graphics) has an item. */
+export const pictureGaps = (items: TimelineItem[], end: number): Array<{ start: number; end: number }> => {
+    const spans = items
+        .filter(item => PICTURE_TRACKS.has(item.track_type) && item.duration > 0)
+        .map(item => [item.start_time, item.start_time + item.duration])
+        .sort((a, b) => a[0] - b[0]);
+    const gaps: Array<{ start: number; end: number }> = [];
+    let covered = 0;
+    spans.forEach(([start, stop]) => {
+        if (start > covered) gaps.push({ start: covered, end: Math.min(start, end) });
+        covered = Math.max(covered, stop);
+    });
+    if (covered < end) gaps.push({ start: covered, end });
+    // Anything under a frame is rounding, not a gap
+    return gaps.filter(gap => gap.end - gap.start >= 0.05);
+};
+
+/** Lays the script's beats out as a timeline from the project's media. */
+export const assembleRoughCut = (script: DocumentaryScript, media: TimelineMedia, projectId: string): RoughCut => {
+    const items: TimelineItem[] = [];
+    const uncovered: UncoveredBeat[] = [];
+    const slots: Array<{ beat_id: string; start: number; end: number }> = [];
+    let position = 0;
+
+    const place = (beat: ScriptBeat, track_type: TimelineItem['track_type'], start: number, duration: number, item: Pick<TimelineItem, 'source_type' | 'label'> & Partial<TimelineItem>) => {
+        items.push({
+            id: `auto-${beat.id}-${track_type}-${items.filter(i => i.beat_id === beat.id && i.track_type === track_type).length}`,
+            project_id: projectId,
+            track_type,
+            track_index: 0,
+            start_time: start,
+            end_time: start + duration,
+            duration,
+            beat_id: beat.id,
+            color: TRACK_COLORS[track_type],
+            ...item,
+        });
+    };
+
+    // Clips one after another from the slot's start, the last cut short at its end
+    const layClips = (beat: ScriptBeat, start: number, length: number) => {
+        let at = start;
+        linkedClips(beat, media.clips).forEach(clip => {
+            const duration = Math.min(usableLength(clip), start + length - at);
+            if (duration <= 0) return;
+            place(beat, 'video', at, duration, { source_type: 'archive_clip', source_id: clip.id, source_in: clip.in_point || 0, label: clip.title });
+            at += duration;
+        });
+        return at > start;
+    };
+
+    script.parts.forEach(part => part.scenes.forEach(scene => scene.beats.forEach(beat => {
+        const start = position;
+        let length = Math.max(0, beat.duration_seconds || 0);
+        let covered = false;
+
+        if (beat.type === 'title') {
+            // Titles are made in the edit, so one is never missing
+            if (length > 0) place(beat, 'graphics', start, length, { source_type: 'title', label: beatExcerpt(beat, 60) || scene.title });
+            covered = true;
+        } else if (beat.type === 'voice_over') {
+            const line = recordedLine(beat.id, media.voiceOvers);
+            if (line) {
+                length = line.duration_seconds;
+                place(beat, 'audio', start, length, { source_type: 'voice_over', source_id: line.id, label: beatExcerpt(beat, 60) || line.voice_name });
+            }
+            // Clips under an unrecorded line still fill the picture, but the narration is missing
+            layClips(beat, start, length);
+            covered = Boolean(line);
+        } else if (beat.type === 'archive') {
+            covered = layClips(beat, start, length);
+        } else if (beat.type === 'expert') {
+            const plan = media.plans.find(p => p.beat_id === beat.id && p.generated_video_url);
+            if (plan) {
+                length = plan.audio_duration || length;
+                place(beat, 'expert', start, length, { source_type: 'expert_interview', source_id: plan.id, label: plan.selected_avatar?.name || plan.topic });
+            }
+            covered = Boolean(plan);
+        } else if (beat.type === 'ai_visual') {
+            if (beat.visual_url && length > 0) place(beat, 'video', start, length, { source_type: 'ai_generated', label: beatExcerpt(beat, 60) || 'AI Visual' });
+            covered = Boolean(beat.visual_url);
+        }
+
+        if (!covered) {
+            uncovered.push({
+                beat_id: beat.id,
+                type: beat.type,
+                context: sceneContext(part, scene),
+                excerpt: beatExcerpt(beat),
+                reason: beat.type === 'voice_over' ? 'no_recording' : beat.type === 'expert' ? 'no_interview' : beat.type === 'ai_visual' ? 'no_visual' : 'no_clips',
+            });
+        }
+        slots.push({ beat_id: beat.id, start, end: start + length });
+        position += length;
+    })));
+
+    const gaps = pictureGaps(items, position).map(gap => ({
+        ...gap,
+        beat_id: slots.find(slot => gap.start >= slot.start && gap.start < slot.end)?.beat_id,
+    }));
+    return { items, duration: position, gaps, uncovered };
+};
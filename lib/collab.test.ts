@@ -0,0 +1,26 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { sanitizeBeatHtml } from './collab';
+
+describe('sanitizeBeatHtml', () => {
+    test('keep the editor formatting as it is', () => {
+        const html = 'Hello <b>world</b>, <i>again</i> <u>and</u> <span style="background-color: rgb(180, 83, 9);">marked</span><div>line<br></div>';
+        assert.equal(sanitizeBeatHtml(html), html);
+    });
+
+    test('drop other tags and every attribute', () => {
+        assert.equal(sanitizeBeatHtml('<img src=x onerror=alert(1)>hi'), 'hi');
+        assert.equal(sanitizeBeatHtml('<a href="javascript:alert(1)">link</a>'), 'link');
+        assert.equal(sanitizeBeatHtml('<b onmouseover="alert(1)">bold</b>'), '<b>bold</b>');
+        assert.equal(sanitizeBeatHtml('<span style="background: url(javascript:x)">q</span>'), '<span>q</span>');
+    });
+
+    test('drop scripts, styles and embeds with their content', () => {
+        assert.equal(sanitizeBeatHtml('<script>alert(1)</script>ok<svg onload=alert(1)><circle/></svg><!-- note -->'), 'ok');
+    });
+
+    test('leave no tag open inside a quoted attribute', () => {
+        assert.doesNotMatch(sanitizeBeatHtml('<img alt=">" onerror=alert(1)>'), /<img/);
+        assert.equal(sanitizeBeatHtml('a < b'), 'a &lt; b');
+    });
+});
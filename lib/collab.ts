@@ -0,0 +1,97 @@
+import * as Y from 'yjs';
+import type { DocumentaryScript, ScriptBeat } from '../types';
+
+// ========== Collaborative Script Text ==========
+// Writers edit a script's beats together through a Yjs document per script: a map from beat id
+// to a Y.Text holding the beat's HTML. Concurrent edits to one beat merge character by
+// character. Script structure (parts, scenes, beat order) stays in the scripts collection.
+// Shared by the API server, which relays and stores updates, and the browser editor.
+
+const BEATS_KEY = 'beats';
+
+export const beatTexts = (doc: Y.Doc) => doc.getMap<Y.Text>(BEATS_KEY);
+
+export const scriptBeats = (script: DocumentaryScript): ScriptBeat[] =>
+    script.parts.flatMap(part => part.scenes.flatMap(scene => scene.beats));
+
+// ---------- Beat HTML ----------
+// Beat text is HTML from other writers' browsers, so only the inline formatting the editor
+// makes (bold, italic, underline, highlight, line breaks) is kept. Other tags are dropped with
+// their attributes, keeping their text; scripts, styles and embeds lose their content too.
+
+const BEAT_TAGS = new Set(['b', 'strong', 'i', 'em', 'u', 's', 'br', 'div', 'p', 'span']);
+const DROPPED_WITH_CONTENT = /<(script|style|iframe|object|embed|template|noscript|svg|math|textarea|title)\b[\s\S]*?<\/\1\s*>/gi;
+// The highlight, as browsers write it: style="background-color: rgb(180, 83, 9);"
+const HIGHLIGHT = /^\s*background-color:\s*(#[0-9a-f]{3,8}|rgba?\(\s*[\d.]+%?\s*,\s*[\d.]+%?\s*,\s*[\d.]+%?\s*(?:,\s*[\d.]+%?\s*)?\))\s*;?\s*$/i;
+
+const cleanTag = (tag: string) => {
+    const match = tag.match(/^<(\/?)([a-z][a-z0-9]*)\b([\s\S]*?)\/?>$/i);
+    if (!match) return '';
+    const [, closing, rawName, attributes] = match;
+    const name = rawName.toLowerCase();
+    if (!BEAT_TAGS.has(name)) return '';
+    if (closing) return name === 'br' ? '' : `</${name}>`;
+    const color = name === 'span' ? attributes.match(/\sstyle\s*=\s*(?:"([^"]*)"|'([^']*)')/i) : null;
+    const highlight = color && (color[1] ?? color[2]).match(HIGHLIGHT);
+    return highlight ? `<span style="background-color: ${highlight[1]};">` : `<${name}>`;
+};
+
+/** Beat HTML reduced to the editor's own formatting, safe to put in the page. */
+export const sanitizeBeatHtml = (html: string) =>
+    html
+        .replace(/<!--[\s\S]*?(?:-->|$)/g, '')
+        .replace(DROPPED_WITH_CONTENT, '')
+        .split(/(<[^>]*>?)/)
+        .map(part => (part.startsWith('<') ? (/^<[a-z/]/i.test(part) && part.endsWith('>') ? cleanTag(part) : part.replace(/</g, '&lt;')) : part))
+        .join('');
+
+/** The script with every beat the document holds showing the document's text. */
+export const withBeatText = (doc: Y.Doc, script: DocumentaryScript): DocumentaryScript => {
+    const texts = beatTexts(doc);
+    return {
+        ...script,
+        parts: script.parts.map(part => ({
+            ...part,
+            scenes: part.scenes.map(scene => ({
+                ...scene,
+                beats: scene.beats.map(beat => {
+                    const text = texts.get(beat.id);
+                    return text ? { ...beat, content: sanitizeBeatHtml(text.toString()) } : beat;
+                }),
+            })),
+        })),
+    };
+};
+
+// Updates travel as base64 inside JSON bodies and SSE frames
+export const encodeUpdate = (update: Uint8Array) => {
+    let binary = '';
+    for (let i = 0; i < update.length; i += 0x8000) binary += String.fromCharCode(...update.subarray(i, i + 0x8000));
+    return btoa(binary);
+};
+
+export const decodeUpdate = (encoded: string) => Uint8Array.from(atob(encoded), c => c.charCodeAt(0));
+
+/** The single edit turning `before` into `after`: what to remove at `index` and what to insert there. */
+export const diffText = (before: string, after: string) => {
+    let start = 0;
+    const max = Math.min(before.length, after.length);
+    while (start < max && before[start] === after[start]) start++;
+    let end = 0;
+    while (end < max - start && before[before.length - 1 - end] === after[after.length - 1 - end]) end++;
+    return {
+        index: start,
+        remove: before.length - start - end,
+        insert: after.slice(start, after.length - end),
+    };
+};
+
+/** Replaces a beat's text with `next` as a minimal edit, so concurrent edits elsewhere in it survive. */
+export const setBeatText = (text: Y.Text, next: string) => {
+    const { index, remove, insert } = diffText(text.toString(), next);
+    if (remove === 0 && !insert) return;
+    text.doc!.transact(() => {
+        if (remove > 0) text.delete(index, remove);
+        if (insert) text.insert(index, insert);
+    });
+};
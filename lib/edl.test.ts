@@ -0,0 +1,97 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { ArchiveClip, TimelineItem, VoiceOver } from '../types';
+import { EdlOptions, buildEdl, edlEvents, parseEdl } from './edl';
+import { TimelineMedia } from './timelineMedia';
+
+const clip = (id: string, title: string, extra: Partial<ArchiveClip> = {}): ArchiveClip => ({
+    id, project_id: 'p1', title, duration_seconds: 120, in_point: 0, ...extra,
+});
+
+const MEDIA: TimelineMedia = {
+    clips: [
+        clip('c1', 'Harbour Bridge 1932', { preview_url: 'https://cdn.example.com/bridge_1932.mp4', in_point: 12.5, out_point: 40 }),
+        clip('c2', 'Harbour Bridge Aerial', { preview_url: 'https://cdn.example.com/aerial.mov' }),
+    ],
+    voiceOvers: [{
+        id: 'v1', project_id: 'p1', beat_id: 'b1', voice_id: 'x', voice_name: 'Narrator', voice_provider: 'local',
+        text: 'The bridge opened in 1932.', audio_url: 'https://cdn.example.com/vo/line_01.wav', duration_seconds: 9.2, status: 'approved',
+    } as VoiceOver],
+    plans: [],
+};
+
+const item = (id: string, track_type: TimelineItem['track_type'], start: number, duration: number, extra: Partial<TimelineItem>): TimelineItem => ({
+    id, project_id: 'p1', track_type, track_index: 0, start_time: start, end_time: start + duration, duration, source_type: 'title', ...extra,
+});
+
+const ITEMS: TimelineItem[] = [
+    item('t1', 'graphics', 0, 4, { label: 'Opening Title' }),
+    item('i1', 'video', 4, 20, { source_type: 'archive_clip', source_id: 'c1' }),
+    // Longer than is left of its clip, so the event is cut short
+    item('i2', 'video', 24, 40, { source_type: 'archive_clip', source_id: 'c1', source_in: 30 }),
+    item('i3', 'video', 64.4, 75.35, { source_type: 'archive_clip', source_id: 'c2', source_in: 3 }),
+    item('a1', 'audio', 4, 9.2, { source_type: 'voice_over', source_id: 'v1' }),
+    item('m1', 'music', 0, 90, { source_type: 'music', label: 'Theme' }),
+    item('s1', 'sfx', 61.2, 2, { source_type: 'sfx', label: 'Horn' }),
+];
+
+const OPTIONS: EdlOptions[] = [
+    { title: 'Bridge Rough Cut', pictureTrack: 'video:0', rate: '23.976', dropFrame: false },
+    { title: 'Bridge Rough Cut', pictureTrack: 'video:0', rate: '24', dropFrame: false },
+    { title: 'Bridge Rough Cut', pictureTrack: 'graphics:0', rate: '25', dropFrame: false },
+    { title: 'Bridge Rough Cut', pictureTrack: 'video:0', rate: '29.97', dropFrame: true, recordStart: '00:59:00;00' },
+];
+
+describe('buildEdl and parseEdl', () => {
+    for (const options of OPTIONS) {
+        test(`read back the events written at ${options.rate}${options.dropFrame ? ' DF' : ''}`, () => {
+            const events = edlEvents(ITEMS, MEDIA, options);
+            const edl = parseEdl(buildEdl(ITEMS, MEDIA, options), options.rate);
+            assert.equal(edl.title, options.title);
+            assert.deepEqual(edl.format, { rate: options.rate, dropFrame: options.dropFrame });
+            assert.deepEqual(edl.events, events);
+        });
+    }
+
+    test('write the picture track on V and the audio tracks on their channels', () => {
+        const events = edlEvents(ITEMS, MEDIA, OPTIONS[1]);
+        assert.deepEqual(events.map(e => e.channel), ['A2', 'V', 'A', 'V', 'A3', 'V']);
+        assert.deepEqual(events.map(e => e.number), [1, 2, 3, 4, 5, 6]);
+        assert.equal(events[1].record_in, 86400 + 4 * 24);
+    });
+
+    test('take the picture from one track and give each audio track a channel of its own', () => {
+        const items = [
+            ...ITEMS,
+            item('i4', 'video', 10, 5, { track_index: 1, source_type: 'archive_clip', source_id: 'c2' }),
+            item('a2', 'audio', 6, 4, { track_index: 1, source_type: 'voice_over', source_id: 'v1' }),
+        ];
+        const events = edlEvents(items, MEDIA, OPTIONS[1]);
+        assert.deepEqual(events.map(e => e.channel), ['A3', 'V', 'A', 'A2', 'V', 'A4', 'V']);
+
+        const upper = edlEvents(items, MEDIA, { ...OPTIONS[1], pictureTrack: 'video:1' }).filter(e => e.channel === 'V');
+        assert.deepEqual(upper.map(e => e.record_in), [86400 + 10 * 24]);
+    });
+
+    test('share a reel between items from the same source', () => {
+        const [music, first, line, second, , third] = edlEvents(ITEMS, MEDIA, OPTIONS[1]);
+        assert.equal(first.reel, 'HARBOURB');
+        assert.equal(second.reel, first.reel);
+        assert.equal(third.reel, 'HARBOUR2');
+        assert.equal(line.reel, 'LINE01');
+        assert.equal(music.reel, 'AX');
+        assert.equal(first.source_file, 'https://cdn.example.com/bridge_1932.mp4');
+    });
+
+    test('stop an event at the end of its source', () => {
+        const cut = edlEvents(ITEMS, MEDIA, OPTIONS[1])[3];
+        assert.equal(cut.clip_name, 'Harbour Bridge 1932');
+        assert.equal(cut.source_in, 30 * 24);
+        assert.equal(cut.source_out, 40 * 24);
+        assert.equal(cut.record_out - cut.record_in, 10 * 24);
+    });
+
+    test('refuse a line that is not an event', () => {
+        assert.throws(() => parseEdl('TITLE: X\n\n001  AX V C nonsense\n', '24'), /Line 3 is not an EDL event/);
+    });
+});
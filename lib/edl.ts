@@ -0,0 +1,179 @@
+import type { TimelineItem } from '../types';
+import { FrameRate, TimecodeFormat, framesToTimecode, secondsToFrames, timecodeToFrames } from './timecode';
+import { TimelineMedia, mediaSourceOf, timelineTracks, trackKey } from './timelineMedia';
+
+// ========== CMX3600 EDL ==========
+// An edit decision list carries one picture track and up to four audio channels, so an
+// export takes the picture from one of the timeline's video tracks (video, graphics or
+// expert, at one index) and gives the first four audio tracks A, A2, A3 and A4, one track
+// to a channel so no two events on a channel overlap. Every event is a cut,
+// numbered in record order, with the source's clip name (and file, when there is one) in
+// comments under it. parseEdl reads the events back.
+
+/** The picture track by its track key, as "video:0". */
+export type EdlPictureTrack = `${'video' | 'graphics' | 'expert'}:${number}`;
+
+export const EDL_AUDIO_CHANNELS = ['A', 'A2', 'A3', 'A4'];
+
+/** Each track's channel by track key: V for the picture track, then the audio tracks in layout order. Later audio tracks have none. */
+export const edlChannels = (items: TimelineItem[], pictureTrack: EdlPictureTrack) => {
+    const channels = new Map<string, string>([[pictureTrack, 'V']]);
+    timelineTracks(items)
+        .filter(track => track.kind === 'audio')
+        .slice(0, EDL_AUDIO_CHANNELS.length)
+        .forEach((track, i) => channels.set(trackKey(track), EDL_AUDIO_CHANNELS[i]));
+    return channels;
+};
+
+export interface EdlOptions extends TimecodeFormat {
+    title: string;
+    pictureTrack: EdlPictureTrack;
+    recordStart?: string; // Timecode of the first frame of the timeline, 01:00:00:00 by default
+}
+
+/** One event; times are frame counts at the list's frame rate. */
+export interface EdlEvent {
+    number: number;
+    reel: string;
+    channel: string; // V, A, A2, A3, A4 or AA
+    transition: string; // C for a cut
+    source_in: number;
+    source_out: number;
+    record_in: number;
+    record_out: number;
+    clip_name?: string;
+    source_file?: string;
+}
+
+export interface Edl {
+    title: string;
+    format: TimecodeFormat;
+    events: EdlEvent[];
+}
+
+// Reels are at most eight characters; sources without media are auxiliary (AX)
+const REEL_LENGTH = 8;
+
+const reelNamer = () => {
+    const taken = new Map<string, string>(); // reel -> source
+    return (source: string, name: string) => {
+        const existing = [...taken].find(([, s]) => s === source);
+        if (existing) return existing[0];
+        const base = name.replace(/\.\w+$/, '').toUpperCase().replace(/[^A-Z0-9]/g, '').slice(0, REEL_LENGTH) || 'REEL';
+        let reel = base;
+        for (let n = 2; taken.has(reel); n++) reel = `${base.slice(0, REEL_LENGTH - String(n).length)}${n}`;
+        taken.set(reel, source);
+        return reel;
+    };
+};
+
+/** The timeline's items on the chosen picture track and the audio tracks, as cuts in record order. */
+export const edlEvents = (items: TimelineItem[], media: TimelineMedia, options: EdlOptions): EdlEvent[] => {
+    const recordStart = timecodeToFrames(options.recordStart || '01:00:00:00', options);
+    const reelOf = reelNamer();
+    const channels = edlChannels(items, options.pictureTrack);
+    const channelOf = (item: TimelineItem) => channels.get(trackKey(item));
+
+    return items
+        .filter(item => channelOf(item) && item.duration > 0)
+        .map(item => {
+            const source = mediaSourceOf(item, media);
+            const recordIn = recordStart + secondsToFrames(item.start_time, options);
+            let recordOut = recordStart + secondsToFrames(item.start_time + item.duration, options);
+            const sourceIn = secondsToFrames(source.in_point, options);
+            let sourceOut = sourceIn + (recordOut - recordIn);
+            // Never past the end of the source; the event gets shorter instead
+            if (source.out_point !== undefined && source.out_point > source.in_point) {
+                sourceOut = Math.min(sourceOut, secondsToFrames(source.out_point, options));
+                recordOut = recordIn + (sourceOut - sourceIn);
+            }
+            return {
+                number: 0,
+                reel: item.source_id ? reelOf(`${item.source_type}:${item.source_id}`, source.name) : 'AX',
+                channel: channelOf(item)!,
+                transition: 'C',
+                source_in: sourceIn,
+                source_out: sourceOut,
+                record_in: recordIn,
+                record_out: recordOut,
+                clip_name: source.name,
+                ...(source.url ? { source_file: source.url } : {}),
+            };
+        })
+        .filter(event => event.record_out > event.record_in)
+        .sort((a, b) => a.record_in - b.record_in || Number(b.channel === 'V') - Number(a.channel === 'V') || a.channel.localeCompare(b.channel))
+        .map((event, i) => ({ ...event, number: i + 1 }));
+};
+
+const oneLine = (text: string) => text.replace(/[\r\n]+/g, ' ').trim();
+
+export const formatEdl = (edl: Edl) => {
+    const tc = (frames: number) => framesToTimecode(frames, edl.format);
+    const lines = [
+        `TITLE: ${oneLine(edl.title)}`,
+        `FCM: ${edl.format.dropFrame && edl.format.rate === '29.97' ? 'DROP FRAME' : 'NON-DROP FRAME'}`,
+        '',
+    ];
+    edl.events.forEach(event => {
+        lines.push(`${String(event.number).padStart(3, '0')}  ${event.reel.padEnd(REEL_LENGTH)} ${event.channel.padEnd(5)} ${event.transition.padEnd(8)} ${tc(event.source_in)} ${tc(event.source_out)} ${tc(event.record_in)} ${tc(event.record_out)}`);
+        if (event.clip_name) lines.push(`* FROM CLIP NAME: ${oneLine(event.clip_name)}`);
+        if (event.source_file) lines.push(`* SOURCE FILE: ${oneLine(event.source_file)}`);
+        lines.push('');
+    });
+    return lines.join('\n');
+};
+
+/** The timeline as a CMX3600 EDL. */
+export const buildEdl = (items: TimelineItem[], media: TimelineMedia, options: EdlOptions) =>
+    formatEdl({
+        title: options.title,
+        format: { rate: options.rate, dropFrame: options.dropFrame && options.rate === '29.97' },
+        events: edlEvents(items, media, options),
+    });
+
+const EVENT_LINE = /^(\d{3,6})\s+(\S+)\s+(\S+)\s+(C|D|W\d{3}|K[BO]?)\s+(?:\d{1,3}\s+)?(\S+)\s+(\S+)\s+(\S+)\s+(\S+)\s*$/;
+
+/**
+ * Reads a CMX3600 EDL. The frame rate isn't written in the list, so it is given; drop-frame
+ * comes from the FCM line. Throws on event lines it can't read.
+ */
+export const parseEdl = (text: string, rate: FrameRate): Edl => {
+    const edl: Edl = { title: '', format: { rate, dropFrame: false }, events: [] };
+    text.split(/\r?\n/).forEach((raw, index) => {
+        const line = raw.trim();
+        if (!line) return;
+        const title = line.match(/^TITLE:\s*(.*)$/);
+        if (title) {
+            edl.title = title[1];
+            return;
+        }
+        const fcm = line.match(/^FCM:\s*(.*)$/);
+        if (fcm) {
+            edl.format.dropFrame = rate === '29.97' && !/NON/i.test(fcm[1]);
+            return;
+        }
+        const last = edl.events[edl.events.length - 1];
+        const comment = line.match(/^\*\s*(FROM CLIP NAME|SOURCE FILE):\s*(.*)$/i);
+        if (comment) {
+            if (last && /CLIP/i.test(comment[1])) last.clip_name = comment[2];
+            else if (last) last.source_file = comment[2];
+            return;
+        }
+        if (line.startsWith('*') || /^[A-Z ]+:/.test(line)) return;
+        const event = line.match(EVENT_LINE);
+        if (!event) throw new Error(`Line ${index + 1} is not an EDL event: "${line}"`);
+        const [, number, reel, channel, transition, sourceIn, sourceOut, recordIn, recordOut] = event;
+        const frames = (tc: string) => timecodeToFrames(tc, edl.format);
+        edl.events.push({
+            number: Number(number),
+            reel,
+            channel,
+            transition,
+            source_in: frames(sourceIn),
+            source_out: frames(sourceOut),
+            record_in: frames(recordIn),
+            record_out: frames(recordOut),
+        });
+    });
+    return edl;
+};
@@ -0,0 +1,91 @@
+import type { DocumentaryProject, LockEntityType, LockScope, Permission, ProjectCollection, ProjectLock, ProjectPhase } from '../types';
+
+// ========== Lock Scopes ==========
+// Locks cover one phase of a project, or a single entity inside a phase (a script scene, an
+// archive folder), so people can work on different phases or scenes at the same time.
+// Shared by the API server, which enforces them on writes, and the browser, which shows them.
+
+/** Phases whose work is split into lockable entities. Everywhere else, the whole phase is locked. */
+export const ENTITY_LOCK_TYPES: Partial<Record<ProjectPhase, LockEntityType>> = {
+    scripting: 'script_scene',
+    archive: 'archive_folder',
+};
+
+/** Phase each per-project collection belongs to. */
+export const COLLECTION_PHASES: Record<ProjectCollection, ProjectPhase> = {
+    notebooks: 'research',
+    knowledge_assets: 'research',
+    research_sources: 'research',
+    research_queries: 'research',
+    archive_folders: 'archive',
+    archive_clips: 'archive',
+    scripts: 'scripting',
+    script_versions: 'scripting',
+    script_comments: 'scripting',
+    script_suggestions: 'scripting',
+    interview_plans: 'expert_interview',
+    voice_overs: 'voice_over',
+    timeline_items: 'assembly',
+};
+
+/**
+ * Permission needed to lock each phase, or an entity in it, and to ask for its lock: the one
+ * its work is written with. Someone who can only look never holds a lock. Phases without one
+ * aren't locked.
+ */
+export const PHASE_LOCK_PERMISSIONS: Partial<Record<ProjectPhase, Permission>> = {
+    research: 'research.edit',
+    archive: 'archive.import',
+    scripting: 'script.edit',
+    expert_interview: 'interviews.edit',
+    voice_over: 'voiceover.record',
+    assembly: 'timeline.edit',
+};
+
+/**
+ * Project fields that belong to a phase; the rest can be changed whoever holds which lock.
+ * Review sign-offs take no lock: each check has its own permission, so the roles sign off side
+ * by side.
+ */
+export const PROJECT_FIELD_PHASES: Partial<Record<keyof DocumentaryProject, ProjectPhase>> = {
+    research_providers: 'research',
+    timeline_tracks: 'assembly',
+};
+
+export const scopeKey = (scope: LockScope) =>
+    scope.entity_type ? `${scope.phase}/${scope.entity_type}:${scope.entity_id}` : scope.phase;
+
+export const sameScope = (a: LockScope, b: LockScope) => scopeKey(a) === scopeKey(b);
+
+/**
+ * Whether two scopes can't be held by different people at once: the same phase, unless both
+ * are different entities within it.
+ */
+export const scopesOverlap = (a: LockScope, b: LockScope) =>
+    a.phase === b.phase && (!a.entity_type || !b.entity_type || sameScope(a, b));
+
+export const phaseScope = (phase: ProjectPhase): LockScope => ({ phase });
+
+export const entityScope = (phase: ProjectPhase, entityType: LockEntityType, entityId: string, label?: string): LockScope =>
+    ({ phase, entity_type: entityType, entity_id: entityId, label });
+
+export const PHASE_NAMES: Partial<Record<ProjectPhase, string>> = {
+    research: 'Research',
+    archive: 'Archive',
+    scripting: 'Scripting',
+    expert_interview: 'Interviews',
+    voice_over: 'Voice Over',
+    assembly: 'Assembly',
+    review: 'Review',
+};
+
+/** How a lock reads in the UI: "Scripting" or "Scene: The Launch". */
+export const describeScope = (scope: LockScope) => {
+    if (!scope.entity_type) return PHASE_NAMES[scope.phase] || scope.phase;
+    const kind = scope.entity_type === 'script_scene' ? 'Scene' : 'Folder';
+    return `${kind}: ${scope.label || scope.entity_id}`;
+};
+
+/** Locks other users hold that overlap the scope. */
+export const conflictingLocks = (locks: ProjectLock[], scope: LockScope, userId: string) =>
+    locks.filter(lock => lock.user_id !== userId && scopesOverlap(lock, scope));
@@ -0,0 +1,26 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { TimelineItem } from '../types';
+import { buildOtio, parseOtio } from './otio';
+import { TimelineMedia } from './timelineMedia';
+
+const MEDIA: TimelineMedia = { clips: [], voiceOvers: [], plans: [] };
+
+const item = (id: string, track_type: TimelineItem['track_type'], start: number, duration: number): TimelineItem => ({
+    id, project_id: 'p1', track_type, track_index: 0, start_time: start, end_time: start + duration, duration, source_type: 'title', label: id,
+});
+
+const ITEMS: TimelineItem[] = [item('t1', 'graphics', 0, 4), item('m1', 'music', 0, 30)];
+
+describe('buildOtio and parseOtio', () => {
+    test('write a muted track disabled and read its items back', () => {
+        const text = buildOtio(ITEMS, MEDIA, { title: 'Cut', rate: '25', dropFrame: false, muted: ['music:0'] });
+        const tracks = JSON.parse(text).tracks.children;
+        assert.deepEqual(tracks.map((track: any) => [track.name, track.enabled]), [['Graphics', true], ['Music', false]]);
+        assert.equal(tracks[1].children[0].enabled, false);
+
+        const imported = parseOtio(text, ITEMS, MEDIA, 'p1');
+        assert.deepEqual(imported.items.map(i => i.id), ['t1', 'm1']);
+        assert.deepEqual(imported.removed, []);
+    });
+});
@@ -0,0 +1,256 @@
+import type { TimelineItem } from '../types';
+import { FRAME_RATES, TimecodeFormat, secondsToFrames, timecodeToFrames } from './timecode';
+import { TRACK_COLORS, TRACK_LAYOUT, TimelineMarker, TimelineMedia, mediaSourceOf, timelineTracks, trackKey } from './timelineMedia';
+
+// ========== OpenTimelineIO ==========
+// The timeline as an .otio document, for any editing application with an OTIO adapter, and
+// an edited one read back. Each clip carries its timeline item in metadata under
+// OTIO_NAMESPACE (item id, source, beat, track), so after a round trip through an editor
+// the items are matched back to their sources and beats: by that metadata, otherwise by
+// the media file, otherwise by name. Clips nothing matches come in as new items. Muted
+// tracks go out disabled rather than left out, so they come back with the edit.
+
+export const OTIO_NAMESPACE = 'fremantle_studio';
+
+type Json = Record<string, any>;
+
+interface ItemMetadata {
+    item_id: string;
+    source_type: TimelineItem['source_type'];
+    source_id?: string;
+    beat_id?: string;
+    track_type: TimelineItem['track_type'];
+    track_index: number;
+    color?: string;
+}
+
+const rationalTime = (value: number, rate: number): Json => ({ OTIO_SCHEMA: 'RationalTime.1', rate, value });
+
+const timeRange = (start: number, duration: number, rate: number): Json => ({
+    OTIO_SCHEMA: 'TimeRange.1',
+    start_time: rationalTime(start, rate),
+    duration: rationalTime(duration, rate),
+});
+
+const gap = (duration: number, rate: number): Json => ({
+    OTIO_SCHEMA: 'Gap.1',
+    name: '',
+    source_range: timeRange(0, duration, rate),
+    effects: [],
+    markers: [],
+    metadata: {},
+});
+
+export interface OtioOptions extends TimecodeFormat {
+    title: string;
+    markers?: TimelineMarker[];
+    muted?: string[]; // Track keys written as disabled tracks
+}
+
+/** The timeline as an OTIO document (JSON text). Overlapping items on one track go on tracks of their own. */
+export const buildOtio = (items: TimelineItem[], media: TimelineMedia, options: OtioOptions) => {
+    const rate = FRAME_RATES[options.rate].fps;
+    const frames = (seconds: number) => secondsToFrames(seconds, options);
+
+    const tracks = timelineTracks(items).flatMap(track => {
+        const enabled = !options.muted?.includes(trackKey(track));
+        // Lay the items out in lanes that don't overlap, each an OTIO track of clips and gaps
+        const lanes: Array<{ end: number; children: Json[] }> = [];
+        track.items.forEach(item => {
+            const start = frames(item.start_time);
+            const duration = frames(item.start_time + item.duration) - start;
+            if (duration <= 0) return;
+            let lane = lanes.find(l => l.end <= start);
+            if (!lane) lanes.push(lane = { end: 0, children: [] });
+            if (start > lane.end) lane.children.push(gap(start - lane.end, rate));
+            const source = mediaSourceOf(item, media);
+            const metadata: ItemMetadata = {
+                item_id: item.id,
+                source_type: item.source_type,
+                ...(item.source_id ? { source_id: item.source_id } : {}),
+                ...(item.beat_id ? { beat_id: item.beat_id } : {}),
+                track_type: item.track_type,
+                track_index: item.track_index,
+                ...(item.color ? { color: item.color } : {}),
+            };
+            const sourceIn = frames(source.in_point);
+            lane.children.push({
+                OTIO_SCHEMA: 'Clip.2',
+                name: item.label || source.name,
+                source_range: timeRange(sourceIn, duration, rate),
+                media_references: {
+                    DEFAULT_MEDIA: source.url
+                        ? {
+                            OTIO_SCHEMA: 'ExternalReference.1',
+                            name: source.name,
+                            target_url: source.url,
+                            available_range: source.out_point !== undefined ? timeRange(0, frames(source.out_point), rate) : null,
+                            metadata: {},
+                        }
+                        : { OTIO_SCHEMA: 'MissingReference.1', name: source.name, available_range: null, metadata: {} },
+                },
+                active_media_reference_key: 'DEFAULT_MEDIA',
+                enabled,
+                effects: [],
+                markers: [],
+                metadata: { [OTIO_NAMESPACE]: metadata },
+            });
+            lane.end = start + duration;
+        });
+        return lanes.map((lane, i) => ({
+            OTIO_SCHEMA: 'Track.1',
+            name: i > 0 ? `${track.name} (${i + 1})` : track.name,
+            kind: track.kind === 'video' ? 'Video' : 'Audio',
+            children: lane.children,
+            source_range: null,
+            enabled,
+            effects: [],
+            markers: [],
+            metadata: { [OTIO_NAMESPACE]: { track_type: track.track_type, track_index: track.track_index } },
+        }));
+    });
+
+    const timeline = {
+        OTIO_SCHEMA: 'Timeline.1',
+        name: options.title,
+        global_start_time: rationalTime(timecodeToFrames('01:00:00:00', options), rate),
+        metadata: { [OTIO_NAMESPACE]: { frame_rate: options.rate, drop_frame: options.dropFrame } },
+        tracks: {
+            OTIO_SCHEMA: 'Stack.1',
+            name: 'tracks',
+            children: tracks,
+            source_range: null,
+            effects: [],
+            markers: (options.markers || []).map(marker => ({
+                OTIO_SCHEMA: 'Marker.2',
+                name: marker.name,
+                marked_range: timeRange(frames(marker.start), 0, rate),
+                color: 'PURPLE',
+                comment: marker.note || '',
+                metadata: {},
+            })),
+            metadata: {},
+        },
+    };
+    return JSON.stringify(timeline, null, 2);
+};
+
+// ---------- Import ----------
+
+export type OtioMatch = 'item' | 'media' | 'name' | 'new';
+
+export interface OtioImport {
+    items: TimelineItem[];
+    matches: Record<string, OtioMatch>; // By imported item id: how it was matched back
+    removed: TimelineItem[]; // Items on the current timeline that the edit no longer has
+}
+
+const seconds = (time: Json | null | undefined) => (time && time.rate ? Number(time.value) / Number(time.rate) : 0);
+const schemaOf = (node: Json) => String(node?.OTIO_SCHEMA || '').split('.')[0];
+
+const SOURCE_TYPES: Record<TimelineItem['track_type'], TimelineItem['source_type']> = {
+    video: 'archive_clip',
+    expert: 'expert_interview',
+    graphics: 'title',
+    audio: 'voice_over',
+    music: 'music',
+    sfx: 'sfx',
+};
+
+// The kind of track an OTIO track is: from our metadata, its name, or its kind
+const trackTypeOf = (track: Json): { track_type: TimelineItem['track_type']; track_index: number } => {
+    const ours = track.metadata?.[OTIO_NAMESPACE];
+    if (ours?.track_type) return { track_type: ours.track_type, track_index: Number(ours.track_index) || 0 };
+    const name = String(track.name || '').toLowerCase();
+    const layout = TRACK_LAYOUT.find(l => name.startsWith(l.name.toLowerCase()));
+    if (layout) return { track_type: layout.track_type, track_index: 0 };
+    return { track_type: track.kind === 'Audio' ? 'audio' : 'video', track_index: 0 };
+};
+
+// Which of the project's sources a clip plays, by its media file
+const sourceByMedia = (url: string | undefined, media: TimelineMedia): Pick<TimelineItem, 'source_type' | 'source_id' | 'beat_id'> | null => {
+    if (!url) return null;
+    const clip = media.clips.find(c => c.preview_url === url);
+    if (clip) return { source_type: 'archive_clip', source_id: clip.id, beat_id: clip.linked_beat_id };
+    const line = media.voiceOvers.find(v => v.audio_url === url);
+    if (line) return { source_type: 'voice_over', source_id: line.id, beat_id: line.beat_id || undefined };
+    const plan = media.plans.find(p => p.generated_video_url === url);
+    if (plan) return { source_type: 'expert_interview', source_id: plan.id, beat_id: plan.beat_id };
+    return null;
+};
+
+/**
+ * Reads an edited .otio document back into timeline items, matched against the current
+ * timeline and the project's media. Throws when the text isn't an OTIO timeline.
+ */
+export const parseOtio = (text: string, current: TimelineItem[], media: TimelineMedia, projectId: string): OtioImport => {
+    let doc: Json;
+    try {
+        doc = JSON.parse(text);
+    } catch {
+        throw new Error('The file is not OTIO JSON');
+    }
+    if (schemaOf(doc) !== 'Timeline' || schemaOf(doc.tracks) !== 'Stack') throw new Error('The file has no OTIO timeline');
+
+    const items: TimelineItem[] = [];
+    const matches: Record<string, OtioMatch> = {};
+    const used = new Set<string>();
+
+    (doc.tracks.children as Json[] || []).filter(track => schemaOf(track) === 'Track').forEach(track => {
+        const { track_type, track_index } = trackTypeOf(track);
+        let position = 0;
+        (track.children as Json[] || []).forEach(child => {
+            const schema = schemaOf(child);
+            // Transitions overlap their neighbours and take no time of their own
+            if (schema === 'Transition') return;
+            const duration = seconds(child.source_range?.duration);
+            const start = position;
+            position += duration;
+            if (schema !== 'Clip' || duration <= 0) return;
+
+            const ours: Partial<ItemMetadata> = child.metadata?.[OTIO_NAMESPACE] || {};
+            const reference = child.media_references?.[child.active_media_reference_key || 'DEFAULT_MEDIA'] || child.media_reference;
+            const url: string | undefined = reference?.target_url || undefined;
+            const name = String(child.name || reference?.name || 'Clip');
+
+            // The same item as before, the same media, or an item of the same name on this track
+            let match: OtioMatch = 'new';
+            let base: Partial<TimelineItem> | undefined = ours.item_id && !used.has(ours.item_id) ? current.find(i => i.id === ours.item_id) : undefined;
+            if (base) match = 'item';
+            const byMedia = !base ? sourceByMedia(url, media) : null;
+            if (byMedia) {
+                // Keep the id of an item that played this source here before, nearest first
+                const before = current
+                    .filter(i => !used.has(i.id) && i.track_type === track_type && i.source_type === byMedia.source_type && i.source_id === byMedia.source_id)
+                    .sort((a, b) => Math.abs(a.start_time - start) - Math.abs(b.start_time - start))[0];
+                base = { ...before, ...byMedia, beat_id: before?.beat_id || byMedia.beat_id };
+                match = 'media';
+            }
+            if (!base) {
+                base = current.find(i => !used.has(i.id) && i.track_type === track_type && i.label === name);
+                if (base) match = 'name';
+            }
+
+            const id = base?.id || `otio-${Date.now()}-${items.length}`;
+            used.add(id);
+            matches[id] = match;
+            items.push({
+                id,
+                project_id: projectId,
+                track_type: ours.track_type || track_type,
+                track_index: ours.track_index ?? track_index,
+                start_time: start,
+                end_time: start + duration,
+                duration,
+                source_type: base?.source_type || ours.source_type || SOURCE_TYPES[track_type],
+                ...(base?.source_id || ours.source_id ? { source_id: base?.source_id || ours.source_id } : {}),
+                ...(base?.beat_id || ours.beat_id ? { beat_id: base?.beat_id || ours.beat_id } : {}),
+                source_in: seconds(child.source_range?.start_time),
+                label: name,
+                color: base?.color || ours.color || TRACK_COLORS[track_type],
+            });
+        });
+    });
+
+    return { items, matches, removed: current.filter(item => !used.has(item.id)) };
+};
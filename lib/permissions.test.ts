@@ -0,0 +1,20 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { DocumentaryProject, UserProfile } from '../types';
+import { roleOnProject } from './permissions';
+import { projectRole } from '../server/auth';
+
+const project = { id: 'p1', title: 'Bridge', user_id: 'owner', members: [{ user_id: 'owner', role: 'researcher' }, { user_id: 'm1', role: 'editor' }] } as DocumentaryProject;
+const profile = (id: string): UserProfile => ({ id, username: id, role: 'producer', avatar: '', bio: '', customInstructions: '' });
+
+describe('roleOnProject', () => {
+    test('give an owner listed as a member their own role, as the server does', () => {
+        assert.equal(roleOnProject(project, profile('owner')), 'producer');
+        assert.equal(projectRole(project, { id: 'owner', role: 'producer', issuer: 'local' }), 'producer');
+    });
+
+    test('give a member their member role', () => {
+        assert.equal(roleOnProject(project, profile('m1')), 'editor');
+        assert.equal(projectRole(project, { id: 'm1', role: 'producer', issuer: 'local' }), 'editor');
+    });
+});
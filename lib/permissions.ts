@@ -0,0 +1,152 @@
+import type {
+    DocumentaryProject,
+    Permission,
+    PermissionMatrix,
+    ProjectCollection,
+    ReviewCheck,
+    UserProfile,
+    UserRole,
+} from '../types';
+
+// ========== Permission Matrix ==========
+// Which roles may perform each action. Shared by the API server, which enforces it on writes,
+// and the phase components, which disable the matching controls and say why.
+// Projects can override any row through DocumentaryProject.permissions.
+
+export const ROLES: UserRole[] = ['producer', 'editor', 'researcher', 'legal', 'archivist'];
+
+export const DEFAULT_PERMISSIONS: PermissionMatrix = {
+    'project.manage': ['producer'],
+    'research.edit': ['producer', 'researcher'],
+    'archive.import': ['producer', 'archivist', 'editor'],
+    'script.edit': ['producer', 'editor'],
+    'script.submit': ['producer', 'editor'],
+    'script.approve': ['producer'],
+    'script.block': ['producer', 'legal'],
+    'script.comment': ['producer', 'editor', 'researcher', 'legal', 'archivist'],
+    'interviews.edit': ['producer', 'researcher'],
+    'voiceover.record': ['producer', 'editor'],
+    'voiceover.approve': ['producer'],
+    'timeline.edit': ['producer', 'editor'],
+    'review.fact_check': ['producer', 'researcher'],
+    'review.legal': ['producer', 'legal'],
+    'review.brand': ['producer'],
+    'review.technical': ['producer', 'editor'],
+    'review.duration': ['producer'],
+    'review.final': ['producer'],
+    'lock.takeover': ['producer'],
+};
+
+export const PERMISSIONS: Record<Permission, { label: string; action: string }> = {
+    'project.manage': { label: 'Manage project', action: 'manage project settings and permissions' },
+    'research.edit': { label: 'Research', action: 'add research sources and run queries' },
+    'archive.import': { label: 'Import archive', action: 'import and edit archive footage' },
+    'script.edit': { label: 'Edit script', action: 'edit the script' },
+    'script.submit': { label: 'Submit script', action: 'submit the script for review' },
+    'script.approve': { label: 'Approve script', action: 'approve, reject, reopen or archive the script' },
+    'script.block': { label: 'Block script', action: 'block the script' },
+    'script.comment': { label: 'Comment on script', action: 'comment on the script' },
+    'interviews.edit': { label: 'Plan interviews', action: 'plan expert interviews' },
+    'voiceover.record': { label: 'Record voice-overs', action: 'record voice-overs' },
+    'voiceover.approve': { label: 'Approve voice-overs', action: 'approve voice-overs' },
+    'timeline.edit': { label: 'Edit timeline', action: 'edit the timeline' },
+    'review.fact_check': { label: 'Sign off fact check', action: 'sign off the fact check' },
+    'review.legal': { label: 'Sign off legal', action: 'sign off legal clearance' },
+    'review.brand': { label: 'Sign off brand', action: 'sign off the brand check' },
+    'review.technical': { label: 'Sign off technical QA', action: 'sign off technical QA' },
+    'review.duration': { label: 'Sign off duration', action: 'sign off the duration check' },
+    'review.final': { label: 'Final sign-off', action: 'give the final sign-off' },
+    'lock.takeover': { label: 'Take over editing', action: 'take over editing from another user' },
+};
+
+const ROLE_PLURALS: Record<UserRole, string> = {
+    producer: 'producers',
+    editor: 'editors',
+    researcher: 'researchers',
+    legal: 'legal counsel',
+    archivist: 'archivists',
+};
+
+/** Permission needed to write each per-project collection. */
+export const COLLECTION_PERMISSIONS: Record<ProjectCollection, Permission> = {
+    notebooks: 'research.edit',
+    knowledge_assets: 'research.edit',
+    research_sources: 'research.edit',
+    research_queries: 'research.edit',
+    archive_folders: 'archive.import',
+    archive_clips: 'archive.import',
+    scripts: 'script.edit',
+    script_versions: 'script.edit',
+    script_comments: 'script.comment',
+    script_suggestions: 'script.edit',
+    interview_plans: 'interviews.edit',
+    voice_overs: 'voiceover.record',
+    timeline_items: 'timeline.edit',
+};
+
+export const REVIEW_PERMISSIONS: Record<ReviewCheck, Permission> = {
+    fact_check: 'review.fact_check',
+    legal: 'review.legal',
+    brand: 'review.brand',
+    technical: 'review.technical',
+    duration: 'review.duration',
+};
+
+// Producers always keep project.manage, so a project can't lock everyone out of its own matrix
+export const LOCKED_GRANT: { permission: Permission; role: UserRole } = { permission: 'project.manage', role: 'producer' };
+
+export const permissionMatrix = (project?: Pick<DocumentaryProject, 'permissions'> | null): PermissionMatrix => {
+    const matrix = { ...DEFAULT_PERMISSIONS, ...project?.permissions };
+    const managers = matrix[LOCKED_GRANT.permission];
+    if (!managers.includes(LOCKED_GRANT.role)) matrix[LOCKED_GRANT.permission] = [LOCKED_GRANT.role, ...managers];
+    return matrix;
+};
+
+export const hasPermission = (role: UserRole, permission: Permission, project?: Pick<DocumentaryProject, 'permissions'> | null) =>
+    permissionMatrix(project)[permission].includes(role);
+
+const joinRoles = (roles: UserRole[]) => {
+    const names = roles.map(r => ROLE_PLURALS[r]);
+    return names.length <= 1 ? names.join('') : `${names.slice(0, -1).join(', ')} and ${names[names.length - 1]}`;
+};
+
+/** Why the role can't perform the action ("Only producers and legal counsel can sign off legal clearance."), or null when it can. */
+export const permissionDenial = (role: UserRole, permission: Permission, project?: Pick<DocumentaryProject, 'permissions'> | null) => {
+    if (hasPermission(role, permission, project)) return null;
+    const roles = permissionMatrix(project)[permission];
+    return roles.length === 0
+        ? `Nobody can ${PERMISSIONS[permission].action} on this project.`
+        : `Only ${joinRoles(roles)} can ${PERMISSIONS[permission].action}.`;
+};
+
+// ---------- Client Access ----------
+
+/**
+ * The role a project gives the user directly, or null when it doesn't: their own role when
+ * they own it, otherwise their member role. Ownership comes first, so an owner who is also
+ * listed as a member keeps their own role. A project without an owner gives no role.
+ */
+export const directProjectRole = (project: Pick<DocumentaryProject, 'user_id' | 'members'>, user: Pick<UserProfile, 'id' | 'role'>): UserRole | null => {
+    if (!project.user_id) return null;
+    if (project.user_id === user.id) return user.role;
+    return project.members?.find(m => m.user_id === user.id)?.role || null;
+};
+
+/**
+ * The user's role on a project as the browser sees it: the role the project gives them, their
+ * own role otherwise. The server applies the same rule (directProjectRole) plus team roles.
+ */
+export const roleOnProject = (project: DocumentaryProject, user: UserProfile): UserRole =>
+    directProjectRole(project, user) || user.role;
+
+export const projectAccess = (project: DocumentaryProject, user: UserProfile) => {
+    const role = roleOnProject(project, user);
+    return {
+        role,
+        can: (permission: Permission) => hasPermission(role, permission, project),
+        /** Explanation for a disabled control, undefined when allowed (fits title={...}). */
+        reason: (permission: Permission) => permissionDenial(role, permission, project) || undefined,
+    };
+};
+
+export type ProjectAccess = ReturnType<typeof projectAccess>;
@@ -0,0 +1,111 @@
+import type { DocumentaryScript, InterviewPlan, ScriptBeat, ScriptPart, ScriptScene, VoiceOver } from '../types';
+import { findBeat } from './scriptComments';
+import { plainText } from './scriptDiff';
+
+// ========== Script-Derived Work ==========
+// The phases after scripting take their work items from the approved script: expert beats
+// become interview plans, voice-over beats lines to record, archive beats the targets clips
+// are linked to. Items keep the id of their beat. When the script changes, items nobody has
+// worked on yet follow their beat; an item whose beat is gone is orphaned and flagged rather
+// than deleted, since it may hold booked or recorded work.
+
+export interface ScriptBeatRef {
+    beat: ScriptBeat;
+    part: ScriptPart;
+    scene: ScriptScene;
+    context: string; // "Part - Scene", shown with the item
+}
+
+export const sceneContext = (part: Pick<ScriptPart, 'title'>, scene: Pick<ScriptScene, 'title'>) => `${part.title} - ${scene.title}`;
+
+/** The beats of one type in script order. */
+export const beatsOfType = (script: Pick<DocumentaryScript, 'parts'>, type: ScriptBeat['type']): ScriptBeatRef[] =>
+    script.parts.flatMap(part => part.scenes.flatMap(scene => scene.beats
+        .filter(beat => beat.type === type)
+        .map(beat => ({ beat, part, scene, context: sceneContext(part, scene) }))));
+
+/** The start of a beat's text, for pickers and labels. */
+export const beatExcerpt = (beat: Pick<ScriptBeat, 'content' | 'topic'>, length = 80) => {
+    const text = plainText(beat.content).replace(/\s+/g, ' ') || beat.topic || '';
+    return text.length > length ? `${text.slice(0, length - 1)}…` : text;
+};
+
+/** True when the item points at a beat the script no longer has. Items without a beat never are. */
+export const isOrphaned = (beatId: string | undefined, script: Pick<DocumentaryScript, 'parts'> | null) =>
+    Boolean(script && beatId && !findBeat(script, beatId));
+
+/** Items in the order of their beats in the script; orphans and items without a beat go last. */
+export const inScriptOrder = <T extends { beat_id?: string }>(items: T[], script: Pick<DocumentaryScript, 'parts'> | null) => {
+    if (!script) return items;
+    const order = new Map(script.parts.flatMap(part => part.scenes.flatMap(scene => scene.beats)).map((beat, i) => [beat.id, i]));
+    const rank = (item: T) => order.get(item.beat_id || '') ?? Number.MAX_SAFE_INTEGER;
+    return [...items].sort((a, b) => rank(a) - rank(b));
+};
+
+/** True once someone has drafted, scouted or booked for the plan; until then it takes its beat's topic. */
+export const isPlanUnderWay = (plan: InterviewPlan) => plan.status !== 'planning' || Boolean(plan.ideal_soundbite) || plan.candidates.length > 0;
+
+/** True while nobody has recorded or edited the line, so it takes its beat's text. */
+export const lineFollowsBeat = (line: VoiceOver) =>
+    line.status === 'pending' && !line.audio_url && line.beat_text !== undefined && line.text === line.beat_text;
+
+/**
+ * Interview plans brought in line with the script's expert beats: a plan for every new beat,
+ * scene context kept current, and the topic too while the plan is untouched. Null when
+ * nothing changed.
+ */
+export const syncInterviewPlans = (plans: InterviewPlan[], script: DocumentaryScript): InterviewPlan[] | null => {
+    let changed = false;
+    const refs = beatsOfType(script, 'expert');
+    const synced = plans.map(plan => {
+        const ref = refs.find(r => r.beat.id === plan.beat_id);
+        if (!ref) return plan;
+        const topic = isPlanUnderWay(plan) ? plan.topic : ref.beat.topic || 'General Commentary';
+        if (plan.scene_context === ref.context && plan.topic === topic) return plan;
+        changed = true;
+        return { ...plan, scene_context: ref.context, topic };
+    });
+    refs.filter(ref => !plans.some(p => p.beat_id === ref.beat.id)).forEach(ref => {
+        changed = true;
+        synced.push({
+            id: `plan-${ref.beat.id}`,
+            project_id: script.project_id,
+            beat_id: ref.beat.id,
+            scene_context: ref.context,
+            topic: ref.beat.topic || 'General Commentary',
+            ideal_soundbite: '',
+            questions: [],
+            candidates: [],
+            status: 'planning',
+            production_status: 'pending_audio',
+        });
+    });
+    return changed ? synced : null;
+};
+
+/**
+ * Voice-over lines brought in line with the script's voice-over beats: a line for every new
+ * beat (made by `newLine`), and new beat text for lines still pending whose text nobody has
+ * edited. Null when nothing changed.
+ */
+export const syncVoiceOvers = (
+    lines: VoiceOver[],
+    script: DocumentaryScript,
+    newLine: (beat: ScriptBeat, text: string) => VoiceOver,
+): VoiceOver[] | null => {
+    let changed = false;
+    const refs = beatsOfType(script, 'voice_over');
+    const synced = lines.map(line => {
+        const ref = refs.find(r => r.beat.id === line.beat_id);
+        if (!ref || !lineFollowsBeat(line)) return line;
+        const text = plainText(ref.beat.content);
+        if (text === line.beat_text) return line;
+        changed = true;
+        return { ...line, text, beat_text: text };
+    });
+    refs.filter(ref => !lines.some(l => l.beat_id === ref.beat.id)).forEach(ref => {
+        changed = true;
+        synced.push(newLine(ref.beat, plainText(ref.beat.content)));
+    });
+    return changed ? synced : null;
+};
@@ -0,0 +1,80 @@
+import type { CommentAnchor, DocumentaryScript, ScriptBeat, ScriptCommentThread, ScriptScene, UserRole } from '../types';
+import { plainText } from './scriptDiff';
+
+// ========== Script Comments ==========
+// Threads anchored to a beat or to a range of its text. Ranges are kept as text offsets plus
+// the quoted text, so after edits they are found again by the quote; a thread whose quote is
+// gone is shown on the beat as detached. Shared by the API server and the comments panel.
+
+export interface CommentFilter {
+    status: 'open' | 'resolved' | 'all';
+    role: UserRole | null; // Threads with a comment from someone in this role
+    mentioning: string | null; // Threads that @mention this user
+}
+
+export const DEFAULT_COMMENT_FILTER: CommentFilter = { status: 'open', role: null, mentioning: null };
+
+export const COMMENT_MAX_LENGTH = 4000;
+
+export interface MentionCandidate {
+    user_id: string;
+    username: string;
+}
+
+export const filterThreads = (threads: ScriptCommentThread[], filter: CommentFilter) =>
+    threads.filter(thread =>
+        (filter.status === 'all' || thread.status === filter.status)
+        && (!filter.role || thread.comments.some(c => c.role === filter.role))
+        && (!filter.mentioning || thread.comments.some(c => c.mentions.includes(filter.mentioning!))));
+
+/** The beat a thread is on, with its scene; null once the beat has been removed. */
+export const findBeat = (script: Pick<DocumentaryScript, 'parts'>, beatId: string): { scene: ScriptScene; beat: ScriptBeat } | null => {
+    for (const part of script.parts) {
+        for (const scene of part.scenes) {
+            const beat = scene.beats.find(b => b.id === beatId);
+            if (beat) return { scene, beat };
+        }
+    }
+    return null;
+};
+
+/** Everyone who has written in the thread. */
+export const threadParticipants = (thread: Pick<ScriptCommentThread, 'comments'>) =>
+    [...new Set(thread.comments.map(c => c.user_id))];
+
+/**
+ * Where the anchored text is now in `text`: where it was if it is still there, otherwise the
+ * occurrence of the quote nearest to where it was. Null once the quote no longer appears.
+ */
+export const locateAnchor = (anchor: CommentAnchor, text: string): { index: number; length: number } | null => {
+    if (!anchor.quote) return null;
+    if (text.slice(anchor.index, anchor.index + anchor.length) === anchor.quote) return { index: anchor.index, length: anchor.length };
+    let best = -1;
+    for (let at = text.indexOf(anchor.quote); at !== -1; at = text.indexOf(anchor.quote, at + 1)) {
+        if (best === -1 || Math.abs(at - anchor.index) < Math.abs(best - anchor.index)) best = at;
+    }
+    return best === -1 ? null : { index: best, length: anchor.quote.length };
+};
+
+const squash = (text: string) => text.replace(/\s+/g, ' ').trim();
+
+/** True when the thread quotes text its beat no longer has. */
+export const isDetached = (thread: Pick<ScriptCommentThread, 'anchor'>, beatHtml = '') =>
+    Boolean(thread.anchor) && !squash(plainText(beatHtml)).includes(squash(thread.anchor!.quote));
+
+/** People @mentioned in a comment, by user id. Longer names win, so "@Sam Lee" isn't also "@Sam". */
+export const mentionsIn = (body: string, people: MentionCandidate[]) => {
+    const text = body.toLowerCase();
+    const found = new Set<string>();
+    const taken: Array<[number, number]> = [];
+    [...people].sort((a, b) => b.username.length - a.username.length).forEach(person => {
+        const needle = `@${person.username.toLowerCase()}`;
+        for (let at = text.indexOf(needle); at !== -1; at = text.indexOf(needle, at + 1)) {
+            const end = at + needle.length;
+            if (/\w/.test(text[end] || '') || taken.some(([s, e]) => at >= s && at < e)) continue;
+            taken.push([at, end]);
+            found.add(person.user_id);
+        }
+    });
+    return [...found];
+};
@@ -0,0 +1,159 @@
+import type { ScriptBeat, ScriptPart, ScriptScene } from '../types';
+
+// ========== Script Diff ==========
+// Compares two snapshots of a script part by part, scene by scene and beat by beat. Parts,
+// scenes and beats keep their ids across versions, so they are matched by id; beat text is
+// compared word by word. Used by the version history panel.
+
+export type DiffStatus = 'added' | 'removed' | 'changed' | 'unchanged';
+
+export interface WordChange {
+    op: 'same' | 'added' | 'removed';
+    text: string;
+}
+
+export interface BeatDiff {
+    id: string;
+    status: DiffStatus;
+    before?: ScriptBeat;
+    after?: ScriptBeat;
+    words: WordChange[];
+}
+
+export interface SceneDiff {
+    id: string;
+    status: DiffStatus;
+    before?: ScriptScene;
+    after?: ScriptScene;
+    beats: BeatDiff[];
+}
+
+export interface PartDiff {
+    id: string;
+    status: DiffStatus;
+    before?: ScriptPart;
+    after?: ScriptPart;
+    scenes: SceneDiff[];
+}
+
+// Diffs are quadratic; longer beats are shown as replaced outright
+const MAX_WORD_CELLS = 250_000;
+
+/** HTML without its tags, entities decoded; whitespace is left alone. */
+export const stripMarkup = (html = '') =>
+    html
+        .replace(/<[^>]*>/g, '')
+        .replace(/&nbsp;/g, ' ')
+        .replace(/&lt;/g, '<')
+        .replace(/&gt;/g, '>')
+        .replace(/&quot;/g, '"')
+        .replace(/&#39;/g, "'")
+        .replace(/&amp;/g, '&');
+
+/** Beat HTML as plain text, for diffing and previews. */
+export const plainText = (html = '') =>
+    stripMarkup(html.replace(/<br\s*\/?>|<\/(p|div|li)>/gi, '\n')).trim();
+
+/**
+ * Diff (longest common subsequence) of two token lists, with runs of the same operation
+ * merged. Unchanged runs take the text of `after`. Very long inputs come back as replaced outright.
+ */
+export const diffTokens = (a: string[], b: string[], same = (x: string, y: string) => x.trim() === y.trim()): WordChange[] => {
+    if (a.length * b.length > MAX_WORD_CELLS) {
+        return [
+            ...(a.length ? [{ op: 'removed' as const, text: a.join('') }] : []),
+            ...(b.length ? [{ op: 'added' as const, text: b.join('') }] : []),
+        ];
+    }
+    // lengths[i][j]: longest common subsequence of a[i..] and b[j..]
+    const lengths = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+    for (let i = a.length - 1; i >= 0; i--) {
+        for (let j = b.length - 1; j >= 0; j--) {
+            lengths[i][j] = same(a[i], b[j]) ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+        }
+    }
+    const changes: WordChange[] = [];
+    const push = (op: WordChange['op'], text: string) => {
+        const last = changes[changes.length - 1];
+        if (last?.op === op) last.text += text;
+        else changes.push({ op, text });
+    };
+    let i = 0;
+    let j = 0;
+    while (i < a.length && j < b.length) {
+        if (same(a[i], b[j])) {
+            push('same', b[j]);
+            i++;
+            j++;
+        } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+            push('removed', a[i++]);
+        } else {
+            push('added', b[j++]);
+        }
+    }
+    while (i < a.length) push('removed', a[i++]);
+    while (j < b.length) push('added', b[j++]);
+    return changes;
+};
+
+/** Word-level diff of two texts; whitespace stays attached to the words. */
+export const diffWords = (before: string, after: string): WordChange[] =>
+    diffTokens(before.split(/(?<=\s)(?=\S)/).filter(Boolean), after.split(/(?<=\s)(?=\S)/).filter(Boolean));
+
+/**
+ * Pairs items of two lists by id, in the newer list's order. Items only in the older list
+ * follow whatever preceded them there, so removals show up where they used to be.
+ */
+const pairById = <T extends { id: string }>(older: T[], newer: T[]): [T | undefined, T | undefined][] => {
+    const previous = new Map(older.map(item => [item.id, item]));
+    const pairs: [T | undefined, T | undefined][] = newer.map(item => [previous.get(item.id), item]);
+    const kept = new Set(newer.map(item => item.id));
+    older.forEach((item, index) => {
+        if (kept.has(item.id)) return;
+        const predecessor = older[index - 1]?.id;
+        const at = predecessor ? pairs.findIndex(([b, a]) => (a || b)!.id === predecessor) + 1 : 0;
+        pairs.splice(at, 0, [item, undefined]);
+    });
+    return pairs;
+};
+
+const statusOf = (before: unknown, after: unknown, changed: boolean): DiffStatus =>
+    (!before ? 'added' : !after ? 'removed' : changed ? 'changed' : 'unchanged');
+
+const beatFields = ({ content, ...rest }: ScriptBeat) => JSON.stringify({ ...rest, is_generating_visual: undefined });
+
+export const diffBeats = (older: ScriptBeat[], newer: ScriptBeat[]): BeatDiff[] =>
+    pairById(older, newer).map(([before, after]) => {
+        const words = diffWords(plainText(before?.content), plainText(after?.content));
+        const changed = !!before && !!after && (words.some(w => w.op !== 'same') || beatFields(before) !== beatFields(after));
+        return { id: (after || before)!.id, status: statusOf(before, after, changed), before, after, words };
+    });
+
+const moved = (older: { id: string }[], newer: { id: string }[]) =>
+    older.filter(o => newer.some(n => n.id === o.id)).map(o => o.id).join() !== newer.filter(n => older.some(o => o.id === n.id)).map(n => n.id).join();
+
+export const diffScenes = (older: ScriptScene[], newer: ScriptScene[]): SceneDiff[] =>
+    pairById(older, newer).map(([before, after]) => {
+        const beats = diffBeats(before?.beats || [], after?.beats || []);
+        const changed = !!before && !!after
+            && (before.title !== after.title || beats.some(b => b.status !== 'unchanged') || moved(before.beats, after.beats));
+        return { id: (after || before)!.id, status: statusOf(before, after, changed), before, after, beats };
+    });
+
+/** Differences between two versions of a script's parts, from `older` to `newer`. */
+export const diffScripts = (older: ScriptPart[], newer: ScriptPart[]): PartDiff[] =>
+    pairById(older, newer).map(([before, after]) => {
+        const scenes = diffScenes(before?.scenes || [], after?.scenes || []);
+        const changed = !!before && !!after
+            && (before.title !== after.title || scenes.some(s => s.status !== 'unchanged') || moved(before.scenes, after.scenes));
+        return { id: (after || before)!.id, status: statusOf(before, after, changed), before, after, scenes };
+    });
+
+/** Number of scenes and beats that differ, for a one-line summary. */
+export const countChanges = (parts: PartDiff[]) => {
+    const scenes = parts.flatMap(p => p.scenes).filter(s => s.status !== 'unchanged');
+    return {
+        scenes: scenes.length,
+        beats: scenes.flatMap(s => s.beats).filter(b => b.status !== 'unchanged').length,
+    };
+};
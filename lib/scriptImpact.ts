@@ -0,0 +1,120 @@
+import type { ArchiveClip, DocumentaryScript, InterviewPlan, TimelineItem, VoiceOver } from '../types';
+import { findBeat } from './scriptComments';
+import { plainText } from './scriptDiff';
+import { beatExcerpt, beatsOfType, isOrphaned, isPlanUnderWay, lineFollowsBeat } from './scriptBeats';
+
+// ========== Script Change Impact ==========
+// What a script change does to the work that hangs off its beats. A recorded or edited
+// voice-over line is stale once its beat's text differs from the text the line was taken
+// from; an interview plan that is under way keeps its topic when its beat's topic changes,
+// and is flagged; a timeline item is moved when its beat no longer comes in the order the
+// item sits on its track. The phases flag these against the approved script, and the impact
+// report runs them against a script before it is approved.
+
+/** True when the line's beat now reads differently from the text the line was taken from. */
+export const isStaleVoiceOver = (line: VoiceOver, script: Pick<DocumentaryScript, 'parts'> | null) => {
+    const found = script && line.beat_id ? findBeat(script, line.beat_id) : null;
+    return Boolean(found && line.beat_text !== undefined && plainText(found.beat.content) !== line.beat_text);
+};
+
+/** The beat's new topic when it differs from the plan's, otherwise null. */
+export const changedTopic = (plan: InterviewPlan, script: Pick<DocumentaryScript, 'parts'> | null) => {
+    const found = script ? findBeat(script, plan.beat_id) : null;
+    const topic = found?.beat.topic || 'General Commentary';
+    return found && topic !== plan.topic ? topic : null;
+};
+
+/**
+ * Timeline items whose beat has moved: on each track, the items (by start time) that fall
+ * outside the longest run still in script order. Items without a beat, or whose beat is
+ * gone, are left out.
+ */
+export const movedTimelineItems = (items: TimelineItem[], script: Pick<DocumentaryScript, 'parts'>) => {
+    const order = new Map(script.parts.flatMap(part => part.scenes.flatMap(scene => scene.beats)).map((beat, i) => [beat.id, i]));
+    const moved = new Set<string>();
+    const tracks = new Map<string, TimelineItem[]>();
+    items.filter(item => item.beat_id && order.has(item.beat_id)).forEach(item => {
+        const key = `${item.track_type}:${item.track_index}`;
+        tracks.set(key, [...(tracks.get(key) || []), item]);
+    });
+    tracks.forEach(track => {
+        const sorted = [...track].sort((a, b) => a.start_time - b.start_time);
+        const ranks = sorted.map(item => order.get(item.beat_id!)!);
+        // Longest non-decreasing subsequence, keeping the predecessor of each item
+        const length = ranks.map(() => 1);
+        const previous = ranks.map(() => -1);
+        ranks.forEach((rank, i) => {
+            for (let j = 0; j < i; j++) {
+                if (ranks[j] <= rank && length[j] + 1 > length[i]) {
+                    length[i] = length[j] + 1;
+                    previous[i] = j;
+                }
+            }
+        });
+        const kept = new Set<number>();
+        for (let i = length.indexOf(Math.max(...length)); i !== -1; i = previous[i]) kept.add(i);
+        sorted.forEach((item, i) => { if (!kept.has(i)) moved.add(item.id); });
+    });
+    return moved;
+};
+
+export type ImpactKind = 'stale' | 'topic_changed' | 'moved' | 'orphaned' | 'updated' | 'added';
+
+export interface ImpactEntry {
+    kind: ImpactKind;
+    area: 'interviews' | 'voice_over' | 'archive' | 'timeline';
+    id: string; // The item's id, or the beat's for items still to be added
+    label: string;
+    detail?: string;
+}
+
+export interface DownstreamWork {
+    plans: InterviewPlan[];
+    voiceOvers: VoiceOver[];
+    clips: ArchiveClip[];
+    timeline: TimelineItem[];
+}
+
+/** Everything downstream that the script would change, flagged items first. */
+export const downstreamImpact = (script: DocumentaryScript, work: DownstreamWork): ImpactEntry[] => {
+    const entries: ImpactEntry[] = [];
+
+    work.voiceOvers.forEach(line => {
+        const label = plainText(line.text).slice(0, 80) || line.id;
+        if (isOrphaned(line.beat_id, script)) {
+            entries.push({ kind: 'orphaned', area: 'voice_over', id: line.id, label, detail: 'Its beat is cut' });
+        } else if (isStaleVoiceOver(line, script)) {
+            const kind = lineFollowsBeat(line) ? 'updated' : 'stale';
+            entries.push({ kind, area: 'voice_over', id: line.id, label, detail: kind === 'stale' ? `Line ${line.audio_url ? 'recorded' : 'edited'} from the old text` : 'Takes the new text' });
+        }
+    });
+    beatsOfType(script, 'voice_over').filter(ref => !work.voiceOvers.some(l => l.beat_id === ref.beat.id)).forEach(ref => {
+        entries.push({ kind: 'added', area: 'voice_over', id: ref.beat.id, label: beatExcerpt(ref.beat), detail: ref.context });
+    });
+
+    work.plans.forEach(plan => {
+        const topic = changedTopic(plan, script);
+        if (isOrphaned(plan.beat_id, script)) {
+            entries.push({ kind: 'orphaned', area: 'interviews', id: plan.id, label: plan.topic, detail: 'Its beat is cut' });
+        } else if (topic) {
+            entries.push({ kind: isPlanUnderWay(plan) ? 'topic_changed' : 'updated', area: 'interviews', id: plan.id, label: plan.topic, detail: `Topic becomes "${topic}"` });
+        }
+    });
+    beatsOfType(script, 'expert').filter(ref => !work.plans.some(p => p.beat_id === ref.beat.id)).forEach(ref => {
+        entries.push({ kind: 'added', area: 'interviews', id: ref.beat.id, label: ref.beat.topic || 'General Commentary', detail: ref.context });
+    });
+
+    work.clips.filter(clip => isOrphaned(clip.linked_beat_id, script)).forEach(clip => {
+        entries.push({ kind: 'orphaned', area: 'archive', id: clip.id, label: clip.title, detail: 'Linked to a cut beat' });
+    });
+
+    const moved = movedTimelineItems(work.timeline, script);
+    work.timeline.forEach(item => {
+        const label = item.label || item.id;
+        if (isOrphaned(item.beat_id, script)) entries.push({ kind: 'orphaned', area: 'timeline', id: item.id, label, detail: 'Its beat is cut' });
+        else if (moved.has(item.id)) entries.push({ kind: 'moved', area: 'timeline', id: item.id, label, detail: 'Its beat has moved in the script' });
+    });
+
+    const rank: ImpactKind[] = ['stale', 'topic_changed', 'moved', 'orphaned', 'updated', 'added'];
+    return entries.sort((a, b) => rank.indexOf(a.kind) - rank.indexOf(b.kind));
+};
@@ -0,0 +1,131 @@
+import type {
+    DocumentaryProject,
+    DocumentaryScript,
+    Permission,
+    ScriptReviewAction,
+    ScriptReviewEvent,
+    ScriptStatus,
+    UserRole,
+} from '../types';
+import { permissionDenial } from './permissions';
+
+// ========== Script Approval Workflow ==========
+// A script moves draft → review → approved (→ archived) through these actions, each gated by
+// a permission: writers submit, producers approve or send it back, legal can block it.
+// Approved and archived scripts are read-only until reopened. Shared by the API server, which
+// applies the actions, and ScriptingPhase, which offers the ones the user may take.
+
+export interface ScriptActionRule {
+    label: string;
+    from: ScriptStatus[];
+    to: ScriptStatus;
+    permission: Permission;
+    commentRequired: boolean;
+    notice: string; // Title of the notification
+    // Roles holding these permissions are told when the action is taken
+    notify: Permission[];
+}
+
+export const SCRIPT_ACTIONS: Record<ScriptReviewAction, ScriptActionRule> = {
+    submit: {
+        label: 'Submit for Review',
+        from: ['draft'],
+        to: 'review',
+        permission: 'script.submit',
+        commentRequired: false,
+        notice: 'Script Submitted for Review',
+        notify: ['script.approve', 'script.block'],
+    },
+    approve: {
+        label: 'Approve',
+        from: ['review'],
+        to: 'approved',
+        permission: 'script.approve',
+        commentRequired: false,
+        notice: 'Script Approved',
+        notify: ['script.submit', 'interviews.edit', 'voiceover.record'],
+    },
+    reject: {
+        label: 'Request Changes',
+        from: ['review'],
+        to: 'draft',
+        permission: 'script.approve',
+        commentRequired: true,
+        notice: 'Script Changes Requested',
+        notify: ['script.submit'],
+    },
+    block: {
+        label: 'Block',
+        from: ['review', 'approved'],
+        to: 'draft',
+        permission: 'script.block',
+        commentRequired: true,
+        notice: 'Script Blocked',
+        notify: ['script.submit', 'script.approve'],
+    },
+    reopen: {
+        label: 'Reopen',
+        from: ['approved', 'archived'],
+        to: 'draft',
+        permission: 'script.approve',
+        commentRequired: false,
+        notice: 'Script Reopened',
+        notify: ['script.submit'],
+    },
+    archive: {
+        label: 'Archive',
+        from: ['draft', 'approved'],
+        to: 'archived',
+        permission: 'script.approve',
+        commentRequired: false,
+        notice: 'Script Archived',
+        notify: [],
+    },
+};
+
+export const SCRIPT_STATUS_LABELS: Record<ScriptStatus, string> = {
+    draft: 'Draft',
+    review: 'In Review',
+    approved: 'Approved',
+    archived: 'Archived',
+};
+
+// Past tense for notifications: "Alex approved the script"
+const ACTION_VERBS: Record<ScriptReviewAction, string> = {
+    submit: 'submitted the script for review',
+    approve: 'approved the script',
+    reject: 'sent the script back for changes',
+    block: 'blocked the script',
+    reopen: 'reopened the script',
+    archive: 'archived the script',
+};
+
+export const isScriptReadOnly = (script: Pick<DocumentaryScript, 'status'>) =>
+    script.status === 'approved' || script.status === 'archived';
+
+/** Why the script's content can't change, or null while it is a draft or in review. */
+export const scriptReadOnlyReason = (script: Pick<DocumentaryScript, 'status'> | null | undefined) =>
+    (script && isScriptReadOnly(script)
+        ? `The script is ${SCRIPT_STATUS_LABELS[script.status].toLowerCase()} and read-only until a producer reopens it.`
+        : null);
+
+/** Why the role can't take the action on the script now, or null when it can. */
+export const scriptActionDenial = (
+    script: Pick<DocumentaryScript, 'status'>,
+    action: ScriptReviewAction,
+    role: UserRole,
+    project?: Pick<DocumentaryProject, 'permissions'> | null
+) => {
+    const rule = SCRIPT_ACTIONS[action];
+    if (!rule.from.includes(script.status)) {
+        return `"${rule.label}" needs a script that is ${rule.from.map(s => SCRIPT_STATUS_LABELS[s].toLowerCase()).join(' or ')}.`;
+    }
+    return permissionDenial(role, rule.permission, project);
+};
+
+/** The latest event, e.g. to show why a script was sent back. */
+export const latestReview = (script: Pick<DocumentaryScript, 'review_history'>): ScriptReviewEvent | null =>
+    script.review_history?.[script.review_history.length - 1] || null;
+
+export const describeReview = (event: Pick<ScriptReviewEvent, 'action' | 'username' | 'comment'>) =>
+    `${event.username} ${ACTION_VERBS[event.action]}${event.comment ? `: "${event.comment}"` : '.'}`;
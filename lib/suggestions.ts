@@ -0,0 +1,57 @@
+import type { ScriptSuggestion, SuggestionDecision } from '../types';
+import { diffTokens, plainText } from './scriptDiff';
+
+// ========== Suggested Changes ==========
+// A suggestion is a proposed new text for a beat, shown as tracked changes against the text
+// it was made from. The diff runs over the beat's HTML split into tags and words, so markup
+// that didn't change is kept. Each run of changes is a hunk that is accepted or rejected on
+// its own; the beat's text is always the base with the accepted hunks applied. Shared by the
+// API server, which checks decisions, and ScriptingPhase, which applies them to the beat.
+
+export type SuggestionPiece =
+    | { kind: 'same'; text: string }
+    | { kind: 'hunk'; index: number; removed: string; added: string };
+
+// Tags are tokens of their own; text splits into words with their trailing whitespace
+const tokenize = (html: string) =>
+    html.split(/(<[^>]*>)/).filter(Boolean).flatMap(part => (part.startsWith('<') ? [part] : part.split(/(?<=\s)(?=\S)/)));
+
+/** The suggestion as unchanged text and numbered hunks. */
+export const suggestionPieces = (base: string, proposed: string): SuggestionPiece[] => {
+    const pieces: SuggestionPiece[] = [];
+    let hunks = 0;
+    diffTokens(tokenize(base), tokenize(proposed), (x, y) => x === y).forEach(change => {
+        if (change.op === 'same') {
+            pieces.push({ kind: 'same', text: change.text });
+            return;
+        }
+        let last = pieces[pieces.length - 1];
+        if (last?.kind !== 'hunk') {
+            last = { kind: 'hunk', index: hunks++, removed: '', added: '' };
+            pieces.push(last);
+        }
+        if (change.op === 'removed') last.removed += change.text;
+        else last.added += change.text;
+    });
+    return pieces;
+};
+
+export const hunkCount = (suggestion: Pick<ScriptSuggestion, 'base' | 'proposed'>) =>
+    suggestionPieces(suggestion.base, suggestion.proposed).filter(p => p.kind === 'hunk').length;
+
+/** The beat's text with the given decisions; undecided hunks stay as they were in the base. */
+export const applyDecisions = (pieces: SuggestionPiece[], decisions: SuggestionDecision[]) =>
+    pieces.map(piece => (piece.kind === 'same' ? piece.text : decisions[piece.index] === 'accepted' ? piece.added : piece.removed)).join('');
+
+/**
+ * True when the beat no longer reads as the suggestion left it (someone has edited it since),
+ * so its hunks can't be applied one by one any more. Compares text, not markup.
+ */
+export const isOutdated = (suggestion: Pick<ScriptSuggestion, 'base' | 'proposed' | 'decisions'>, beatHtml = '') =>
+    plainText(applyDecisions(suggestionPieces(suggestion.base, suggestion.proposed), suggestion.decisions)) !== plainText(beatHtml);
+
+/** Where the decisions leave the suggestion: pending until every hunk is decided. */
+export const suggestionStatus = (decisions: SuggestionDecision[], hunks: number): ScriptSuggestion['status'] => {
+    if (decisions.length < hunks || decisions.some(d => d !== 'accepted' && d !== 'rejected')) return 'pending';
+    return decisions.includes('accepted') ? 'accepted' : 'rejected';
+};
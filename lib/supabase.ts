@@ -1,12 +1,341 @@
-import { createClient } from '@supabase/supabase-js';
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import type {
+    ArchiveClip,
+    ArchiveFolder,
+    DocumentaryNotebook,
+    DocumentaryProject,
+    DocumentaryScript,
+    InterviewPlan,
+    KnowledgeAsset,
+    ProjectCollection,
+    ResearchQuery,
+    ResearchSource,
+    ScriptBeat,
+    ScriptCommentThread,
+    ScriptPart,
+    ScriptScene,
+    ScriptSuggestion,
+    ScriptVersion,
+    TimelineItem,
+    UserRole,
+    VoiceOver,
+} from '../types';
 
-const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
-const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY;
+// import.meta.env only exists in the Vite bundle; the server imports this module for the data-access layer
+const supabaseUrl = import.meta.env?.VITE_SUPABASE_URL;
+const supabaseAnonKey = import.meta.env?.VITE_SUPABASE_ANON_KEY;
 
-if (!supabaseUrl || !supabaseAnonKey) {
+if (typeof window !== 'undefined' && (!supabaseUrl || !supabaseAnonKey)) {
     console.warn('Supabase credentials not configured. Persistence disabled.');
 }
 
 export const supabase = supabaseUrl && supabaseAnonKey
     ? createClient(supabaseUrl, supabaseAnonKey)
     : null;
+
+// ========== Row Types ==========
+// Tables follow supabase/migrations. Most rows are the types.ts entities as-is;
+// scripts are stored normalized and reassembled into DocumentaryScript on read.
+
+export interface TeamRow {
+    id: string;
+    name: string;
+    created_by?: string;
+    created_at?: string;
+}
+
+export interface TeamMemberRow {
+    team_id: string;
+    user_id: string;
+    role: UserRole;
+    joined_at?: string;
+}
+
+export type ArchiveFolderRow = ArchiveFolder & { project_id: string };
+
+export type ScriptRow = Omit<DocumentaryScript, 'parts'> & { created_at?: string };
+
+export type ScriptPartRow = Omit<ScriptPart, 'scenes'> & {
+    project_id: string;
+    script_id: string;
+};
+
+export type ScriptSceneRow = Omit<ScriptScene, 'beats'> & {
+    project_id: string;
+    script_id: string;
+    part_id: string;
+};
+
+export type ScriptBeatRow = ScriptBeat & {
+    project_id: string;
+    script_id: string;
+    scene_id: string;
+    position: number;
+};
+
+// ========== Data Access ==========
+
+/** CRUD for a table whose rows belong to a project and are keyed by (project_id, id). */
+export interface ProjectTable<T extends { id: string; project_id: string }> {
+    list(projectId: string): Promise<T[]>;
+    get(projectId: string, id: string): Promise<T | null>;
+    upsert(record: T): Promise<T>;
+    remove(projectId: string, id: string): Promise<void>;
+    /** Makes the table's rows for the project exactly `records`, deleting any others. */
+    replace(projectId: string, records: T[]): Promise<T[]>;
+}
+
+export interface ProjectTables {
+    notebooks: ProjectTable<DocumentaryNotebook>;
+    knowledge_assets: ProjectTable<KnowledgeAsset>;
+    research_sources: ProjectTable<ResearchSource>;
+    research_queries: ProjectTable<ResearchQuery>;
+    archive_folders: ProjectTable<ArchiveFolderRow>;
+    archive_clips: ProjectTable<ArchiveClip>;
+    scripts: ProjectTable<DocumentaryScript>;
+    script_versions: ProjectTable<ScriptVersion>;
+    script_comments: ProjectTable<ScriptCommentThread>;
+    script_suggestions: ProjectTable<ScriptSuggestion>;
+    interview_plans: ProjectTable<InterviewPlan>;
+    voice_overs: ProjectTable<VoiceOver>;
+    timeline_items: ProjectTable<TimelineItem>;
+}
+
+type Result<T> = { data: T | null; error: { message: string } | null };
+
+const check = <T>({ data, error }: Result<T>): T => {
+    if (error) throw new Error(error.message);
+    return data as T;
+};
+
+// PostgREST list literal for `.in()` / `.not('in')` filters on text ids
+const idList = (ids: string[]) => `(${ids.map(id => `"${id.replace(/"/g, '\\"')}"`).join(',')})`;
+
+const projectTable = <T extends { id: string; project_id: string }>(
+    client: SupabaseClient,
+    table: string
+): ProjectTable<T> => ({
+    async list(projectId) {
+        return check(await client.from(table).select('*').eq('project_id', projectId)) as T[];
+    },
+
+    async get(projectId, id) {
+        return check(await client.from(table).select('*').eq('project_id', projectId).eq('id', id).maybeSingle()) as T | null;
+    },
+
+    async upsert(record) {
+        return check(await client.from(table).upsert(record).select().single()) as T;
+    },
+
+    async remove(projectId, id) {
+        check(await client.from(table).delete().eq('project_id', projectId).eq('id', id));
+    },
+
+    async replace(projectId, records) {
+        let stale = client.from(table).delete().eq('project_id', projectId);
+        if (records.length > 0) {
+            stale = stale.not('id', 'in', idList(records.map(r => r.id)));
+        }
+        check(await stale);
+        if (records.length === 0) return [];
+        return check(await client.from(table).upsert(records).select()) as T[];
+    },
+});
+
+// ---------- Scripts ----------
+
+const splitScript = (script: DocumentaryScript) => {
+    const { parts, ...row } = script;
+    const keys = { project_id: script.project_id, script_id: script.id };
+    const partRows: ScriptPartRow[] = [];
+    const sceneRows: ScriptSceneRow[] = [];
+    const beatRows: ScriptBeatRow[] = [];
+
+    for (const { scenes, ...part } of parts) {
+        partRows.push({ ...part, ...keys });
+        for (const { beats, ...scene } of scenes) {
+            sceneRows.push({ ...scene, ...keys, part_id: part.id });
+            beats.forEach((beat, position) => beatRows.push({ ...beat, ...keys, scene_id: scene.id, position }));
+        }
+    }
+    return { row: row as ScriptRow, partRows, sceneRows, beatRows };
+};
+
+const joinScript = (
+    row: ScriptRow,
+    partRows: ScriptPartRow[],
+    sceneRows: ScriptSceneRow[],
+    beatRows: ScriptBeatRow[]
+): DocumentaryScript => {
+    const { created_at, ...script } = row;
+    const parts = partRows
+        .filter(p => p.script_id === row.id)
+        .sort((a, b) => a.part_number - b.part_number)
+        .map(({ project_id, script_id, ...part }) => ({
+            ...part,
+            scenes: sceneRows
+                .filter(s => s.script_id === row.id && s.part_id === part.id)
+                .sort((a, b) => a.scene_number - b.scene_number)
+                .map(({ project_id, script_id, part_id, ...scene }) => ({
+                    ...scene,
+                    beats: beatRows
+                        .filter(b => b.script_id === row.id && b.scene_id === scene.id)
+                        .sort((a, b) => a.position - b.position)
+                        .map(({ project_id, script_id, scene_id, position, ...beat }) => beat),
+                })),
+        }));
+    return { ...script, parts };
+};
+
+const scriptTable = (client: SupabaseClient): ProjectTable<DocumentaryScript> => {
+    const load = async (projectId: string, scriptIds?: string[]) => {
+        const scoped = (table: string, column: string) => {
+            const query = client.from(table).select('*').eq('project_id', projectId);
+            return scriptIds ? query.in(column, scriptIds) : query;
+        };
+        const [rows, parts, scenes, beats] = await Promise.all([
+            scoped('scripts', 'id').order('version'),
+            scoped('script_parts', 'script_id'),
+            scoped('script_scenes', 'script_id'),
+            scoped('script_beats', 'script_id'),
+        ]);
+        return (check(rows) as ScriptRow[]).map(row =>
+            joinScript(row, check(parts) as ScriptPartRow[], check(scenes) as ScriptSceneRow[], check(beats) as ScriptBeatRow[])
+        );
+    };
+
+    // Parts, scenes and beats are rewritten wholesale: deleting the parts cascades to the rest
+    const write = async (scripts: DocumentaryScript[]) => {
+        if (scripts.length === 0) return;
+        const split = scripts.map(splitScript);
+        const projectId = scripts[0].project_id;
+
+        check(await client.from('scripts').upsert(split.map(s => s.row)));
+        check(await client.from('script_parts').delete()
+            .eq('project_id', projectId)
+            .in('script_id', scripts.map(s => s.id)));
+
+        const parts = split.flatMap(s => s.partRows);
+        const scenes = split.flatMap(s => s.sceneRows);
+        const beats = split.flatMap(s => s.beatRows);
+        if (parts.length > 0) check(await client.from('script_parts').insert(parts));
+        if (scenes.length > 0) check(await client.from('script_scenes').insert(scenes));
+        if (beats.length > 0) check(await client.from('script_beats').insert(beats));
+    };
+
+    return {
+        list: projectId => load(projectId),
+
+        async get(projectId, id) {
+            const [script] = await load(projectId, [id]);
+            return script || null;
+        },
+
+        async upsert(script) {
+            await write([script]);
+            return script;
+        },
+
+        async remove(projectId, id) {
+            check(await client.from('scripts').delete().eq('project_id', projectId).eq('id', id));
+        },
+
+        async replace(projectId, scripts) {
+            let stale = client.from('scripts').delete().eq('project_id', projectId);
+            if (scripts.length > 0) {
+                stale = stale.not('id', 'in', idList(scripts.map(s => s.id)));
+            }
+            check(await stale);
+            await write(scripts);
+            return scripts;
+        },
+    };
+};
+
+/**
+ * Typed access to every table in supabase/migrations.
+ * With the anon client RLS limits results to the signed-in user's own and team projects;
+ * the server passes a service-role client and enforces access itself.
+ */
+export const createSupabaseData = (client: SupabaseClient) => {
+    const tables: ProjectTables = {
+        notebooks: projectTable(client, 'notebooks'),
+        knowledge_assets: projectTable(client, 'knowledge_assets'),
+        research_sources: projectTable(client, 'research_sources'),
+        research_queries: projectTable(client, 'research_queries'),
+        archive_folders: projectTable(client, 'archive_folders'),
+        archive_clips: projectTable(client, 'archive_clips'),
+        scripts: scriptTable(client),
+        script_versions: projectTable(client, 'script_versions'),
+        script_comments: projectTable(client, 'script_comments'),
+        script_suggestions: projectTable(client, 'script_suggestions'),
+        interview_plans: projectTable(client, 'interview_plans'),
+        voice_overs: projectTable(client, 'voice_overs'),
+        timeline_items: projectTable(client, 'timeline_items'),
+    };
+
+    return {
+        tables,
+
+        table<K extends ProjectCollection>(collection: K): ProjectTables[K] {
+            return tables[collection];
+        },
+
+        projects: {
+            async list(): Promise<DocumentaryProject[]> {
+                return check(await client.from('projects').select('*').order('created_at'));
+            },
+
+            async get(id: string): Promise<DocumentaryProject | null> {
+                return check(await client.from('projects').select('*').eq('id', id).maybeSingle());
+            },
+
+            async save(project: DocumentaryProject): Promise<DocumentaryProject> {
+                return check(await client.from('projects').upsert(project).select().single());
+            },
+
+            // Child tables cascade on delete via their project_id foreign keys
+            async remove(id: string): Promise<void> {
+                check(await client.from('projects').delete().eq('id', id));
+            },
+
+            async shareWithTeam(id: string, teamId: string | null): Promise<DocumentaryProject> {
+                return check(await client.from('projects').update({ team_id: teamId }).eq('id', id).select().single());
+            },
+        },
+
+        teams: {
+            async list(): Promise<TeamRow[]> {
+                return check(await client.from('teams').select('*').order('name'));
+            },
+
+            async create(team: Omit<TeamRow, 'id' | 'created_at'>): Promise<TeamRow> {
+                return check(await client.from('teams').insert(team).select().single());
+            },
+
+            async remove(id: string): Promise<void> {
+                check(await client.from('teams').delete().eq('id', id));
+            },
+
+            async listForUser(userId: string): Promise<TeamMemberRow[]> {
+                return check(await client.from('team_members').select('*').eq('user_id', userId));
+            },
+
+            async listMembers(teamId: string): Promise<TeamMemberRow[]> {
+                return check(await client.from('team_members').select('*').eq('team_id', teamId));
+            },
+
+            async addMember(member: Omit<TeamMemberRow, 'joined_at'>): Promise<TeamMemberRow> {
+                return check(await client.from('team_members').upsert(member).select().single());
+            },
+
+            async removeMember(teamId: string, userId: string): Promise<void> {
+                check(await client.from('team_members').delete().eq('team_id', teamId).eq('user_id', userId));
+            },
+        },
+    };
+};
+
+export type SupabaseData = ReturnType<typeof createSupabaseData>;
+
+export const supabaseData = supabase ? createSupabaseData(supabase) : null;
@@ -0,0 +1,78 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { FrameRate, TimecodeFormat, framesToTimecode, secondsToTimecode, timecodeToFrames } from './timecode';
+
+const FORMATS: TimecodeFormat[] = [
+    { rate: '23.976', dropFrame: false },
+    { rate: '24', dropFrame: false },
+    { rate: '25', dropFrame: false },
+    { rate: '29.97', dropFrame: false },
+    { rate: '29.97', dropFrame: true },
+];
+
+const name = (format: TimecodeFormat) => `${format.rate}${format.dropFrame ? ' DF' : ''}`;
+
+describe('framesToTimecode and timecodeToFrames', () => {
+    for (const format of FORMATS) {
+        test(`round-trip every frame of the first eleven minutes at ${name(format)}`, () => {
+            for (let frames = 0; frames < 11 * 60 * 30; frames++) {
+                assert.equal(timecodeToFrames(framesToTimecode(frames, format), format), frames);
+            }
+        });
+    }
+
+    test('count 23.976 and 24 in 24 frames a timecode second', () => {
+        for (const rate of ['23.976', '24'] as FrameRate[]) {
+            const format = { rate, dropFrame: false };
+            assert.equal(framesToTimecode(23, format), '00:00:00:23');
+            assert.equal(framesToTimecode(24, format), '00:00:01:00');
+            assert.equal(framesToTimecode(86400, format), '01:00:00:00');
+            assert.equal(timecodeToFrames('01:00:00:00', format), 86400);
+        }
+    });
+
+    test('count 25 in 25 frames a timecode second', () => {
+        const format = { rate: '25' as FrameRate, dropFrame: false };
+        assert.equal(framesToTimecode(24, format), '00:00:00:24');
+        assert.equal(framesToTimecode(25, format), '00:00:01:00');
+        assert.equal(framesToTimecode(90000, format), '01:00:00:00');
+    });
+
+    test('run 23.976 behind the clock', () => {
+        assert.equal(secondsToTimecode(3600, { rate: '23.976', dropFrame: false }), '00:59:56:10');
+        assert.equal(secondsToTimecode(3600, { rate: '24', dropFrame: false }), '01:00:00:00');
+    });
+
+    test('skip frames 00 and 01 at each minute in 29.97 drop-frame', () => {
+        const df = { rate: '29.97' as FrameRate, dropFrame: true };
+        assert.equal(framesToTimecode(1799, df), '00:00:59;29');
+        assert.equal(framesToTimecode(1800, df), '00:01:00;02');
+        assert.equal(framesToTimecode(3597, df), '00:01:59;29');
+        assert.equal(framesToTimecode(3598, df), '00:02:00;02');
+        assert.equal(timecodeToFrames('00:01:00;02', df), 1800);
+        assert.equal(timecodeToFrames('00:02:00;02', df), 3598);
+    });
+
+    test('keep frames 00 and 01 at every tenth minute in 29.97 drop-frame', () => {
+        const df = { rate: '29.97' as FrameRate, dropFrame: true };
+        assert.equal(framesToTimecode(17981, df), '00:09:59;29');
+        assert.equal(framesToTimecode(17982, df), '00:10:00;00');
+        assert.equal(framesToTimecode(17983, df), '00:10:00;01');
+        assert.equal(framesToTimecode(17982 + 1800, df), '00:11:00;02');
+        assert.equal(timecodeToFrames('00:10:00;00', df), 17982);
+        assert.equal(timecodeToFrames('01:00:00;00', df), 107892);
+    });
+
+    test('keep drop-frame timecode on the clock', () => {
+        const df = { rate: '29.97' as FrameRate, dropFrame: true };
+        assert.equal(secondsToTimecode(3600, df), '01:00:00;00');
+        assert.equal(secondsToTimecode(3600, { rate: '29.97', dropFrame: false }), '00:59:56:12');
+    });
+
+    test('accept either separator and refuse anything else', () => {
+        const df = { rate: '29.97' as FrameRate, dropFrame: true };
+        assert.equal(timecodeToFrames('00:01:00:02', df), 1800);
+        assert.equal(timecodeToFrames('00:00:01.00', { rate: '25', dropFrame: false }), 25);
+        assert.throws(() => timecodeToFrames('1:00:00:00', df), /Not a timecode/);
+    });
+});
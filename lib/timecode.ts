@@ -0,0 +1,66 @@
+// ========== Timecode ==========
+// SMPTE timecode at the frame rates editors deliver in. 23.976 and 29.97 run slower than
+// their nominal rate: frames are counted at 24 or 30 per timecode second, while a frame
+// lasts 1001/24000 or 1001/30000 of a real second. 29.97 can be drop-frame, which skips
+// frame numbers 00 and 01 at the start of every minute except each tenth, so the timecode
+// keeps pace with the clock. Drop-frame timecode is written with a ';' before the frames.
+
+export type FrameRate = '23.976' | '24' | '25' | '29.97';
+
+export interface TimecodeFormat {
+    rate: FrameRate;
+    dropFrame: boolean; // Only 29.97 can drop frames
+}
+
+export const FRAME_RATES: Record<FrameRate, { label: string; nominal: number; fps: number }> = {
+    '23.976': { label: '23.976 fps', nominal: 24, fps: 24000 / 1001 },
+    '24': { label: '24 fps', nominal: 24, fps: 24 },
+    '25': { label: '25 fps (PAL)', nominal: 25, fps: 25 },
+    '29.97': { label: '29.97 fps', nominal: 30, fps: 30000 / 1001 },
+};
+
+export const DEFAULT_TIMECODE_FORMAT: TimecodeFormat = { rate: '24', dropFrame: false };
+
+const dropsFrames = (format: TimecodeFormat) => format.dropFrame && format.rate === '29.97';
+
+/** The nearest frame to a time in seconds. */
+export const secondsToFrames = (seconds: number, format: TimecodeFormat) =>
+    Math.round(seconds * FRAME_RATES[format.rate].fps);
+
+export const framesToSeconds = (frames: number, format: TimecodeFormat) =>
+    frames / FRAME_RATES[format.rate].fps;
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+/** HH:MM:SS:FF (HH:MM:SS;FF in drop-frame) for a frame count from zero. */
+export const framesToTimecode = (frames: number, format: TimecodeFormat) => {
+    const base = FRAME_RATES[format.rate].nominal;
+    let count = Math.max(0, Math.round(frames));
+    if (dropsFrames(format)) {
+        // 17982 frames in ten minutes, 1798 in each minute after the first of the ten
+        const tens = Math.floor(count / 17982);
+        const rest = count % 17982;
+        count += 18 * tens + (rest > 1 ? 2 * Math.floor((rest - 2) / 1798) : 0);
+    }
+    const f = count % base;
+    const totalSeconds = Math.floor(count / base);
+    const h = Math.floor(totalSeconds / 3600) % 24;
+    const m = Math.floor(totalSeconds / 60) % 60;
+    const s = totalSeconds % 60;
+    return `${pad(h)}:${pad(m)}:${pad(s)}${dropsFrames(format) ? ';' : ':'}${pad(f)}`;
+};
+
+/** The frame count of a timecode; either separator is accepted. Throws on anything else. */
+export const timecodeToFrames = (timecode: string, format: TimecodeFormat) => {
+    const match = timecode.trim().match(/^(\d{2}):(\d{2}):(\d{2})[:;.](\d{2})$/);
+    if (!match) throw new Error(`Not a timecode: "${timecode}"`);
+    const [h, m, s, f] = match.slice(1).map(Number);
+    const base = FRAME_RATES[format.rate].nominal;
+    const frames = (h * 3600 + m * 60 + s) * base + f;
+    if (!dropsFrames(format)) return frames;
+    const minutes = h * 60 + m;
+    return frames - 2 * (minutes - Math.floor(minutes / 10));
+};
+
+export const secondsToTimecode = (seconds: number, format: TimecodeFormat) =>
+    framesToTimecode(secondsToFrames(seconds, format), format);
@@ -0,0 +1,121 @@
+import type { TimelineItem } from '../types';
+import { TimelineMedia, mediaSourceOf } from './timelineMedia';
+
+// ========== Timeline Editing ==========
+// Edits on the assembly timeline, each taking the items and returning them changed. Items
+// move along their track; an edge is trimmed in one of three ways:
+// - trim: only the item changes, leaving a gap or overlapping its neighbour
+// - ripple: the item changes and everything after it on the track shifts to close or make room
+// - roll: the edit point between the item and the item it touches moves, one growing as the
+//   other shrinks, so nothing else shifts
+// An item with a source can't be trimmed past the start or end of its media; titles and other
+// items made in the edit can be any length.
+
+export type TrimMode = 'trim' | 'ripple' | 'roll';
+export type ItemEdge = 'start' | 'end';
+
+export const MIN_ITEM_DURATION = 0.1;
+// Edges this close together touch
+const TOUCHING = 0.01;
+
+/** Where the last item ends. */
+export const timelineDuration = (items: TimelineItem[]) => items.reduce((end, item) => Math.max(end, item.start_time + item.duration), 0);
+
+const retimed = (item: TimelineItem, start: number, duration: number, sourceIn?: number): TimelineItem => ({
+    ...item,
+    start_time: start,
+    duration,
+    end_time: start + duration,
+    ...(sourceIn !== undefined ? { source_in: sourceIn } : {}),
+});
+
+const sameTrack = (a: TimelineItem, b: TimelineItem) => a.track_type === b.track_type && a.track_index === b.track_index;
+
+const clamp = (value: number, min: number, max: number) => Math.min(Math.max(value, min), max);
+
+// How much media there is before and after the part an item plays
+const mediaRoom = (item: TimelineItem, media: TimelineMedia) => {
+    const source = mediaSourceOf(item, media);
+    if (!item.source_id) return { sourceIn: undefined, before: Infinity, after: Infinity };
+    const after = source.out_point !== undefined && source.out_point > source.in_point ? source.out_point - source.in_point - item.duration : Infinity;
+    return { sourceIn: source.in_point, before: source.in_point, after: Math.max(0, after) };
+};
+
+/** Moves the items by `delta` seconds together, stopping when the first reaches the start. */
+export const moveItems = (items: TimelineItem[], ids: Set<string>, delta: number) => {
+    const moving = items.filter(item => ids.has(item.id));
+    if (moving.length === 0) return items;
+    const shift = Math.max(delta, -Math.min(...moving.map(item => item.start_time)));
+    return items.map(item => (ids.has(item.id) ? retimed(item, item.start_time + shift, item.duration) : item));
+};
+
+// Shifts the items on `item`'s track from `from` onwards
+const shiftAfter = (items: TimelineItem[], item: TimelineItem, from: number, shift: number) =>
+    items.map(other => (other.id !== item.id && sameTrack(other, item) && other.start_time >= from - TOUCHING
+        ? retimed(other, Math.max(0, other.start_time + shift), other.duration)
+        : other));
+
+/**
+ * Moves one edge of an item by `delta` seconds (positive is later). Where a roll has no
+ * touching neighbour on that side it trims instead.
+ */
+export const trimItem = (items: TimelineItem[], id: string, edge: ItemEdge, delta: number, mode: TrimMode, media: TimelineMedia): TimelineItem[] => {
+    const item = items.find(i => i.id === id);
+    if (!item) return items;
+    const end = item.start_time + item.duration;
+
+    if (mode === 'roll') {
+        const neighbour = items.find(other => other.id !== id && sameTrack(other, item) && (edge === 'end'
+            ? Math.abs(other.start_time - end) < TOUCHING
+            : Math.abs(other.start_time + other.duration - item.start_time) < TOUCHING));
+        if (neighbour) {
+            const [left, right] = edge === 'end' ? [item, neighbour] : [neighbour, item];
+            const leftRoom = mediaRoom(left, media);
+            const rightRoom = mediaRoom(right, media);
+            const d = clamp(delta, Math.max(MIN_ITEM_DURATION - left.duration, -rightRoom.before), Math.min(leftRoom.after, right.duration - MIN_ITEM_DURATION));
+            return items.map(other => {
+                if (other.id === left.id) return retimed(left, left.start_time, left.duration + d);
+                if (other.id === right.id) return retimed(right, right.start_time + d, right.duration - d, rightRoom.sourceIn !== undefined ? rightRoom.sourceIn + d : undefined);
+                return other;
+            });
+        }
+    }
+
+    const room = mediaRoom(item, media);
+    if (edge === 'end') {
+        const d = clamp(delta, MIN_ITEM_DURATION - item.duration, room.after);
+        const trimmed = items.map(other => (other.id === id ? retimed(item, item.start_time, item.duration + d) : other));
+        return mode === 'ripple' ? shiftAfter(trimmed, item, end, d) : trimmed;
+    }
+    // The start edge: a ripple keeps the item where it is and shifts what follows instead
+    const d = clamp(delta, -Math.min(room.before, mode === 'ripple' ? Infinity : item.start_time), item.duration - MIN_ITEM_DURATION);
+    const sourceIn = room.sourceIn !== undefined ? room.sourceIn + d : undefined;
+    if (mode === 'ripple') {
+        const trimmed = items.map(other => (other.id === id ? retimed(item, item.start_time, item.duration - d, sourceIn) : other));
+        return shiftAfter(trimmed, item, end, -d);
+    }
+    return items.map(other => (other.id === id ? retimed(item, item.start_time + d, item.duration - d, sourceIn) : other));
+};
+
+/** Removes the items; a ripple closes the space each leaves on its track. */
+export const removeItems = (items: TimelineItem[], ids: Set<string>, ripple: boolean) => {
+    if (!ripple) return items.filter(item => !ids.has(item.id));
+    // Latest first, so each shift only moves items that are staying
+    return items
+        .filter(item => ids.has(item.id))
+        .sort((a, b) => b.start_time - a.start_time)
+        .reduce((rest, removed) => shiftAfter(rest.filter(item => item.id !== removed.id), removed, removed.start_time + removed.duration, -removed.duration), items);
+};
+
+/**
+ * The shift that brings the nearest of `times` onto a target within `threshold` seconds, and
+ * the target; no shift when nothing is that close.
+ */
+export const snapShift = (times: number[], targets: number[], threshold: number): { shift: number; target?: number } => {
+    let best: { shift: number; target?: number } = { shift: 0 };
+    times.forEach(time => targets.forEach(target => {
+        const shift = target - time;
+        if (Math.abs(shift) <= threshold && (best.target === undefined || Math.abs(shift) < Math.abs(best.shift))) best = { shift, target };
+    }));
+    return best;
+};
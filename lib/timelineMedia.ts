@@ -0,0 +1,124 @@
+import type { ArchiveClip, DocumentaryScript, InterviewPlan, TimelineItem, VoiceOver } from '../types';
+import { beatExcerpt } from './scriptBeats';
+
+// ========== Timeline Media ==========
+// What a timeline item plays: an archive clip, a recorded voice-over line, a generated expert
+// interview, or something made in the edit (titles, music, effects). Exports to editing
+// applications name their sources and point at the media files through this, and lay the
+// tracks out and mark the script's beats the same way.
+
+export interface TimelineMedia {
+    clips: ArchiveClip[];
+    voiceOvers: VoiceOver[];
+    plans: InterviewPlan[];
+}
+
+export interface MediaSource {
+    name: string; // Clip name in the editing application
+    in_point: number; // Seconds into the source where the item starts
+    out_point?: number; // Last usable second of the source, when known
+    url?: string; // The media file
+}
+
+// Browser-local URLs (recordings not yet uploaded) mean nothing outside this page
+const fileUrl = (url?: string) => (url && !/^(blob|data):/.test(url) ? url : undefined);
+
+// The file name at the end of a URL, if it has one
+const fileName = (url?: string) => {
+    const last = url?.split(/[?#]/)[0].split('/').pop();
+    return last && /\.\w+$/.test(last) ? decodeURIComponent(last) : undefined;
+};
+
+export const mediaSourceOf = (item: TimelineItem, media: TimelineMedia): MediaSource => {
+    const fallback = item.label || item.source_type;
+    if (item.source_type === 'archive_clip') {
+        const clip = media.clips.find(c => c.id === item.source_id);
+        if (clip) return { name: clip.title, in_point: item.source_in ?? (clip.in_point || 0), out_point: clip.out_point, url: fileUrl(clip.preview_url) };
+    }
+    if (item.source_type === 'voice_over') {
+        const line = media.voiceOvers.find(v => v.id === item.source_id);
+        if (line) return { name: fileName(line.audio_url) || fallback, in_point: item.source_in || 0, out_point: line.duration_seconds || undefined, url: fileUrl(line.audio_url) };
+    }
+    if (item.source_type === 'expert_interview') {
+        const plan = media.plans.find(p => p.id === item.source_id);
+        if (plan) return { name: fileName(plan.generated_video_url) || plan.topic, in_point: item.source_in || 0, out_point: plan.audio_duration, url: fileUrl(plan.generated_video_url) };
+    }
+    return { name: fallback, in_point: item.source_in || 0 };
+};
+
+// ========== Tracks and Markers ==========
+
+export type TrackKind = 'video' | 'audio';
+
+/** The timeline's tracks as editing applications stack them: video bottom to top, then audio. */
+export const TRACK_LAYOUT: Array<{ track_type: TimelineItem['track_type']; kind: TrackKind; name: string }> = [
+    { track_type: 'video', kind: 'video', name: 'Video' },
+    { track_type: 'expert', kind: 'video', name: 'Expert' },
+    { track_type: 'graphics', kind: 'video', name: 'Graphics' },
+    { track_type: 'audio', kind: 'audio', name: 'Voice Over' },
+    { track_type: 'music', kind: 'audio', name: 'Music' },
+    { track_type: 'sfx', kind: 'audio', name: 'SFX' },
+];
+
+/** The colour items on each track are drawn in. */
+export const TRACK_COLORS: Record<TimelineItem['track_type'], string> = {
+    video: 'bg-blue-600',
+    expert: 'bg-red-600',
+    graphics: 'bg-purple-600',
+    audio: 'bg-green-600',
+    music: 'bg-yellow-600',
+    sfx: 'bg-orange-600',
+};
+
+export interface TimelineTrack {
+    track_type: TimelineItem['track_type'];
+    track_index: number;
+    kind: TrackKind;
+    name: string;
+    items: TimelineItem[]; // By start time
+}
+
+export type TrackRef = Pick<TimelineItem, 'track_type' | 'track_index'>;
+
+/** Identifies a track, as "video:1". */
+export const trackKey = (track: TrackRef) => `${track.track_type}:${track.track_index}`;
+
+/** "Video" for the first track of a type, "Video 2" for the next. */
+export const trackName = (track: TrackRef) => {
+    const name = TRACK_LAYOUT.find(layout => layout.track_type === track.track_type)?.name || track.track_type;
+    return track.track_index > 0 ? `${name} ${track.track_index + 1}` : name;
+};
+
+/** The items grouped into tracks in TRACK_LAYOUT order; a type used at several indexes gets a track for each. */
+export const timelineTracks = (items: TimelineItem[]): TimelineTrack[] =>
+    TRACK_LAYOUT.flatMap(layout => {
+        const ofType = items.filter(item => item.track_type === layout.track_type);
+        return [...new Set(ofType.map(item => item.track_index))].sort((a, b) => a - b).map(index => ({
+            ...layout,
+            name: trackName({ track_type: layout.track_type, track_index: index }),
+            track_index: index,
+            items: ofType.filter(item => item.track_index === index).sort((a, b) => a.start_time - b.start_time),
+        }));
+    });
+
+export interface TimelineMarker {
+    start: number; // Seconds
+    name: string;
+    note?: string;
+}
+
+/** A marker where the first item covering each script beat starts, named after the beat. */
+export const beatMarkers = (items: TimelineItem[], script: Pick<DocumentaryScript, 'parts'> | null): TimelineMarker[] => {
+    if (!script) return [];
+    const firsts = new Map<string, number>();
+    items.forEach(item => {
+        if (item.beat_id && item.start_time < (firsts.get(item.beat_id) ?? Infinity)) firsts.set(item.beat_id, item.start_time);
+    });
+    return script.parts.flatMap(part => part.scenes.flatMap(scene => scene.beats
+        .filter(beat => firsts.has(beat.id))
+        .map(beat => ({
+            start: firsts.get(beat.id)!,
+            name: `${scene.title}: ${beat.type === 'expert' ? beat.topic || 'Expert' : beat.type.replace('_', ' ')}`,
+            note: beatExcerpt(beat, 200),
+        }))));
+};
@@ -0,0 +1,261 @@
+import type { TimelineItem } from '../types';
+import { FRAME_RATES, TimecodeFormat, framesToTimecode, secondsToFrames, timecodeToFrames } from './timecode';
+import { TimelineMarker, TimelineMedia, TimelineTrack, mediaSourceOf, timelineTracks, trackKey } from './timelineMedia';
+
+// ========== FCPXML and Premiere XML ==========
+// The timeline for Final Cut Pro and Resolve (FCPXML 1.10) and for Premiere (XMEML 4, the
+// Final Cut 7 interchange format Premiere reads). Both keep every track: video, expert and
+// graphics stacked as video, then voice-over, music and SFX as audio. Media without an
+// uploaded file is referenced by its clip name, for the editor to relink. Script beats
+// become markers, and muted tracks are written disabled. Times are whole frames at the
+// chosen rate, starting at 01:00:00:00.
+
+export interface TimelineXmlOptions extends TimecodeFormat {
+    title: string;
+    markers?: TimelineMarker[];
+    muted?: string[]; // Track keys whose clips are written disabled
+    width?: number; // 1920 x 1080 by default
+    height?: number;
+}
+
+const escapeXml = (text: string) =>
+    text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&apos;');
+
+// A relative reference for media with no file yet, named so the editor can relink it
+const mediaUrl = (url: string | undefined, name: string) => url || `./${encodeURIComponent(name)}`;
+
+/** An item's frames: where it sits in the sequence, and which part of its source it plays. */
+interface PlacedItem {
+    item: TimelineItem;
+    name: string;
+    url: string;
+    sourceKey: string;
+    start: number;
+    end: number;
+    in: number;
+    out: number;
+}
+
+const placeItems = (track: TimelineTrack, media: TimelineMedia, format: TimecodeFormat): PlacedItem[] =>
+    track.items
+        .map(item => {
+            const source = mediaSourceOf(item, media);
+            const start = secondsToFrames(item.start_time, format);
+            const end = secondsToFrames(item.start_time + item.duration, format);
+            const sourceIn = secondsToFrames(source.in_point, format);
+            return {
+                item,
+                name: source.name,
+                url: mediaUrl(source.url, source.name),
+                sourceKey: item.source_id ? `${item.source_type}:${item.source_id}` : `${item.source_type}:${source.name}`,
+                start,
+                end,
+                in: sourceIn,
+                out: sourceIn + (end - start),
+            };
+        })
+        .filter(placed => placed.end > placed.start);
+
+const sequenceLength = (tracks: PlacedItem[][]) => Math.max(1, ...tracks.flat().map(p => p.end));
+
+const hourFrames = (format: TimecodeFormat) => timecodeToFrames('01:00:00:00', format);
+
+// ---------- FCPXML 1.10 ----------
+
+// Final Cut's names for its standard 1080p formats
+const FCP_FORMAT_NAMES: Record<TimecodeFormat['rate'], string> = {
+    '23.976': 'FFVideoFormat1080p2398',
+    '24': 'FFVideoFormat1080p24',
+    '25': 'FFVideoFormat1080p25',
+    '29.97': 'FFVideoFormat1080p2997',
+};
+
+// The length of a frame as FCPXML's rational seconds, and a frame count in the same terms
+const frameDuration = (format: TimecodeFormat) =>
+    (format.rate === '23.976' ? [1001, 24000] : format.rate === '29.97' ? [1001, 30000] : [1, Number(format.rate)]);
+const fcpTime = (frames: number, format: TimecodeFormat) => {
+    if (frames === 0) return '0s';
+    const [num, den] = frameDuration(format);
+    return `${frames * num}/${den}s`;
+};
+
+// Final Cut's audio roles for the audio tracks
+const AUDIO_ROLES: Partial<Record<TimelineItem['track_type'], string>> = { audio: 'dialogue', music: 'music', sfx: 'effects' };
+
+// Lanes above the primary storyline for video, below it for audio
+const laneNumbers = (tracks: TimelineTrack[]) => {
+    let video = 0;
+    let audio = 0;
+    return tracks.map(track => (track.kind === 'video' ? ++video : -++audio));
+};
+
+/** The timeline as an FCPXML 1.10 document: connected clips on lanes over one gap. */
+export const buildFcpxml = (items: TimelineItem[], media: TimelineMedia, options: TimelineXmlOptions) => {
+    const format: TimecodeFormat = { rate: options.rate, dropFrame: options.dropFrame && options.rate === '29.97' };
+    const t = (frames: number) => fcpTime(frames, format);
+    const tracks = timelineTracks(items);
+    const placed = tracks.map(track => placeItems(track, media, format));
+    const lanes = laneNumbers(tracks);
+    const length = sequenceLength(placed);
+    const disabled = tracks.map(track => (options.muted?.includes(trackKey(track)) ? ' enabled="0"' : ''));
+
+    // One asset per source, long enough for every use of it
+    const assets = new Map<string, { id: string; name: string; url: string; end: number; video: boolean; audio: boolean }>();
+    placed.forEach((track, i) => track.filter(p => p.item.source_type !== 'title').forEach(p => {
+        const asset = assets.get(p.sourceKey) || { id: `r${assets.size + 3}`, name: p.name, url: p.url, end: 0, video: false, audio: false };
+        asset.end = Math.max(asset.end, p.out);
+        asset.video = asset.video || tracks[i].kind === 'video';
+        asset.audio = asset.audio || tracks[i].kind === 'audio' || p.item.source_type === 'expert_interview';
+        assets.set(p.sourceKey, asset);
+    }));
+
+    const lines = [
+        '<?xml version="1.0" encoding="UTF-8"?>',
+        '<!DOCTYPE fcpxml>',
+        '<fcpxml version="1.10">',
+        '  <resources>',
+        `    <format id="r1" name="${FCP_FORMAT_NAMES[format.rate]}" frameDuration="${t(1)}" width="${options.width || 1920}" height="${options.height || 1080}"/>`,
+        '    <effect id="r2" name="Basic Title" uid=".../Titles.localized/Bumper:Opener.localized/Basic Title.localized/Basic Title.moti"/>',
+    ];
+    assets.forEach(asset => {
+        lines.push(`    <asset id="${asset.id}" name="${escapeXml(asset.name)}" start="0s" duration="${t(asset.end)}" hasVideo="${asset.video ? 1 : 0}" hasAudio="${asset.audio ? 1 : 0}"${asset.video ? ' format="r1"' : ''}${asset.audio ? ' audioSources="1" audioChannels="2"' : ''}>`);
+        lines.push(`      <media-rep kind="original-media" src="${escapeXml(asset.url)}"/>`);
+        lines.push('    </asset>');
+    });
+    lines.push(
+        '  </resources>',
+        '  <library>',
+        `    <event name="${escapeXml(options.title)}">`,
+        `      <project name="${escapeXml(options.title)}">`,
+        `        <sequence format="r1" duration="${t(length)}" tcStart="${t(hourFrames(format))}" tcFormat="${format.dropFrame ? 'DF' : 'NDF'}" audioLayout="stereo" audioRate="48k">`,
+        '          <spine>',
+        `            <gap name="Gap" offset="0s" start="0s" duration="${t(length)}">`,
+    );
+    let titles = 0;
+    placed.forEach((track, i) => track.forEach(p => {
+        const timing = `lane="${lanes[i]}" offset="${t(p.start)}" duration="${t(p.end - p.start)}"${disabled[i]}`;
+        if (p.item.source_type === 'title') {
+            const style = `ts${++titles}`;
+            lines.push(`              <title ref="r2" name="${escapeXml(p.name)}" ${timing} start="0s">`);
+            lines.push(`                <text><text-style ref="${style}">${escapeXml(p.item.label || p.name)}</text-style></text>`);
+            lines.push(`                <text-style-def id="${style}"><text-style font="Helvetica" fontSize="63" fontColor="1 1 1 1" alignment="center"/></text-style-def>`);
+            lines.push('              </title>');
+            return;
+        }
+        const asset = assets.get(p.sourceKey)!;
+        lines.push(`              <asset-clip ref="${asset.id}" name="${escapeXml(p.name)}" ${timing} start="${t(p.in)}"${AUDIO_ROLES[p.item.track_type] ? ` audioRole="${AUDIO_ROLES[p.item.track_type]}"` : ''}/>`);
+    }));
+    (options.markers || []).forEach(marker => {
+        const note = marker.note ? ` note="${escapeXml(marker.note)}"` : '';
+        lines.push(`              <marker start="${t(secondsToFrames(marker.start, format))}" duration="${t(1)}" value="${escapeXml(marker.name)}"${note}/>`);
+    });
+    lines.push(
+        '            </gap>',
+        '          </spine>',
+        '        </sequence>',
+        '      </project>',
+        '    </event>',
+        '  </library>',
+        '</fcpxml>',
+        '',
+    );
+    return lines.join('\n');
+};
+
+// ---------- Premiere XML (XMEML 4) ----------
+
+const xmemlRate = (format: TimecodeFormat) => {
+    const ntsc = format.rate === '23.976' || format.rate === '29.97';
+    return `<rate><timebase>${FRAME_RATES[format.rate].nominal}</timebase><ntsc>${ntsc ? 'TRUE' : 'FALSE'}</ntsc></rate>`;
+};
+
+/** The timeline as Premiere XML: a sequence with every track, files defined once and referenced after. */
+export const buildXmeml = (items: TimelineItem[], media: TimelineMedia, options: TimelineXmlOptions) => {
+    const format: TimecodeFormat = { rate: options.rate, dropFrame: options.dropFrame && options.rate === '29.97' };
+    const rate = xmemlRate(format);
+    const tracks = timelineTracks(items);
+    const placed = tracks.map(track => placeItems(track, media, format));
+    const length = sequenceLength(placed);
+    const files = new Map<string, string>(); // source -> file id
+    let clipCount = 0;
+
+    const clipItem = (p: PlacedItem, kind: TimelineTrack['kind'], enabled: boolean, indent: string) => {
+        const id = `clipitem-${++clipCount}`;
+        const enabledXml = `${indent}  <enabled>${enabled ? 'TRUE' : 'FALSE'}</enabled>`;
+        if (p.item.source_type === 'title') {
+            return [
+                `${indent}<generatoritem id="${id}">`,
+                `${indent}  <name>${escapeXml(p.name)}</name>`,
+                enabledXml,
+                `${indent}  <duration>${p.end - p.start}</duration>`,
+                `${indent}  ${rate}`,
+                `${indent}  <start>${p.start}</start><end>${p.end}</end><in>0</in><out>${p.end - p.start}</out>`,
+                `${indent}  <effect><name>Text</name><effectid>Text</effectid><effectcategory>Text</effectcategory><effecttype>generator</effecttype><mediatype>video</mediatype>`,
+                `${indent}    <parameter><parameterid>str</parameterid><name>Text</name><value>${escapeXml(p.item.label || p.name)}</value></parameter>`,
+                `${indent}  </effect>`,
+                `${indent}</generatoritem>`,
+            ];
+        }
+        const known = files.get(p.sourceKey);
+        const fileId = known || `file-${files.size + 1}`;
+        files.set(p.sourceKey, fileId);
+        const hasVideo = kind === 'video';
+        const hasAudio = kind === 'audio' || p.item.source_type === 'expert_interview';
+        const file = known
+            ? [`${indent}  <file id="${fileId}"/>`]
+            : [
+                `${indent}  <file id="${fileId}">`,
+                `${indent}    <name>${escapeXml(p.name)}</name>`,
+                `${indent}    <pathurl>${escapeXml(p.url)}</pathurl>`,
+                `${indent}    ${rate}`,
+                `${indent}    <media>${hasVideo ? '<video/>' : ''}${hasAudio ? '<audio><channelcount>2</channelcount></audio>' : ''}</media>`,
+                `${indent}  </file>`,
+            ];
+        return [
+            `${indent}<clipitem id="${id}">`,
+            `${indent}  <name>${escapeXml(p.name)}</name>`,
+            enabledXml,
+            `${indent}  <duration>${p.out}</duration>`,
+            `${indent}  ${rate}`,
+            `${indent}  <start>${p.start}</start><end>${p.end}</end><in>${p.in}</in><out>${p.out}</out>`,
+            ...file,
+            `${indent}</clipitem>`,
+        ];
+    };
+
+    const trackXml = (kind: TimelineTrack['kind']) => tracks.flatMap((track, i) => {
+        if (track.kind !== kind) return [];
+        const enabled = !options.muted?.includes(trackKey(track));
+        return [
+            '        <track>',
+            ...placed[i].flatMap(p => clipItem(p, kind, enabled, '          ')),
+            `          <enabled>${enabled ? 'TRUE' : 'FALSE'}</enabled>`,
+            '        </track>',
+        ];
+    });
+
+    return [
+        '<?xml version="1.0" encoding="UTF-8"?>',
+        '<!DOCTYPE xmeml>',
+        '<xmeml version="4">',
+        '  <sequence id="sequence-1">',
+        `    <name>${escapeXml(options.title)}</name>`,
+        `    <duration>${length}</duration>`,
+        `    ${rate}`,
+        `    <timecode>${rate}<string>${framesToTimecode(hourFrames(format), format)}</string><frame>${hourFrames(format)}</frame><displayformat>${format.dropFrame ? 'DF' : 'NDF'}</displayformat></timecode>`,
+        '    <media>',
+        '      <video>',
+        `        <format><samplecharacteristics>${rate}<width>${options.width || 1920}</width><height>${options.height || 1080}</height><pixelaspectratio>square</pixelaspectratio></samplecharacteristics></format>`,
+        ...trackXml('video'),
+        '      </video>',
+        '      <audio>',
+        ...trackXml('audio'),
+        '      </audio>',
+        '    </media>',
+        ...(options.markers || []).map(marker =>
+            `    <marker><name>${escapeXml(marker.name)}</name><comment>${escapeXml(marker.note || '')}</comment><in>${secondsToFrames(marker.start, format)}</in><out>-1</out></marker>`),
+        '  </sequence>',
+        '</xmeml>',
+        '',
+    ].join('\n');
+};
@@ -0,0 +1,304 @@
+import { createHmac, createPublicKey, createSecretKey, KeyObject, randomBytes, timingSafeEqual, verify } from 'crypto';
+import type { NextFunction, Request, Response } from 'express';
+import type { AuthIssuerKind, AuthUser, DocumentaryProject, UserRole } from '../types';
+import { ROLES, directProjectRole } from '../lib/permissions';
+
+// ========== Authentication ==========
+// Every /api route except the public ones below needs a bearer ID token. Tokens come from
+// Firebase Auth, Supabase Auth, or the local test issuer (development and mock mode only);
+// the verified user and their UserRole are attached to the request as req.user.
+
+declare global {
+    namespace Express {
+        interface Request {
+            user?: AuthUser;
+            // Set on routes with a :projectId once access is checked
+            project?: DocumentaryProject;
+            projectRole?: UserRole;
+        }
+    }
+}
+
+export class AuthError extends Error {
+    constructor(message: string, public status = 401) {
+        super(message);
+    }
+}
+
+// Matches the team_members.role default
+const DEFAULT_ROLE: UserRole = 'researcher';
+
+const toRole = (value: unknown): UserRole =>
+    ROLES.includes(value as UserRole) ? value as UserRole : DEFAULT_ROLE;
+
+// ---------- JWT Verification ----------
+
+interface JwtHeader {
+    alg?: string;
+    kid?: string;
+}
+
+export interface JwtClaims {
+    iss?: string;
+    aud?: string | string[];
+    sub?: string;
+    exp?: number;
+    iat?: number;
+    [claim: string]: unknown;
+}
+
+// Allowed difference between our clock and the issuer's
+const CLOCK_SKEW_SECONDS = 60;
+
+const decodePart = <T>(part: string): T => {
+    try {
+        return JSON.parse(Buffer.from(part, 'base64url').toString('utf8'));
+    } catch {
+        throw new AuthError('Malformed token');
+    }
+};
+
+const checkSignature = (alg: string | undefined, key: KeyObject, signed: string, signature: Buffer) => {
+    switch (alg) {
+        case 'HS256': {
+            const expected = createHmac('sha256', key).update(signed).digest();
+            return expected.length === signature.length && timingSafeEqual(expected, signature);
+        }
+        case 'RS256':
+            return verify('RSA-SHA256', Buffer.from(signed), key, signature);
+        case 'ES256':
+            return verify('sha256', Buffer.from(signed), { key, dsaEncoding: 'ieee-p1363' }, signature);
+        default:
+            return false;
+    }
+};
+
+const encodePart = (value: object) => Buffer.from(JSON.stringify(value)).toString('base64url');
+
+const signHs256 = (claims: JwtClaims, secret: KeyObject) => {
+    const signed = `${encodePart({ alg: 'HS256', typ: 'JWT' })}.${encodePart(claims)}`;
+    return `${signed}.${createHmac('sha256', secret).update(signed).digest('base64url')}`;
+};
+
+// ---------- Issuers ----------
+
+/** A trusted token issuer: where its signing keys come from and how its claims map to a user. */
+export interface TokenIssuer {
+    kind: AuthIssuerKind;
+    iss: string;
+    audience: string;
+    // Accepted signing algorithms, so a token can't pick how it is checked
+    algorithms: string[];
+    key(header: JwtHeader): Promise<KeyObject>;
+    toUser(claims: JwtClaims): AuthUser;
+}
+
+const JWKS_CACHE_MS = 60 * 60 * 1000;
+
+/** Public keys from a JWKS endpoint, cached for an hour and refreshed when an unknown key id shows up. */
+const createJwksKeys = (url: string) => {
+    let keys = new Map<string, KeyObject>();
+    let fetchedAt = 0;
+
+    const refresh = async () => {
+        const response = await fetch(url, { signal: AbortSignal.timeout(10000) });
+        if (!response.ok) throw new AuthError(`Could not load signing keys (${response.status})`, 503);
+        const body: any = await response.json();
+        keys = new Map((body.keys || []).map((jwk: any) => [jwk.kid, createPublicKey({ key: jwk, format: 'jwk' })]));
+        fetchedAt = Date.now();
+    };
+
+    return async ({ kid }: JwtHeader) => {
+        if (!kid) throw new AuthError('Token has no key id');
+        if (!keys.has(kid) || Date.now() - fetchedAt > JWKS_CACHE_MS) await refresh();
+        const key = keys.get(kid);
+        if (!key) throw new AuthError('Token signed with an unknown key');
+        return key;
+    };
+};
+
+const FIREBASE_JWKS_URL = 'https://www.googleapis.com/service_accounts/v1/jwk/securetoken@system.gserviceaccount.com';
+
+/** Firebase ID tokens. The role is the `role` custom claim set with the Admin SDK. */
+export const createFirebaseIssuer = (projectId: string): TokenIssuer => ({
+    kind: 'firebase',
+    iss: `https://securetoken.google.com/${projectId}`,
+    audience: projectId,
+    algorithms: ['RS256'],
+    key: createJwksKeys(process.env.FIREBASE_JWKS_URL || FIREBASE_JWKS_URL),
+    toUser: claims => ({
+        id: claims.sub!,
+        email: claims.email as string | undefined,
+        name: (claims.name as string | undefined) || (claims.email as string | undefined),
+        avatar: claims.picture as string | undefined,
+        role: toRole(claims.role),
+        issuer: 'firebase',
+    }),
+});
+
+/**
+ * Supabase access tokens, verified with the project's JWT secret (HS256) or, without one,
+ * its published signing keys. The role comes from app_metadata, which users can't edit.
+ */
+export const createSupabaseIssuer = (supabaseUrl: string, jwtSecret?: string): TokenIssuer => {
+    const base = supabaseUrl.replace(/\/$/, '');
+    const secret = jwtSecret ? createSecretKey(Buffer.from(jwtSecret)) : null;
+    const jwks = createJwksKeys(`${base}/auth/v1/.well-known/jwks.json`);
+
+    return {
+        kind: 'supabase',
+        iss: `${base}/auth/v1`,
+        audience: 'authenticated',
+        algorithms: secret ? ['HS256', 'RS256', 'ES256'] : ['RS256', 'ES256'],
+        key: header => (header.alg === 'HS256' && secret ? Promise.resolve(secret) : jwks(header)),
+        toUser: claims => {
+            const meta = (claims.user_metadata || {}) as Record<string, string | undefined>;
+            const app = (claims.app_metadata || {}) as Record<string, unknown>;
+            return {
+                id: claims.sub!,
+                email: claims.email as string | undefined,
+                name: meta.full_name || meta.name || (claims.email as string | undefined),
+                avatar: meta.avatar_url || meta.picture,
+                role: toRole(app.role),
+                issuer: 'supabase',
+            };
+        },
+    };
+};
+
+const LOCAL_ISSUER = 'aim-studio-local';
+const LOCAL_AUDIENCE = 'aim-studio';
+const LOCAL_TOKEN_TTL_SECONDS = 12 * 60 * 60;
+
+/**
+ * Signs tokens for whoever asks, with any role: for local development, mock mode and tests.
+ * Without AUTH_LOCAL_SECRET the key is random, so tokens don't survive a server restart.
+ */
+export const createLocalIssuer = (secret = randomBytes(32).toString('hex')) => {
+    const key = createSecretKey(Buffer.from(secret));
+
+    const issuer: TokenIssuer = {
+        kind: 'local',
+        iss: LOCAL_ISSUER,
+        audience: LOCAL_AUDIENCE,
+        algorithms: ['HS256'],
+        key: async () => key,
+        toUser: claims => ({
+            id: claims.sub!,
+            name: claims.name as string | undefined,
+            avatar: claims.picture as string | undefined,
+            role: toRole(claims.role),
+            issuer: 'local',
+        }),
+    };
+
+    return {
+        issuer,
+
+        sign(user: { id: string; name?: string; avatar?: string; role?: UserRole }) {
+            const now = Math.floor(Date.now() / 1000);
+            return signHs256({
+                iss: LOCAL_ISSUER,
+                aud: LOCAL_AUDIENCE,
+                sub: user.id,
+                name: user.name,
+                picture: user.avatar,
+                role: toRole(user.role),
+                iat: now,
+                exp: now + LOCAL_TOKEN_TTL_SECONDS,
+            }, key);
+        },
+    };
+};
+
+export type LocalIssuer = ReturnType<typeof createLocalIssuer>;
+
+// ---------- Authenticator ----------
+
+export const createAuthenticator = (issuers: TokenIssuer[], local: LocalIssuer | null = null) => ({
+    issuers: issuers.map(i => i.kind),
+    local,
+
+    async verify(token: string): Promise<AuthUser> {
+        const [headerPart, claimsPart, signaturePart] = token.split('.');
+        if (!headerPart || !claimsPart || !signaturePart) throw new AuthError('Malformed token');
+
+        const header = decodePart<JwtHeader>(headerPart);
+        const claims = decodePart<JwtClaims>(claimsPart);
+        const issuer = issuers.find(i => i.iss === claims.iss);
+        if (!issuer) throw new AuthError('Token issuer is not trusted');
+        if (!header.alg || !issuer.algorithms.includes(header.alg)) throw new AuthError('Token algorithm is not accepted');
+
+        const key = await issuer.key(header);
+        if (!checkSignature(header.alg, key, `${headerPart}.${claimsPart}`, Buffer.from(signaturePart, 'base64url'))) {
+            throw new AuthError('Invalid token signature');
+        }
+
+        const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+        if (!audiences.includes(issuer.audience)) throw new AuthError('Token audience is not accepted');
+        const now = Math.floor(Date.now() / 1000);
+        if (typeof claims.exp !== 'number' || claims.exp + CLOCK_SKEW_SECONDS < now) throw new AuthError('Token expired');
+        if (typeof claims.iat === 'number' && claims.iat - CLOCK_SKEW_SECONDS > now) throw new AuthError('Token issued in the future');
+        if (!claims.sub) throw new AuthError('Token has no subject');
+
+        return issuer.toUser(claims);
+    },
+});
+
+export type Authenticator = ReturnType<typeof createAuthenticator>;
+
+/**
+ * Issuers from the environment: Firebase when FIREBASE_PROJECT_ID is set, Supabase when
+ * SUPABASE_URL is set, and the local issuer when AUTH_LOCAL_ISSUER=true. The local issuer
+ * defaults to on outside production when neither of the others is configured.
+ */
+export const authenticatorFromEnv = (isProduction: boolean) => {
+    const issuers: TokenIssuer[] = [];
+    const firebaseProject = process.env.FIREBASE_PROJECT_ID || process.env.VITE_FIREBASE_PROJECT_ID;
+    if (firebaseProject) issuers.push(createFirebaseIssuer(firebaseProject));
+    if (process.env.SUPABASE_URL) issuers.push(createSupabaseIssuer(process.env.SUPABASE_URL, process.env.SUPABASE_JWT_SECRET));
+
+    const localSetting = process.env.AUTH_LOCAL_ISSUER;
+    const useLocal = localSetting ? localSetting === 'true' : !isProduction && issuers.length === 0;
+    const local = useLocal ? createLocalIssuer(process.env.AUTH_LOCAL_SECRET) : null;
+    if (local) issuers.push(local.issuer);
+
+    return createAuthenticator(issuers, local);
+};
+
+/** Express middleware: 401 unless the request carries a valid bearer token; sets req.user. */
+export const requireUser = (authenticator: Authenticator, publicPaths: string[] = []) =>
+    async (req: Request, res: Response, next: NextFunction) => {
+        if (publicPaths.includes(req.path)) return next();
+        const match = /^Bearer\s+(.+)$/i.exec(req.headers.authorization || '');
+        if (!match) return res.status(401).json({ error: 'Sign in required' });
+        try {
+            req.user = await authenticator.verify(match[1]);
+            next();
+        } catch (error: any) {
+            res.status(error instanceof AuthError ? error.status : 401).json({ error: error.message });
+        }
+    };
+
+// ---------- Project Access ----------
+
+export interface TeamMembership {
+    team_id: string;
+    role: UserRole;
+}
+
+/**
+ * The user's role on a project, or null without access. Owners keep their own role; members
+ * and team members get the role they were added with. A project without an owner (one created
+ * before sign-in existed) is hidden from everyone until it is given one.
+ */
+export const projectRole = (project: DocumentaryProject, user: AuthUser, teams: TeamMembership[] = []): UserRole | null => {
+    if (!project.user_id) return null;
+    const direct = directProjectRole(project, user);
+    if (direct) return direct;
+    const team = project.team_id ? teams.find(t => t.team_id === project.team_id) : undefined;
+    return team ? team.role : null;
+};
+
+export const isProjectOwner = (project: DocumentaryProject, user: AuthUser) =>
+    Boolean(project.user_id) && project.user_id === user.id;
@@ -0,0 +1,64 @@
+import type { CitedFact, SourceCitation } from '../types';
+import type { SearchResult } from './vectorIndex';
+
+// ========== Citations ==========
+// Turns the model's passage references ("P3") and quotes into citations that point at an
+// exact character range of the stored source, so a reviewer can jump straight to the span.
+
+const CITATION_EXCERPT_CHARS = 400;
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Finds a quote inside a passage: verbatim first, then ignoring case, whitespace and
+ * typographic quote differences. Returns offsets relative to the passage text.
+ */
+export const locateQuote = (passage: string, quote: string): { start: number; end: number } | null => {
+    const trimmed = quote.trim().replace(/^["“'‘]+|["”'’.…]+$/g, '');
+    if (!trimmed) return null;
+
+    const exact = passage.indexOf(trimmed);
+    if (exact !== -1) return { start: exact, end: exact + trimmed.length };
+
+    const pattern = trimmed
+        .split(/\s+/)
+        .map(word => escapeRegExp(word).replace(/["“”]/g, '["“”]').replace(/['‘’]/g, "['‘’]"))
+        .join('\\s+');
+    const match = new RegExp(pattern, 'i').exec(passage);
+    return match ? { start: match.index, end: match.index + match[0].length } : null;
+};
+
+/** Resolves a "P3"-style reference against the retrieved passages (1-based). */
+export const findPassage = (passages: SearchResult[], ref: unknown) =>
+    passages[Number(String(ref ?? '').replace(/\D/g, '')) - 1];
+
+export const citePassage = (passage: SearchResult, relevantInfo: string, quote?: string): SourceCitation => {
+    const span = quote ? locateQuote(passage.text, quote) : null;
+    return {
+        source_id: passage.document_id,
+        source_title: passage.title,
+        passage_id: passage.id,
+        page_number: passage.page_number,
+        // Without a verifiable quote the whole passage is the cited range
+        char_start: passage.start + (span?.start ?? 0),
+        char_end: span ? passage.start + span.end : passage.end,
+        quote: span ? passage.text.slice(span.start, span.end) : quote,
+        quote_verified: quote ? Boolean(span) : undefined,
+        excerpt: passage.text.slice(0, CITATION_EXCERPT_CHARS),
+        relevant_info: relevantInfo,
+        score: passage.score,
+    };
+};
+
+/**
+ * Key facts come back as { fact, passage, quote } when passages were retrieved and as
+ * plain strings otherwise; both become CitedFacts (the latter without citations).
+ */
+export const citeFacts = (facts: unknown[], passages: SearchResult[]): CitedFact[] =>
+    facts.flatMap((item: any) => {
+        if (typeof item === 'string') return [{ text: item, citations: [] }];
+        const text = String(item?.fact || '').trim();
+        if (!text) return [];
+        const passage = findPassage(passages, item.passage);
+        return [{ text, citations: passage ? [citePassage(passage, text, item.quote)] : [] }];
+    });
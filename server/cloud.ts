@@ -0,0 +1,57 @@
+import type { GCSBucket, VertexModelStatus } from '../types';
+
+// ========== Cloud Resources ==========
+// Storage buckets and Vertex model deployments shown on the Cloud Services page.
+// Only the mock implementation exists so far; without it the routes answer 501.
+
+export interface CloudResources {
+    listBuckets(): Promise<GCSBucket[]>;
+    listModels(): Promise<VertexModelStatus[]>;
+    deployModelVersion(modelId: string, currentVersion: string): Promise<string>;
+    purgeCache(): Promise<boolean>;
+}
+
+const MOCK_BUCKETS: GCSBucket[] = [
+    { name: 'aim-archive-master', region: 'us-central1', storageClass: 'Standard', fileCount: 450, sizeGb: 1200 },
+    { name: 'aim-dailies-raw', region: 'europe-west1', storageClass: 'Nearline', fileCount: 120, sizeGb: 450 },
+    { name: 'aim-ai-outputs', region: 'us-central1', storageClass: 'Standard', fileCount: 30, sizeGb: 5 },
+];
+
+const MOCK_MODELS: VertexModelStatus[] = [
+    { id: 'v-1', name: 'Gemini 2.0 Pro', version: 'v2.0', status: 'active', latencyMs: 140, callsPerMin: 12 },
+    { id: 'v-2', name: 'Gemini 2.0 Flash', version: 'v2.0', status: 'active', latencyMs: 80, callsPerMin: 30 },
+    { id: 'v-3', name: 'Vertex AI Enterprise', version: 'v1.0', status: 'active', latencyMs: 200, callsPerMin: 10 },
+    { id: 'v-4', name: 'AiM Compliance Bot', version: 'v1.2', status: 'active', latencyMs: 95, callsPerMin: 8 },
+];
+
+/** "v2.0" -> "v2.1" */
+export const nextMinorVersion = (version: string) => {
+    const [major = '1', minor = '0'] = version.replace(/^v/, '').split('.');
+    return `v${major}.${(parseInt(minor, 10) || 0) + 1}`;
+};
+
+export const createMockCloud = (): CloudResources => {
+    // Deployments bump the version for the rest of the server's life
+    const models = MOCK_MODELS.map(m => ({ ...m }));
+
+    return {
+        async listBuckets() {
+            return MOCK_BUCKETS.map(b => ({ ...b }));
+        },
+
+        async listModels() {
+            return models.map(m => ({ ...m }));
+        },
+
+        async deployModelVersion(modelId, currentVersion) {
+            const model = models.find(m => m.id === modelId);
+            const version = nextMinorVersion(model?.version || currentVersion);
+            if (model) model.version = version;
+            return version;
+        },
+
+        async purgeCache() {
+            return true;
+        },
+    };
+};
@@ -0,0 +1,56 @@
+import { after, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import * as Y from 'yjs';
+import type { AuthUser, DocumentaryScript } from '../types';
+import { beatTexts, decodeUpdate, encodeUpdate, setBeatText } from '../lib/collab';
+import { CollabError, createCollabHub } from './collab';
+import { createFileStore } from './store';
+
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'collab-test-'));
+after(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+const store = createFileStore(path.join(dir, 'store.json'));
+const writer: AuthUser = { id: 'w1', role: 'editor', name: 'Writer', issuer: 'local' };
+
+const SCRIPT: DocumentaryScript = {
+    id: 's1', project_id: 'p1', version: 1, is_current: true, status: 'draft', estimated_duration_minutes: 5,
+    parts: [{
+        id: 'part1', part_number: 1, title: 'Part', scenes: [
+            { id: 'open', scene_number: 1, title: 'Open', beats: [{ id: 'b1', type: 'voice_over', content: 'First beat', duration_seconds: 5 }] },
+            { id: 'held', scene_number: 2, title: 'Held', beats: [{ id: 'b2', type: 'voice_over', content: 'Second beat', duration_seconds: 5 }] },
+        ],
+    }],
+};
+
+// A browser's copy of the document, editing one beat
+const editBeat = (state: string, beatId: string, text: string) => {
+    const doc = new Y.Doc();
+    Y.applyUpdate(doc, decodeUpdate(state));
+    const before = Y.encodeStateVector(doc);
+    setBeatText(beatTexts(doc).get(beatId)!, text);
+    return encodeUpdate(Y.encodeStateAsUpdate(doc, before));
+};
+
+describe('collab updates', () => {
+    test('refuse a change to a beat in a scene someone else has locked', async () => {
+        await store.upsert('scripts', SCRIPT);
+        const hub = createCollabHub(store, { persistDelayMs: 60000 });
+        let state = '';
+        const stop = await hub.subscribe('p1', 's1', writer, event => { if (event.type === 'sync') state = event.state; });
+        const locked = new Set(['held']);
+
+        await assert.rejects(
+            hub.applyUpdate('p1', 's1', writer, editBeat(state, 'b2', 'Rewritten'), 'c1', locked),
+            (error: unknown) => error instanceof CollabError && error.status === 423);
+        await hub.applyUpdate('p1', 's1', writer, editBeat(state, 'b1', 'First beat, edited'), 'c1', locked);
+
+        const [live] = await hub.withLiveText('p1', [SCRIPT]);
+        assert.deepEqual(live.parts[0].scenes.map(scene => scene.beats[0].content), ['First beat, edited', 'Second beat']);
+        stop();
+        // The last subscriber leaving writes the text back; let it finish before the store goes
+        await hub.serialize('p1', async () => undefined);
+    });
+});
@@ -0,0 +1,231 @@
+import * as Y from 'yjs';
+import type { AuthUser, CollabEvent, DocumentaryScript, ScriptCursor } from '../types';
+import { beatTexts, decodeUpdate, encodeUpdate, scriptBeats, setBeatText, withBeatText } from '../lib/collab';
+import type { DataStore, StoredRecord } from './store';
+
+// ========== Collaborative Script Editing ==========
+// Holds the Yjs document (see lib/collab.ts) of every script someone has open. Browsers post
+// their updates here; each is applied, relayed to the script's other subscribers, and written
+// back into the stored script's beat content shortly after. Only the server adds beat texts
+// to a document, so two writers never create the same beat at once. An update that changes a
+// beat in a scene someone else has locked is refused whole; the sender starts over from the
+// server's copy.
+
+export class CollabError extends Error {
+    constructor(message: string, public status = 400) {
+        super(message);
+    }
+}
+
+export interface CollabOptions {
+    persistDelayMs?: number;
+    /** Called after typing is written back, with the users whose edits it included. */
+    onPersisted?: (projectId: string, scriptId: string, editors: AuthUser[]) => void;
+}
+
+const DEFAULT_PERSIST_DELAY_MS = 1000;
+const SERVER_ORIGIN = 'server';
+
+type Listener = (event: CollabEvent) => void;
+
+interface Session {
+    doc: Y.Doc;
+    listeners: Set<Listener>;
+    cursors: Map<string, ScriptCursor>;
+    // Users whose updates haven't been written back yet
+    editors: Map<string, AuthUser>;
+    persistTimer?: NodeJS.Timeout;
+}
+
+export const createCollabHub = (store: DataStore, options: CollabOptions = {}) => {
+    const persistDelay = options.persistDelayMs ?? DEFAULT_PERSIST_DELAY_MS;
+    const sessions = new Map<string, Promise<Session>>();
+    // Script writes per project run one at a time, so persisting beat text never races a save of the structure
+    const queues = new Map<string, Promise<unknown>>();
+
+    const key = (projectId: string, scriptId: string) => `${projectId}/${scriptId}`;
+
+    const serialize = <T>(projectId: string, task: () => Promise<T>): Promise<T> => {
+        const run = (queues.get(projectId) || Promise.resolve()).then(task);
+        const settled = run.catch(() => undefined);
+        queues.set(projectId, settled);
+        settled.then(() => { if (queues.get(projectId) === settled) queues.delete(projectId); });
+        return run;
+    };
+
+    const storedScript = async (projectId: string, scriptId: string) =>
+        (await store.list<DocumentaryScript & StoredRecord>('scripts', projectId)).find(s => s.id === scriptId) || null;
+
+    // Gives new beats a text seeded with their stored content
+    const addBeats = (doc: Y.Doc, script: DocumentaryScript) => {
+        const texts = beatTexts(doc);
+        const missing = scriptBeats(script).filter(beat => !texts.has(beat.id));
+        if (missing.length === 0) return;
+        doc.transact(() => {
+            for (const beat of missing) texts.set(beat.id, new Y.Text(beat.content || ''));
+        }, SERVER_ORIGIN);
+    };
+
+    // Ids of the beats in the given scenes
+    const scenesBeats = (script: DocumentaryScript | null, scenes: Set<string>) =>
+        script ? script.parts.flatMap(part => part.scenes.filter(scene => scenes.has(scene.id)).flatMap(scene => scene.beats.map(beat => beat.id))) : [];
+
+    const emit = (session: Session, event: CollabEvent) => {
+        for (const listener of session.listeners) listener(event);
+    };
+
+    const persist = async (projectId: string, scriptId: string, session: Session) => {
+        const editors = await serialize(projectId, async () => {
+            clearTimeout(session.persistTimer);
+            session.persistTimer = undefined;
+            const edited = [...session.editors.values()];
+            session.editors.clear();
+            const script = await storedScript(projectId, scriptId);
+            if (!script) return [];
+            const next = withBeatText(session.doc, script);
+            if (JSON.stringify(next) !== JSON.stringify(script)) await store.upsert('scripts', next);
+            return edited;
+        });
+        // Outside the queue, so the callback can queue script writes of its own
+        if (editors.length > 0) options.onPersisted?.(projectId, scriptId, editors);
+    };
+
+    const open = (projectId: string, scriptId: string) => {
+        const id = key(projectId, scriptId);
+        let session = sessions.get(id);
+        if (!session) {
+            session = (async () => {
+                const doc = new Y.Doc();
+                const opened: Session = { doc, listeners: new Set(), cursors: new Map(), editors: new Map() };
+                const script = await storedScript(projectId, scriptId);
+                if (script) addBeats(doc, script);
+                doc.on('update', (update: Uint8Array, origin: unknown) => {
+                    emit(opened, { type: 'update', update: encodeUpdate(update), origin: typeof origin === 'string' ? origin : SERVER_ORIGIN });
+                    clearTimeout(opened.persistTimer);
+                    opened.persistTimer = setTimeout(() => {
+                        persist(projectId, scriptId, opened).catch(error => console.error('Collab Persist Error:', error));
+                    }, persistDelay);
+                });
+                return opened;
+            })();
+            sessions.set(id, session);
+            session.catch(() => sessions.delete(id));
+        }
+        return session;
+    };
+
+    const publishCursors = (session: Session) => emit(session, { type: 'cursors', cursors: [...session.cursors.values()] });
+
+    return {
+        serialize,
+
+        /**
+         * Streams a script's changes to `listener`, starting with the whole document. Returns the
+         * function that ends the subscription; the last one out writes the text back and closes the document.
+         */
+        async subscribe(projectId: string, scriptId: string, user: AuthUser, listener: Listener) {
+            const session = await open(projectId, scriptId);
+            listener({ type: 'sync', state: encodeUpdate(Y.encodeStateAsUpdate(session.doc)) });
+            listener({ type: 'cursors', cursors: [...session.cursors.values()] });
+            session.listeners.add(listener);
+
+            return () => {
+                session.listeners.delete(listener);
+                if (session.cursors.delete(user.id)) publishCursors(session);
+                if (session.listeners.size > 0) return;
+                persist(projectId, scriptId, session)
+                    .catch(error => console.error('Collab Persist Error:', error))
+                    .finally(() => {
+                        if (session.listeners.size > 0) return;
+                        sessions.delete(key(projectId, scriptId));
+                        session.doc.destroy();
+                    });
+            };
+        },
+
+        /**
+         * Applies a browser's update; `clientId` comes back as the origin so the sender can skip
+         * its echo. Refused with 423 when it would change a beat in one of the `lockedScenes`.
+         */
+        async applyUpdate(projectId: string, scriptId: string, user: AuthUser, update: string, clientId: string, lockedScenes = new Set<string>()) {
+            const session = await open(projectId, scriptId);
+            const decoded = decodeUpdate(update);
+            const guarded = lockedScenes.size > 0 ? scenesBeats(await storedScript(projectId, scriptId), lockedScenes) : [];
+            if (guarded.length > 0) {
+                // Tried on a copy first, so nothing reaches the document or the other writers
+                const scratch = new Y.Doc();
+                try {
+                    Y.applyUpdate(scratch, Y.encodeStateAsUpdate(session.doc));
+                    Y.applyUpdate(scratch, decoded);
+                } catch {
+                    throw new CollabError('That update could not be applied to the script');
+                }
+                // Parts held back for changes the server hasn't seen could land in a locked beat later
+                const incomplete = Boolean(scratch.store.pendingStructs || scratch.store.pendingDs);
+                const before = beatTexts(session.doc);
+                const after = beatTexts(scratch);
+                const touched = guarded.some(id => before.get(id)?.toString() !== after.get(id)?.toString());
+                scratch.destroy();
+                if (incomplete) throw new CollabError('That update depends on changes the server does not have', 409);
+                if (touched) throw new CollabError('Someone else is editing that scene, so the change to it was not applied', 423);
+            }
+            try {
+                Y.applyUpdate(session.doc, decoded, clientId || 'client');
+            } catch {
+                throw new CollabError('That update could not be applied to the script');
+            }
+            session.editors.set(user.id, user);
+        },
+
+        /** Moves the user's caret, or clears it when `cursor` is null. */
+        async setCursor(projectId: string, scriptId: string, user: AuthUser, cursor: Pick<ScriptCursor, 'beat_id' | 'index' | 'length'> | null) {
+            const session = await open(projectId, scriptId);
+            if (cursor) {
+                session.cursors.set(user.id, {
+                    user_id: user.id,
+                    username: user.name || user.email || user.id,
+                    avatar: user.avatar,
+                    beat_id: cursor.beat_id,
+                    index: Math.max(0, Number(cursor.index) || 0),
+                    length: Math.max(0, Number(cursor.length) || 0),
+                });
+            } else {
+                session.cursors.delete(user.id);
+            }
+            publishCursors(session);
+        },
+
+        /**
+         * Beat content for scripts about to be stored. Open documents are the source of beat
+         * text, so content in the records is replaced with theirs; beats new to a document
+         * join it with the content they arrive with.
+         */
+        async withLiveText<T extends StoredRecord>(projectId: string, records: T[]): Promise<T[]> {
+            return Promise.all(records.map(async record => {
+                const session = sessions.get(key(projectId, record.id));
+                if (!session) return record;
+                const { doc } = await session;
+                const script = record as unknown as DocumentaryScript;
+                addBeats(doc, script);
+                return withBeatText(doc, script) as unknown as T;
+            }));
+        },
+
+        /**
+         * Replaces the beat text of a script's open document with the script's (restores,
+         * regenerations), as minimal edits so the writers' carets stay put. No-op when nobody has it open.
+         */
+        async setText(projectId: string, script: DocumentaryScript) {
+            const session = sessions.get(key(projectId, script.id));
+            if (!session) return;
+            const { doc } = await session;
+            addBeats(doc, script);
+            const texts = beatTexts(doc);
+            doc.transact(() => {
+                for (const beat of scriptBeats(script)) setBeatText(texts.get(beat.id)!, beat.content || '');
+            }, SERVER_ORIGIN);
+        },
+    };
+};
+
+export type CollabHub = ReturnType<typeof createCollabHub>;
@@ -0,0 +1,52 @@
+import { GoogleGenAI } from '@google/genai';
+
+// ========== Embeddings ==========
+// Vertex AI text embeddings for retrieval. Documents and queries use different task types,
+// which Vertex tunes separately for asymmetric search.
+
+export type EmbeddingTask = 'RETRIEVAL_DOCUMENT' | 'RETRIEVAL_QUERY';
+
+export type Embedder = (texts: string[], task: EmbeddingTask) => Promise<number[][]>;
+
+const EMBEDDING_MODEL = process.env.EMBEDDING_MODEL || 'text-embedding-005';
+// Vertex accepts up to 250 inputs per call, but total tokens are capped too; small batches stay well inside both
+const EMBEDDING_BATCH_SIZE = 32;
+
+export const createVertexEmbedder = (project: string, location: string): Embedder => {
+    let client: GoogleGenAI | null = null;
+
+    return async (texts, task) => {
+        client ??= new GoogleGenAI({ vertexai: true, project, location });
+        const vectors: number[][] = [];
+        for (let i = 0; i < texts.length; i += EMBEDDING_BATCH_SIZE) {
+            const batch = texts.slice(i, i + EMBEDDING_BATCH_SIZE);
+            const response = await client.models.embedContent({
+                model: EMBEDDING_MODEL,
+                contents: batch,
+                config: { taskType: task, autoTruncate: true },
+            });
+            const embeddings = response.embeddings || [];
+            if (embeddings.length !== batch.length) {
+                throw new Error(`Embedding service returned ${embeddings.length} vectors for ${batch.length} inputs`);
+            }
+            vectors.push(...embeddings.map(e => e.values || []));
+        }
+        return vectors;
+    };
+};
+
+// ---------- Mock Embeddings ----------
+// Hashed bag-of-words vectors: deterministic and offline, and still rank passages that
+// share words with the query above those that don't. Used when AI_PROVIDER=mock.
+const MOCK_DIMENSIONS = 256;
+
+export const createMockEmbedder = (): Embedder => async (texts) =>
+    texts.map(text => {
+        const vector = new Array(MOCK_DIMENSIONS).fill(0);
+        for (const word of text.toLowerCase().match(/[a-z0-9]+/g) || []) {
+            let h = 0;
+            for (let i = 0; i < word.length; i++) h = (h * 31 + word.charCodeAt(i)) | 0;
+            vector[Math.abs(h) % MOCK_DIMENSIONS] += 1;
+        }
+        return vector;
+    });
@@ -0,0 +1,169 @@
+import { after, before, beforeEach, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import http from 'http';
+import { AddressInfo } from 'net';
+import { SourceFetchError, decodeEntities, fetchWebPage, fetchYouTubeSource, isPrivateAddress } from './fetchSource';
+
+// A local fixture server stands in for the web; SOURCE_FETCH_ALLOW_PRIVATE lets the
+// fetcher reach it, and YOUTUBE_BASE_URL points YouTube lookups at it.
+
+const ARTICLE = `<!doctype html><html><head><title>Fixture &amp; Article</title></head><body>
+<nav><a href="/">Home</a><a href="/about">About us and our long navigation links</a></nav>
+<div class="cookie-banner">We use cookies to improve your experience on this website.</div>
+<article>
+<h1>The Bridge</h1>
+<p>The bridge opened in 1932 after eight years of construction across the harbour.</p>
+<p>Its arch spans 503 metres and carries rail, road and foot traffic every day.</p>
+<p>${'Engineers surveyed the site for years before the first steel was laid. '.repeat(8)}</p>
+</article>
+<footer>Copyright and a great many footer links that nobody reads at all.</footer>
+</body></html>`;
+
+const PLAYER = {
+    videoDetails: { title: 'Fixture Video', author: 'Fixture Channel', shortDescription: 'A video about the bridge.' },
+    captions: { playerCaptionsTracklistRenderer: { captionTracks: [{ baseUrl: '/captions?v=abc123xyz', languageCode: 'en' }] } },
+};
+
+const CAPTIONS = {
+    events: [
+        { tStartMs: 0, segs: [{ utf8: 'Welcome to the' }, { utf8: ' harbour.' }] },
+        { tStartMs: 4000, segs: [{ utf8: 'The bridge opened in 1932.' }] },
+        { tStartMs: 65000, segs: [{ utf8: 'It took eight years to build.' }] },
+    ],
+};
+
+const server = http.createServer((req, res) => {
+    const url = new URL(req.url || '/', 'http://fixture');
+    if (url.pathname === '/article') {
+        res.writeHead(200, { 'Content-Type': 'text/html; charset=utf-8' });
+        res.end(ARTICLE);
+    } else if (url.pathname === '/moved') {
+        res.writeHead(302, { Location: '/article' });
+        res.end();
+    } else if (url.pathname === '/loop') {
+        res.writeHead(302, { Location: '/loop' });
+        res.end();
+    } else if (url.pathname === '/huge') {
+        res.writeHead(200, { 'Content-Type': 'text/html', 'Content-Length': String(11 * 1024 * 1024) });
+        res.write('<html>');
+    } else if (url.pathname === '/chunked') {
+        // No Content-Length, so only the bytes read can tell it is too large
+        res.writeHead(200, { 'Content-Type': 'text/html' });
+        const chunk = Buffer.alloc(1024 * 1024, 'a');
+        let sent = 0;
+        const more = () => {
+            while (sent < 12 && !res.destroyed) {
+                sent++;
+                if (!res.write(chunk)) return res.once('drain', more);
+            }
+            res.end();
+        };
+        more();
+    } else if (url.pathname === '/watch') {
+        res.writeHead(200, { 'Content-Type': 'text/html' });
+        res.end(`<html><script>var ytInitialPlayerResponse = ${JSON.stringify(PLAYER)};</script></html>`);
+    } else if (url.pathname === '/captions') {
+        assert.equal(url.searchParams.get('fmt'), 'json3');
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify(CAPTIONS));
+    } else {
+        res.writeHead(404);
+        res.end();
+    }
+});
+
+let base = '';
+
+before(async () => {
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    process.env.YOUTUBE_BASE_URL = base;
+});
+
+after(() => {
+    server.closeAllConnections();
+    server.close();
+});
+
+beforeEach(() => {
+    process.env.SOURCE_FETCH_ALLOW_PRIVATE = 'true';
+});
+
+const rejectsWith = (promise: Promise<unknown>, status: number, message: RegExp) =>
+    assert.rejects(promise, (error: unknown) => error instanceof SourceFetchError && error.status === status && message.test(error.message));
+
+describe('fetchWebPage', () => {
+    test('extracts the article text and title without the page chrome', async () => {
+        const page = await fetchWebPage(`${base}/article`);
+        assert.equal(page.content_type, 'article');
+        assert.equal(page.title, 'Fixture & Article');
+        assert.match(page.text, /^The Bridge\n/);
+        assert.match(page.text, /opened in 1932/);
+        assert.match(page.text, /spans 503 metres/);
+        assert.doesNotMatch(page.text, /navigation|cookies|footer links/);
+    });
+
+    test('follows redirects to the final URL', async () => {
+        const page = await fetchWebPage(`${base}/moved`);
+        assert.equal(page.url, `${base}/article`);
+        assert.match(page.text, /opened in 1932/);
+    });
+
+    test('gives up after too many redirects', async () => {
+        await rejectsWith(fetchWebPage(`${base}/loop`), 422, /Too many redirects/);
+    });
+
+    test('refuses a response over the size cap', async () => {
+        await rejectsWith(fetchWebPage(`${base}/huge`), 413, /too large/);
+    });
+
+    test('refuses a body that grows past the size cap without declaring its length', async () => {
+        await rejectsWith(fetchWebPage(`${base}/chunked`), 413, /too large/);
+    });
+
+    test('refuses private addresses unless they are allowed', async () => {
+        delete process.env.SOURCE_FETCH_ALLOW_PRIVATE;
+        await rejectsWith(fetchWebPage(`${base}/article`), 400, /internal address/);
+    });
+
+    test('refuses loopback written as IPv4-mapped IPv6', async () => {
+        delete process.env.SOURCE_FETCH_ALLOW_PRIVATE;
+        const port = new URL(base).port;
+        await rejectsWith(fetchWebPage(`http://[::ffff:127.0.0.1]:${port}/article`), 400, /internal address/);
+        await rejectsWith(fetchWebPage(`http://[::ffff:7f00:1]:${port}/article`), 400, /internal address/);
+    });
+
+    test('refuses a host name that resolves to a private address', async () => {
+        delete process.env.SOURCE_FETCH_ALLOW_PRIVATE;
+        await rejectsWith(fetchWebPage(`http://localhost:${new URL(base).port}/article`), 400, /internal address/);
+    });
+});
+
+describe('isPrivateAddress', () => {
+    test('maps IPv4 in IPv6 back to IPv4 in any notation', () => {
+        for (const address of ['127.0.0.1', '::ffff:127.0.0.1', '::ffff:7f00:1', '0:0:0:0:0:ffff:7f00:1', '::ffff:a9fe:a9fe', '169.254.169.254', '::1', '::', 'fd00::1', 'fe80::1', '10.1.2.3']) {
+            assert.equal(isPrivateAddress(address), true, address);
+        }
+        for (const address of ['93.184.216.34', '::ffff:5db8:d822', '2606:2800:220:1::1']) {
+            assert.equal(isPrivateAddress(address), false, address);
+        }
+    });
+});
+
+describe('decodeEntities', () => {
+    test('leaves entities past the last code point as written', () => {
+        assert.equal(decodeEntities('a &#x110000; b &#65; &amp;'), 'a &#x110000; b A &');
+    });
+});
+
+describe('fetchYouTubeSource', () => {
+    test('reads the metadata and a timestamped transcript', async () => {
+        const video = await fetchYouTubeSource('https://www.youtube.com/watch?v=abc123xyz');
+        assert.equal(video.content_type, 'youtube_transcript');
+        assert.equal(video.transcript_available, true);
+        assert.equal(video.title, 'Fixture Video');
+        assert.match(video.text, /^Title: Fixture Video\nChannel: Fixture Channel\n/);
+        assert.match(video.text, /\[00:00\] Welcome to the harbour\. The bridge opened in 1932\./);
+        assert.match(video.text, /\[01:05\] It took eight years to build\./);
+    });
+});
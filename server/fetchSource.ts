@@ -0,0 +1,367 @@
+import dns from 'dns';
+import http from 'http';
+import https from 'https';
+import net from 'net';
+import zlib from 'zlib';
+import { Readable } from 'stream';
+import { extractDocument } from './ingest';
+
+// ========== Source Fetching ==========
+// Retrieves the real content behind URL and YouTube research sources so analysis never
+// has to guess from the address alone.
+
+export interface FetchedSource {
+    url: string;
+    title?: string;
+    text: string;
+    content_type: 'article' | 'pdf' | 'text' | 'youtube_transcript' | 'youtube_description';
+    transcript_available?: boolean;
+}
+
+export class SourceFetchError extends Error {
+    constructor(message: string, public status = 422) {
+        super(message);
+    }
+}
+
+const FETCH_TIMEOUT_MS = 15000;
+const MAX_RESPONSE_BYTES = 10 * 1024 * 1024;
+const USER_AGENT = 'Mozilla/5.0 (compatible; FremantleResearchBot/2.0)';
+
+// ---------- Network Guard ----------
+// Sources are user-supplied URLs, so internal addresses are refused unless explicitly allowed
+// (SOURCE_FETCH_ALLOW_PRIVATE=true, e.g. for a local fixture server). Literal addresses are
+// checked before the request and host names when the socket resolves them, so a name can't
+// pass the check and then connect somewhere else.
+
+const PRIVATE_RANGES = new net.BlockList();
+for (const [network, prefix] of [['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16], ['172.16.0.0', 12], ['192.168.0.0', 16]] as const) {
+    PRIVATE_RANGES.addSubnet(network, prefix, 'ipv4');
+}
+// BlockList matches IPv4-mapped IPv6 (::ffff:7f00:1) against the IPv4 ranges itself; these
+// cover loopback and the unspecified address, IPv4-compatible and NAT64 forms, ULA and link-local
+for (const [network, prefix] of [['::', 96], ['64:ff9b::', 96], ['fc00::', 7], ['fe80::', 10]] as const) {
+    PRIVATE_RANGES.addSubnet(network, prefix, 'ipv6');
+}
+
+export const isPrivateAddress = (address: string) => {
+    const family = net.isIP(address);
+    return family !== 0 && PRIVATE_RANGES.check(address, family === 4 ? 'ipv4' : 'ipv6');
+};
+
+const allowPrivate = () => process.env.SOURCE_FETCH_ALLOW_PRIVATE === 'true';
+
+const refused = (host: string) => new SourceFetchError(`Refusing to fetch internal address: ${host}`, 400);
+
+// dns.lookup for the request's socket, failing when any address the name resolves to is internal
+const guardedLookup: net.LookupFunction = (hostname, options, callback) => {
+    dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+        if (error) return callback(error, '', 0);
+        if (addresses.some(a => isPrivateAddress(a.address))) return callback(refused(hostname), '', 0);
+        if ((options as dns.LookupOptions).all) return callback(null, addresses);
+        callback(null, addresses[0].address, addresses[0].family);
+    });
+};
+
+const assertPublicUrl = (url: URL) => {
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+        throw new SourceFetchError(`Unsupported URL scheme: ${url.protocol}`, 400);
+    }
+    const host = url.hostname.replace(/^\[|\]$/g, '');
+    if (!allowPrivate() && isPrivateAddress(host)) throw refused(url.hostname);
+};
+
+const request = (url: URL, accept: string) => new Promise<http.IncomingMessage>((resolve, reject) => {
+    const client = url.protocol === 'https:' ? https : http;
+    client.get(url, {
+        signal: AbortSignal.timeout(FETCH_TIMEOUT_MS),
+        headers: { 'User-Agent': USER_AGENT, 'Accept': accept, 'Accept-Language': 'en', 'Accept-Encoding': 'gzip, deflate, br' },
+        ...(allowPrivate() ? {} : { lookup: guardedLookup }),
+    }, resolve).on('error', reject);
+});
+
+// Follows redirects itself so every hop goes through the network guard
+const fetchChecked = async (rawUrl: string, accept: string): Promise<{ response: http.IncomingMessage; url: string }> => {
+    let url = rawUrl;
+    for (let hop = 0; hop < 5; hop++) {
+        let parsed: URL;
+        try {
+            parsed = new URL(url);
+        } catch {
+            throw new SourceFetchError(`Invalid URL: ${url}`, 400);
+        }
+        assertPublicUrl(parsed);
+
+        const response = await request(parsed, accept);
+        const status = response.statusCode || 0;
+        const location = response.headers.location;
+        if (status >= 300 && status < 400 && location) {
+            response.resume();
+            url = new URL(location, parsed).toString();
+            continue;
+        }
+        if (status < 200 || status >= 300) {
+            response.resume();
+            throw new SourceFetchError(`Fetching ${url} failed with HTTP ${status}`);
+        }
+        return { response, url };
+    }
+    throw new SourceFetchError(`Too many redirects fetching ${rawUrl}`);
+};
+
+const decoded = (response: http.IncomingMessage): Readable => {
+    const encoding = String(response.headers['content-encoding'] || '').toLowerCase();
+    if (encoding === 'gzip' || encoding === 'x-gzip') return response.pipe(zlib.createGunzip());
+    if (encoding === 'deflate') return response.pipe(zlib.createInflate());
+    if (encoding === 'br') return response.pipe(zlib.createBrotliDecompress());
+    return response;
+};
+
+// Reads the body as it arrives and stops at the cap, whatever the server said its length was
+const readBody = async (response: http.IncomingMessage): Promise<Buffer> => {
+    const declared = Number(response.headers['content-length'] || 0);
+    if (declared > MAX_RESPONSE_BYTES) {
+        response.destroy();
+        throw new SourceFetchError(`Source is too large (${Math.round(declared / 1024 / 1024)} MB)`, 413);
+    }
+    const chunks: Buffer[] = [];
+    let size = 0;
+    const body = decoded(response);
+    for await (const chunk of body) {
+        size += chunk.length;
+        if (size > MAX_RESPONSE_BYTES) {
+            response.destroy();
+            body.destroy();
+            throw new SourceFetchError('Source is too large', 413);
+        }
+        chunks.push(chunk);
+    }
+    return Buffer.concat(chunks);
+};
+
+// ---------- HTML to Readable Text ----------
+
+const ENTITIES: Record<string, string> = {
+    amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ', mdash: '—', ndash: '–',
+    hellip: '…', lsquo: '‘', rsquo: '’', ldquo: '“', rdquo: '”', copy: '©',
+};
+
+export const decodeEntities = (text: string) => text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity[0] === '#') {
+        const code = entity[1].toLowerCase() === 'x' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+        // Code points past U+10FFFF don't exist; leave those entities as written
+        return Number.isFinite(code) && code <= 0x10ffff ? String.fromCodePoint(code) : match;
+    }
+    return ENTITIES[entity.toLowerCase()] ?? match;
+});
+
+const BOILERPLATE_TAGS = ['script', 'style', 'noscript', 'template', 'svg', 'iframe', 'form', 'nav', 'header', 'footer', 'aside', 'button', 'select'];
+const BOILERPLATE_HINT = /\b(nav|menu|footer|header|sidebar|cookie|banner|subscribe|newsletter|share|social|related|comments?|advert|promo)\b/i;
+const HEADING_MARK = '\u0001';
+const BLOCK_TAGS = /<\/?(p|div|section|article|main|h[1-6]|li|ul|ol|tr|table|blockquote|pre|figure|figcaption|dd|dt|br|hr)\b[^>]*>/gi;
+
+const metaContent = (html: string, key: string) => {
+    const match = html.match(new RegExp(`<meta[^>]+(?:property|name)=["']${key}["'][^>]*>`, 'i'));
+    return match?.[0].match(/content=["']([^"']*)["']/i)?.[1];
+};
+
+// Picks the largest <article>/<main> block when the page has one; most of the chrome lives outside it
+const mainContent = (html: string) => {
+    const candidates = [...html.matchAll(/<(article|main)\b[^>]*>([\s\S]*?)<\/\1>/gi)].map(m => m[2]);
+    const best = candidates.sort((a, b) => b.length - a.length)[0];
+    return best && best.length > 500 ? best : (html.match(/<body\b[^>]*>([\s\S]*)<\/body>/i)?.[1] ?? html);
+};
+
+export const htmlToReadableText = (html: string): { title?: string; text: string } => {
+    const rawTitle = metaContent(html, 'og:title') || html.match(/<title[^>]*>([\s\S]*?)<\/title>/i)?.[1];
+
+    let body = html.replace(/<!--[\s\S]*?-->/g, '');
+    for (const tag of BOILERPLATE_TAGS) {
+        body = body.replace(new RegExp(`<${tag}\\b[\\s\\S]*?<\\/${tag}>`, 'gi'), ' ');
+    }
+    body = mainContent(body)
+        // Elements whose class/id/role marks them as navigation, ads or share widgets
+        .replace(/<(div|section|ul)\b([^>]*)>[\s\S]*?<\/\1>/gi, (block, _tag, attrs: string) =>
+            BOILERPLATE_HINT.test(attrs.match(/(?:class|id|role)=["'][^"']*["']/gi)?.join(' ') || '') ? ' ' : block);
+
+    const text = decodeEntities(body
+        // Headings are short but worth keeping; mark them so the short-line filter lets them through
+        .replace(/<h[1-6]\b[^>]*>/gi, `\n${HEADING_MARK}`)
+        .replace(BLOCK_TAGS, '\n')
+        .replace(/<[^>]+>/g, ' '))
+        .split('\n')
+        .map(line => line.replace(/\s+/g, ' ').trim())
+        // Very short lines on a content page are almost always leftover links and labels
+        .filter(line => line.startsWith(HEADING_MARK)
+            ? line.length > HEADING_MARK.length
+            : line.length >= 30 || /[.!?:"”]$/.test(line))
+        .map(line => line.replace(HEADING_MARK, '').trim())
+        .join('\n');
+
+    return { title: rawTitle ? decodeEntities(rawTitle).replace(/\s+/g, ' ').trim() : undefined, text };
+};
+
+// ---------- Web Pages ----------
+
+export const fetchWebPage = async (rawUrl: string): Promise<FetchedSource> => {
+    const { response, url } = await fetchChecked(rawUrl, 'text/html,application/xhtml+xml,text/plain,application/pdf;q=0.9,*/*;q=0.5');
+    const mimeType = (response.headers['content-type'] || '').split(';')[0].trim().toLowerCase();
+    const body = await readBody(response);
+
+    if (mimeType === 'application/pdf' || url.toLowerCase().endsWith('.pdf')) {
+        const document = await extractDocument(body, new URL(url).pathname.split('/').pop() || 'document.pdf', 'application/pdf');
+        return {
+            url,
+            text: document.pages.map(p => `[Page ${p.page_number}]\n${p.text}`).join('\n\n'),
+            content_type: 'pdf',
+        };
+    }
+
+    if (mimeType.startsWith('text/plain')) {
+        return { url, text: body.toString('utf8').trim(), content_type: 'text' };
+    }
+
+    if (mimeType && !mimeType.includes('html') && !mimeType.includes('xml')) {
+        throw new SourceFetchError(`Unsupported content type: ${mimeType}`, 415);
+    }
+
+    const { title, text } = htmlToReadableText(body.toString('utf8'));
+    if (!text) {
+        throw new SourceFetchError(`No readable text found at ${url}. The page may require JavaScript or a login.`);
+    }
+    return { url, title, text, content_type: 'article' };
+};
+
+// ---------- YouTube ----------
+
+export const parseYouTubeId = (rawUrl: string): string | null => {
+    try {
+        const url = new URL(rawUrl);
+        const host = url.hostname.replace(/^www\.|^m\./, '');
+        if (host === 'youtu.be') return url.pathname.slice(1).split('/')[0] || null;
+        if (host === 'youtube.com' || host === 'music.youtube.com' || host === 'youtube-nocookie.com') {
+            if (url.searchParams.get('v')) return url.searchParams.get('v');
+            const match = url.pathname.match(/^\/(?:shorts|embed|live|v)\/([\w-]{6,})/);
+            return match?.[1] || null;
+        }
+    } catch {
+        // fall through
+    }
+    return null;
+};
+
+interface CaptionTrack {
+    baseUrl: string;
+    languageCode: string;
+    kind?: string; // 'asr' for auto-generated captions
+}
+
+// The watch page embeds its player config as `ytInitialPlayerResponse = {...};`
+const extractPlayerResponse = (html: string): any => {
+    const start = html.indexOf('ytInitialPlayerResponse = {');
+    if (start === -1) return null;
+    let depth = 0;
+    let inString = false;
+    const from = html.indexOf('{', start);
+    for (let i = from; i < html.length; i++) {
+        const ch = html[i];
+        if (inString) {
+            if (ch === '\\') i++;
+            else if (ch === '"') inString = false;
+        } else if (ch === '"') {
+            inString = true;
+        } else if (ch === '{') {
+            depth++;
+        } else if (ch === '}' && --depth === 0) {
+            try {
+                return JSON.parse(html.slice(from, i + 1));
+            } catch {
+                return null;
+            }
+        }
+    }
+    return null;
+};
+
+const formatTimestamp = (ms: number) => {
+    const total = Math.floor(ms / 1000);
+    const h = Math.floor(total / 3600);
+    const m = Math.floor((total % 3600) / 60);
+    const s = total % 60;
+    const mmss = `${String(m).padStart(2, '0')}:${String(s).padStart(2, '0')}`;
+    return h > 0 ? `${h}:${mmss}` : mmss;
+};
+
+// Prefers manual English captions, then auto-generated English, then whatever exists
+const pickCaptionTrack = (tracks: CaptionTrack[]) =>
+    tracks.find(t => t.languageCode.startsWith('en') && t.kind !== 'asr')
+    || tracks.find(t => t.languageCode.startsWith('en'))
+    || tracks[0];
+
+const fetchTranscript = async (track: CaptionTrack, watchUrl: string): Promise<string> => {
+    const captionUrl = new URL(track.baseUrl, watchUrl);
+    captionUrl.searchParams.set('fmt', 'json3');
+    const { response } = await fetchChecked(captionUrl.toString(), 'application/json');
+    const data = JSON.parse((await readBody(response)).toString('utf8'));
+
+    // Group caption events into ~30 second paragraphs with a leading timestamp for citation
+    const paragraphs: string[] = [];
+    let current = '';
+    let paragraphStart = 0;
+    for (const event of data.events || []) {
+        const text = (event.segs || []).map((seg: any) => seg.utf8 || '').join('').replace(/\s+/g, ' ').trim();
+        if (!text) continue;
+        if (current && event.tStartMs - paragraphStart >= 30000) {
+            paragraphs.push(`[${formatTimestamp(paragraphStart)}] ${current}`);
+            current = '';
+        }
+        if (!current) paragraphStart = event.tStartMs || 0;
+        current = current ? `${current} ${text}` : text;
+    }
+    if (current) paragraphs.push(`[${formatTimestamp(paragraphStart)}] ${current}`);
+    return decodeEntities(paragraphs.join('\n'));
+};
+
+export const fetchYouTubeSource = async (rawUrl: string): Promise<FetchedSource> => {
+    const videoId = parseYouTubeId(rawUrl);
+    if (!videoId) {
+        throw new SourceFetchError(`Not a YouTube video URL: ${rawUrl}`, 400);
+    }
+
+    const watchUrl = `${process.env.YOUTUBE_BASE_URL || 'https://www.youtube.com'}/watch?v=${encodeURIComponent(videoId)}&hl=en`;
+    const { response } = await fetchChecked(watchUrl, 'text/html');
+    const player = extractPlayerResponse((await readBody(response)).toString('utf8'));
+    if (!player?.videoDetails) {
+        throw new SourceFetchError(`Could not read video details for ${videoId}. The video may be private or removed.`);
+    }
+
+    const { title, author, shortDescription } = player.videoDetails;
+    const header = [title && `Title: ${title}`, author && `Channel: ${author}`].filter(Boolean).join('\n');
+    const tracks: CaptionTrack[] = player.captions?.playerCaptionsTracklistRenderer?.captionTracks || [];
+    const track = pickCaptionTrack(tracks);
+
+    if (track) {
+        const transcript = await fetchTranscript(track, watchUrl);
+        if (transcript) {
+            return {
+                url: rawUrl,
+                title,
+                text: `${header}\n\nTranscript${track.kind === 'asr' ? ' (auto-generated)' : ''}:\n${transcript}`,
+                content_type: 'youtube_transcript',
+                transcript_available: true,
+            };
+        }
+    }
+
+    // No captions: the description is the only real text available
+    if (!shortDescription?.trim()) {
+        throw new SourceFetchError(`No transcript or description available for ${videoId}.`);
+    }
+    return {
+        url: rawUrl,
+        title,
+        text: `${header}\n\nDescription (no transcript available):\n${shortDescription.trim()}`,
+        content_type: 'youtube_description',
+        transcript_available: false,
+    };
+};
@@ -0,0 +1,134 @@
+import path from 'path';
+import { extractText, getDocumentProxy } from 'unpdf';
+import mammoth from 'mammoth';
+import type { DocumentPage } from '../types';
+
+// ========== Document Ingestion ==========
+// Turns uploaded files into plain text pages so analysis prompts can cite page numbers.
+
+export type IngestFileType = 'pdf' | 'docx' | 'csv' | 'txt';
+
+export interface ExtractedDocument {
+    file_name: string;
+    file_type: IngestFileType;
+    page_count: number;
+    // PDFs keep their real pages; other formats have no fixed layout, so pages are
+    // approximated at ESTIMATED_PAGE_CHARS (roughly one printed page)
+    paginated: boolean;
+    pages: DocumentPage[];
+}
+
+export interface DocumentChunk {
+    index: number;
+    first_page: number;
+    last_page: number;
+    text: string;
+}
+
+export class UnsupportedDocumentError extends Error {}
+
+const ESTIMATED_PAGE_CHARS = 3000;
+
+const MIME_TYPES: Record<string, IngestFileType> = {
+    'application/pdf': 'pdf',
+    'application/vnd.openxmlformats-officedocument.wordprocessingml.document': 'docx',
+    'text/csv': 'csv',
+    'text/plain': 'txt',
+    'text/markdown': 'txt',
+    'application/json': 'txt',
+};
+
+const EXTENSIONS: Record<string, IngestFileType> = {
+    '.pdf': 'pdf',
+    '.docx': 'docx',
+    '.csv': 'csv',
+    '.txt': 'txt',
+    '.md': 'txt',
+    '.json': 'txt',
+};
+
+export const detectFileType = (fileName: string, mimeType?: string): IngestFileType | null =>
+    EXTENSIONS[path.extname(fileName).toLowerCase()] || (mimeType && MIME_TYPES[mimeType]) || null;
+
+const normalize = (text: string) => text.replace(/\r\n?/g, '\n').replace(/[ \t]+\n/g, '\n').trim();
+
+// Splits on line boundaries so CSV rows and paragraphs are never cut in half
+export const estimatePages = (text: string): DocumentPage[] => {
+    const pages: DocumentPage[] = [];
+    let current = '';
+    for (const line of normalize(text).split('\n')) {
+        if (current && current.length + line.length + 1 > ESTIMATED_PAGE_CHARS) {
+            pages.push({ page_number: pages.length + 1, text: current });
+            current = '';
+        }
+        current = current ? `${current}\n${line}` : line;
+    }
+    if (current.trim()) pages.push({ page_number: pages.length + 1, text: current });
+    return pages;
+};
+
+const extractPdf = async (buffer: Buffer): Promise<DocumentPage[]> => {
+    const pdf = await getDocumentProxy(new Uint8Array(buffer));
+    const { text } = await extractText(pdf, { mergePages: false });
+    return text.map((pageText, i) => ({ page_number: i + 1, text: normalize(pageText) }));
+};
+
+export const extractDocument = async (buffer: Buffer, fileName: string, mimeType?: string): Promise<ExtractedDocument> => {
+    const fileType = detectFileType(fileName, mimeType);
+    if (!fileType) {
+        throw new UnsupportedDocumentError(`Unsupported file type: ${fileName}. Upload PDF, DOCX, CSV or TXT.`);
+    }
+
+    let pages: DocumentPage[];
+    if (fileType === 'pdf') {
+        pages = await extractPdf(buffer);
+    } else if (fileType === 'docx') {
+        const { value } = await mammoth.extractRawText({ buffer });
+        pages = estimatePages(value);
+    } else {
+        // Strip a UTF-8 BOM so it does not end up in the first CSV header
+        pages = estimatePages(buffer.toString('utf8').replace(/^\uFEFF/, ''));
+    }
+
+    if (!pages.some(p => p.text)) {
+        throw new UnsupportedDocumentError(`No extractable text in ${fileName}. Scanned PDFs need OCR before upload.`);
+    }
+
+    return {
+        file_name: fileName,
+        file_type: fileType,
+        page_count: pages.length,
+        paginated: fileType === 'pdf',
+        pages,
+    };
+};
+
+/**
+ * Groups pages into prompt-sized chunks. Each page is prefixed with a [Page N] marker so
+ * the model can attribute facts; pages longer than maxChars are split across chunks.
+ */
+export const chunkPages = (pages: DocumentPage[], maxChars: number): DocumentChunk[] => {
+    const chunks: DocumentChunk[] = [];
+    let current: Omit<DocumentChunk, 'index'> | null = null;
+
+    const flush = () => {
+        if (current) chunks.push({ index: chunks.length, ...current });
+        current = null;
+    };
+
+    for (const page of pages) {
+        if (!page.text) continue;
+        for (let offset = 0; offset < page.text.length; offset += maxChars) {
+            const block = `[Page ${page.page_number}]\n${page.text.slice(offset, offset + maxChars)}`;
+            if (current && current.text.length + block.length + 2 > maxChars) flush();
+            if (!current) {
+                current = { first_page: page.page_number, last_page: page.page_number, text: block };
+            } else {
+                current.text += `\n\n${block}`;
+                current.last_page = page.page_number;
+            }
+        }
+    }
+    flush();
+    return chunks;
+};
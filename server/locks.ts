@@ -0,0 +1,79 @@
+import type { ArchiveClip, DocumentaryProject, DocumentaryScript, ProjectCollection, ProjectPhase, ScriptScene } from '../types';
+import { PROJECT_FIELD_PHASES } from '../lib/locks';
+import { changed } from './permissions';
+import type { StoredRecord } from './store';
+
+// ========== Entity Locks on Writes ==========
+// Browsers save whole collections, so a save from someone working on one scene or folder also
+// carries their (possibly stale) copy of everything else. Entities other users hold locks on
+// are put back the way they are stored before the save is applied.
+
+/** Phases whose project fields the update changes, for the lock check on PUT /api/projects/:id. */
+export const projectChangePhases = (existing: DocumentaryProject, changes: Partial<DocumentaryProject>) => {
+    const phases = new Set<ProjectPhase>();
+    for (const [field, phase] of Object.entries(PROJECT_FIELD_PHASES) as [keyof DocumentaryProject, ProjectPhase][]) {
+        if (field in changes && changed(existing[field], changes[field])) phases.add(phase);
+    }
+    return phases;
+};
+
+// Scenes keep their stored content; deleted ones go back where they were
+const keepLockedScenes = (stored: DocumentaryScript, incoming: DocumentaryScript, locked: Set<string>): DocumentaryScript => {
+    const parts = incoming.parts.map(part => ({
+        ...part,
+        scenes: part.scenes.map(scene => {
+            if (!locked.has(scene.id)) return scene;
+            return stored.parts.flatMap(p => p.scenes).find(s => s.id === scene.id) || scene;
+        }),
+    }));
+    const present = new Set(parts.flatMap(p => p.scenes.map(s => s.id)));
+    stored.parts.forEach(storedPart => storedPart.scenes.forEach((scene: ScriptScene, index) => {
+        if (!locked.has(scene.id) || present.has(scene.id)) return;
+        let part = parts.find(p => p.id === storedPart.id);
+        if (!part) {
+            part = { ...storedPart, scenes: [] };
+            parts.push(part);
+        }
+        part.scenes.splice(Math.min(index, part.scenes.length), 0, scene);
+    }));
+    return { ...incoming, parts };
+};
+
+/**
+ * The records to store for a write to `collection`, with entities whose ids are in `locked`
+ * (scene ids for scripts, folder ids for the archive) kept as they are in `before`.
+ */
+export const keepLockedEntities = (
+    collection: ProjectCollection,
+    before: StoredRecord[],
+    after: StoredRecord[],
+    locked: Set<string>
+): StoredRecord[] => {
+    if (locked.size === 0) return after;
+
+    if (collection === 'scripts') {
+        const stored = new Map(before.map(r => [r.id, r as unknown as DocumentaryScript]));
+        const kept = after.map(record => {
+            const previous = stored.get(record.id);
+            return previous ? keepLockedScenes(previous, record as unknown as DocumentaryScript, locked) as unknown as StoredRecord : record;
+        });
+        // A script someone deleted stays while it holds a locked scene
+        const ids = new Set(after.map(r => r.id));
+        const restored = before.filter(r => !ids.has(r.id)
+            && (r as unknown as DocumentaryScript).parts.some(p => p.scenes.some(s => locked.has(s.id))));
+        return [...kept, ...restored];
+    }
+
+    if (collection === 'archive_clips') {
+        const inLockedFolder = (record?: StoredRecord) => Boolean(record && locked.has((record as unknown as ArchiveClip).folder_id || ''));
+        const stored = new Map(before.map(r => [r.id, r]));
+        const open = after.filter(record => !inLockedFolder(record) && !inLockedFolder(stored.get(record.id)));
+        return [...open, ...before.filter(record => inLockedFolder(record))];
+    }
+
+    if (collection === 'archive_folders') {
+        return [...after.filter(record => !locked.has(record.id)), ...before.filter(record => locked.has(record.id))];
+    }
+
+    return after;
+};
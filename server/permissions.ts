@@ -0,0 +1,96 @@
+import type { Request } from 'express';
+import type { AuthUser, DocumentaryProject, Permission, ProjectCollection, ReviewCheck, VoiceOver } from '../types';
+import { COLLECTION_PERMISSIONS, permissionDenial, REVIEW_PERMISSIONS } from '../lib/permissions';
+import { AuthError } from './auth';
+import type { StoredRecord } from './store';
+
+// ========== Permissions ==========
+// Applies the matrix in lib/permissions.ts to writes. Routes work out which permissions a
+// change needs and call requirePermissions, which answers 403 with the matrix's explanation.
+
+/** Throws a 403 AuthError unless the user's role on req.project allows every permission. */
+export const requirePermissions = (req: Request, permissions: Iterable<Permission>) => {
+    for (const permission of new Set(permissions)) {
+        const denial = permissionDenial(req.projectRole!, permission, req.project);
+        if (denial) throw new AuthError(denial, 403);
+    }
+};
+
+// Key order differs between what clients send and what the store returns, so compare canonically
+const canonical = (value: unknown): string => {
+    if (Array.isArray(value)) return `[${value.map(canonical).join(',')}]`;
+    if (value && typeof value === 'object') {
+        const entries = Object.entries(value).filter(([, v]) => v !== undefined).sort(([a], [b]) => a.localeCompare(b));
+        return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${canonical(v)}`).join(',')}}`;
+    }
+    return JSON.stringify(value ?? null);
+};
+
+/** Whether two stored values differ, ignoring key order. */
+export const changed = (a: unknown, b: unknown) => canonical(a) !== canonical(b);
+
+/** Permissions needed to apply a project update. Fields not listed here are open to every member. */
+export const projectChangePermissions = (existing: DocumentaryProject, changes: Partial<DocumentaryProject>) => {
+    const needed: Permission[] = [];
+    if ('permissions' in changes && changed(existing.permissions, changes.permissions)) needed.push('project.manage');
+    if ('research_providers' in changes && changed(existing.research_providers, changes.research_providers)) needed.push('research.edit');
+    if ('timeline_tracks' in changes && changed(existing.timeline_tracks, changes.timeline_tracks)) needed.push('timeline.edit');
+    if ('review_signoffs' in changes) {
+        for (const check of Object.keys(REVIEW_PERMISSIONS) as ReviewCheck[]) {
+            if (changed(existing.review_signoffs?.[check], changes.review_signoffs?.[check])) needed.push(REVIEW_PERMISSIONS[check]);
+        }
+    }
+    const completing = (status?: string) => status === 'completed';
+    if ('status' in changes && completing(existing.status) !== completing(changes.status)) needed.push('review.final');
+    return needed;
+};
+
+/** Records new sign-offs under the signed-in user, whatever the client sent. */
+export const stampSignoffs = (existing: DocumentaryProject, changes: Partial<DocumentaryProject>, user: AuthUser) => {
+    if (!changes.review_signoffs) return changes;
+    const signoffs = { ...changes.review_signoffs };
+    for (const check of Object.keys(signoffs) as ReviewCheck[]) {
+        if (signoffs[check] && changed(existing.review_signoffs?.[check], signoffs[check])) {
+            signoffs[check] = { user_id: user.id, username: user.name || user.id, signed_at: new Date().toISOString() };
+        }
+    }
+    return { ...changes, review_signoffs: signoffs };
+};
+
+// Approval states of a voice-over, which only voiceover.approve may set or clear
+const REVIEWED_STATUSES: VoiceOver['status'][] = ['approved', 'rejected'];
+
+const voiceOverPermissions = (before: VoiceOver | undefined, after: VoiceOver | undefined): Permission[] => {
+    if (!before || !after) return ['voiceover.record'];
+    const needed: Permission[] = [];
+    if (before.status !== after.status
+        && (REVIEWED_STATUSES.includes(before.status) || REVIEWED_STATUSES.includes(after.status))) {
+        needed.push('voiceover.approve');
+    }
+    if (changed({ ...before, status: null }, { ...after, status: null })) needed.push('voiceover.record');
+    return needed;
+};
+
+/**
+ * Permissions needed to turn a collection's records `before` into `after` (records missing
+ * from `after` are deleted). Voice-over approvals need voiceover.approve rather than record.
+ */
+export const collectionWritePermissions = (
+    collection: ProjectCollection,
+    before: StoredRecord[],
+    after: StoredRecord[]
+): Permission[] => {
+    if (collection !== 'voice_overs') {
+        const unchanged = before.length === after.length
+            && after.every(record => !changed(record, before.find(b => b.id === record.id)));
+        return unchanged ? [] : [COLLECTION_PERMISSIONS[collection]];
+    }
+    const previous = new Map(before.map(r => [r.id, r as unknown as VoiceOver]));
+    const next = new Map(after.map(r => [r.id, r as unknown as VoiceOver]));
+    const ids = new Set([...previous.keys(), ...next.keys()]);
+    return [...ids].flatMap(id => {
+        const a = previous.get(id);
+        const b = next.get(id);
+        return changed(a, b) ? voiceOverPermissions(a, b) : [];
+    });
+};
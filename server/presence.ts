@@ -0,0 +1,279 @@
+import { randomUUID } from 'crypto';
+import type {
+    AuthUser, EditAccessRequest, LockScope, NotificationLink, PresenceEvent, PresenceViewer, ProjectLock, ProjectPhase, ProjectPresence, UserRole,
+} from '../types';
+import { conflictingLocks, describeScope, sameScope, scopesOverlap } from '../lib/locks';
+
+// ========== Presence & Edit Locks ==========
+// Locks cover a phase or one entity inside it (see lib/locks.ts): one person at a time edits
+// each, and others watch that part as spectators. Locks and the list of viewers live in this
+// process: browsers keep them alive with heartbeats, and both expire when the heartbeats stop
+// (closed tab, lost network). Every change is pushed to subscribers as a PresenceEvent, which
+// the API streams to browsers over SSE.
+
+export class LockError extends Error {
+    constructor(message: string, public status = 409, public lock: ProjectLock | null = null) {
+        super(message);
+    }
+}
+
+export interface PresenceOptions {
+    lockTtlMs?: number;
+    presenceTtlMs?: number;
+    sweepIntervalMs?: number;
+}
+
+// Browsers beat every 15s, so a lock survives two missed heartbeats
+const DEFAULT_LOCK_TTL_MS = 45 * 1000;
+const DEFAULT_PRESENCE_TTL_MS = 45 * 1000;
+const DEFAULT_SWEEP_INTERVAL_MS = 5 * 1000;
+
+/** Who a notice is for: everyone on the project with one of `roles`, plus `user_ids`, except `except`. */
+export interface NoticeAudience {
+    roles: UserRole[];
+    user_ids?: string[];
+    except?: string;
+}
+
+// A user id, an audience, or nobody in particular (everyone who can see the project)
+type Listener = (event: PresenceEvent, recipient?: string | NoticeAudience) => void;
+
+const displayName = (user: AuthUser) => user.name || user.email || user.id;
+
+export const createPresenceHub = (options: PresenceOptions = {}) => {
+    const lockTtl = options.lockTtlMs ?? DEFAULT_LOCK_TTL_MS;
+    const presenceTtl = options.presenceTtlMs ?? DEFAULT_PRESENCE_TTL_MS;
+
+    const locks = new Map<string, ProjectLock[]>();
+    const viewers = new Map<string, Map<string, PresenceViewer>>(); // project -> user -> viewer
+    const requests = new Map<string, EditAccessRequest[]>();
+    const listeners = new Set<Listener>();
+
+    const expiresAt = () => new Date(Date.now() + lockTtl).toISOString();
+    const isLive = (lock: ProjectLock) => Date.parse(lock.expires_at) > Date.now();
+    const liveLocks = (projectId: string) => (locks.get(projectId) || []).filter(isLive);
+
+    const state = (projectId: string): ProjectPresence => ({
+        project_id: projectId,
+        locks: liveLocks(projectId),
+        viewers: [...(viewers.get(projectId)?.values() || [])],
+        requests: requests.get(projectId) || [],
+    });
+
+    const emit = (event: PresenceEvent, recipient?: string | NoticeAudience) => {
+        for (const listener of listeners) listener(event, recipient);
+    };
+    const publish = (projectId: string) => emit({ type: 'state', presence: state(projectId) });
+    const notify = (projectId: string, userId: string, title: string, message: string, kind: 'info' | 'success' | 'warning' | 'error' = 'info') =>
+        emit({ type: 'notice', project_id: projectId, title, message, kind }, userId);
+
+    const scopeOf = ({ phase, entity_type, entity_id, label }: LockScope): LockScope =>
+        entity_type ? { phase, entity_type, entity_id, label } : { phase };
+
+    const grant = (projectId: string, user: Pick<AuthUser, 'id' | 'avatar'> & { username: string }, scope: LockScope) => {
+        const lock: ProjectLock = {
+            ...scopeOf(scope),
+            project_id: projectId,
+            user_id: user.id,
+            username: user.username,
+            avatar: user.avatar,
+            acquired_at: new Date().toISOString(),
+            expires_at: expiresAt(),
+        };
+        locks.set(projectId, [...liveLocks(projectId).filter(l => !(l.user_id === user.id && sameScope(l, scope))), lock]);
+        // Whoever now holds the scope no longer needs to ask for it
+        requests.set(projectId, (requests.get(projectId) || []).filter(r => !(r.user_id === user.id && sameScope(r, scope))));
+        return lock;
+    };
+
+    const removeLocks = (projectId: string, match: (lock: ProjectLock) => boolean) => {
+        const before = liveLocks(projectId);
+        const after = before.filter(lock => !match(lock));
+        locks.set(projectId, after);
+        return before.filter(match);
+    };
+
+    // Drops locks and viewers whose heartbeats stopped, and requests nobody needs any more
+    const sweep = () => {
+        const now = Date.now();
+        const changed = new Set<string>();
+        for (const [projectId, projectLocks] of locks) {
+            const live = projectLocks.filter(isLive);
+            if (live.length !== projectLocks.length) changed.add(projectId);
+            if (live.length === 0) locks.delete(projectId);
+            else locks.set(projectId, live);
+        }
+        for (const [projectId, projectViewers] of viewers) {
+            for (const [userId, viewer] of projectViewers) {
+                if (now - Date.parse(viewer.seen_at) > presenceTtl) {
+                    projectViewers.delete(userId);
+                    changed.add(projectId);
+                }
+            }
+            if (projectViewers.size === 0) viewers.delete(projectId);
+        }
+        for (const [projectId, pending] of requests) {
+            // A request stands while its author is watching and someone else still holds the scope
+            const open = pending.filter(r =>
+                viewers.get(projectId)?.has(r.user_id) && conflictingLocks(liveLocks(projectId), r, r.user_id).length > 0);
+            if (open.length !== pending.length) {
+                requests.set(projectId, open);
+                changed.add(projectId);
+            }
+        }
+        changed.forEach(publish);
+    };
+
+    /** Takes the scope's lock, or refreshes it when the user already holds it. 409 while someone else holds an overlapping one. */
+    const acquire = (projectId: string, user: AuthUser, scope: LockScope) => {
+        const [other] = conflictingLocks(liveLocks(projectId), scope, user.id);
+        if (other) throw new LockError(`${other.username} is editing ${describeScope(other)}`, 409, other);
+        const lock = grant(projectId, { id: user.id, username: displayName(user), avatar: user.avatar }, scope);
+        publish(projectId);
+        return lock;
+    };
+
+    const timer = setInterval(sweep, options.sweepIntervalMs ?? DEFAULT_SWEEP_INTERVAL_MS);
+    timer.unref();
+
+    return {
+        state,
+
+        subscribe(listener: Listener) {
+            listeners.add(listener);
+            return () => { listeners.delete(listener); };
+        },
+
+        acquire,
+
+        /** Keeps the user listed as a viewer of `phase` and extends every lock they hold on the project. */
+        heartbeat(projectId: string, user: AuthUser, phase: ProjectPhase) {
+            const projectViewers = viewers.get(projectId) || new Map<string, PresenceViewer>();
+            const previous = projectViewers.get(user.id);
+            projectViewers.set(user.id, {
+                user_id: user.id,
+                username: displayName(user),
+                avatar: user.avatar,
+                phase,
+                seen_at: new Date().toISOString(),
+            });
+            viewers.set(projectId, projectViewers);
+
+            locks.set(projectId, liveLocks(projectId).map(lock =>
+                lock.user_id === user.id ? { ...lock, expires_at: expiresAt() } : lock));
+            // Heartbeats only refresh timestamps; subscribers hear about joins and phase changes
+            if (!previous || previous.phase !== phase) publish(projectId);
+            return state(projectId);
+        },
+
+        /** Releases the user's lock on the scope, or every lock they hold on the project. */
+        release(projectId: string, user: AuthUser, scope?: LockScope) {
+            const released = removeLocks(projectId, lock => lock.user_id === user.id && (!scope || sameScope(lock, scope)));
+            if (released.length > 0) publish(projectId);
+        },
+
+        /** The user closed the project: stop listing them and give up their locks and requests. */
+        leave(projectId: string, user: AuthUser) {
+            viewers.get(projectId)?.delete(user.id);
+            requests.set(projectId, (requests.get(projectId) || []).filter(r => r.user_id !== user.id));
+            removeLocks(projectId, lock => lock.user_id === user.id);
+            publish(projectId);
+        },
+
+        /** Throws a 423 LockError while another user holds the whole phase. */
+        assertCanWrite(projectId: string, user: AuthUser, phase: ProjectPhase) {
+            const other = liveLocks(projectId).find(lock => lock.user_id !== user.id && lock.phase === phase && !lock.entity_type);
+            if (other) throw new LockError(`${other.username} is editing ${describeScope(other)}; it is read-only until they finish`, 423, other);
+        },
+
+        /** Ids of the phase's entities other users hold locks on. */
+        lockedByOthers(projectId: string, user: AuthUser, phase: ProjectPhase) {
+            return new Set(liveLocks(projectId)
+                .filter(lock => lock.user_id !== user.id && lock.phase === phase && lock.entity_id)
+                .map(lock => lock.entity_id!));
+        },
+
+        /** Asks whoever holds the scope to hand it over. When nobody does, the user simply gets it. */
+        requestEdit(projectId: string, user: AuthUser, scope: LockScope) {
+            const holders = conflictingLocks(liveLocks(projectId), scope, user.id);
+            if (holders.length === 0) return { lock: acquire(projectId, user, scope), request: null };
+
+            const pending = requests.get(projectId) || [];
+            let request = pending.find(r => r.user_id === user.id && sameScope(r, scope));
+            if (!request) {
+                request = {
+                    ...scopeOf(scope),
+                    id: randomUUID(),
+                    user_id: user.id,
+                    username: displayName(user),
+                    avatar: user.avatar,
+                    requested_at: new Date().toISOString(),
+                };
+                requests.set(projectId, [...pending, request]);
+                for (const holder of new Set(holders.map(h => h.user_id))) {
+                    notify(projectId, holder, 'Edit Access Requested', `${request.username} would like to edit ${describeScope(scope)}.`);
+                }
+                publish(projectId);
+            }
+            return { lock: holders[0], request };
+        },
+
+        /**
+         * A holder answers a request. Accepting releases their overlapping locks; the requester
+         * gets the scope unless someone else still holds part of it.
+         */
+        respond(projectId: string, user: AuthUser, requestId: string, accept: boolean) {
+            const request = (requests.get(projectId) || []).find(r => r.id === requestId);
+            if (!request) throw new LockError('That request is no longer open', 404);
+            const mine = liveLocks(projectId).filter(lock => lock.user_id === user.id && scopesOverlap(lock, request));
+            if (mine.length === 0) throw new LockError('Only the user editing this can answer the request', 403);
+
+            const name = displayName(user);
+            if (!accept) {
+                requests.set(projectId, (requests.get(projectId) || []).filter(r => r.id !== requestId));
+                notify(projectId, request.user_id, 'Edit Access Declined', `${name} is still editing ${describeScope(request)}.`, 'warning');
+            } else {
+                removeLocks(projectId, lock => mine.includes(lock));
+                const [remaining] = conflictingLocks(liveLocks(projectId), request, request.user_id);
+                if (remaining) {
+                    notify(projectId, request.user_id, 'Edit Access Pending', `${name} handed over, but ${remaining.username} is still editing ${describeScope(remaining)}.`, 'info');
+                } else {
+                    grant(projectId, { id: request.user_id, username: request.username, avatar: request.avatar }, request);
+                    notify(projectId, request.user_id, 'Edit Access Granted', `${name} handed you ${describeScope(request)}.`, 'success');
+                }
+            }
+            publish(projectId);
+            return state(projectId);
+        },
+
+        /** Takes the scope whoever holds it. Callers check the lock.takeover permission first. */
+        takeover(projectId: string, user: AuthUser, scope: LockScope) {
+            const previous = removeLocks(projectId, lock => lock.user_id !== user.id && scopesOverlap(lock, scope));
+            const lock = grant(projectId, { id: user.id, username: displayName(user), avatar: user.avatar }, scope);
+            for (const holder of new Set(previous.map(p => p.user_id))) {
+                notify(projectId, holder, 'Editing Taken Over', `${lock.username} took over ${describeScope(scope)}. It is now read-only for you.`, 'warning');
+            }
+            publish(projectId);
+            return lock;
+        },
+
+        /** Sends a notice to an audience; the stream works out who on the project belongs to it. */
+        notifyAudience(
+            projectId: string,
+            audience: NoticeAudience,
+            title: string,
+            message: string,
+            kind: 'info' | 'success' | 'warning' | 'error' = 'info',
+            link?: NotificationLink
+        ) {
+            emit({ type: 'notice', project_id: projectId, title, message, kind, ...(link ? { link } : {}) }, audience);
+        },
+
+        close() {
+            clearInterval(timer);
+            listeners.clear();
+        },
+    };
+};
+
+export type PresenceHub = ReturnType<typeof createPresenceHub>;
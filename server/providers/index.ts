@@ -0,0 +1,89 @@
+import type { AIProviderId, DocumentaryProject, EngineProviderConfig, ResearchEngine } from '../../types';
+import { AIProvider, ProviderError } from './types';
+
+export * from './types';
+export { generateStructured, parseJsonResponse } from './structured';
+export { createVertexProvider } from './vertex';
+export { createGenericOpenAIProvider, createOpenAICompatibleProvider, createPerplexityProvider } from './openaiCompatible';
+export { createMockProvider } from './mock';
+
+// ========== Research Engines ==========
+// An engine is what the researcher picks in the UI (and what the prompt style follows);
+// a provider is where the prompt runs. Projects can point any engine at any provider.
+
+export const RESEARCH_ENGINES: ResearchEngine[] = ['google_deep_research', 'vertex_ai', 'gemini_pro', 'perplexity'];
+
+export const ENGINE_DEFAULTS: Record<ResearchEngine, EngineProviderConfig> = {
+    google_deep_research: { provider: 'vertex', model: 'gemini-2.0-pro' },
+    vertex_ai: { provider: 'vertex', model: 'gemini-2.0-pro' },
+    gemini_pro: { provider: 'vertex', model: 'gemini-2.0-flash' },
+    perplexity: { provider: 'perplexity' },
+};
+
+export const isResearchEngine = (value: unknown): value is ResearchEngine =>
+    RESEARCH_ENGINES.includes(value as ResearchEngine);
+
+export interface ResolvedEngine {
+    engine: ResearchEngine;
+    provider: AIProvider;
+    model: string;
+}
+
+export type AIMode = 'vertex' | 'mock';
+
+/** AI_PROVIDER: 'vertex' (default) or 'mock', which runs every AI route offline. */
+export const aiModeFromEnv = (): AIMode => {
+    const mode = process.env.AI_PROVIDER || 'vertex';
+    if (mode !== 'vertex' && mode !== 'mock') {
+        throw new Error(`AI_PROVIDER must be "vertex" or "mock", got "${mode}"`);
+    }
+    return mode;
+};
+
+/**
+ * Holds the available providers. Non-research routes use the mode's provider; in mock mode
+ * research engines do too, whatever the project has configured, so nothing leaves the machine.
+ */
+export const createProviderRegistry = (providers: AIProvider[], mode: AIMode = 'vertex') => {
+    const byId = new Map(providers.map(p => [p.id, p]));
+    const fallback = byId.get(mode);
+    if (!fallback) throw new Error(`No ${mode} provider registered`);
+
+    return {
+        mode,
+        get: (id: AIProviderId) => byId.get(id),
+
+        /** The provider for routes that don't take a research engine. */
+        default: () => fallback,
+
+        list: () => providers.map(p => ({
+            id: p.id,
+            label: p.label,
+            default_model: p.defaultModel,
+            unavailable_reason: p.unavailableReason(),
+        })),
+
+        /**
+         * Picks the provider and model for an engine: the project's override if it has one,
+         * otherwise the server default. Throws a 400 ProviderError if that provider can't run.
+         */
+        resolve(engine: unknown, project?: DocumentaryProject | null): ResolvedEngine {
+            if (!isResearchEngine(engine)) {
+                throw new ProviderError(`Unknown research engine: ${String(engine)}`, 400);
+            }
+            if (mode === 'mock') return { engine, provider: fallback, model: fallback.defaultModel };
+            const config = project?.research_providers?.[engine] || ENGINE_DEFAULTS[engine];
+            const provider = byId.get(config.provider);
+            if (!provider) {
+                throw new ProviderError(`Unknown AI provider: ${config.provider}`, 400);
+            }
+            const reason = provider.unavailableReason();
+            if (reason) {
+                throw new ProviderError(`${provider.label} is not configured (${reason}). Pick another provider for the ${engine} engine in the project's research settings.`, 400);
+            }
+            return { engine, provider, model: config.model || provider.defaultModel };
+        },
+    };
+};
+
+export type ProviderRegistry = ReturnType<typeof createProviderRegistry>;
@@ -0,0 +1,104 @@
+import type { AIProviderId } from '../../types';
+import { AIProvider, ProviderError } from './types';
+
+// Chat Completions over HTTP: OpenAI itself, Perplexity, and self-hosted gateways
+// (vLLM, Ollama, LiteLLM) that speak the same API.
+
+interface OpenAICompatibleConfig {
+    id: AIProviderId;
+    label: string;
+    baseUrl?: string;
+    apiKey?: string;
+    defaultModel: string;
+    // Whether the endpoint accepts response_format json_object; otherwise JSON is only asked for in the prompt
+    jsonMode: boolean;
+    missingConfig: string; // Reported when baseUrl or apiKey is absent
+    requiresApiKey?: boolean;
+}
+
+const REQUEST_TIMEOUT_MS = 120000;
+
+// Perplexity returns the pages it searched next to the answer
+const collectUrls = (data: any): string[] => {
+    const urls = [
+        ...(Array.isArray(data.citations) ? data.citations : []),
+        ...(Array.isArray(data.search_results) ? data.search_results.map((r: any) => r?.url) : []),
+    ].filter((url): url is string => typeof url === 'string' && url.length > 0);
+    return [...new Set(urls)];
+};
+
+export const createOpenAICompatibleProvider = (config: OpenAICompatibleConfig): AIProvider => {
+    const requiresApiKey = config.requiresApiKey ?? true;
+
+    return {
+        id: config.id,
+        label: config.label,
+        defaultModel: config.defaultModel,
+
+        unavailableReason: () =>
+            !config.baseUrl || (requiresApiKey && !config.apiKey) ? config.missingConfig : null,
+
+        async generate({ prompt, model = config.defaultModel, json, schema, temperature, system, history = [] }) {
+            if (!config.baseUrl || (requiresApiKey && !config.apiKey)) {
+                throw new ProviderError(`${config.label} is not configured: ${config.missingConfig}`, 400);
+            }
+
+            const response = await fetch(`${config.baseUrl.replace(/\/+$/, '')}/chat/completions`, {
+                method: 'POST',
+                headers: {
+                    'Content-Type': 'application/json',
+                    ...(config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {}),
+                },
+                body: JSON.stringify({
+                    model,
+                    messages: [
+                        ...(system ? [{ role: 'system', content: system }] : []),
+                        ...history.map(turn => ({ role: turn.role === 'model' ? 'assistant' : 'user', content: turn.text })),
+                        { role: 'user', content: schema ? `${prompt}\n\nRespond with JSON matching this schema:\n${JSON.stringify(schema)}` : prompt },
+                    ],
+                    temperature,
+                    ...(json && config.jsonMode ? { response_format: { type: 'json_object' } } : {}),
+                }),
+                signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+            });
+
+            if (!response.ok) {
+                const body = await response.text().catch(() => '');
+                throw new ProviderError(`${config.label} request failed (${response.status}): ${body.slice(0, 300)}`);
+            }
+
+            const data: any = await response.json();
+            const text = data.choices?.[0]?.message?.content;
+            if (typeof text !== 'string') {
+                throw new ProviderError(`${config.label} returned no message content`);
+            }
+            const urls = collectUrls(data);
+            return { text, provider: config.id, model: data.model || model, ...(urls.length ? { grounding_urls: urls } : {}) };
+        },
+    };
+};
+
+export const createPerplexityProvider = (apiKey = process.env.PERPLEXITY_API_KEY) =>
+    createOpenAICompatibleProvider({
+        id: 'perplexity',
+        label: 'Perplexity',
+        baseUrl: process.env.PERPLEXITY_BASE_URL || 'https://api.perplexity.ai',
+        apiKey,
+        defaultModel: process.env.PERPLEXITY_MODEL || 'sonar-pro',
+        // Perplexity only takes JSON schemas, not json_object; the prompts already describe the shape
+        jsonMode: false,
+        missingConfig: 'set PERPLEXITY_API_KEY',
+    });
+
+export const createGenericOpenAIProvider = () =>
+    createOpenAICompatibleProvider({
+        id: 'openai_compatible',
+        label: 'OpenAI-compatible',
+        baseUrl: process.env.OPENAI_COMPATIBLE_BASE_URL,
+        apiKey: process.env.OPENAI_COMPATIBLE_API_KEY,
+        defaultModel: process.env.OPENAI_COMPATIBLE_MODEL || 'gpt-4o',
+        jsonMode: process.env.OPENAI_COMPATIBLE_JSON_MODE !== 'false',
+        missingConfig: 'set OPENAI_COMPATIBLE_BASE_URL (and OPENAI_COMPATIBLE_API_KEY unless the endpoint is open)',
+        // Local gateways usually run without a key
+        requiresApiKey: false,
+    });
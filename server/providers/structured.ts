@@ -0,0 +1,74 @@
+import { TypedSchema, validateSchema } from '../schemas';
+import { AIProvider, GenerateRequest, GenerateResult, ProviderError } from './types';
+
+// ========== Structured Output ==========
+// Routes never forward raw model JSON: answers are parsed, checked against the route's
+// schema, and sent back to the model for repair when they don't fit.
+
+// Repair rounds after the first answer; each is a full model call
+const MAX_REPAIR_ATTEMPTS = 2;
+const REPAIR_ECHO_CHARS = 8000;
+
+/**
+ * Parses a model's JSON answer. Providers without a JSON mode wrap it in code fences,
+ * reasoning blocks or prose, so this falls back to the outermost {...} or [...] in the text.
+ */
+export const parseJsonResponse = (text: string): any => {
+    const cleaned = text.replace(/<think>[\s\S]*?<\/think>/g, '').trim();
+    try {
+        return JSON.parse(cleaned || '{}');
+    } catch {
+        const fenced = /```(?:json)?\s*([\s\S]*?)```/.exec(cleaned)?.[1];
+        const objectStart = cleaned.indexOf('{');
+        const arrayStart = cleaned.indexOf('[');
+        const isArray = arrayStart !== -1 && (objectStart === -1 || arrayStart < objectStart);
+        const start = isArray ? arrayStart : objectStart;
+        const end = cleaned.lastIndexOf(isArray ? ']' : '}');
+        const candidate = fenced?.trim() || (start !== -1 && end > start ? cleaned.slice(start, end + 1) : '');
+        try {
+            return JSON.parse(candidate);
+        } catch {
+            throw new ProviderError('AI provider returned malformed JSON');
+        }
+    }
+};
+
+const repairPrompt = (prompt: string, answer: string, problems: string[]) => `${prompt}
+
+Your previous answer could not be used:
+${problems.map(p => `- ${p}`).join('\n')}
+
+Previous answer:
+${answer.slice(0, REPAIR_ECHO_CHARS)}
+
+Return the corrected JSON only, with every required field.`;
+
+/**
+ * Generates JSON that conforms to the schema, retrying with the validation problems when
+ * it doesn't. Throws a 502 ProviderError once the repair attempts are used up.
+ */
+export const generateStructured = async <T>(
+    provider: AIProvider,
+    request: Omit<GenerateRequest, 'json' | 'schema'>,
+    schema: TypedSchema<T>
+): Promise<{ data: T; result: GenerateResult }> => {
+    let prompt = request.prompt;
+    let problems: string[] = [];
+
+    for (let attempt = 0; attempt <= MAX_REPAIR_ATTEMPTS; attempt++) {
+        const result = await provider.generate({ ...request, prompt, json: true, schema });
+        let data: unknown;
+        try {
+            data = parseJsonResponse(result.text);
+            problems = validateSchema(schema, data);
+        } catch {
+            problems = ['the answer is not valid JSON'];
+        }
+        if (problems.length === 0) return { data: data as T, result };
+
+        console.warn(`AI ${request.task} answer failed validation (attempt ${attempt + 1}):`, problems.slice(0, 5).join('; '));
+        prompt = repairPrompt(request.prompt, result.text, problems.slice(0, 20));
+    }
+
+    throw new ProviderError(`The AI answer for ${request.task} did not match the expected format: ${problems.slice(0, 3).join('; ')}`);
+};
@@ -0,0 +1,64 @@
+import type { ResponseSchema } from '@google-cloud/vertexai';
+import type { AIProviderId } from '../../types';
+
+// ========== AI Providers ==========
+// A provider turns a prompt into text. Routes build the prompt; the provider only decides
+// where it is sent, so the same route can run on Gemini, Perplexity or a local mock.
+
+/** Which route is asking. The mock provider picks its fixture by task. */
+export type AITask =
+    | 'research'
+    | 'query-sources'
+    | 'series-structure'
+    | 'search-archive'
+    | 'analyze-clip'
+    | 'generate-script'
+    | 'find-experts'
+    | 'refine-beat'
+    | 'interview-plan'
+    | 'analyze-style'
+    | 'analyze-source'
+    | 'analyze-document'
+    | 'analyze-document-part'
+    | 'chat';
+
+export interface ChatTurn {
+    role: 'user' | 'model';
+    text: string;
+}
+
+export interface GenerateRequest {
+    task: AITask;
+    prompt: string;
+    model?: string; // Provider default when omitted
+    json?: boolean; // Ask for JSON (an object or an array, as the prompt describes)
+    schema?: ResponseSchema; // Shape of the JSON, for providers that can enforce it
+    temperature?: number;
+    system?: string;
+    history?: ChatTurn[]; // Earlier turns of a conversation; prompt is the new user message
+    // The structured inputs the prompt was built from, for providers that don't call a model
+    context?: Record<string, unknown>;
+}
+
+export interface GenerateResult {
+    text: string;
+    provider: AIProviderId;
+    model: string;
+    grounding_urls?: string[]; // Web pages the provider searched, when it reports them
+}
+
+export interface AIProvider {
+    id: AIProviderId;
+    label: string;
+    defaultModel: string;
+    /** Null when usable, otherwise why not (e.g. a missing API key). */
+    unavailableReason(): string | null;
+    generate(request: GenerateRequest): Promise<GenerateResult>;
+}
+
+export class ProviderError extends Error {
+    constructor(message: string, public status = 502) {
+        super(message);
+        this.name = 'ProviderError';
+    }
+}
@@ -0,0 +1,30 @@
+import type { GenerativeModel } from '@google-cloud/vertexai';
+import type { AIProvider } from './types';
+
+// Gemini on Vertex AI. The model factory comes from the server so every route shares
+// one set of safety settings.
+const DEFAULT_MODEL = 'gemini-2.0-flash';
+
+export const createVertexProvider = (projectId: string, getModel: (modelName: string) => GenerativeModel): AIProvider => ({
+    id: 'vertex',
+    label: 'Vertex AI Gemini',
+    defaultModel: DEFAULT_MODEL,
+
+    unavailableReason: () => (projectId ? null : 'GCP_PROJECT_ID is not configured'),
+
+    async generate({ prompt, model = DEFAULT_MODEL, json, schema, temperature, system, history = [] }) {
+        const result = await getModel(model).generateContent({
+            contents: [
+                ...history.map(turn => ({ role: turn.role, parts: [{ text: turn.text }] })),
+                { role: 'user', parts: [{ text: prompt }] },
+            ],
+            systemInstruction: system ? { role: 'user', parts: [{ text: system }] } : undefined,
+            generationConfig: {
+                ...(json ? { responseMimeType: 'application/json', responseSchema: schema } : {}),
+                temperature,
+            },
+        });
+        const text = result.response.candidates?.[0]?.content?.parts?.[0]?.text || '';
+        return { text, provider: 'vertex', model };
+    },
+});
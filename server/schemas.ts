@@ -0,0 +1,216 @@
+import { ResponseSchema, SchemaType } from '@google-cloud/vertexai';
+import type {
+    ArchiveSearchResult, ClipAnalysis, ExpertSuggestion, GeneratedScriptPart, InterviewPlanDraft,
+    ResearchBrief, SeriesStructure, StyleAnalysis,
+} from '../types';
+
+// ========== Response Schemas ==========
+// One schema per structured AI answer. Vertex receives it as responseSchema so Gemini emits
+// the right shape; every provider's answer is then checked against it before a route uses it.
+// The type parameter ties a schema to the contract in types.ts it produces.
+
+export interface TypedSchema<T> extends ResponseSchema {
+    readonly __output?: T; // Compile-time only
+}
+
+const str = (description?: string): ResponseSchema => ({ type: SchemaType.STRING, description });
+const num = (description?: string): ResponseSchema => ({ type: SchemaType.NUMBER, description });
+const strEnum = (values: string[]): ResponseSchema => ({ type: SchemaType.STRING, enum: values });
+const arr = (items: ResponseSchema, description?: string): ResponseSchema => ({ type: SchemaType.ARRAY, items, description });
+const obj = (properties: Record<string, ResponseSchema>, optional: string[] = []): ResponseSchema => ({
+    type: SchemaType.OBJECT,
+    properties,
+    required: Object.keys(properties).filter(key => !optional.includes(key)),
+});
+const typed = <T>(schema: ResponseSchema) => schema as TypedSchema<T>;
+
+// ---------- Validation ----------
+
+/**
+ * Checks a parsed value against a schema. Returns one message per problem
+ * (e.g. "$.scenes[0].beats: expected array"), empty when the value conforms.
+ */
+export const validateSchema = (schema: ResponseSchema, value: unknown, at = '$'): string[] => {
+    if (value === null || value === undefined) {
+        return schema.nullable ? [] : [`${at}: missing`];
+    }
+    switch (schema.type) {
+        case SchemaType.STRING:
+            if (typeof value !== 'string') return [`${at}: expected string`];
+            return schema.enum && !schema.enum.includes(value) ? [`${at}: must be one of ${schema.enum.join(', ')}`] : [];
+        case SchemaType.NUMBER:
+            return typeof value === 'number' && Number.isFinite(value) ? [] : [`${at}: expected number`];
+        case SchemaType.INTEGER:
+            return Number.isInteger(value) ? [] : [`${at}: expected integer`];
+        case SchemaType.BOOLEAN:
+            return typeof value === 'boolean' ? [] : [`${at}: expected boolean`];
+        case SchemaType.ARRAY:
+            if (!Array.isArray(value)) return [`${at}: expected array`];
+            return schema.items ? value.flatMap((item, i) => validateSchema(schema.items!, item, `${at}[${i}]`)) : [];
+        case SchemaType.OBJECT: {
+            if (typeof value !== 'object' || Array.isArray(value)) return [`${at}: expected object`];
+            const record = value as Record<string, unknown>;
+            return Object.entries(schema.properties || {}).flatMap(([key, property]) => {
+                if (record[key] === undefined || record[key] === null) {
+                    return schema.required?.includes(key) ? [`${at}.${key}: missing`] : [];
+                }
+                return validateSchema(property, record[key], `${at}.${key}`);
+            });
+        }
+        default:
+            return [];
+    }
+};
+
+// ---------- Route Schemas ----------
+
+export const RESEARCH_BRIEF_SCHEMA = typed<ResearchBrief>(obj({
+    summary: str(),
+    key_facts: arr(str()),
+    expert_suggestions: arr(str()),
+}));
+
+const outlineItem = obj({
+    title: str(),
+    research_focus: str(),
+    suggested_engine: strEnum(['vertex_ai', 'google_deep_research', 'perplexity', 'gemini_pro']),
+});
+
+export const SERIES_STRUCTURE_SCHEMA = typed<SeriesStructure>(obj({
+    episodes: arr(outlineItem),
+    themes: arr(outlineItem),
+}));
+
+export const ARCHIVE_SEARCH_SCHEMA = typed<ArchiveSearchResult[]>(arr(obj({
+    title: str(),
+    duration_seconds: num(),
+    visual_description: str(),
+    archive_source: str(),
+    category: str(),
+    year_range: str(),
+    quality: str(),
+}, ['year_range', 'quality'])));
+
+export const CLIP_ANALYSIS_SCHEMA = typed<ClipAnalysis>(obj({
+    visual_description: str(),
+    mood: str(),
+    quality_score: num('0-100'),
+}));
+
+export const SCRIPT_SCHEMA = typed<GeneratedScriptPart[]>(arr(obj({
+    title: str(),
+    scenes: arr(obj({
+        title: str(),
+        beats: arr(obj({
+            type: strEnum(['voice_over', 'expert', 'archive', 'ai_visual', 'title']),
+            content: str(),
+            speaker: str(),
+            duration_seconds: num(),
+        }, ['speaker'])),
+    })),
+})));
+
+export const EXPERTS_SCHEMA = typed<ExpertSuggestion[]>(arr(obj({
+    name: str(),
+    title: str(),
+    relevance: str(),
+    affiliation: str(),
+    relevance_score: num('0.0-1.0'),
+})));
+
+export const INTERVIEW_PLAN_SCHEMA = typed<InterviewPlanDraft>(obj({
+    ideal_soundbite: str(),
+    questions: arr(str()),
+}));
+
+export const STYLE_ANALYSIS_SCHEMA = typed<StyleAnalysis>(obj({
+    tone: str(),
+    pacing: str(),
+    structure: str(),
+    visual_style: str(),
+    narrative_voice: str(),
+}, ['visual_style', 'narrative_voice']));
+
+export interface SourceAnalysisFields {
+    title?: string;
+    summary: string;
+    key_topics: string[];
+    key_facts: string[];
+    content_type?: string;
+    suggested_questions: string[];
+}
+
+export interface DocumentNotes {
+    summary: string;
+    key_topics: string[];
+    key_facts: string[];
+    key_quotes?: string[];
+    people_mentioned?: { name: string; role?: string; relevance?: string }[];
+    timeline_events?: { date: string; event: string }[];
+}
+
+export interface DocumentAnalysisFields extends DocumentNotes, SourceAnalysisFields {
+    reliability_assessment?: string;
+    cross_reference_suggestions?: string[];
+}
+
+export const SOURCE_ANALYSIS_SCHEMA = typed<SourceAnalysisFields>(obj({
+    title: str(),
+    summary: str(),
+    key_topics: arr(str()),
+    key_facts: arr(str()),
+    content_type: str(),
+    suggested_questions: arr(str()),
+}, ['title', 'content_type']));
+
+const person = obj({ name: str(), role: str(), relevance: str() }, ['role', 'relevance']);
+const timelineEvent = obj({ date: str(), event: str() });
+
+// Notes on one part of a long document, merged afterwards
+export const DOCUMENT_PART_SCHEMA = typed<DocumentNotes>(obj({
+    summary: str(),
+    key_topics: arr(str()),
+    key_facts: arr(str()),
+    key_quotes: arr(str()),
+    people_mentioned: arr(person),
+    timeline_events: arr(timelineEvent),
+}, ['key_quotes', 'people_mentioned', 'timeline_events']));
+
+export const DOCUMENT_ANALYSIS_SCHEMA = typed<DocumentAnalysisFields>(obj({
+    title: str(),
+    summary: str(),
+    key_topics: arr(str()),
+    key_facts: arr(str()),
+    key_quotes: arr(str()),
+    people_mentioned: arr(person),
+    timeline_events: arr(timelineEvent),
+    content_type: str(),
+    reliability_assessment: str(),
+    suggested_questions: arr(str()),
+    cross_reference_suggestions: arr(str()),
+}, ['title', 'key_quotes', 'people_mentioned', 'timeline_events', 'content_type', 'reliability_assessment', 'cross_reference_suggestions']));
+
+export interface QueryAnswer {
+    response: string;
+    key_facts: unknown[]; // Strings, or { fact, passage, quote } when passages were retrieved
+    source_citations: { passage?: string; source_title?: string; relevant_info?: string }[];
+    follow_up_questions: string[];
+    confidence_level?: 'high' | 'medium' | 'low';
+    contradictions?: string[];
+    gaps?: string[];
+}
+
+/** The query answer's shape depends on whether passages were retrieved and on deep research mode. */
+export const queryAnswerSchema = (withPassages: boolean, deep: boolean) => typed<QueryAnswer>(obj({
+    response: str(),
+    key_facts: arr(withPassages ? obj({ fact: str(), passage: str(), quote: str() }, ['quote']) : str()),
+    source_citations: arr(withPassages
+        ? obj({ passage: str(), relevant_info: str() }, ['relevant_info'])
+        : obj({ source_title: str(), relevant_info: str() }, ['relevant_info'])),
+    follow_up_questions: arr(str()),
+    ...(deep ? {
+        confidence_level: strEnum(['high', 'medium', 'low']),
+        contradictions: arr(str()),
+        gaps: arr(str()),
+    } : {}),
+}, ['confidence_level', 'contradictions', 'gaps']));
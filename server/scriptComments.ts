@@ -0,0 +1,126 @@
+import { randomUUID } from 'crypto';
+import type {
+    AuthUser, CommentAnchor, DocumentaryScript, ScriptComment, ScriptCommentThread, UserRole,
+} from '../types';
+import { COMMENT_MAX_LENGTH, findBeat } from '../lib/scriptComments';
+import type { CollabHub } from './collab';
+import type { DataStore, StoredRecord } from './store';
+
+// ========== Script Comments ==========
+// Comment threads in the script_comments collection (see lib/scriptComments.ts). Commenting
+// isn't editing: it takes no lock, and approved scripts can still be commented on. Writes queue
+// behind the project's other script writes so replies to the same thread don't overwrite
+// each other. Routes in index.ts send the notifications.
+
+export class CommentError extends Error {
+    constructor(message: string, public status = 400) {
+        super(message);
+    }
+}
+
+type StoredThread = ScriptCommentThread & StoredRecord;
+
+/** What a browser sends for a new comment; mentions are user ids it picked from the team. */
+export interface CommentInput {
+    body: unknown;
+    mentions?: unknown;
+}
+
+const MAX_MENTIONS = 20;
+
+const anchorOf = (input: any): CommentAnchor | null => {
+    if (input === undefined || input === null) return null;
+    const { index, length, quote } = input;
+    if (!Number.isInteger(index) || index < 0 || !Number.isInteger(length) || length <= 0 || typeof quote !== 'string' || !quote.trim()) {
+        throw new CommentError('An anchor needs a text index, a length and the quoted text');
+    }
+    return { index, length, quote: quote.slice(0, COMMENT_MAX_LENGTH) };
+};
+
+export const createScriptComments = (store: DataStore, collab: CollabHub) => {
+    const threadsOf = async (projectId: string, scriptId: string) =>
+        (await store.list<StoredThread>('script_comments', projectId))
+            .filter(t => t.script_id === scriptId)
+            .sort((a, b) => a.created_at.localeCompare(b.created_at));
+
+    const threadOf = async (projectId: string, scriptId: string, threadId: string) => {
+        const thread = (await threadsOf(projectId, scriptId)).find(t => t.id === threadId);
+        if (!thread) throw new CommentError('Comment thread not found', 404);
+        return thread;
+    };
+
+    const comment = (user: AuthUser, role: UserRole, input: CommentInput): ScriptComment => {
+        const body = typeof input.body === 'string' ? input.body.trim() : '';
+        if (!body) throw new CommentError('A comment needs some text');
+        if (body.length > COMMENT_MAX_LENGTH) throw new CommentError(`Comments are limited to ${COMMENT_MAX_LENGTH} characters`);
+        const mentions = Array.isArray(input.mentions)
+            ? [...new Set(input.mentions.filter((id): id is string => typeof id === 'string' && id !== user.id))].slice(0, MAX_MENTIONS)
+            : [];
+        return {
+            id: randomUUID(),
+            user_id: user.id,
+            username: user.name || user.email || user.id,
+            role,
+            body,
+            mentions,
+            created_at: new Date().toISOString(),
+        };
+    };
+
+    return {
+        /** Oldest first. */
+        list: threadsOf,
+
+        /** Starts a thread on a beat of the script, or on a range of its text. */
+        open(script: DocumentaryScript, user: AuthUser, role: UserRole, input: CommentInput & { beat_id?: unknown; anchor?: unknown }) {
+            return collab.serialize(script.project_id, async () => {
+                if (typeof input.beat_id !== 'string' || !findBeat(script, input.beat_id)) {
+                    throw new CommentError('That beat is not in the script');
+                }
+                const first = comment(user, role, input);
+                const thread: StoredThread = {
+                    id: randomUUID(),
+                    project_id: script.project_id,
+                    script_id: script.id,
+                    beat_id: input.beat_id,
+                    anchor: anchorOf(input.anchor),
+                    status: 'open',
+                    comments: [first],
+                    created_at: first.created_at,
+                };
+                return store.upsert('script_comments', thread);
+            });
+        },
+
+        /** Adds a reply; replying to a resolved thread reopens it. */
+        reply(projectId: string, scriptId: string, threadId: string, user: AuthUser, role: UserRole, input: CommentInput) {
+            return collab.serialize(projectId, async () => {
+                const thread = await threadOf(projectId, scriptId, threadId);
+                const next: StoredThread = {
+                    ...thread,
+                    status: 'open',
+                    resolved_at: null,
+                    resolved_by_name: null,
+                    comments: [...thread.comments, comment(user, role, input)],
+                };
+                return store.upsert('script_comments', next);
+            });
+        },
+
+        setStatus(projectId: string, scriptId: string, threadId: string, user: AuthUser, status: ScriptCommentThread['status']) {
+            return collab.serialize(projectId, async () => {
+                const thread = await threadOf(projectId, scriptId, threadId);
+                if (thread.status === status) return thread;
+                const resolved = status === 'resolved';
+                return store.upsert('script_comments', {
+                    ...thread,
+                    status,
+                    resolved_at: resolved ? new Date().toISOString() : null,
+                    resolved_by_name: resolved ? user.name || user.email || user.id : null,
+                });
+            });
+        },
+    };
+};
+
+export type ScriptComments = ReturnType<typeof createScriptComments>;
@@ -0,0 +1,107 @@
+import { randomUUID } from 'crypto';
+import type {
+    AuthUser, DocumentaryProject, DocumentaryScript, ProjectCollection, ScriptReviewAction, ScriptReviewEvent, UserRole,
+} from '../types';
+import { SCRIPT_ACTIONS, isScriptReadOnly, scriptActionDenial, scriptReadOnlyReason } from '../lib/scriptReview';
+import type { CollabHub } from './collab';
+import type { ScriptVersions } from './scriptVersions';
+import type { DataStore, StoredRecord } from './store';
+
+// ========== Script Approval ==========
+// Applies the workflow in lib/scriptReview.ts. A script's status, review history and approved
+// version only change here: saves of the scripts collection keep the stored ones, and keep the
+// stored content of approved and archived scripts, which can't be deleted either. Approving versions the script, and that
+// version is what the interview and voice-over phases work from.
+
+export class ScriptReviewError extends Error {
+    constructor(message: string, public status = 400) {
+        super(message);
+    }
+}
+
+type StoredScript = DocumentaryScript & StoredRecord;
+
+/** Puts back the review state (and the content of read-only scripts) that a collection save would change. */
+export const keepReviewState = (collection: ProjectCollection, before: StoredRecord[], after: StoredRecord[]): StoredRecord[] => {
+    if (collection !== 'scripts') return after;
+    return after.map(record => {
+        const { review_history, approved_version_id, ...incoming } = record as StoredScript;
+        const stored = before.find(b => b.id === record.id) as StoredScript | undefined;
+        if (!stored) return { ...incoming, status: 'draft' };
+        const kept: StoredScript = {
+            ...incoming,
+            status: stored.status,
+            review_history: stored.review_history,
+            approved_version_id: stored.approved_version_id,
+        };
+        return isScriptReadOnly(stored)
+            ? { ...kept, parts: stored.parts, estimated_duration_minutes: stored.estimated_duration_minutes }
+            : kept;
+    });
+};
+
+/** Throws a 409 when a write to the scripts collection would delete an approved or archived script. */
+export const assertReadOnlyScriptsKept = (collection: ProjectCollection, before: StoredRecord[], after: StoredRecord[]) => {
+    if (collection !== 'scripts') return;
+    const ids = new Set(after.map(record => record.id));
+    const removed = (before as StoredScript[]).find(script => !ids.has(script.id) && isScriptReadOnly(script));
+    if (removed) throw new ScriptReviewError(scriptReadOnlyReason(removed)!, 409);
+};
+
+export const createScriptReview = (store: DataStore, collab: CollabHub, versions: ScriptVersions) => {
+    const storedScript = async (projectId: string, scriptId: string) =>
+        (await store.list<StoredScript>('scripts', projectId)).find(s => s.id === scriptId) || null;
+
+    return {
+        /** Throws a 409 when the script is approved or archived. */
+        async assertEditable(projectId: string, scriptId: string) {
+            const script = await storedScript(projectId, scriptId);
+            if (script && isScriptReadOnly(script)) throw new ScriptReviewError(scriptReadOnlyReason(script)!, 409);
+        },
+
+        /**
+         * Takes a workflow action on the script. Callers check the action's permission first;
+         * this checks the script's status and the comment. Resolves to the saved script and the event.
+         */
+        transition(
+            projectId: string,
+            scriptId: string,
+            user: AuthUser,
+            role: UserRole,
+            project: DocumentaryProject,
+            action: ScriptReviewAction,
+            comment?: string
+        ) {
+            return collab.serialize(projectId, async () => {
+                const stored = await storedScript(projectId, scriptId);
+                if (!stored) throw new ScriptReviewError('Script not found', 404);
+                const [script] = await collab.withLiveText(projectId, [stored]);
+                const rule = SCRIPT_ACTIONS[action];
+                const denial = scriptActionDenial(script, action, role, project);
+                if (denial) throw new ScriptReviewError(denial, 409);
+                if (rule.commentRequired && !comment) throw new ScriptReviewError(`Say why when you ${rule.label.toLowerCase()}`, 400);
+
+                const event: ScriptReviewEvent = {
+                    id: randomUUID(),
+                    action,
+                    from: script.status,
+                    to: rule.to,
+                    ...(comment ? { comment } : {}),
+                    user_id: user.id,
+                    username: user.name || user.email || user.id,
+                    at: new Date().toISOString(),
+                };
+                const approved = action === 'approve' ? await versions.snapshot(script, [user], 'approved', { note: comment }) : null;
+                const next: StoredScript = {
+                    ...script,
+                    status: rule.to,
+                    review_history: [...(script.review_history || []), event],
+                    approved_version_id: approved ? approved.id : script.approved_version_id ?? null,
+                };
+                return { script: await store.upsert('scripts', next), event };
+            });
+        },
+    };
+};
+
+export type ScriptReview = ReturnType<typeof createScriptReview>;
@@ -0,0 +1,136 @@
+import { randomUUID } from 'crypto';
+import type { AuthUser, DocumentaryScript, ScriptSuggestion, SuggestionDecision } from '../types';
+import { findBeat } from '../lib/scriptComments';
+import { hunkCount, suggestionStatus } from '../lib/suggestions';
+import type { CollabHub } from './collab';
+import type { DataStore, StoredRecord } from './store';
+
+// ========== Suggested Changes ==========
+// Tracked-change suggestions in the script_suggestions collection (see lib/suggestions.ts).
+// The browser applies accepted hunks to the beat through the shared document like any other
+// edit; this records the suggestion, its alternatives and the decision on each hunk.
+
+export class SuggestionError extends Error {
+    constructor(message: string, public status = 400) {
+        super(message);
+    }
+}
+
+type StoredSuggestion = ScriptSuggestion & StoredRecord;
+
+export const MAX_ALTERNATIVES = 3;
+
+/** What a browser sends: one proposal from suggest mode, or up to three AI alternatives. */
+export interface SuggestionInput {
+    beat_id?: unknown;
+    source?: unknown;
+    instruction?: unknown;
+    base?: unknown;
+    proposals?: unknown;
+}
+
+const isDecision = (value: unknown): value is SuggestionDecision => value === 'accepted' || value === 'rejected' || value === null;
+
+export const createScriptSuggestions = (store: DataStore, collab: CollabHub) => {
+    const suggestionsOf = async (projectId: string, scriptId: string) =>
+        (await store.list<StoredSuggestion>('script_suggestions', projectId))
+            .filter(s => s.script_id === scriptId)
+            .sort((a, b) => a.created_at.localeCompare(b.created_at) || a.alternative - b.alternative);
+
+    const pendingOf = async (projectId: string, scriptId: string, suggestionId: string) => {
+        const suggestion = (await suggestionsOf(projectId, scriptId)).find(s => s.id === suggestionId);
+        if (!suggestion) throw new SuggestionError('Suggestion not found', 404);
+        if (suggestion.status !== 'pending') throw new SuggestionError(`This suggestion has already been ${suggestion.status}`, 409);
+        return suggestion;
+    };
+
+    return {
+        /** Oldest first, alternatives in order. */
+        list: suggestionsOf,
+
+        /** Records the proposals for a beat as one group; proposals that change nothing are dropped. */
+        propose(script: DocumentaryScript, user: AuthUser, input: SuggestionInput) {
+            return collab.serialize(script.project_id, async () => {
+                if (typeof input.beat_id !== 'string' || !findBeat(script, input.beat_id)) throw new SuggestionError('That beat is not in the script');
+                if (input.source !== 'ai' && input.source !== 'human') throw new SuggestionError('source must be "ai" or "human"');
+                if (typeof input.base !== 'string') throw new SuggestionError('A suggestion needs the text it was made against');
+                const base = input.base;
+                const proposals = Array.isArray(input.proposals) ? input.proposals.filter((p): p is string => typeof p === 'string') : [];
+                if (proposals.length === 0 || proposals.length > MAX_ALTERNATIVES) {
+                    throw new SuggestionError(`Send between 1 and ${MAX_ALTERNATIVES} proposals`);
+                }
+                const changing = [...new Set(proposals)].filter(proposed => hunkCount({ base, proposed }) > 0);
+                if (changing.length === 0) throw new SuggestionError("The suggestion doesn't change the beat");
+
+                const groupId = randomUUID();
+                const now = new Date().toISOString();
+                const instruction = input.source === 'ai' && typeof input.instruction === 'string' ? input.instruction.trim() : '';
+                const created: StoredSuggestion[] = [];
+                for (const [i, proposed] of changing.entries()) {
+                    created.push(await store.upsert<StoredSuggestion>('script_suggestions', {
+                        id: randomUUID(),
+                        project_id: script.project_id,
+                        script_id: script.id,
+                        beat_id: input.beat_id,
+                        source: input.source,
+                        ...(instruction ? { instruction } : {}),
+                        group_id: groupId,
+                        alternative: i + 1,
+                        base,
+                        proposed,
+                        decisions: new Array(hunkCount({ base, proposed })).fill(null),
+                        status: 'pending',
+                        created_at: now,
+                        created_by: user.id,
+                        created_by_name: user.name || user.email || user.id,
+                    }));
+                }
+                return created;
+            });
+        },
+
+        /**
+         * Records a decision per hunk. Accepting any hunk sets the other alternatives aside.
+         * Resolves to every suggestion that changed.
+         */
+        decide(projectId: string, scriptId: string, suggestionId: string, decisions: unknown) {
+            return collab.serialize(projectId, async () => {
+                const suggestion = await pendingOf(projectId, scriptId, suggestionId);
+                const hunks = hunkCount(suggestion);
+                if (!Array.isArray(decisions) || decisions.length !== hunks || !decisions.every(isDecision)) {
+                    throw new SuggestionError(`Send one decision ("accepted", "rejected" or null) for each of the ${hunks} changes`);
+                }
+                const status = suggestionStatus(decisions, hunks);
+                const now = new Date().toISOString();
+                const changed = [await store.upsert<StoredSuggestion>('script_suggestions', {
+                    ...suggestion,
+                    decisions,
+                    status,
+                    resolved_at: status === 'pending' ? null : now,
+                })];
+                if (decisions.includes('accepted')) {
+                    const siblings = (await suggestionsOf(projectId, scriptId))
+                        .filter(s => s.group_id === suggestion.group_id && s.id !== suggestion.id && s.status === 'pending');
+                    for (const sibling of siblings) {
+                        changed.push(await store.upsert<StoredSuggestion>('script_suggestions', { ...sibling, status: 'superseded', resolved_at: now }));
+                    }
+                }
+                return changed;
+            });
+        },
+
+        /** Rejects the suggestion as a whole, e.g. when the beat has changed under it. */
+        dismiss(projectId: string, scriptId: string, suggestionId: string) {
+            return collab.serialize(projectId, async () => {
+                const suggestion = await pendingOf(projectId, scriptId, suggestionId);
+                return [await store.upsert<StoredSuggestion>('script_suggestions', {
+                    ...suggestion,
+                    status: 'rejected',
+                    resolved_at: new Date().toISOString(),
+                })];
+            });
+        },
+    };
+};
+
+export type ScriptSuggestions = ReturnType<typeof createScriptSuggestions>;
@@ -0,0 +1,197 @@
+import { randomUUID } from 'crypto';
+import type { AuthUser, DocumentaryScript, ScriptPart, ScriptVersion, ScriptVersionReason } from '../types';
+import type { CollabHub } from './collab';
+import type { DataStore, StoredRecord } from './store';
+import { isScriptReadOnly, scriptReadOnlyReason } from '../lib/scriptReview';
+
+// ========== Script Version History ==========
+// Snapshots of a script's parts in the script_versions collection. Regenerations, AI rewrites,
+// restores, cherry-picks and "Save Version" always take one; ordinary saves (structure saves
+// and beat text written back from the shared document) are checkpointed, folding into the
+// latest autosave for a while so typing doesn't flood the history. Snapshots include text
+// still in open documents, and restores push their text into them. Approved scripts can't be
+// replaced or restored (lib/scriptReview.ts).
+
+export class VersionError extends Error {
+    constructor(message: string, public status = 400) {
+        super(message);
+    }
+}
+
+export interface VersionOptions {
+    checkpointIntervalMs?: number;
+}
+
+const DEFAULT_CHECKPOINT_INTERVAL_MS = 10 * 60 * 1000;
+
+type StoredVersion = ScriptVersion & StoredRecord;
+type StoredScript = DocumentaryScript & StoredRecord;
+
+// "Generating B-roll" is a moment in the UI, not part of the script
+const settled = (parts: ScriptPart[]): ScriptPart[] => parts.map(part => ({
+    ...part,
+    scenes: part.scenes.map(scene => ({
+        ...scene,
+        beats: scene.beats.map(({ is_generating_visual, ...beat }) => beat),
+    })),
+}));
+
+const sameParts = (a: ScriptPart[], b: ScriptPart[]) => JSON.stringify(settled(a)) === JSON.stringify(settled(b));
+
+const authorNames = (authors: AuthUser[]) => authors.map(a => a.name || a.email || a.id);
+
+/** The details a browser may attach to a version it records. */
+export interface VersionDetails {
+    note?: string;
+    milestone?: string;
+    // Regenerations send the new parts; they replace the script's before the snapshot is taken
+    parts?: ScriptPart[];
+    estimated_duration_minutes?: number;
+}
+
+export const createScriptVersions = (store: DataStore, collab: CollabHub, options: VersionOptions = {}) => {
+    const checkpointInterval = options.checkpointIntervalMs ?? DEFAULT_CHECKPOINT_INTERVAL_MS;
+
+    const versionsOf = async (projectId: string, scriptId: string) =>
+        (await store.list<StoredVersion>('script_versions', projectId))
+            .filter(v => v.script_id === scriptId)
+            .sort((a, b) => b.version - a.version);
+
+    const versionOf = async (projectId: string, scriptId: string, versionId: string) => {
+        const version = (await versionsOf(projectId, scriptId)).find(v => v.id === versionId);
+        if (!version) throw new VersionError('Version not found', 404);
+        return version;
+    };
+
+    // The stored script with the beat text of its open document, if any
+    const liveScript = async (projectId: string, scriptId: string) => {
+        const script = (await store.list<StoredScript>('scripts', projectId)).find(s => s.id === scriptId);
+        return script ? (await collab.withLiveText(projectId, [script]))[0] : null;
+    };
+
+    const requireScript = async (projectId: string, scriptId: string) => {
+        const script = await liveScript(projectId, scriptId);
+        if (!script) throw new VersionError('Script not found', 404);
+        return script;
+    };
+
+    const apply = async (projectId: string, script: StoredScript, parts: ScriptPart[], estimatedMinutes?: number) => {
+        if (isScriptReadOnly(script)) throw new VersionError(scriptReadOnlyReason(script)!, 409);
+        const next = { ...script, parts, estimated_duration_minutes: estimatedMinutes ?? script.estimated_duration_minutes };
+        await collab.setText(projectId, next);
+        return store.upsert('scripts', next);
+    };
+
+    // Callers hold the project's script queue (collab.serialize)
+    const snapshot = async (
+        script: StoredScript,
+        authors: AuthUser[],
+        reason: ScriptVersionReason,
+        details: Pick<ScriptVersion, 'note' | 'milestone'> = {}
+    ) => {
+        const [latest] = await versionsOf(script.project_id, script.id);
+        const version: StoredVersion = {
+            id: randomUUID(),
+            project_id: script.project_id,
+            script_id: script.id,
+            version: (latest?.version || 0) + 1,
+            reason,
+            ...(details.note ? { note: details.note } : {}),
+            ...(details.milestone ? { milestone: details.milestone } : {}),
+            parts: settled(script.parts),
+            estimated_duration_minutes: script.estimated_duration_minutes,
+            created_at: new Date().toISOString(),
+            created_by: authors[0]?.id,
+            created_by_name: authorNames(authors).join(', ') || undefined,
+        };
+        return store.upsert('script_versions', version);
+    };
+
+    return {
+        /** The script's versions, newest first. */
+        list: versionsOf,
+
+        get: versionOf,
+
+        /** Versions the script as it is. Only for callers already holding the project's script queue. */
+        snapshot,
+
+        /**
+         * Versions the script if it changed since its latest version. A first version counts as
+         * generated; later ones fold into a recent unnamed autosave instead of adding another.
+         */
+        checkpoint(projectId: string, scriptId: string, authors: AuthUser[]) {
+            return collab.serialize(projectId, async () => {
+                const script = await liveScript(projectId, scriptId);
+                if (!script) return null;
+                const [latest] = await versionsOf(projectId, scriptId);
+                if (latest && sameParts(latest.parts, script.parts)) return null;
+                if (latest?.reason === 'saved' && !latest.milestone && Date.now() - Date.parse(latest.created_at) < checkpointInterval) {
+                    const names = new Set([...(latest.created_by_name?.split(', ') || []), ...authorNames(authors)]);
+                    return store.upsert('script_versions', {
+                        ...latest,
+                        parts: settled(script.parts),
+                        estimated_duration_minutes: script.estimated_duration_minutes,
+                        created_by_name: [...names].join(', '),
+                    });
+                }
+                return snapshot(script, authors, latest ? 'saved' : 'generated');
+            });
+        },
+
+        /** Takes a version now, first replacing the script's parts when `details.parts` is given. */
+        record(projectId: string, scriptId: string, user: AuthUser, reason: ScriptVersionReason, details: VersionDetails = {}) {
+            return collab.serialize(projectId, async () => {
+                let script = await requireScript(projectId, scriptId);
+                if (details.parts) script = await apply(projectId, script, details.parts, details.estimated_duration_minutes);
+                return snapshot(script, [user], reason, details);
+            });
+        },
+
+        /** Names a version ("Locked for legal"), or clears the name with an empty one. */
+        async name(projectId: string, scriptId: string, versionId: string, milestone: string) {
+            const version = await versionOf(projectId, scriptId, versionId);
+            return store.upsert('script_versions', { ...version, milestone: milestone.trim() || null });
+        },
+
+        /** Puts the whole script back the way it was in a version, and versions the result. */
+        restore(projectId: string, scriptId: string, versionId: string, user: AuthUser) {
+            return collab.serialize(projectId, async () => {
+                const version = await versionOf(projectId, scriptId, versionId);
+                const script = await apply(projectId, await requireScript(projectId, scriptId), version.parts, version.estimated_duration_minutes);
+                return snapshot(script, [user], 'restored', { note: `Restored version ${version.version}` });
+            });
+        },
+
+        /**
+         * Brings one scene back from a version: it replaces the scene with the same id, or goes
+         * back into its part where it used to be when it has since been deleted.
+         */
+        cherryPick(projectId: string, scriptId: string, versionId: string, sceneId: string, user: AuthUser) {
+            return collab.serialize(projectId, async () => {
+                const version = await versionOf(projectId, scriptId, versionId);
+                const sourcePartIndex = version.parts.findIndex(p => p.scenes.some(s => s.id === sceneId));
+                if (sourcePartIndex < 0) throw new VersionError('That scene is not in this version', 404);
+                const sourcePart = version.parts[sourcePartIndex];
+                const sceneIndex = sourcePart.scenes.findIndex(s => s.id === sceneId);
+                const scene = sourcePart.scenes[sceneIndex];
+
+                const script = await requireScript(projectId, scriptId);
+                let parts = script.parts.map(part => ({ ...part, scenes: part.scenes.map(s => (s.id === sceneId ? scene : s)) }));
+                if (!parts.some(part => part.scenes.some(s => s.id === sceneId))) {
+                    const target = parts.find(p => p.id === sourcePart.id);
+                    if (target) {
+                        target.scenes.splice(Math.min(sceneIndex, target.scenes.length), 0, scene);
+                    } else {
+                        parts.splice(Math.min(sourcePartIndex, parts.length), 0, { ...sourcePart, scenes: [scene] });
+                    }
+                    parts = parts.map((part, p) => ({ ...part, part_number: p + 1, scenes: part.scenes.map((s, i) => ({ ...s, scene_number: i + 1 })) }));
+                }
+                const next = await apply(projectId, script, parts);
+                return snapshot(next, [user], 'cherry_pick', { note: `"${scene.title}" from version ${version.version}` });
+            });
+        },
+    };
+};
+
+export type ScriptVersions = ReturnType<typeof createScriptVersions>;
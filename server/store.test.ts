@@ -0,0 +1,26 @@
+import { after, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { createFileStore } from './store';
+
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'store-test-'));
+after(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+describe('file store', () => {
+    test('keep writing after a write fails', async () => {
+        const filePath = path.join(dir, 'store.json');
+        const store = createFileStore(filePath);
+        const record = { id: 'r1', project_id: 'p1' };
+
+        // A directory where the temp file goes makes the write fail
+        fs.mkdirSync(`${filePath}.tmp`);
+        await assert.rejects(store.upsert('scripts', record));
+        fs.rmdirSync(`${filePath}.tmp`);
+
+        await store.upsert('scripts', { ...record, id: 'r2' });
+        const saved = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+        assert.deepEqual(Object.keys(saved.collections.scripts.p1), ['r1', 'r2']);
+    });
+});
@@ -0,0 +1,216 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { randomUUID } from 'crypto';
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import type { DocumentaryProject, ProjectCollection } from '../types';
+import type { TeamMembership } from './auth';
+import { createSupabaseData, ProjectTable } from '../lib/supabase';
+
+// ========== Data Store ==========
+// Persists the project graph (projects plus their per-project collections).
+// The file store keeps everything in a single JSON document for local development;
+// the Supabase store writes to the tables defined in supabase/migrations via lib/supabase.
+
+export const PROJECT_COLLECTIONS: ProjectCollection[] = [
+    'notebooks',
+    'knowledge_assets',
+    'research_sources',
+    'research_queries',
+    'archive_folders',
+    'archive_clips',
+    'scripts',
+    'script_versions',
+    'script_comments',
+    'script_suggestions',
+    'interview_plans',
+    'voice_overs',
+    'timeline_items',
+];
+
+export const isProjectCollection = (name: string): name is ProjectCollection =>
+    (PROJECT_COLLECTIONS as string[]).includes(name);
+
+export interface StoredRecord {
+    id: string;
+    project_id: string;
+}
+
+export interface DataStore {
+    readonly kind: 'file' | 'supabase';
+    listProjects(): Promise<DocumentaryProject[]>;
+    getProject(id: string): Promise<DocumentaryProject | null>;
+    saveProject(project: DocumentaryProject): Promise<DocumentaryProject>;
+    deleteProject(id: string): Promise<void>;
+    /** Teams the user belongs to, for access to team-shared projects. */
+    listTeamMemberships(userId: string): Promise<TeamMembership[]>;
+    list<T extends StoredRecord>(collection: ProjectCollection, projectId: string): Promise<T[]>;
+    upsert<T extends StoredRecord>(collection: ProjectCollection, record: T): Promise<T>;
+    remove(collection: ProjectCollection, projectId: string, id: string): Promise<void>;
+    replace<T extends StoredRecord>(collection: ProjectCollection, projectId: string, records: T[]): Promise<T[]>;
+}
+
+export const newProjectId = () => randomUUID();
+
+// Local state (file store, vector index) lives here
+export const dataDir = () => process.env.DATA_DIR || path.join(process.cwd(), '.data');
+
+// ---------- File Store ----------
+
+interface FileStoreData {
+    projects: Record<string, DocumentaryProject>;
+    // collection -> project id -> record id -> record
+    collections: Partial<Record<ProjectCollection, Record<string, Record<string, StoredRecord>>>>;
+}
+
+export const createFileStore = (filePath: string): DataStore => {
+    let data: FileStoreData | null = null;
+    let writeQueue: Promise<void> = Promise.resolve();
+
+    const load = async (): Promise<FileStoreData> => {
+        if (data) return data;
+        try {
+            data = JSON.parse(await fs.readFile(filePath, 'utf8')) as FileStoreData;
+        } catch (error: any) {
+            if (error.code !== 'ENOENT') throw error;
+            data = { projects: {}, collections: {} };
+        }
+        return data;
+    };
+
+    // Writes are serialized and go through a temp file so a crash never leaves a half-written store.
+    // A failed write rejects only its own caller; the next one still runs.
+    const persist = () => {
+        const write = writeQueue.catch(() => undefined).then(async () => {
+            await fs.mkdir(path.dirname(filePath), { recursive: true });
+            const tmpPath = `${filePath}.tmp`;
+            await fs.writeFile(tmpPath, JSON.stringify(data, null, 2));
+            await fs.rename(tmpPath, filePath);
+        });
+        writeQueue = write;
+        return write;
+    };
+
+    const bucket = async (collection: ProjectCollection, projectId: string) => {
+        const store = await load();
+        const byProject = store.collections[collection] ??= {};
+        return byProject[projectId] ??= {};
+    };
+
+    return {
+        kind: 'file',
+
+        async listProjects() {
+            const store = await load();
+            return Object.values(store.projects)
+                .sort((a, b) => a.created_at.localeCompare(b.created_at));
+        },
+
+        async getProject(id) {
+            const store = await load();
+            return store.projects[id] || null;
+        },
+
+        async saveProject(project) {
+            const store = await load();
+            store.projects[project.id] = project;
+            await persist();
+            return project;
+        },
+
+        async deleteProject(id) {
+            const store = await load();
+            delete store.projects[id];
+            for (const collection of PROJECT_COLLECTIONS) {
+                delete store.collections[collection]?.[id];
+            }
+            await persist();
+        },
+
+        // Teams only exist in Supabase; locally projects are shared through their members list
+        async listTeamMemberships() {
+            return [];
+        },
+
+        async list<T extends StoredRecord>(collection: ProjectCollection, projectId: string) {
+            return Object.values(await bucket(collection, projectId)) as T[];
+        },
+
+        async upsert<T extends StoredRecord>(collection: ProjectCollection, record: T) {
+            const records = await bucket(collection, record.project_id);
+            records[record.id] = record;
+            await persist();
+            return record;
+        },
+
+        async remove(collection, projectId, id) {
+            const records = await bucket(collection, projectId);
+            delete records[id];
+            await persist();
+        },
+
+        async replace<T extends StoredRecord>(collection: ProjectCollection, projectId: string, records: T[]) {
+            const store = await load();
+            const byProject = store.collections[collection] ??= {};
+            byProject[projectId] = Object.fromEntries(records.map(r => [r.id, r]));
+            await persist();
+            return records;
+        },
+    };
+};
+
+// ---------- Supabase Store ----------
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export const createSupabaseStore = (client: SupabaseClient): DataStore => {
+    const db = createSupabaseData(client);
+    // Every collection is a ProjectTable; the per-table record types are erased at this boundary
+    const table = (collection: ProjectCollection) => db.table(collection) as unknown as ProjectTable<StoredRecord>;
+
+    return {
+        kind: 'supabase',
+
+        listProjects: () => db.projects.list(),
+        getProject: id => db.projects.get(id),
+        saveProject: project => db.projects.save(project),
+        deleteProject: id => db.projects.remove(id),
+
+        // team_members.user_id is a Supabase auth UUID, so users from other issuers belong to no team
+        async listTeamMemberships(userId) {
+            if (!UUID_PATTERN.test(userId)) return [];
+            return (await db.teams.listForUser(userId)).map(({ team_id, role }) => ({ team_id, role }));
+        },
+
+        async list<T extends StoredRecord>(collection: ProjectCollection, projectId: string) {
+            return await table(collection).list(projectId) as T[];
+        },
+
+        async upsert<T extends StoredRecord>(collection: ProjectCollection, record: T) {
+            return await table(collection).upsert(record) as T;
+        },
+
+        remove: (collection, projectId, id) => table(collection).remove(projectId, id),
+
+        async replace<T extends StoredRecord>(collection: ProjectCollection, projectId: string, records: T[]) {
+            return await table(collection).replace(projectId, records) as T[];
+        },
+    };
+};
+
+// Supabase in production when service credentials are configured, the file store otherwise.
+// DATA_STORE=file|supabase forces a specific backend.
+export const createStore = (): DataStore => {
+    const backend = process.env.DATA_STORE
+        || (process.env.SUPABASE_URL && process.env.SUPABASE_SERVICE_ROLE_KEY ? 'supabase' : 'file');
+
+    if (backend === 'supabase') {
+        const url = process.env.SUPABASE_URL;
+        const serviceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+        if (!url || !serviceKey) {
+            throw new Error('DATA_STORE=supabase requires SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY.');
+        }
+        return createSupabaseStore(createClient(url, serviceKey, { auth: { persistSession: false } }));
+    }
+
+    return createFileStore(path.join(dataDir(), 'store.json'));
+};
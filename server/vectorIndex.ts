@@ -0,0 +1,232 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { randomUUID } from 'crypto';
+import type { DocumentPage, KnowledgeAsset } from '../types';
+import type { Embedder } from './embeddings';
+
+// ========== Vector Index ==========
+// Local retrieval index: documents are split into passages, embedded, and stored per project
+// in DATA_DIR/vectors/<projectId>.json. Search is brute-force cosine similarity, which is
+// plenty for the few thousand passages a documentary's research produces.
+
+export type VectorStatus = KnowledgeAsset['status'];
+
+export interface Passage {
+    id: string;
+    vector_id: string;
+    document_id: string;
+    title: string;
+    text: string;
+    page_number?: number; // Only for paginated documents (uploaded files)
+    // Character range of the passage within its page (paginated) or the whole source text
+    start: number;
+    end: number;
+}
+
+interface StoredPassage extends Passage {
+    embedding: number[];
+}
+
+export interface VectorDocument {
+    vector_id: string;
+    document_id: string;
+    title: string;
+    status: VectorStatus;
+    chunk_count: number;
+    error?: string;
+    updated_at: string;
+}
+
+export interface IndexInput {
+    document_id: string;
+    title: string;
+    pages?: DocumentPage[];
+    text?: string;
+}
+
+export interface SearchResult extends Passage {
+    score: number;
+}
+
+interface ProjectIndex {
+    documents: Record<string, VectorDocument>;
+    passages: Record<string, StoredPassage[]>; // vector id -> passages
+}
+
+const PASSAGE_CHARS = 1200;
+const PASSAGE_OVERLAP = 200;
+
+export interface PassageSpan {
+    text: string;
+    start: number;
+    end: number;
+}
+
+/**
+ * Splits text into overlapping passages, breaking at sentence or line ends where possible
+ * so a cited excerpt reads cleanly. Offsets refer to the original text so citations can
+ * point back into the stored source.
+ */
+export const splitPassages = (text: string, size = PASSAGE_CHARS, overlap = PASSAGE_OVERLAP): PassageSpan[] => {
+    const passages: PassageSpan[] = [];
+    let start = 0;
+    while (start < text.length) {
+        let end = Math.min(start + size, text.length);
+        if (end < text.length) {
+            const window = text.slice(start, end);
+            const breakAt = Math.max(window.lastIndexOf('. '), window.lastIndexOf('\n'), window.lastIndexOf('? '), window.lastIndexOf('! '));
+            if (breakAt > size / 2) end = start + breakAt + 1;
+        }
+        const raw = text.slice(start, end);
+        const lead = raw.length - raw.trimStart().length;
+        const trimmed = raw.trim();
+        if (trimmed) passages.push({ text: trimmed, start: start + lead, end: start + lead + trimmed.length });
+        if (end >= text.length) break;
+        start = Math.max(end - overlap, start + 1);
+    }
+    return passages;
+};
+
+const cosine = (a: number[], b: number[]) => {
+    let dot = 0, normA = 0, normB = 0;
+    for (let i = 0; i < a.length; i++) {
+        dot += a[i] * b[i];
+        normA += a[i] * a[i];
+        normB += b[i] * b[i];
+    }
+    return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+};
+
+export const createVectorIndex = (dir: string, embed: Embedder) => {
+    const cache = new Map<string, ProjectIndex>();
+    const writeQueues = new Map<string, Promise<void>>();
+
+    const filePath = (projectId: string) => path.join(dir, `${projectId.replace(/[^\w-]/g, '_')}.json`);
+
+    const load = async (projectId: string): Promise<ProjectIndex> => {
+        const cached = cache.get(projectId);
+        if (cached) return cached;
+        let index: ProjectIndex;
+        try {
+            index = JSON.parse(await fs.readFile(filePath(projectId), 'utf8'));
+        } catch (error: any) {
+            if (error.code !== 'ENOENT') throw error;
+            index = { documents: {}, passages: {} };
+        }
+        cache.set(projectId, index);
+        return index;
+    };
+
+    // Same approach as the file data store: serialized writes through a temp file
+    const persist = (projectId: string) => {
+        const next = (writeQueues.get(projectId) || Promise.resolve()).then(async () => {
+            await fs.mkdir(dir, { recursive: true });
+            const target = filePath(projectId);
+            await fs.writeFile(`${target}.tmp`, JSON.stringify(cache.get(projectId)));
+            await fs.rename(`${target}.tmp`, target);
+        });
+        writeQueues.set(projectId, next.catch(() => undefined));
+        return next;
+    };
+
+    const setStatus = async (projectId: string, vectorId: string, changes: Partial<VectorDocument>) => {
+        const index = await load(projectId);
+        const doc = index.documents[vectorId];
+        if (!doc) return;
+        Object.assign(doc, changes, { updated_at: new Date().toISOString() });
+        await persist(projectId);
+    };
+
+    const build = async (projectId: string, vectorId: string, input: IndexInput) => {
+        const pages = input.pages?.length ? input.pages : [{ page_number: 0, text: input.text || '' }];
+        const passages: Passage[] = pages.flatMap(page =>
+            splitPassages(page.text).map(span => ({
+                id: '',
+                vector_id: vectorId,
+                document_id: input.document_id,
+                title: input.title,
+                ...span,
+                page_number: input.pages?.length ? page.page_number : undefined,
+            }))
+        ).map((p, i) => ({ ...p, id: `${vectorId}#${i + 1}` }));
+
+        if (passages.length === 0) throw new Error('Document has no text to index');
+
+        const embeddings = await embed(passages.map(p => p.text), 'RETRIEVAL_DOCUMENT');
+        await setStatus(projectId, vectorId, { status: 'indexing', chunk_count: passages.length });
+
+        const index = await load(projectId);
+        if (!index.documents[vectorId]) return; // Removed while embedding
+        // Re-indexing a document replaces its previous vectors
+        for (const [otherId, doc] of Object.entries(index.documents)) {
+            if (otherId !== vectorId && doc.document_id === input.document_id) {
+                delete index.documents[otherId];
+                delete index.passages[otherId];
+            }
+        }
+        index.passages[vectorId] = passages.map((p, i) => ({ ...p, embedding: embeddings[i] }));
+        index.documents[vectorId].status = 'ready';
+        index.documents[vectorId].updated_at = new Date().toISOString();
+        await persist(projectId);
+    };
+
+    return {
+        /**
+         * Starts indexing a document and returns immediately with status 'vectorizing'.
+         * Poll status() for 'indexing' and then 'ready' (or 'error').
+         */
+        async index(projectId: string, input: IndexInput): Promise<VectorDocument> {
+            const index = await load(projectId);
+            const doc: VectorDocument = {
+                vector_id: `vec-${randomUUID()}`,
+                document_id: input.document_id,
+                title: input.title,
+                status: 'vectorizing',
+                chunk_count: 0,
+                updated_at: new Date().toISOString(),
+            };
+            index.documents[doc.vector_id] = doc;
+            await persist(projectId);
+
+            build(projectId, doc.vector_id, input).catch(async (error: any) => {
+                console.error('Vector Index Error:', error);
+                await setStatus(projectId, doc.vector_id, { status: 'error', error: error.message });
+            });
+            return { ...doc };
+        },
+
+        async status(projectId: string, vectorId: string): Promise<VectorDocument | null> {
+            const doc = (await load(projectId)).documents[vectorId];
+            return doc ? { ...doc } : null;
+        },
+
+        async remove(projectId: string, vectorId: string): Promise<void> {
+            const index = await load(projectId);
+            delete index.documents[vectorId];
+            delete index.passages[vectorId];
+            await persist(projectId);
+        },
+
+        async removeProject(projectId: string): Promise<void> {
+            cache.delete(projectId);
+            await fs.rm(filePath(projectId), { force: true });
+        },
+
+        /** Top-k passages across the given (ready) documents, best match first. */
+        async search(projectId: string, query: string, vectorIds: string[], topK: number): Promise<SearchResult[]> {
+            const index = await load(projectId);
+            const candidates = vectorIds
+                .filter(id => index.documents[id]?.status === 'ready')
+                .flatMap(id => index.passages[id] || []);
+            if (candidates.length === 0) return [];
+
+            const [queryEmbedding] = await embed([query], 'RETRIEVAL_QUERY');
+            return candidates
+                .map(({ embedding, ...passage }) => ({ ...passage, score: cosine(queryEmbedding, embedding) }))
+                .sort((a, b) => b.score - a.score)
+                .slice(0, topK);
+        },
+    };
+};
+
+export type VectorIndex = ReturnType<typeof createVectorIndex>;
@@ -0,0 +1,117 @@
+import type { ElevenLabsSettings, VoiceTalent } from '../types';
+
+// ========== Voice Generation ==========
+// Text-to-speech for voice-over lines. Users with their own ElevenLabs key call ElevenLabs
+// from the browser; everyone else goes through the studio account here (ELEVENLABS_API_KEY),
+// or the mock voices when AI_PROVIDER=mock.
+
+export interface SynthesizedAudio {
+    audio: Buffer;
+    content_type: string;
+}
+
+export interface VoiceService {
+    kind: 'elevenlabs' | 'mock';
+    listVoices(): Promise<VoiceTalent[]>;
+    synthesize(voiceId: string, text: string, settings?: Partial<ElevenLabsSettings>): Promise<SynthesizedAudio>;
+}
+
+export class VoiceServiceError extends Error {
+    constructor(message: string, public status = 502) {
+        super(message);
+        this.name = 'VoiceServiceError';
+    }
+}
+
+const ELEVENLABS_BASE_URL = process.env.ELEVENLABS_BASE_URL || 'https://api.elevenlabs.io/v1';
+
+export const createElevenLabsVoices = (apiKey: string): VoiceService => {
+    const request = async (endpoint: string, init?: RequestInit) => {
+        const response = await fetch(`${ELEVENLABS_BASE_URL}${endpoint}`, {
+            ...init,
+            headers: { 'xi-api-key': apiKey, 'Content-Type': 'application/json' },
+        });
+        if (!response.ok) {
+            const body: any = await response.json().catch(() => ({}));
+            throw new VoiceServiceError(body.detail?.message || `ElevenLabs request failed (${response.status})`);
+        }
+        return response;
+    };
+
+    return {
+        kind: 'elevenlabs',
+
+        async listVoices() {
+            const data: any = await (await request('/voices')).json();
+            return (data.voices || []).map((v: any) => ({
+                id: v.voice_id,
+                name: v.name,
+                category: v.category || 'Generated',
+                provider: 'elevenlabs',
+                preview_url: v.preview_url,
+            }));
+        },
+
+        async synthesize(voiceId, text, settings = {}) {
+            const response = await request(`/text-to-speech/${encodeURIComponent(voiceId)}`, {
+                method: 'POST',
+                body: JSON.stringify({
+                    text,
+                    model_id: 'eleven_multilingual_v2',
+                    voice_settings: settings,
+                }),
+            });
+            return {
+                audio: Buffer.from(await response.arrayBuffer()),
+                content_type: response.headers.get('content-type') || 'audio/mpeg',
+            };
+        },
+    };
+};
+
+// ---------- Mock Voices ----------
+
+const MOCK_VOICES: VoiceTalent[] = [
+    { id: 'eleven-1', name: 'Marcus (Narrator Deep)', category: 'cloned', provider: 'elevenlabs' },
+    { id: 'eleven-2', name: 'Sarah (Journalist)', category: 'generated', provider: 'elevenlabs' },
+];
+
+// Roughly narration pace, so mock lines last about as long as real ones would
+const WORDS_PER_SECOND = 2.5;
+const SAMPLE_RATE = 8000;
+
+/** A silent 8 kHz mono 16-bit WAV of the given length. */
+export const silentWav = (seconds: number): Buffer => {
+    const dataSize = Math.round(seconds * SAMPLE_RATE) * 2;
+    const wav = Buffer.alloc(44 + dataSize);
+    wav.write('RIFF', 0);
+    wav.writeUInt32LE(36 + dataSize, 4);
+    wav.write('WAVE', 8);
+    wav.write('fmt ', 12);
+    wav.writeUInt32LE(16, 16);
+    wav.writeUInt16LE(1, 20); // PCM
+    wav.writeUInt16LE(1, 22); // Mono
+    wav.writeUInt32LE(SAMPLE_RATE, 24);
+    wav.writeUInt32LE(SAMPLE_RATE * 2, 28);
+    wav.writeUInt16LE(2, 32);
+    wav.writeUInt16LE(16, 34);
+    wav.write('data', 36);
+    wav.writeUInt32LE(dataSize, 40);
+    return wav;
+};
+
+export const createMockVoices = (): VoiceService => ({
+    kind: 'mock',
+
+    async listVoices() {
+        return MOCK_VOICES.map(v => ({ ...v }));
+    },
+
+    async synthesize(voiceId, text) {
+        if (!MOCK_VOICES.some(v => v.id === voiceId)) {
+            throw new VoiceServiceError(`Unknown voice: ${voiceId}`, 404);
+        }
+        const words = text.trim().split(/\s+/).filter(Boolean).length;
+        return { audio: silentWav(Math.max(1, words / WORDS_PER_SECOND)), content_type: 'audio/wav' };
+    },
+});
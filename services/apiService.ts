@@ -1,3 +1,5 @@
+import { authHeaders } from './authService';
+
 /**
  * Client-side API service that proxies all AI requests through our secure backend.
  * In production, uses Vertex AI via service account auth (no API key exposure).
@@ -9,7 +11,7 @@ const API_BASE = import.meta.env.PROD ? '' : (import.meta.env.VITE_API_URL || 'h
 async function fetchAPI(endpoint: string, body: any) {
     const response = await fetch(`${API_BASE}${endpoint}`, {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: { 'Content-Type': 'application/json', ...(await authHeaders()) },
         body: JSON.stringify(body),
     });
 
@@ -23,8 +25,8 @@ async function fetchAPI(endpoint: string, body: any) {
 
 export const apiService = {
     // Research with engine selection (gemini_pro, vertex_ai, perplexity, google_deep_research)
-    async summarizeResearch(topic: string, engine: string = 'gemini_pro', systemInstruction: string = '') {
-        return fetchAPI('/api/research', { topic, engine, systemInstruction });
+    async summarizeResearch(topic: string, engine: string = 'gemini_pro', systemInstruction: string = '', projectId?: string) {
+        return fetchAPI('/api/research', { topic, engine, systemInstruction, project_id: projectId });
     },
 
     // Generate series structure with episodes and themes
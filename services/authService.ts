@@ -0,0 +1,132 @@
+import { firebaseAuth } from '../lib/firebase';
+import { supabase } from '../lib/supabase';
+import { AuthIssuerKind, AuthUser, UserProfile } from '../types';
+
+/**
+ * Sign-in and ID tokens for calls to our API.
+ * The server decides which issuers it trusts (GET /api/auth/config): Firebase (Google sign-in),
+ * Supabase (Google OAuth), or the local test issuer that signs a token for a picked profile.
+ */
+
+const API_BASE = '/api';
+
+let activeIssuer: AuthIssuerKind | null = null;
+let localToken: string | null = null;
+
+async function request<T>(endpoint: string, init?: RequestInit): Promise<T> {
+  const response = await fetch(`${API_BASE}${endpoint}`, {
+    ...init,
+    headers: { 'Content-Type': 'application/json', ...init?.headers },
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Request failed' }));
+    throw new Error(error.error || `API call failed: ${response.status}`);
+  }
+
+  return response.json();
+}
+
+async function currentToken(): Promise<string | null> {
+  switch (activeIssuer) {
+    case 'local':
+      return localToken;
+    case 'firebase':
+      // Refreshed by the SDK when it is about to expire
+      return (await firebaseAuth.getCurrentUser()?.getIdToken()) || null;
+    case 'supabase':
+      return (await supabase?.auth.getSession())?.data.session?.access_token || null;
+    default:
+      return null;
+  }
+}
+
+/** Authorization header for /api calls; empty when signed out. */
+export async function authHeaders(): Promise<Record<string, string>> {
+  const token = await currentToken();
+  return token ? { Authorization: `Bearer ${token}` } : {};
+}
+
+type ProfileDetails = Partial<Pick<UserProfile, 'avatar' | 'bio' | 'customInstructions' | 'gcpProjectId'>>;
+
+// The server's view of the user as a profile for the rest of the app: id and role always come from the token
+async function loadProfile(details: ProfileDetails = {}): Promise<UserProfile> {
+  const me = await request<AuthUser>('/auth/me', { headers: await authHeaders() });
+  return {
+    id: me.id,
+    username: me.name || me.email || me.id,
+    role: me.role,
+    avatar: details.avatar || me.avatar || `https://api.dicebear.com/7.x/avataaars/svg?seed=${encodeURIComponent(me.id)}`,
+    bio: details.bio || '',
+    customInstructions: details.customInstructions || '',
+    gcpProjectId: details.gcpProjectId
+  };
+}
+
+export const authService = {
+  async getIssuers(): Promise<AuthIssuerKind[]> {
+    const config = await request<{ issuers: AuthIssuerKind[] }>('/auth/config');
+    return config.issuers;
+  },
+
+  /**
+   * Local test issuer: the server signs a token for this profile and role.
+   */
+  async signInLocal(profile: UserProfile): Promise<UserProfile> {
+    const { token } = await request<{ token: string }>('/auth/local/token', {
+      method: 'POST',
+      body: JSON.stringify({ user_id: profile.id, username: profile.username, role: profile.role, avatar: profile.avatar })
+    });
+    activeIssuer = 'local';
+    localToken = token;
+    return loadProfile(profile);
+  },
+
+  async signInWithFirebase(): Promise<UserProfile> {
+    const user = await firebaseAuth.signInWithGoogle();
+    if (!user) throw new Error('Firebase sign-in is not configured in this build.');
+    activeIssuer = 'firebase';
+    return loadProfile();
+  },
+
+  /**
+   * Supabase Google sign-in leaves the page; restoreSession() picks the user up on return.
+   */
+  async signInWithSupabase(): Promise<void> {
+    if (!supabase) throw new Error('Supabase sign-in is not configured in this build.');
+    const { error } = await supabase.auth.signInWithOAuth({ provider: 'google', options: { redirectTo: window.location.origin } });
+    if (error) throw new Error(error.message);
+  },
+
+  /**
+   * Resumes a Firebase or Supabase session left from an earlier visit, if the server trusts that issuer.
+   */
+  async restoreSession(issuers: AuthIssuerKind[]): Promise<UserProfile | null> {
+    if (issuers.includes('supabase') && (await supabase?.auth.getSession())?.data.session) {
+      activeIssuer = 'supabase';
+      return loadProfile();
+    }
+    if (issuers.includes('firebase')) {
+      // Firebase reports the persisted user once it has loaded
+      const user = await new Promise(resolve => {
+        let unsubscribe: (() => void) | undefined;
+        unsubscribe = firebaseAuth.onAuthStateChanged(u => {
+          unsubscribe?.();
+          resolve(u);
+        });
+      });
+      if (user) {
+        activeIssuer = 'firebase';
+        return loadProfile();
+      }
+    }
+    return null;
+  },
+
+  async signOut(): Promise<void> {
+    if (activeIssuer === 'firebase') await firebaseAuth.signOut();
+    if (activeIssuer === 'supabase') await supabase?.auth.signOut();
+    activeIssuer = null;
+    localToken = null;
+  }
+};
@@ -0,0 +1,57 @@
+import { CollabEvent, ScriptCursor } from '../types';
+import { authHeaders } from './authService';
+import { streamEvents } from './eventStream';
+
+/**
+ * Collaborative script editing on the API server. subscribe() streams a script's Yjs document
+ * and every change to it; sendUpdate() posts this browser's changes; setCursor() shares where
+ * the writer's caret is.
+ */
+
+const API_BASE = '/api';
+
+async function apiCall<T>(endpoint: string, options?: RequestInit): Promise<T> {
+  const response = await fetch(`${API_BASE}${endpoint}`, {
+    ...options,
+    headers: { 'Content-Type': 'application/json', ...(await authHeaders()) },
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Request failed' }));
+    throw new Error(error.error || `API call failed: ${response.status}`);
+  }
+  return response.status === 204 ? (undefined as T) : response.json();
+}
+
+export const collabService = {
+  /**
+   * Posts a base64 Yjs update. Resolves to the server's reason when it refuses the change
+   * (no script.edit permission, someone holds the whole phase), null once it is applied.
+   * Network and server failures throw, so the caller can retry.
+   */
+  async sendUpdate(projectId: string, scriptId: string, update: string, clientId: string): Promise<string | null> {
+    const response = await fetch(`${API_BASE}/projects/${projectId}/collab/${scriptId}/updates`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...(await authHeaders()) },
+      body: JSON.stringify({ update, client_id: clientId })
+    });
+    if (response.ok) return null;
+    const error = await response.json().catch(() => ({ error: 'Request failed' }));
+    if (response.status >= 400 && response.status < 500) return error.error || 'The change was refused';
+    throw new Error(error.error || `API call failed: ${response.status}`);
+  },
+
+  async setCursor(projectId: string, scriptId: string, cursor: Pick<ScriptCursor, 'beat_id' | 'index' | 'length'> | null): Promise<void> {
+    return apiCall<void>(`/projects/${projectId}/collab/${scriptId}/cursor`, {
+      method: 'PUT',
+      body: JSON.stringify(cursor || { beat_id: null })
+    });
+  },
+
+  /**
+   * Streams the script's document: a 'sync' with the whole of it on every (re)connect, then updates and cursors.
+   */
+  subscribe(projectId: string, scriptId: string, onEvent: (event: CollabEvent) => void): () => void {
+    return streamEvents<CollabEvent>(`/projects/${projectId}/collab/${scriptId}`, onEvent);
+  }
+};
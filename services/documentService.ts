@@ -0,0 +1,63 @@
+import { DocumentPage } from '../types';
+import { authHeaders } from './authService';
+
+/**
+ * Uploads documents to the server for text extraction and analysis.
+ * PDF, DOCX, CSV and TXT are parsed server-side, so files are sent as-is rather than read in the browser.
+ */
+
+const API_BASE = '/api';
+
+export interface ExtractedDocument {
+  file_name: string;
+  file_type: 'pdf' | 'docx' | 'csv' | 'txt';
+  page_count: number;
+  /** False when pages are estimated (DOCX/CSV/TXT have no fixed pagination). */
+  paginated: boolean;
+  pages: DocumentPage[];
+}
+
+export interface DocumentAnalysis extends ExtractedDocument {
+  status: 'indexed';
+  title?: string;
+  summary?: string;
+  key_topics?: string[];
+  key_facts?: string[];
+  key_quotes?: string[];
+  people_mentioned?: { name: string; role: string; relevance: string }[];
+  timeline_events?: { date: string; event: string }[];
+  content_type?: string;
+  reliability_assessment?: string;
+  suggested_questions?: string[];
+  cross_reference_suggestions?: string[];
+  chunk_count: number;
+}
+
+async function upload<T>(endpoint: string, file: File): Promise<T> {
+  const body = new FormData();
+  body.append('file', file, file.name);
+
+  // No Content-Type header: the browser sets the multipart boundary
+  const response = await fetch(`${API_BASE}${endpoint}`, { method: 'POST', body, headers: await authHeaders() });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Upload failed' }));
+    throw new Error(error.error || `API call failed: ${response.status}`);
+  }
+
+  return response.json();
+}
+
+export const documentService = {
+  async extractDocument(file: File): Promise<ExtractedDocument> {
+    return upload<ExtractedDocument>('/extract-document', file);
+  },
+
+  /**
+   * Extracts and analyzes a document. Long documents are analyzed in chunks and merged,
+   * so this can take a while for large PDFs.
+   */
+  async analyzeDocument(file: File): Promise<DocumentAnalysis> {
+    return upload<DocumentAnalysis>('/analyze-document', file);
+  }
+};
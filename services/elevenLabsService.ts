@@ -1,15 +1,27 @@
-
 import { ElevenLabsSettings, VoiceTalent } from '../types';
+import { authHeaders } from './authService';
 
 const BASE_URL = 'https://api.elevenlabs.io/v1';
+// Without a personal key, voices come from the studio account on our server (or its mock voices)
+const API_BASE = '/api';
+
+async function serverError(response: Response): Promise<Error> {
+  const error = await response.json().catch(() => ({ error: 'Request failed' }));
+  return new Error(error.error || `API call failed: ${response.status}`);
+}
 
 export const elevenLabsService = {
-  
+
   /**
-   * Fetches the user's voice library from ElevenLabs.
+   * Fetches the voice library: the user's own ElevenLabs library when they have a key,
+   * otherwise the studio voices from the server.
    */
   async getVoices(apiKey: string): Promise<VoiceTalent[]> {
-    if (!apiKey) throw new Error("API Key Missing");
+    if (!apiKey) {
+      const response = await fetch(`${API_BASE}/voice/voices`, { headers: await authHeaders() });
+      if (!response.ok) throw await serverError(response);
+      return response.json();
+    }
 
     try {
       const response = await fetch(`${BASE_URL}/voices`, {
@@ -22,7 +34,7 @@ export const elevenLabsService = {
       if (!response.ok) throw new Error("Failed to fetch voices");
 
       const data = await response.json();
-      
+
       return data.voices.map((v: any) => ({
         id: v.voice_id,
         name: v.name,
@@ -32,27 +44,27 @@ export const elevenLabsService = {
       }));
     } catch (error) {
       console.error("ElevenLabs Fetch Error", error);
-      // Fallback for demo purposes if API key is invalid/mock
-      return [
-        { id: 'eleven-1', name: 'Marcus (Narrator Deep)', category: 'cloned', provider: 'elevenlabs' },
-        { id: 'eleven-2', name: 'Sarah (Journalist)', category: 'generated', provider: 'elevenlabs' },
-      ];
+      throw error;
     }
   },
 
   /**
-   * Generates audio for a specific text line.
+   * Generates audio for a specific text line and returns an object URL for playback.
    */
   async generateAudio(
-    apiKey: string, 
-    voiceId: string, 
-    text: string, 
+    apiKey: string,
+    voiceId: string,
+    text: string,
     settings: ElevenLabsSettings
   ): Promise<string> {
     if (!apiKey) {
-        // Mock generation for UI demo without key
-        await new Promise(r => setTimeout(r, 2000));
-        return "https://storage.googleapis.com/gtv-videos-bucket/sample/TearsOfSteel.mp4"; // Placeholder audio/video
+      const response = await fetch(`${API_BASE}/voice/generate`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...(await authHeaders()) },
+        body: JSON.stringify({ voice_id: voiceId, text, settings })
+      });
+      if (!response.ok) throw await serverError(response);
+      return URL.createObjectURL(await response.blob());
     }
 
     try {
@@ -0,0 +1,56 @@
+import { authHeaders } from './authService';
+
+/**
+ * Server-sent event streams from the API (presence, collaborative editing). fetch() is used
+ * rather than EventSource so the request can carry the Authorization header.
+ */
+
+const API_BASE = '/api';
+const RECONNECT_MS = 3000;
+
+// Reads "data: {...}" frames from the event stream until it ends or is aborted
+async function readEvents<T>(response: Response, onEvent: (event: T) => void) {
+  const reader = response.body!.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = '';
+  for (;;) {
+    const { value, done } = await reader.read();
+    if (done) return;
+    buffer += value;
+    const frames = buffer.split('\n\n');
+    buffer = frames.pop() || '';
+    for (const frame of frames) {
+      const data = frame.split('\n').filter(line => line.startsWith('data: ')).map(line => line.slice(6)).join('\n');
+      if (data) onEvent(JSON.parse(data));
+    }
+  }
+}
+
+/**
+ * Streams events from `endpoint`, reconnecting after drops until the returned function is called.
+ */
+export function streamEvents<T>(endpoint: string, onEvent: (event: T) => void): () => void {
+  const controller = new AbortController();
+
+  const connect = async () => {
+    while (!controller.signal.aborted) {
+      try {
+        const response = await fetch(`${API_BASE}${endpoint}`, {
+          headers: await authHeaders(),
+          signal: controller.signal
+        });
+        if (!response.ok || !response.body) {
+          const error = await response.json().catch(() => ({ error: 'Request failed' }));
+          throw new Error(error.error || `API call failed: ${response.status}`);
+        }
+        await readEvents(response, onEvent);
+      } catch (error) {
+        if (controller.signal.aborted) return;
+        console.warn(`Event stream ${endpoint} interrupted:`, error);
+      }
+      await new Promise(resolve => setTimeout(resolve, RECONNECT_MS));
+    }
+  };
+  connect();
+
+  return () => controller.abort();
+}
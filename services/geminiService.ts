@@ -1,5 +1,8 @@
 
-import { AvatarEnvironment } from '../types';
+import {
+  AIRequest, AIResponse, AIRoute, AvatarEnvironment, ChatTurnInput, QuerySourceInput, ResearchEngine, ResearchSource
+} from '../types';
+import { authHeaders } from './authService';
 
 /**
  * Service to interact with the Gemini API.
@@ -9,10 +12,11 @@ import { AvatarEnvironment } from '../types';
 
 const API_BASE = '/api';
 
-async function apiCall<T>(endpoint: string, body: any): Promise<T> {
+// Request and response bodies come from the AIRoutes contract the server implements
+async function apiCall<R extends AIRoute>(endpoint: R, body: AIRequest<R>): Promise<AIResponse<R>> {
   const response = await fetch(`${API_BASE}${endpoint}`, {
     method: 'POST',
-    headers: { 'Content-Type': 'application/json' },
+    headers: { 'Content-Type': 'application/json', ...(await authHeaders()) },
     body: JSON.stringify(body),
   });
 
@@ -26,29 +30,23 @@ async function apiCall<T>(endpoint: string, body: any): Promise<T> {
 
 export const geminiService = {
   /**
-   * Generates a summary with optional Google Search grounding.
+   * Generates a research brief. Pass projectId so the project's provider for the engine is used;
+   * urls are the pages a web-searching provider consulted.
    */
   async summarizeResearch(
     topic: string,
-    engine: 'gemini_pro' | 'vertex_ai' | 'perplexity' | 'google_deep_research' = 'gemini_pro',
-    systemInstruction: string = ""
+    engine: ResearchEngine = 'gemini_pro',
+    systemInstruction: string = "",
+    projectId?: string
   ) {
-    return apiCall<{
-      summary: string;
-      key_facts: string[];
-      expert_suggestions: string[];
-      urls: string[];
-    }>('/research', { topic, engine, systemInstruction });
+    return apiCall('/research', { topic, engine, systemInstruction, project_id: projectId });
   },
 
   /**
    * Generates a Series MCP Structure (Episodes & Themes) based on a premise.
    */
   async generateSeriesStructure(premise: string, episodesCount: number = 3) {
-    return apiCall<{
-      episodes: Array<{ title: string; research_focus: string; suggested_engine: string }>;
-      themes: Array<{ title: string; research_focus: string; suggested_engine: string }>;
-    }>('/series-structure', { premise, episodesCount });
+    return apiCall('/series-structure', { premise, episodesCount });
   },
 
   /**
@@ -56,7 +54,7 @@ export const geminiService = {
    * Note: In production, this returns a chat-like interface backed by stateless API calls.
    */
   createStrategyChat() {
-    const history: Array<{ role: string; parts: Array<{ text: string }> }> = [];
+    const history: ChatTurnInput[] = [];
     const systemInstruction = `You are the Lead Research Strategist for a documentary production.
       Your goal is to help the producer refine their research mission.
       Ask clarifying questions about the angle, tone, and specific data points needed.
@@ -66,7 +64,7 @@ export const geminiService = {
     return {
       async sendMessage({ message }: { message: string }) {
         history.push({ role: 'user', parts: [{ text: message }] });
-        const result = await apiCall<{ response: string }>('/chat', {
+        const result = await apiCall('/chat', {
           message,
           systemInstruction,
           history
@@ -81,13 +79,13 @@ export const geminiService = {
    * Creates a context-aware chat session.
    */
   createAssistantChat(systemInstruction: string) {
-    const history: Array<{ role: string; parts: Array<{ text: string }> }> = [];
+    const history: ChatTurnInput[] = [];
     const instruction = systemInstruction || "You are a senior documentary producer assistant. Help the user with scripting, research, and production logistics.";
 
     return {
       async sendMessage({ message }: { message: string }) {
         history.push({ role: 'user', parts: [{ text: message }] });
-        const result = await apiCall<{ response: string }>('/chat', {
+        const result = await apiCall('/chat', {
           message,
           systemInstruction: instruction,
           history
@@ -102,7 +100,7 @@ export const geminiService = {
    * Generates a video using Veo.
    */
   async generateArchiveBroll(prompt: string) {
-    const result = await apiCall<{ videoUri: string }>('/generate-broll', { prompt });
+    const result = await apiCall('/generate-broll', { prompt });
     return result.videoUri;
   },
 
@@ -110,51 +108,21 @@ export const geminiService = {
    * Analyzes a clip to provide visual metadata.
    */
   async analyzeClip(clipTitle: string) {
-    return apiCall<{
-      visual_description: string;
-      mood: string;
-      quality_score: number;
-    }>('/analyze-clip', { clipTitle });
+    return apiCall('/analyze-clip', { clipTitle });
   },
 
   /**
    * Searches external archives using Vertex AI intelligence.
    */
   async searchArchive(query: string, source: string) {
-    return apiCall<Array<{
-      title: string;
-      duration_seconds: number;
-      visual_description: string;
-      archive_source: string;
-      category: string;
-      year_range?: string;
-      quality?: string;
-    }>>('/search-archive', { query, source });
+    return apiCall('/search-archive', { query, source });
   },
 
   /**
    * Analyzes a reference document for style and tone using Vertex AI.
    */
   async analyzeDocumentStyle(fileName: string, content?: string) {
-    return apiCall<{
-      tone: string;
-      pacing: string;
-      structure: string;
-      visual_style?: string;
-      narrative_voice?: string;
-    }>('/chat', {
-      message: `Analyze the style and tone of this document "${fileName}" for documentary production.
-        ${content ? `Document content: ${content.substring(0, 5000)}` : ''}
-
-        Return a brief analysis as JSON with:
-        - tone: string (e.g., "Investigative & Serious", "Fast-paced & Energetic", "Educational & Calm")
-        - pacing: string (e.g., "Slow burn", "Rapid", "Moderate")
-        - structure: string (e.g., "Non-linear", "Chronological", "Thematic")
-        - visual_style: string (suggested visual approach)
-        - narrative_voice: string (suggested narration style)`,
-      systemInstruction: 'You are a documentary style analyst. Always respond with valid JSON only.',
-      history: []
-    });
+    return apiCall('/analyze-style', { fileName, content });
   },
 
   /**
@@ -168,18 +136,7 @@ export const geminiService = {
     researchContext: string[],
     archiveContext: string[]
   ) {
-    return apiCall<Array<{
-      title: string;
-      scenes: Array<{
-        title: string;
-        beats: Array<{
-          type: string;
-          content: string;
-          speaker?: string;
-          duration_seconds: number;
-        }>;
-      }>;
-    }>>('/generate-script', {
+    return apiCall('/generate-script', {
       title,
       description,
       duration,
@@ -193,7 +150,7 @@ export const geminiService = {
    * Rewrites a specific script beat based on user instruction.
    */
   async refineScriptBeat(currentContent: string, instruction: string, context?: string) {
-    const result = await apiCall<{ refined: string }>('/refine-beat', {
+    const result = await apiCall('/refine-beat', {
       currentContent,
       instruction,
       context
@@ -201,27 +158,44 @@ export const geminiService = {
     return result.refined;
   },
 
+  /**
+   * Several rewrites of a beat for the same instruction, each taking a different approach.
+   */
+  async refineScriptBeatAlternatives(currentContent: string, instruction: string, alternatives: number): Promise<string[]> {
+    const result = await apiCall('/refine-beat', {
+      currentContent,
+      instruction,
+      alternatives
+    });
+    return result.alternatives;
+  },
+
   /**
    * Generates an interview plan for a specific beat in the script.
    */
   async generateInterviewPlan(sceneContext: string, topic: string) {
-    return apiCall<{
-      ideal_soundbite: string;
-      questions: string[];
-    }>('/interview-plan', { sceneContext, topic });
+    return apiCall('/interview-plan', { sceneContext, topic });
   },
 
   /**
    * Finds expert candidates using Google Search grounding.
    */
   async findExpertCandidates(topic: string) {
-    return apiCall<Array<{
-      name: string;
-      title: string;
-      affiliation: string;
-      relevance: string;
-      relevance_score: number;
-    }>>('/find-experts', { topic });
+    return apiCall('/find-experts', { topic });
+  },
+
+  /**
+   * Fetches (URLs, YouTube) and analyzes a research source for the notebook.
+   */
+  async indexSource(source: Pick<ResearchSource, 'type' | 'url' | 'content' | 'title'>) {
+    return apiCall('/index-source', source);
+  },
+
+  /**
+   * Answers a question across the given sources, citing retrieved passages where sources are vectorized.
+   */
+  async querySources(query: string, sources: QuerySourceInput[], engine: ResearchEngine, projectId?: string) {
+    return apiCall('/query-sources', { query, sources, engine, project_id: projectId });
   },
 
   /**
@@ -259,7 +233,7 @@ export const geminiService = {
   async generateAvatarVideo(avatarId: string, audioName: string, envId: string): Promise<string> {
     // TODO: Integrate with HeyGen or Synthesia API for real avatar video generation
     // For now, return a placeholder video while showing the generation is in progress
-    const result = await apiCall<{ response: string }>('/chat', {
+    const result = await apiCall('/chat', {
       message: `Generate a video production brief for an avatar video with:
         - Avatar ID: ${avatarId}
         - Audio: ${audioName}
@@ -0,0 +1,103 @@
+import { EditAccessRequest, LockScope, PresenceEvent, ProjectLock, ProjectPhase, ProjectPresence } from '../types';
+import { authHeaders } from './authService';
+import { streamEvents } from './eventStream';
+
+/**
+ * Edit locks and presence on the API server. A browser with a project open sends heartbeat()
+ * every HEARTBEAT_MS; subscribe() streams lock, viewer and edit-request changes as they happen.
+ * Locks cover a LockScope: a whole phase, or one scene or archive folder within it.
+ */
+
+const API_BASE = '/api';
+
+export const HEARTBEAT_MS = 15 * 1000;
+
+async function apiError(response: Response): Promise<Error> {
+  const error = await response.json().catch(() => ({ error: 'Request failed' }));
+  return new Error(error.error || `API call failed: ${response.status}`);
+}
+
+async function apiCall<T>(endpoint: string, options?: RequestInit): Promise<T> {
+  const response = await fetch(`${API_BASE}${endpoint}`, {
+    ...options,
+    headers: { 'Content-Type': 'application/json', ...(await authHeaders()) },
+  });
+
+  if (!response.ok) throw await apiError(response);
+  return response.status === 204 ? (undefined as T) : response.json();
+}
+
+export const presenceService = {
+  /**
+   * Takes the lock on a scope. Resolves to null when someone else holds an overlapping one.
+   */
+  async acquireLock(projectId: string, scope: LockScope): Promise<ProjectLock | null> {
+    const response = await fetch(`${API_BASE}/projects/${projectId}/lock`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...(await authHeaders()) },
+      body: JSON.stringify(scope)
+    });
+    if (response.status === 409) return null;
+    if (!response.ok) throw await apiError(response);
+    return response.json();
+  },
+
+  async releaseLock(projectId: string, scope: LockScope): Promise<void> {
+    const query = new URLSearchParams({ phase: scope.phase });
+    if (scope.entity_type && scope.entity_id) {
+      query.set('entity_type', scope.entity_type);
+      query.set('entity_id', scope.entity_id);
+    }
+    await apiCall<void>(`/projects/${projectId}/lock?${query}`, { method: 'DELETE' });
+  },
+
+  async heartbeat(projectId: string, phase: ProjectPhase): Promise<ProjectPresence> {
+    return apiCall<ProjectPresence>(`/projects/${projectId}/presence`, {
+      method: 'PUT',
+      body: JSON.stringify({ phase })
+    });
+  },
+
+  /**
+   * Leaves the project and releases every lock held on it. keepalive lets it finish while the page unloads.
+   */
+  async leave(projectId: string): Promise<void> {
+    await fetch(`${API_BASE}/projects/${projectId}/presence`, {
+      method: 'DELETE',
+      headers: await authHeaders(),
+      keepalive: true
+    });
+  },
+
+  async requestEdit(projectId: string, scope: LockScope): Promise<{ lock: ProjectLock; request: EditAccessRequest | null }> {
+    return apiCall(`/projects/${projectId}/lock/requests`, {
+      method: 'POST',
+      body: JSON.stringify(scope)
+    });
+  },
+
+  async respondToRequest(projectId: string, requestId: string, accept: boolean): Promise<ProjectPresence> {
+    return apiCall<ProjectPresence>(`/projects/${projectId}/lock/requests/${requestId}`, {
+      method: 'PUT',
+      body: JSON.stringify({ accept })
+    });
+  },
+
+  /**
+   * Takes the scope from whoever holds it (lock.takeover permission).
+   */
+  async takeover(projectId: string, scope: LockScope): Promise<ProjectLock> {
+    return apiCall<ProjectLock>(`/projects/${projectId}/lock/takeover`, {
+      method: 'POST',
+      body: JSON.stringify(scope)
+    });
+  },
+
+  /**
+   * Streams presence events, reconnecting after drops until the returned function is called.
+   * Each (re)connect starts with the current state of every project the user can see.
+   */
+  subscribe(onEvent: (event: PresenceEvent) => void): () => void {
+    return streamEvents<PresenceEvent>('/presence/stream', onEvent);
+  }
+};
@@ -0,0 +1,79 @@
+import { DocumentaryProject, ProjectCollection } from '../types';
+import { authHeaders } from './authService';
+
+/**
+ * Client for the server-side project store.
+ * Projects and their per-phase collections survive reloads and are shared between browsers.
+ */
+
+const API_BASE = '/api';
+
+async function apiCall<T>(endpoint: string, options?: RequestInit): Promise<T> {
+  const response = await fetch(`${API_BASE}${endpoint}`, {
+    ...options,
+    headers: { 'Content-Type': 'application/json', ...(await authHeaders()) },
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Request failed' }));
+    throw new Error(error.error || `API call failed: ${response.status}`);
+  }
+
+  return response.status === 204 ? (undefined as T) : response.json();
+}
+
+export const projectService = {
+  async listProjects(): Promise<DocumentaryProject[]> {
+    return apiCall<DocumentaryProject[]>('/projects');
+  },
+
+  async getProject(id: string): Promise<DocumentaryProject> {
+    return apiCall<DocumentaryProject>(`/projects/${id}`);
+  },
+
+  /**
+   * Creates a project. The server assigns the id and created_at timestamp.
+   */
+  async createProject(project: Omit<DocumentaryProject, 'id' | 'created_at'>): Promise<DocumentaryProject> {
+    return apiCall<DocumentaryProject>('/projects', {
+      method: 'POST',
+      body: JSON.stringify(project)
+    });
+  },
+
+  async updateProject(id: string, changes: Partial<DocumentaryProject>): Promise<DocumentaryProject> {
+    return apiCall<DocumentaryProject>(`/projects/${id}`, {
+      method: 'PUT',
+      body: JSON.stringify(changes)
+    });
+  },
+
+  async deleteProject(id: string): Promise<void> {
+    return apiCall<void>(`/projects/${id}`, { method: 'DELETE' });
+  },
+
+  async listCollection<T>(projectId: string, collection: ProjectCollection): Promise<T[]> {
+    return apiCall<T[]>(`/projects/${projectId}/${collection}`);
+  },
+
+  /**
+   * Replaces every record of a collection for the project. Records not included are deleted.
+   */
+  async replaceCollection<T extends { id: string }>(projectId: string, collection: ProjectCollection, records: T[]): Promise<T[]> {
+    return apiCall<T[]>(`/projects/${projectId}/${collection}`, {
+      method: 'PUT',
+      body: JSON.stringify(records)
+    });
+  },
+
+  async saveRecord<T extends { id: string }>(projectId: string, collection: ProjectCollection, record: T): Promise<T> {
+    return apiCall<T>(`/projects/${projectId}/${collection}/${record.id}`, {
+      method: 'PUT',
+      body: JSON.stringify(record)
+    });
+  },
+
+  async deleteRecord(projectId: string, collection: ProjectCollection, id: string): Promise<void> {
+    return apiCall<void>(`/projects/${projectId}/${collection}/${id}`, { method: 'DELETE' });
+  }
+};
@@ -0,0 +1,41 @@
+import { AIProviderId, EngineProviderConfig, ResearchEngine } from '../types';
+import { authHeaders } from './authService';
+
+/**
+ * Client for the server's research provider registry.
+ * Which provider runs each engine is a project setting (DocumentaryProject.research_providers).
+ */
+
+const API_BASE = '/api';
+
+export interface AIProviderInfo {
+  id: AIProviderId;
+  label: string;
+  default_model: string;
+  unavailable_reason: string | null; // Null when the server is configured for this provider
+}
+
+export interface ProviderCatalog {
+  providers: AIProviderInfo[];
+  engine_defaults: Record<ResearchEngine, EngineProviderConfig>;
+}
+
+async function apiCall<T>(endpoint: string, options?: RequestInit): Promise<T> {
+  const response = await fetch(`${API_BASE}${endpoint}`, {
+    ...options,
+    headers: { 'Content-Type': 'application/json', ...(await authHeaders()) },
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Request failed' }));
+    throw new Error(error.error || `API call failed: ${response.status}`);
+  }
+
+  return response.json();
+}
+
+export const providerService = {
+  async getCatalog(): Promise<ProviderCatalog> {
+    return apiCall<ProviderCatalog>('/providers');
+  }
+};
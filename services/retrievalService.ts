@@ -0,0 +1,52 @@
+import { DocumentPage, KnowledgeAsset } from '../types';
+import { authHeaders } from './authService';
+
+/**
+ * Client for the server vector index used by research queries.
+ * Indexing runs in the background on the server: poll getStatus() until 'ready'.
+ */
+
+const API_BASE = '/api';
+
+export interface VectorDocument {
+  vector_id: string;
+  document_id: string;
+  title: string;
+  status: KnowledgeAsset['status'];
+  chunk_count: number;
+  error?: string;
+}
+
+async function apiCall<T>(endpoint: string, options?: RequestInit): Promise<T> {
+  const response = await fetch(`${API_BASE}${endpoint}`, {
+    ...options,
+    headers: { 'Content-Type': 'application/json', ...(await authHeaders()) },
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Request failed' }));
+    throw new Error(error.error || `API call failed: ${response.status}`);
+  }
+
+  return response.status === 204 ? (undefined as T) : response.json();
+}
+
+export const retrievalService = {
+  /**
+   * Chunks and embeds a document. Pass pages for paginated files so citations keep page numbers.
+   */
+  async indexDocument(projectId: string, document: { document_id: string; title: string; pages?: DocumentPage[]; text?: string }): Promise<VectorDocument> {
+    return apiCall<VectorDocument>(`/projects/${projectId}/vectors`, {
+      method: 'POST',
+      body: JSON.stringify(document)
+    });
+  },
+
+  async getStatus(projectId: string, vectorId: string): Promise<VectorDocument> {
+    return apiCall<VectorDocument>(`/projects/${projectId}/vectors/${vectorId}`);
+  },
+
+  async removeDocument(projectId: string, vectorId: string): Promise<void> {
+    return apiCall<void>(`/projects/${projectId}/vectors/${vectorId}`, { method: 'DELETE' });
+  }
+};
@@ -0,0 +1,60 @@
+import { CommentAnchor, ScriptCommentThread } from '../types';
+import { authHeaders } from './authService';
+
+/**
+ * Comment threads on a script's beats, on the API server. The server notifies the people
+ * mentioned and the thread's other participants.
+ */
+
+const API_BASE = '/api';
+
+async function apiCall<T>(endpoint: string, options?: RequestInit): Promise<T> {
+  const response = await fetch(`${API_BASE}${endpoint}`, {
+    ...options,
+    headers: { 'Content-Type': 'application/json', ...(await authHeaders()) },
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Request failed' }));
+    throw new Error(error.error || `API call failed: ${response.status}`);
+  }
+  return response.json();
+}
+
+const commentsPath = (projectId: string, scriptId: string) => `/projects/${projectId}/scripts/${scriptId}/comments`;
+
+export interface NewCommentInput {
+  beat_id: string;
+  anchor?: CommentAnchor; // Leave out to comment on the whole beat
+  body: string;
+  mentions: string[];
+}
+
+export const scriptCommentService = {
+  /** Oldest first. */
+  async list(projectId: string, scriptId: string): Promise<ScriptCommentThread[]> {
+    return apiCall<ScriptCommentThread[]>(commentsPath(projectId, scriptId));
+  },
+
+  async open(projectId: string, scriptId: string, input: NewCommentInput): Promise<ScriptCommentThread> {
+    return apiCall<ScriptCommentThread>(commentsPath(projectId, scriptId), {
+      method: 'POST',
+      body: JSON.stringify(input)
+    });
+  },
+
+  /** Replying to a resolved thread reopens it. */
+  async reply(projectId: string, scriptId: string, threadId: string, body: string, mentions: string[]): Promise<ScriptCommentThread> {
+    return apiCall<ScriptCommentThread>(`${commentsPath(projectId, scriptId)}/${threadId}/replies`, {
+      method: 'POST',
+      body: JSON.stringify({ body, mentions })
+    });
+  },
+
+  async setStatus(projectId: string, scriptId: string, threadId: string, status: ScriptCommentThread['status']): Promise<ScriptCommentThread> {
+    return apiCall<ScriptCommentThread>(`${commentsPath(projectId, scriptId)}/${threadId}`, {
+      method: 'PUT',
+      body: JSON.stringify({ status })
+    });
+  }
+};
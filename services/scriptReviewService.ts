@@ -0,0 +1,31 @@
+import { DocumentaryScript, ScriptReviewAction } from '../types';
+import { authHeaders } from './authService';
+
+/**
+ * The script approval workflow on the API server (rules in lib/scriptReview.ts).
+ */
+
+const API_BASE = '/api';
+
+async function apiCall<T>(endpoint: string, options?: RequestInit): Promise<T> {
+  const response = await fetch(`${API_BASE}${endpoint}`, {
+    ...options,
+    headers: { 'Content-Type': 'application/json', ...(await authHeaders()) },
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Request failed' }));
+    throw new Error(error.error || `API call failed: ${response.status}`);
+  }
+  return response.json();
+}
+
+export const scriptReviewService = {
+  /** Takes the action; resolves to the script with its new status. Rejecting and blocking need a comment. */
+  async transition(projectId: string, scriptId: string, action: ScriptReviewAction, comment?: string): Promise<DocumentaryScript> {
+    return apiCall<DocumentaryScript>(`/projects/${projectId}/scripts/${scriptId}/review`, {
+      method: 'POST',
+      body: JSON.stringify({ action, comment })
+    });
+  }
+};
@@ -0,0 +1,61 @@
+import { ScriptSuggestion, SuggestionDecision } from '../types';
+import { authHeaders } from './authService';
+
+/**
+ * Suggested changes to a script's beats on the API server: AI rewrites and suggest-mode edits,
+ * decided hunk by hunk (lib/suggestions.ts).
+ */
+
+const API_BASE = '/api';
+
+async function apiCall<T>(endpoint: string, options?: RequestInit): Promise<T> {
+  const response = await fetch(`${API_BASE}${endpoint}`, {
+    ...options,
+    headers: { 'Content-Type': 'application/json', ...(await authHeaders()) },
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Request failed' }));
+    throw new Error(error.error || `API call failed: ${response.status}`);
+  }
+  return response.json();
+}
+
+const suggestionsPath = (projectId: string, scriptId: string) => `/projects/${projectId}/scripts/${scriptId}/suggestions`;
+
+export interface SuggestionInput {
+  beat_id: string;
+  source: ScriptSuggestion['source'];
+  instruction?: string;
+  base: string; // The beat's text the proposals were made from
+  proposals: string[]; // Alternatives, up to three
+}
+
+export const scriptSuggestionService = {
+  /** Oldest first, alternatives in order. */
+  async list(projectId: string, scriptId: string): Promise<ScriptSuggestion[]> {
+    return apiCall<ScriptSuggestion[]>(suggestionsPath(projectId, scriptId));
+  },
+
+  async propose(projectId: string, scriptId: string, input: SuggestionInput): Promise<ScriptSuggestion[]> {
+    return apiCall<ScriptSuggestion[]>(suggestionsPath(projectId, scriptId), {
+      method: 'POST',
+      body: JSON.stringify(input)
+    });
+  },
+
+  /** Resolves to every suggestion that changed; accepting a hunk sets the other alternatives aside. */
+  async decide(projectId: string, scriptId: string, suggestionId: string, decisions: SuggestionDecision[]): Promise<ScriptSuggestion[]> {
+    return apiCall<ScriptSuggestion[]>(`${suggestionsPath(projectId, scriptId)}/${suggestionId}`, {
+      method: 'PUT',
+      body: JSON.stringify({ decisions })
+    });
+  },
+
+  async dismiss(projectId: string, scriptId: string, suggestionId: string): Promise<ScriptSuggestion[]> {
+    return apiCall<ScriptSuggestion[]>(`${suggestionsPath(projectId, scriptId)}/${suggestionId}`, {
+      method: 'PUT',
+      body: JSON.stringify({ status: 'rejected' })
+    });
+  }
+};
@@ -0,0 +1,72 @@
+import { ScriptPart, ScriptVersion } from '../types';
+import { authHeaders } from './authService';
+
+/**
+ * A script's version history on the API server. The server takes most versions itself when
+ * the script is saved; record() adds one for regenerations, AI rewrites and "Save Version".
+ */
+
+const API_BASE = '/api';
+
+async function apiCall<T>(endpoint: string, options?: RequestInit): Promise<T> {
+  const response = await fetch(`${API_BASE}${endpoint}`, {
+    ...options,
+    headers: { 'Content-Type': 'application/json', ...(await authHeaders()) },
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Request failed' }));
+    throw new Error(error.error || `API call failed: ${response.status}`);
+  }
+  return response.json();
+}
+
+const versionsPath = (projectId: string, scriptId: string) => `/projects/${projectId}/scripts/${scriptId}/versions`;
+
+export interface RecordVersionInput {
+  reason: 'generated' | 'saved' | 'ai_rewrite';
+  note?: string;
+  milestone?: string;
+  // New parts for a regeneration; they replace the script's before the version is taken
+  parts?: ScriptPart[];
+  estimated_duration_minutes?: number;
+}
+
+export const scriptVersionService = {
+  /** Newest first. */
+  async list(projectId: string, scriptId: string): Promise<ScriptVersion[]> {
+    return apiCall<ScriptVersion[]>(versionsPath(projectId, scriptId));
+  },
+
+  async get(projectId: string, scriptId: string, versionId: string): Promise<ScriptVersion> {
+    return apiCall<ScriptVersion>(`${versionsPath(projectId, scriptId)}/${versionId}`);
+  },
+
+  async record(projectId: string, scriptId: string, input: RecordVersionInput): Promise<ScriptVersion> {
+    return apiCall<ScriptVersion>(versionsPath(projectId, scriptId), {
+      method: 'POST',
+      body: JSON.stringify(input)
+    });
+  },
+
+  /** Names a version as a milestone; an empty name clears it. */
+  async name(projectId: string, scriptId: string, versionId: string, milestone: string): Promise<ScriptVersion> {
+    return apiCall<ScriptVersion>(`${versionsPath(projectId, scriptId)}/${versionId}`, {
+      method: 'PUT',
+      body: JSON.stringify({ milestone })
+    });
+  },
+
+  /** Puts the script back the way it was; resolves to the version recording the restore. */
+  async restore(projectId: string, scriptId: string, versionId: string): Promise<ScriptVersion> {
+    return apiCall<ScriptVersion>(`${versionsPath(projectId, scriptId)}/${versionId}/restore`, { method: 'POST' });
+  },
+
+  /** Brings one scene back from a version. */
+  async cherryPick(projectId: string, scriptId: string, versionId: string, sceneId: string): Promise<ScriptVersion> {
+    return apiCall<ScriptVersion>(`${versionsPath(projectId, scriptId)}/${versionId}/cherry-pick`, {
+      method: 'POST',
+      body: JSON.stringify({ scene_id: sceneId })
+    });
+  }
+};
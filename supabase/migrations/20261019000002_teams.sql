@@ -0,0 +1,76 @@
+-- Teams: projects can be shared with every member of a team.
+
+CREATE TABLE IF NOT EXISTS teams (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL,
+  created_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS team_members (
+  team_id UUID NOT NULL REFERENCES teams(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  role TEXT NOT NULL DEFAULT 'researcher', -- UserRole: producer | editor | researcher | legal | archivist
+  joined_at TIMESTAMPTZ DEFAULT NOW(),
+  PRIMARY KEY (team_id, user_id)
+);
+
+ALTER TABLE projects ADD COLUMN IF NOT EXISTS team_id UUID REFERENCES teams(id) ON DELETE SET NULL;
+CREATE INDEX IF NOT EXISTS idx_projects_team_id ON projects(team_id);
+CREATE INDEX IF NOT EXISTS idx_team_members_user_id ON team_members(user_id);
+
+-- SECURITY DEFINER so policies can consult team_members without recursing into its own RLS
+CREATE OR REPLACE FUNCTION is_team_member(tid UUID) RETURNS BOOLEAN
+  LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public AS $$
+    SELECT EXISTS (SELECT 1 FROM team_members WHERE team_id = tid AND user_id = auth.uid());
+$$;
+
+-- Owner or member of the project's team. Used by every per-project table.
+CREATE OR REPLACE FUNCTION can_access_project(pid UUID) RETURNS BOOLEAN
+  LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public AS $$
+    SELECT EXISTS (
+      SELECT 1 FROM projects p
+      WHERE p.id = pid
+        AND (p.user_id = auth.uid() OR (p.team_id IS NOT NULL AND is_team_member(p.team_id)))
+    );
+$$;
+
+ALTER TABLE teams ENABLE ROW LEVEL SECURITY;
+ALTER TABLE team_members ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view their teams" ON teams
+  FOR SELECT USING (is_team_member(id) OR created_by = auth.uid());
+
+CREATE POLICY "Users can create teams" ON teams
+  FOR INSERT WITH CHECK (auth.uid() = created_by);
+
+CREATE POLICY "Creators can update their teams" ON teams
+  FOR UPDATE USING (auth.uid() = created_by);
+
+CREATE POLICY "Creators can delete their teams" ON teams
+  FOR DELETE USING (auth.uid() = created_by);
+
+CREATE POLICY "Members can view team membership" ON team_members
+  FOR SELECT USING (is_team_member(team_id));
+
+CREATE POLICY "Team creators manage membership" ON team_members
+  FOR ALL USING (EXISTS (SELECT 1 FROM teams t WHERE t.id = team_id AND t.created_by = auth.uid()))
+  WITH CHECK (EXISTS (SELECT 1 FROM teams t WHERE t.id = team_id AND t.created_by = auth.uid()));
+
+-- Projects: owners keep full control, team members can view and edit but not delete
+DROP POLICY IF EXISTS "Users can view own projects" ON projects;
+DROP POLICY IF EXISTS "Users can create projects" ON projects;
+DROP POLICY IF EXISTS "Users can update own projects" ON projects;
+DROP POLICY IF EXISTS "Users can delete own projects" ON projects;
+
+CREATE POLICY "Users can view own or team projects" ON projects
+  FOR SELECT USING (auth.uid() = user_id OR (team_id IS NOT NULL AND is_team_member(team_id)));
+
+CREATE POLICY "Users can create projects" ON projects
+  FOR INSERT WITH CHECK (auth.uid() = user_id AND (team_id IS NULL OR is_team_member(team_id)));
+
+CREATE POLICY "Users can update own or team projects" ON projects
+  FOR UPDATE USING (auth.uid() = user_id OR (team_id IS NOT NULL AND is_team_member(team_id)));
+
+CREATE POLICY "Users can delete own projects" ON projects
+  FOR DELETE USING (auth.uid() = user_id);
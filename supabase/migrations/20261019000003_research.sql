@@ -0,0 +1,74 @@
+-- Research phase: notebooks, uploaded knowledge assets, indexed sources and research queries.
+-- Record ids are generated client-side, so they are unique per project rather than globally.
+
+CREATE TABLE IF NOT EXISTS notebooks (
+  id TEXT NOT NULL,
+  project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  series_id TEXT NOT NULL,
+  episode_id TEXT NOT NULL,
+  title TEXT NOT NULL,
+  topic TEXT,
+  status TEXT DEFAULT 'pending',
+  research_engine TEXT DEFAULT 'gemini_pro',
+  source_count INTEGER DEFAULT 0,
+  summary TEXT,
+  key_topics JSONB DEFAULT '[]',
+  grounding_urls JSONB DEFAULT '[]',
+  manual_sources JSONB DEFAULT '[]',
+  linked_clip_ids JSONB DEFAULT '[]',
+  user_notes TEXT,
+  last_updated TIMESTAMPTZ,
+  PRIMARY KEY (project_id, id)
+);
+
+CREATE TABLE IF NOT EXISTS knowledge_assets (
+  id TEXT NOT NULL,
+  project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  series_id TEXT NOT NULL,
+  episode_id TEXT NOT NULL,
+  name TEXT NOT NULL,
+  type TEXT NOT NULL CHECK (type IN ('pdf', 'docx', 'txt', 'csv')),
+  size TEXT,
+  upload_date TEXT,
+  status TEXT DEFAULT 'uploading' CHECK (status IN ('uploading', 'vectorizing', 'indexing', 'ready')),
+  vector_id TEXT,
+  analysis_summary TEXT,
+  PRIMARY KEY (project_id, id)
+);
+
+CREATE TABLE IF NOT EXISTS research_sources (
+  id TEXT NOT NULL,
+  project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  episode_id TEXT NOT NULL,
+  type TEXT NOT NULL CHECK (type IN ('url', 'file', 'text', 'youtube')),
+  title TEXT NOT NULL,
+  content TEXT,
+  url TEXT,
+  file_name TEXT,
+  file_size TEXT,
+  status TEXT DEFAULT 'pending',
+  added_at TEXT,
+  summary TEXT,
+  key_topics JSONB DEFAULT '[]',
+  key_facts JSONB DEFAULT '[]',
+  suggested_questions JSONB DEFAULT '[]',
+  PRIMARY KEY (project_id, id)
+);
+
+CREATE TABLE IF NOT EXISTS research_queries (
+  id TEXT NOT NULL,
+  project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  episode_id TEXT NOT NULL,
+  query TEXT NOT NULL,
+  response TEXT,
+  key_facts JSONB DEFAULT '[]',
+  sources_used JSONB DEFAULT '[]',
+  timestamp TEXT,
+  engine TEXT,
+  PRIMARY KEY (project_id, id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_notebooks_episode ON notebooks(project_id, episode_id);
+CREATE INDEX IF NOT EXISTS idx_knowledge_assets_episode ON knowledge_assets(project_id, episode_id);
+CREATE INDEX IF NOT EXISTS idx_research_sources_episode ON research_sources(project_id, episode_id);
+CREATE INDEX IF NOT EXISTS idx_research_queries_episode ON research_queries(project_id, episode_id);
@@ -0,0 +1,37 @@
+-- Archive phase: user collections and ingested clips.
+
+CREATE TABLE IF NOT EXISTS archive_folders (
+  id TEXT NOT NULL,
+  project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  type TEXT DEFAULT 'local' CHECK (type IN ('local', 'external_api', 'cloud_bucket')),
+  api_source TEXT,
+  icon TEXT,
+  PRIMARY KEY (project_id, id)
+);
+
+-- folder_id is not a foreign key: clips may sit in the built-in folders that every project shares
+CREATE TABLE IF NOT EXISTS archive_clips (
+  id TEXT NOT NULL,
+  project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  folder_id TEXT,
+  title TEXT NOT NULL,
+  description TEXT,
+  archive_source TEXT,
+  thumbnail_url TEXT,
+  preview_url TEXT,
+  duration_seconds REAL DEFAULT 0,
+  in_point REAL DEFAULT 0,
+  out_point REAL,
+  category TEXT,
+  visual_description TEXT,
+  transcript TEXT,
+  quality_score INTEGER,
+  mood TEXT,
+  is_generating BOOLEAN DEFAULT FALSE,
+  linked_beat_id TEXT,
+  PRIMARY KEY (project_id, id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_archive_clips_folder ON archive_clips(project_id, folder_id);
+CREATE INDEX IF NOT EXISTS idx_archive_clips_beat ON archive_clips(project_id, linked_beat_id);
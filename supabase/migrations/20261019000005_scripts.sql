@@ -0,0 +1,57 @@
+-- Scripting phase: versioned scripts broken down into parts > scenes > beats.
+-- Part, scene and beat ids repeat across versions of a script, so they are keyed by script.
+
+CREATE TABLE IF NOT EXISTS scripts (
+  id TEXT NOT NULL,
+  project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  version INTEGER NOT NULL DEFAULT 1,
+  is_current BOOLEAN DEFAULT TRUE,
+  status TEXT DEFAULT 'draft' CHECK (status IN ('draft', 'review', 'approved', 'archived')),
+  estimated_duration_minutes INTEGER,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  PRIMARY KEY (project_id, id)
+);
+
+CREATE TABLE IF NOT EXISTS script_parts (
+  id TEXT NOT NULL,
+  project_id UUID NOT NULL,
+  script_id TEXT NOT NULL,
+  part_number INTEGER NOT NULL,
+  title TEXT,
+  PRIMARY KEY (project_id, script_id, id),
+  FOREIGN KEY (project_id, script_id) REFERENCES scripts(project_id, id) ON DELETE CASCADE
+);
+
+CREATE TABLE IF NOT EXISTS script_scenes (
+  id TEXT NOT NULL,
+  project_id UUID NOT NULL,
+  script_id TEXT NOT NULL,
+  part_id TEXT NOT NULL,
+  scene_number INTEGER NOT NULL,
+  title TEXT,
+  PRIMARY KEY (project_id, script_id, id),
+  FOREIGN KEY (project_id, script_id, part_id) REFERENCES script_parts(project_id, script_id, id) ON DELETE CASCADE
+);
+
+CREATE TABLE IF NOT EXISTS script_beats (
+  id TEXT NOT NULL,
+  project_id UUID NOT NULL,
+  script_id TEXT NOT NULL,
+  scene_id TEXT NOT NULL,
+  position INTEGER NOT NULL,
+  type TEXT NOT NULL CHECK (type IN ('voice_over', 'expert', 'archive', 'ai_visual', 'title')),
+  content TEXT,
+  speaker TEXT,
+  placeholder BOOLEAN DEFAULT FALSE,
+  topic TEXT,
+  duration_seconds REAL DEFAULT 0,
+  archive_clip_ids JSONB DEFAULT '[]',
+  ai_gap_id TEXT,
+  visual_url TEXT,
+  is_generating_visual BOOLEAN DEFAULT FALSE,
+  PRIMARY KEY (project_id, script_id, id),
+  FOREIGN KEY (project_id, script_id, scene_id) REFERENCES script_scenes(project_id, script_id, id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_scripts_current ON scripts(project_id, is_current);
+CREATE INDEX IF NOT EXISTS idx_script_beats_scene ON script_beats(project_id, script_id, scene_id, position);
@@ -0,0 +1,55 @@
+-- Production phases: expert interviews, voice-over lines and the assembly timeline.
+
+CREATE TABLE IF NOT EXISTS interview_plans (
+  id TEXT NOT NULL,
+  project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  beat_id TEXT NOT NULL,
+  scene_context TEXT,
+  topic TEXT,
+  ideal_soundbite TEXT,
+  questions JSONB DEFAULT '[]',
+  candidates JSONB DEFAULT '[]',
+  status TEXT DEFAULT 'planning' CHECK (status IN ('planning', 'ready', 'booked')),
+  production_status TEXT,
+  audio_filename TEXT,
+  audio_duration REAL,
+  selected_environment JSONB,
+  selected_avatar JSONB,
+  generated_video_url TEXT,
+  environment_rationale TEXT,
+  PRIMARY KEY (project_id, id)
+);
+
+CREATE TABLE IF NOT EXISTS voice_overs (
+  id TEXT NOT NULL,
+  project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  beat_id TEXT,
+  voice_id TEXT,
+  voice_name TEXT,
+  voice_provider TEXT DEFAULT 'elevenlabs',
+  text TEXT,
+  audio_url TEXT,
+  duration_seconds REAL DEFAULT 0,
+  status TEXT DEFAULT 'pending',
+  generation_settings JSONB,
+  PRIMARY KEY (project_id, id)
+);
+
+CREATE TABLE IF NOT EXISTS timeline_items (
+  id TEXT NOT NULL,
+  project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  track_type TEXT NOT NULL CHECK (track_type IN ('video', 'audio', 'music', 'sfx', 'expert', 'graphics')),
+  track_index INTEGER DEFAULT 0,
+  start_time REAL NOT NULL,
+  end_time REAL NOT NULL,
+  duration REAL NOT NULL,
+  source_type TEXT NOT NULL,
+  source_id TEXT,
+  label TEXT,
+  color TEXT,
+  PRIMARY KEY (project_id, id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_interview_plans_beat ON interview_plans(project_id, beat_id);
+CREATE INDEX IF NOT EXISTS idx_voice_overs_beat ON voice_overs(project_id, beat_id);
+CREATE INDEX IF NOT EXISTS idx_timeline_items_track ON timeline_items(project_id, track_type, start_time);
@@ -0,0 +1,29 @@
+-- Row Level Security for every per-project table.
+-- Mirrors the projects rules: a row is visible and editable when its project is owned by the
+-- user or shared with one of the user's teams (see can_access_project in the teams migration).
+
+DO $$
+DECLARE
+  t TEXT;
+BEGIN
+  FOREACH t IN ARRAY ARRAY[
+    'notebooks', 'knowledge_assets', 'research_sources', 'research_queries',
+    'archive_folders', 'archive_clips',
+    'scripts', 'script_parts', 'script_scenes', 'script_beats',
+    'interview_plans', 'voice_overs', 'timeline_items'
+  ] LOOP
+    EXECUTE format('ALTER TABLE %I ENABLE ROW LEVEL SECURITY', t);
+
+    EXECUTE format('DROP POLICY IF EXISTS "Members can view %1$s" ON %1$I', t);
+    EXECUTE format('CREATE POLICY "Members can view %1$s" ON %1$I FOR SELECT USING (can_access_project(project_id))', t);
+
+    EXECUTE format('DROP POLICY IF EXISTS "Members can create %1$s" ON %1$I', t);
+    EXECUTE format('CREATE POLICY "Members can create %1$s" ON %1$I FOR INSERT WITH CHECK (can_access_project(project_id))', t);
+
+    EXECUTE format('DROP POLICY IF EXISTS "Members can update %1$s" ON %1$I', t);
+    EXECUTE format('CREATE POLICY "Members can update %1$s" ON %1$I FOR UPDATE USING (can_access_project(project_id))', t);
+
+    EXECUTE format('DROP POLICY IF EXISTS "Members can delete %1$s" ON %1$I', t);
+    EXECUTE format('CREATE POLICY "Members can delete %1$s" ON %1$I FOR DELETE USING (can_access_project(project_id))', t);
+  END LOOP;
+END $$;
@@ -0,0 +1,7 @@
+-- Research sources keep the text they were analyzed from: extracted document pages for uploads,
+-- and the readable page text or YouTube transcript (in content) for fetched URLs.
+
+ALTER TABLE research_sources ADD COLUMN IF NOT EXISTS page_count INTEGER;
+ALTER TABLE research_sources ADD COLUMN IF NOT EXISTS pages JSONB;
+ALTER TABLE research_sources ADD COLUMN IF NOT EXISTS content_type TEXT;
+ALTER TABLE research_sources ADD COLUMN IF NOT EXISTS fetched_at TIMESTAMPTZ;
@@ -0,0 +1,11 @@
+-- Retrieval: knowledge assets track their vectorized research source, and research
+-- answers keep passage-level citations.
+
+ALTER TABLE knowledge_assets ADD COLUMN IF NOT EXISTS source_id TEXT;
+ALTER TABLE knowledge_assets ADD COLUMN IF NOT EXISTS chunk_count INTEGER;
+ALTER TABLE knowledge_assets DROP CONSTRAINT IF EXISTS knowledge_assets_status_check;
+ALTER TABLE knowledge_assets ADD CONSTRAINT knowledge_assets_status_check
+  CHECK (status IN ('uploading', 'vectorizing', 'indexing', 'ready', 'error'));
+CREATE INDEX IF NOT EXISTS idx_knowledge_assets_source ON knowledge_assets(project_id, source_id);
+
+ALTER TABLE research_queries ADD COLUMN IF NOT EXISTS source_citations JSONB DEFAULT '[]';
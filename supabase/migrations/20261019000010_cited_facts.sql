@@ -0,0 +1,3 @@
+-- Research answers keep each key fact with its structured citations (source, page, quoted span).
+
+ALTER TABLE research_queries ADD COLUMN IF NOT EXISTS cited_facts JSONB;
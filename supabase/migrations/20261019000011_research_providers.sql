@@ -0,0 +1,8 @@
+-- Per-project choice of AI provider and model for each research engine,
+-- and a record of where each research answer actually ran.
+
+ALTER TABLE projects ADD COLUMN IF NOT EXISTS research_providers JSONB;
+
+ALTER TABLE research_queries ADD COLUMN IF NOT EXISTS web_urls JSONB;
+ALTER TABLE research_queries ADD COLUMN IF NOT EXISTS provider TEXT;
+ALTER TABLE research_queries ADD COLUMN IF NOT EXISTS model TEXT;
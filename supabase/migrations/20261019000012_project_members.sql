@@ -0,0 +1,44 @@
+-- Project members and non-Supabase owners.
+-- The API server verifies Firebase, Supabase and local test tokens, so projects.user_id holds
+-- whichever issuer's user id created the project. Projects can also be shared with individual
+-- users through members: [{ user_id, role, username?, avatar? }].
+
+-- Policies depend on user_id, so they are dropped before its type changes and recreated after
+DROP POLICY IF EXISTS "Users can view own or team projects" ON projects;
+DROP POLICY IF EXISTS "Users can create projects" ON projects;
+DROP POLICY IF EXISTS "Users can update own or team projects" ON projects;
+DROP POLICY IF EXISTS "Users can delete own projects" ON projects;
+
+ALTER TABLE projects DROP CONSTRAINT IF EXISTS projects_user_id_fkey;
+ALTER TABLE projects ALTER COLUMN user_id TYPE TEXT USING user_id::text;
+ALTER TABLE projects ADD COLUMN IF NOT EXISTS members JSONB DEFAULT '[]'::jsonb;
+CREATE INDEX IF NOT EXISTS idx_projects_members ON projects USING GIN (members jsonb_path_ops);
+
+CREATE OR REPLACE FUNCTION is_project_member(members JSONB) RETURNS BOOLEAN
+  LANGUAGE sql STABLE AS $$
+    SELECT COALESCE(members @> jsonb_build_array(jsonb_build_object('user_id', auth.uid()::text)), FALSE);
+$$;
+
+-- Owner, individual member, or member of the project's team
+CREATE OR REPLACE FUNCTION can_access_project(pid UUID) RETURNS BOOLEAN
+  LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public AS $$
+    SELECT EXISTS (
+      SELECT 1 FROM projects p
+      WHERE p.id = pid
+        AND (p.user_id = auth.uid()::text
+          OR is_project_member(p.members)
+          OR (p.team_id IS NOT NULL AND is_team_member(p.team_id)))
+    );
+$$;
+
+CREATE POLICY "Users can view own, shared or team projects" ON projects
+  FOR SELECT USING (auth.uid()::text = user_id OR is_project_member(members) OR (team_id IS NOT NULL AND is_team_member(team_id)));
+
+CREATE POLICY "Users can create projects" ON projects
+  FOR INSERT WITH CHECK (auth.uid()::text = user_id AND (team_id IS NULL OR is_team_member(team_id)));
+
+CREATE POLICY "Users can update own, shared or team projects" ON projects
+  FOR UPDATE USING (auth.uid()::text = user_id OR is_project_member(members) OR (team_id IS NOT NULL AND is_team_member(team_id)));
+
+CREATE POLICY "Users can delete own projects" ON projects
+  FOR DELETE USING (auth.uid()::text = user_id);
@@ -0,0 +1,6 @@
+-- Per-project overrides of the permission matrix in lib/permissions.ts
+-- ({ "script.edit": ["producer", "editor"], ... }), and review sign-offs recorded by the API
+-- server as { check: { user_id, username, signed_at } }.
+
+ALTER TABLE projects ADD COLUMN IF NOT EXISTS permissions JSONB;
+ALTER TABLE projects ADD COLUMN IF NOT EXISTS review_signoffs JSONB DEFAULT '{}'::jsonb;
@@ -0,0 +1,26 @@
+-- Script version history: a snapshot of a script's parts (scenes and beats included) each time
+-- it is generated, rewritten, restored or saved. Snapshots are written by the API server only.
+
+CREATE TABLE IF NOT EXISTS script_versions (
+  id TEXT NOT NULL,
+  project_id UUID NOT NULL,
+  script_id TEXT NOT NULL,
+  version INTEGER NOT NULL,
+  reason TEXT NOT NULL CHECK (reason IN ('generated', 'saved', 'ai_rewrite', 'restored', 'cherry_pick')),
+  note TEXT,
+  milestone TEXT,
+  parts JSONB NOT NULL DEFAULT '[]',
+  estimated_duration_minutes INTEGER,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  created_by TEXT,
+  created_by_name TEXT,
+  PRIMARY KEY (project_id, id),
+  FOREIGN KEY (project_id, script_id) REFERENCES scripts(project_id, id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_script_versions_script ON script_versions(project_id, script_id, version);
+
+ALTER TABLE script_versions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Members can view script_versions" ON script_versions;
+CREATE POLICY "Members can view script_versions" ON script_versions FOR SELECT USING (can_access_project(project_id));
@@ -0,0 +1,10 @@
+-- Script approval workflow (lib/scriptReview.ts): every transition as
+-- { id, action, from, to, comment?, user_id, username, at }, and the script_versions row taken
+-- at the last approval, which the interview and voice-over phases work from.
+
+ALTER TABLE scripts ADD COLUMN IF NOT EXISTS review_history JSONB DEFAULT '[]'::jsonb;
+ALTER TABLE scripts ADD COLUMN IF NOT EXISTS approved_version_id TEXT;
+
+ALTER TABLE script_versions DROP CONSTRAINT IF EXISTS script_versions_reason_check;
+ALTER TABLE script_versions ADD CONSTRAINT script_versions_reason_check
+  CHECK (reason IN ('generated', 'saved', 'ai_rewrite', 'restored', 'cherry_pick', 'approved'));
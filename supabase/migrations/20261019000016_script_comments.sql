@@ -0,0 +1,25 @@
+-- Comment threads on script beats, optionally anchored to a range of the beat's text. Each
+-- comment is { id, user_id, username, role, body, mentions, created_at }. Threads are written
+-- by the API server only, which notifies the people mentioned.
+
+CREATE TABLE IF NOT EXISTS script_comments (
+  id TEXT NOT NULL,
+  project_id UUID NOT NULL,
+  script_id TEXT NOT NULL,
+  beat_id TEXT NOT NULL,
+  anchor JSONB,
+  status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'resolved')),
+  comments JSONB NOT NULL DEFAULT '[]',
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  resolved_at TIMESTAMPTZ,
+  resolved_by_name TEXT,
+  PRIMARY KEY (project_id, id),
+  FOREIGN KEY (project_id, script_id) REFERENCES scripts(project_id, id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_script_comments_beat ON script_comments(project_id, script_id, beat_id);
+
+ALTER TABLE script_comments ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Members can view script_comments" ON script_comments;
+CREATE POLICY "Members can view script_comments" ON script_comments FOR SELECT USING (can_access_project(project_id));
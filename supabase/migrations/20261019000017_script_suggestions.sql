@@ -0,0 +1,31 @@
+-- Suggested changes to script beats: AI rewrites (alternatives share a group_id, and the
+-- instruction is kept) and edits made in suggest mode. decisions holds 'accepted', 'rejected'
+-- or null per hunk of the diff between base and proposed. Written by the API server only.
+
+CREATE TABLE IF NOT EXISTS script_suggestions (
+  id TEXT NOT NULL,
+  project_id UUID NOT NULL,
+  script_id TEXT NOT NULL,
+  beat_id TEXT NOT NULL,
+  source TEXT NOT NULL CHECK (source IN ('ai', 'human')),
+  instruction TEXT,
+  group_id TEXT NOT NULL,
+  alternative INTEGER NOT NULL DEFAULT 1,
+  base TEXT NOT NULL DEFAULT '',
+  proposed TEXT NOT NULL DEFAULT '',
+  decisions JSONB NOT NULL DEFAULT '[]',
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'accepted', 'rejected', 'superseded')),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  created_by TEXT,
+  created_by_name TEXT,
+  resolved_at TIMESTAMPTZ,
+  PRIMARY KEY (project_id, id),
+  FOREIGN KEY (project_id, script_id) REFERENCES scripts(project_id, id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_script_suggestions_beat ON script_suggestions(project_id, script_id, beat_id);
+
+ALTER TABLE script_suggestions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Members can view script_suggestions" ON script_suggestions;
+CREATE POLICY "Members can view script_suggestions" ON script_suggestions FOR SELECT USING (can_access_project(project_id));
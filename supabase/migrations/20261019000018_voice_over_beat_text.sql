@@ -0,0 +1,5 @@
+-- Voice-over lines are taken from the approved script's voice-over beats. beat_text is the
+-- beat's text a line was last taken from: while the line's text still matches it, the line
+-- follows edits to its beat.
+
+ALTER TABLE voice_overs ADD COLUMN IF NOT EXISTS beat_text TEXT;
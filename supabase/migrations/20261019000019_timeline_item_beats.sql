@@ -0,0 +1,4 @@
+-- Timeline items remember the script beat they cover, so the assembly can flag items whose
+-- beat has moved or been cut when a new script version is approved.
+
+ALTER TABLE timeline_items ADD COLUMN IF NOT EXISTS beat_id TEXT;
@@ -0,0 +1,4 @@
+-- Where in its source a timeline item starts, in seconds, so trims made in an editing
+-- application survive an OTIO round trip. Unset means the archive clip's own in point.
+
+ALTER TABLE timeline_items ADD COLUMN IF NOT EXISTS source_in REAL;
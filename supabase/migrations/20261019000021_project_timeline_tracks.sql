@@ -0,0 +1,4 @@
+-- Which Assembly tracks are locked or muted, keyed by track type and index ("video:0"),
+-- so the switches survive a reload and every collaborator sees the same ones.
+
+ALTER TABLE projects ADD COLUMN IF NOT EXISTS timeline_tracks JSONB DEFAULT '{}'::jsonb;
@@ -0,0 +1,21 @@
+-- Projects created before sign-in existed have no owner. Until someone is made their owner
+-- they are hidden from everyone, members and teams included, as the API server hides them.
+-- To hand them over, run with the new owner's user id (PROJECT_OWNER_ID does the same for
+-- the API server's store when it starts):
+--   UPDATE projects SET user_id = '<owner user id>' WHERE user_id IS NULL;
+
+CREATE OR REPLACE FUNCTION can_access_project(pid UUID) RETURNS BOOLEAN
+  LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public AS $$
+    SELECT EXISTS (
+      SELECT 1 FROM projects p
+      WHERE p.id = pid
+        AND p.user_id IS NOT NULL
+        AND (p.user_id = auth.uid()::text
+          OR is_project_member(p.members)
+          OR (p.team_id IS NOT NULL AND is_team_member(p.team_id)))
+    );
+$$;
+
+DROP POLICY IF EXISTS "Users can view own, shared or team projects" ON projects;
+CREATE POLICY "Users can view own, shared or team projects" ON projects
+  FOR SELECT USING (user_id IS NOT NULL AND (auth.uid()::text = user_id OR is_project_member(members) OR (team_id IS NOT NULL AND is_team_member(team_id))));
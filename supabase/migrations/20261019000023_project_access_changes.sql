@@ -0,0 +1,33 @@
+-- Members and team members can update a project, but only its owner can change who has access:
+-- the owner (user_id), members and team_id. The update policy can't compare a row with its old
+-- version, so a trigger refuses those changes from anyone else. The API server's service role
+-- checks ownership itself and is let through.
+
+CREATE OR REPLACE FUNCTION guard_project_access_changes() RETURNS TRIGGER
+  LANGUAGE plpgsql AS $$
+BEGIN
+  IF auth.role() = 'service_role' THEN
+    RETURN NEW;
+  END IF;
+  IF (NEW.user_id IS DISTINCT FROM OLD.user_id
+      OR NEW.members IS DISTINCT FROM OLD.members
+      OR NEW.team_id IS DISTINCT FROM OLD.team_id)
+     AND (OLD.user_id IS NULL OR auth.uid()::text IS DISTINCT FROM OLD.user_id) THEN
+    RAISE EXCEPTION 'Only the project owner can change who has access'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS guard_project_access_changes ON projects;
+CREATE TRIGGER guard_project_access_changes
+  BEFORE UPDATE ON projects
+  FOR EACH ROW EXECUTE FUNCTION guard_project_access_changes();
+
+-- An update must leave the project owned, and reachable by the person making it
+DROP POLICY IF EXISTS "Users can update own, shared or team projects" ON projects;
+CREATE POLICY "Users can update own, shared or team projects" ON projects
+  FOR UPDATE
+  USING (user_id IS NOT NULL AND (auth.uid()::text = user_id OR is_project_member(members) OR (team_id IS NOT NULL AND is_team_member(team_id))))
+  WITH CHECK (user_id IS NOT NULL AND (auth.uid()::text = user_id OR is_project_member(members) OR (team_id IS NOT NULL AND is_team_member(team_id))));
@@ -15,6 +15,58 @@ export interface UserProfile {
   elevenLabsApiKey?: string; 
 }
 
+export type AuthIssuerKind = 'firebase' | 'supabase' | 'local';
+
+// The signed-in user as the server sees them, from a verified ID token
+export interface AuthUser {
+  id: string;
+  email?: string;
+  name?: string;
+  avatar?: string;
+  role: UserRole;
+  issuer: AuthIssuerKind;
+}
+
+// Actions the permission matrix controls (defaults and labels in lib/permissions.ts)
+export type Permission =
+  | 'project.manage'
+  | 'research.edit'
+  | 'archive.import'
+  | 'script.edit'
+  | 'script.submit'
+  | 'script.approve'
+  | 'script.block'
+  | 'script.comment'
+  | 'interviews.edit'
+  | 'voiceover.record'
+  | 'voiceover.approve'
+  | 'timeline.edit'
+  | 'review.fact_check'
+  | 'review.legal'
+  | 'review.brand'
+  | 'review.technical'
+  | 'review.duration'
+  | 'review.final'
+  | 'lock.takeover';
+
+// Roles allowed to perform each action
+export type PermissionMatrix = Record<Permission, UserRole[]>;
+
+export type ReviewCheck = 'fact_check' | 'legal' | 'brand' | 'technical' | 'duration';
+
+export interface ReviewSignoff {
+  user_id: string;
+  username: string;
+  signed_at: string;
+}
+
+export interface ProjectMember {
+  user_id: string;
+  role: UserRole; // Role on this project, which may differ from the user's own
+  username?: string;
+  avatar?: string;
+}
+
 export interface DocumentaryProject {
   id: string;
   title: string;
@@ -28,13 +80,93 @@ export interface DocumentaryProject {
   status: 'active' | 'completed' | 'on_hold';
   created_at: string;
   template_id?: string;
-  
-  // Collaboration Fields
-  locked_by?: string; // User ID of the person currently editing
-  locked_by_avatar?: string;
-  viewers?: string[]; // IDs of people watching
+  research_providers?: ResearchProviderSettings; // Per-engine overrides of the server defaults
+  user_id?: string; // Owner
+  team_id?: string | null; // Shared with every member of this team
+  members?: ProjectMember[]; // Shared with these users individually
+  permissions?: Partial<PermissionMatrix>; // Per-project overrides of DEFAULT_PERMISSIONS
+  review_signoffs?: Partial<Record<ReviewCheck, ReviewSignoff>>;
+  timeline_tracks?: Record<string, TimelineTrackState>; // Assembly track switches, by trackKey ("video:0")
+  // Who is editing or viewing lives on the API server, not on the project: see ProjectPresence
+}
+
+// Things smaller than a phase that can be locked on their own
+export type LockEntityType = 'script_scene' | 'archive_folder';
+
+// What a lock covers: a whole phase, or one entity within it
+export interface LockScope {
+  phase: ProjectPhase;
+  entity_type?: LockEntityType;
+  entity_id?: string;
+  label?: string; // e.g. the scene title, for people who see the lock
+}
+
+// Edit lock within a project, held on the server while the holder's browser sends heartbeats
+export interface ProjectLock extends LockScope {
+  project_id: string;
+  user_id: string;
+  username: string;
+  avatar?: string;
+  acquired_at: string;
+  expires_at: string; // Pushed forward by every heartbeat
+}
+
+export interface PresenceViewer {
+  user_id: string;
+  username: string;
+  avatar?: string;
+  phase: ProjectPhase;
+  seen_at: string;
+}
+
+// Someone asking a lock holder to hand over editing of that scope
+export interface EditAccessRequest extends LockScope {
+  id: string;
+  user_id: string;
+  username: string;
+  avatar?: string;
+  requested_at: string;
+}
+
+export interface ProjectPresence {
+  project_id: string;
+  locks: ProjectLock[];
+  viewers: PresenceViewer[];
+  requests: EditAccessRequest[];
+}
+
+// Pushed over GET /api/presence/stream
+export type PresenceEvent =
+  | { type: 'state'; presence: ProjectPresence }
+  | { type: 'notice'; project_id: string; title: string; message: string; kind: Notification['type']; link?: NotificationLink };
+
+// Where another writer's caret is in the collaboratively edited script
+export interface ScriptCursor {
+  user_id: string;
+  username: string;
+  avatar?: string;
+  beat_id: string;
+  index: number; // Text offset within the beat, ignoring markup
+  length: number; // Selected characters; 0 for a plain caret
+}
+
+// Pushed over GET /api/projects/:projectId/collab/:scriptId
+export type CollabEvent =
+  | { type: 'sync'; state: string } // Whole document, base64 Yjs update; first on every (re)connect
+  | { type: 'update'; update: string; origin: string } // origin: the client that made the change
+  | { type: 'cursors'; cursors: ScriptCursor[] };
+
+export type ResearchEngine = 'gemini_pro' | 'vertex_ai' | 'perplexity' | 'google_deep_research';
+
+export type AIProviderId = 'vertex' | 'perplexity' | 'openai_compatible' | 'mock';
+
+export interface EngineProviderConfig {
+  provider: AIProviderId;
+  model?: string; // Provider default when omitted
 }
 
+export type ResearchProviderSettings = Partial<Record<ResearchEngine, EngineProviderConfig>>;
+
 export interface ResearchSeries {
   id: string;
   title: string;
@@ -64,7 +196,7 @@ export interface DocumentaryNotebook {
   title: string;
   topic: string;
   status: 'pending' | 'researching' | 'complete' | 'failed';
-  research_engine: 'gemini_pro' | 'vertex_ai' | 'perplexity' | 'google_deep_research';
+  research_engine: ResearchEngine;
   source_count: number;
   summary?: string;
   key_topics?: string[];
@@ -84,13 +216,83 @@ export interface KnowledgeAsset {
   type: 'pdf' | 'docx' | 'txt' | 'csv';
   size: string;
   upload_date: string;
-  status: 'uploading' | 'vectorizing' | 'indexing' | 'ready'; 
-  vector_id?: string; 
+  status: 'uploading' | 'vectorizing' | 'indexing' | 'ready' | 'error';
+  vector_id?: string; // Document id in the server vector index
+  source_id?: string; // ResearchSource the asset was built from
+  chunk_count?: number;
   analysis_summary?: string;
 }
 
+// Extracted text of one page of an uploaded document, kept for page-level citations
+export interface DocumentPage {
+  page_number: number;
+  text: string;
+}
+
+// NotebookLM-style research source with Vertex AI analysis
+export interface ResearchSource {
+  id: string;
+  project_id: string;
+  episode_id: string;
+  type: 'url' | 'file' | 'text' | 'youtube';
+  title: string;
+  content?: string; // Raw text: pasted text, readable text of a fetched page, or a YouTube transcript
+  content_type?: string;
+  url?: string;
+  fetched_at?: string;
+  file_name?: string;
+  file_size?: string;
+  page_count?: number;
+  pages?: DocumentPage[];
+  status: 'pending' | 'processing' | 'indexed' | 'error';
+  added_at: string;
+  summary?: string;
+  key_topics?: string[];
+  key_facts?: string[];
+  suggested_questions?: string[];
+}
+
+export interface ResearchQuery {
+  id: string;
+  project_id: string;
+  episode_id: string;
+  query: string;
+  response?: string;
+  key_facts?: string[];
+  sources_used?: string[];
+  source_citations?: SourceCitation[];
+  cited_facts?: CitedFact[]; // Structured version of key_facts, each with its supporting passage
+  web_urls?: string[]; // Pages a web-searching provider (Perplexity) consulted
+  provider?: AIProviderId; // Where the engine ran, per the project's research_providers
+  model?: string;
+  timestamp: string;
+  engine: string;
+}
+
+// A retrieved passage that supports part of a research answer
+export interface SourceCitation {
+  source_id: string;
+  source_title: string;
+  passage_id?: string;
+  page_number?: number;
+  // Character range of the quoted span within the page (paginated sources) or the source content
+  char_start?: number;
+  char_end?: number;
+  quote?: string;
+  quote_verified?: boolean; // false when the model's quote could not be found verbatim in the passage
+  excerpt?: string;
+  relevant_info: string;
+  score?: number;
+}
+
+export interface CitedFact {
+  text: string;
+  citations: SourceCitation[];
+}
+
 export interface ArchiveFolder {
   id: string;
+  project_id?: string; // Set for user-created collections; built-in folders are shared
   name: string;
   type: 'local' | 'external_api' | 'cloud_bucket';
   api_source?: 'nasa' | 'getty' | 'ap' | 'archive_org';
@@ -146,16 +348,115 @@ export interface ScriptPart {
   scenes: ScriptScene[];
 }
 
+export type ScriptStatus = 'draft' | 'review' | 'approved' | 'archived';
+
+export type ScriptReviewAction = 'submit' | 'approve' | 'reject' | 'block' | 'reopen' | 'archive';
+
+// One step of a script's approval workflow (see lib/scriptReview.ts)
+export interface ScriptReviewEvent {
+  id: string;
+  action: ScriptReviewAction;
+  from: ScriptStatus;
+  to: ScriptStatus;
+  comment?: string;
+  user_id: string;
+  username: string;
+  at: string;
+}
+
 export interface DocumentaryScript {
   id: string;
   project_id: string;
   version: number;
   is_current: boolean;
-  status: 'draft' | 'review' | 'approved' | 'archived';
+  status: ScriptStatus; // Changed only through the review workflow
+  review_history?: ScriptReviewEvent[];
+  approved_version_id?: string | null; // The ScriptVersion taken at the last approval; kept while the script is reopened
   parts: ScriptPart[];
   estimated_duration_minutes: number;
 }
 
+export type ScriptVersionReason = 'generated' | 'saved' | 'ai_rewrite' | 'restored' | 'cherry_pick' | 'approved';
+
+/**
+ * A snapshot of a script's parts, taken by the API server whenever the script is generated,
+ * rewritten, restored or saved. Milestones are versions someone has named ("Locked for legal").
+ */
+export interface ScriptVersion {
+  id: string;
+  project_id: string;
+  script_id: string;
+  version: number;
+  reason: ScriptVersionReason;
+  note?: string; // e.g. the instruction behind an AI rewrite
+  milestone?: string | null; // null once the name is cleared
+  parts: ScriptPart[];
+  estimated_duration_minutes: number;
+  created_at: string;
+  created_by?: string;
+  created_by_name?: string;
+}
+
+// The text a comment is about, as offsets into the beat's text ignoring markup (like ScriptCursor)
+export interface CommentAnchor {
+  index: number;
+  length: number;
+  quote: string; // The text when the comment was made; finds the range again after edits
+}
+
+export interface ScriptComment {
+  id: string;
+  user_id: string;
+  username: string;
+  role: UserRole; // Role on the project when written, for filters like "legal comments"
+  body: string;
+  mentions: string[]; // User ids @mentioned in the body
+  created_at: string;
+}
+
+/**
+ * A discussion anchored to a beat, or to a range of text inside it. Threads are written by
+ * the API server only, which notifies the people mentioned and those already taking part.
+ */
+export interface ScriptCommentThread {
+  id: string;
+  project_id: string;
+  script_id: string;
+  beat_id: string;
+  anchor?: CommentAnchor | null; // None for a comment on the whole beat
+  status: 'open' | 'resolved';
+  comments: ScriptComment[];
+  created_at: string;
+  resolved_at?: string | null;
+  resolved_by_name?: string | null;
+}
+
+export type SuggestionDecision = 'accepted' | 'rejected' | null;
+
+/**
+ * A proposed new text for a beat, shown as tracked changes the writers accept or reject hunk by
+ * hunk (lib/suggestions.ts). AI rewrites come as one or more alternatives sharing a group_id;
+ * accepting part of one sets its siblings aside. Written by the API server only.
+ */
+export interface ScriptSuggestion {
+  id: string;
+  project_id: string;
+  script_id: string;
+  beat_id: string;
+  source: 'ai' | 'human';
+  instruction?: string; // The instruction behind an AI rewrite
+  group_id: string;
+  alternative: number; // 1-based position among the alternatives in its group
+  base: string; // Beat HTML the suggestion was made against
+  proposed: string;
+  decisions: SuggestionDecision[]; // One per hunk, in order
+  status: 'pending' | 'accepted' | 'rejected' | 'superseded';
+  created_at: string;
+  created_by: string;
+  created_by_name: string;
+  resolved_at?: string | null;
+}
+
 export interface ExpertCandidate {
   id: string;
   name: string;
@@ -183,6 +484,7 @@ export interface DigitalTwin {
 
 export interface InterviewPlan {
   id: string;
+  project_id: string;
   beat_id: string;
   scene_context: string;
   topic: string;
@@ -214,12 +516,19 @@ export interface VoiceOver {
   voice_name: string;
   voice_provider: 'elevenlabs' | 'local'; 
   text: string;
+  beat_text?: string; // The beat's text the line was last taken from; the line follows its beat until edited
   audio_url?: string;
   duration_seconds: number;
   status: 'pending' | 'generating' | 'complete' | 'failed' | 'approved' | 'rejected';
   generation_settings?: ElevenLabsSettings; 
 }
 
+// A track's switches in Assembly: a locked track can't be edited, a muted one is disabled in exports
+export interface TimelineTrackState {
+  locked?: boolean;
+  muted?: boolean;
+}
+
 export interface TimelineItem {
   id: string;
   project_id: string;
@@ -230,10 +539,28 @@ export interface TimelineItem {
   duration: number;
   source_type: 'archive_clip' | 'voice_over' | 'expert_interview' | 'ai_generated' | 'music' | 'sfx' | 'title';
   source_id?: string;
+  source_in?: number; // Seconds into the source where the item starts; an archive clip's in point when unset
+  beat_id?: string; // The script beat the item covers, to flag it when the beat moves or is cut
   label?: string;
   color?: string;
 }
 
+// Per-project collections persisted by the server data store
+export type ProjectCollection =
+  | 'notebooks'
+  | 'knowledge_assets'
+  | 'research_sources'
+  | 'research_queries'
+  | 'archive_folders'
+  | 'archive_clips'
+  | 'scripts'
+  | 'script_versions'
+  | 'script_comments'
+  | 'script_suggestions'
+  | 'interview_plans'
+  | 'voice_overs'
+  | 'timeline_items';
+
 export interface ReferenceDocument {
   id: string;
   name: string;
@@ -268,6 +595,14 @@ export interface Notification {
   type: 'info' | 'success' | 'warning' | 'error';
   timestamp: string;
   read: boolean;
+  link?: NotificationLink;
+}
+
+// Where a notification leads, e.g. the comment thread someone was mentioned in
+export interface NotificationLink {
+  project_id: string;
+  phase: ProjectPhase;
+  thread_id?: string;
 }
 
 export interface ChatMessage {
@@ -307,3 +642,190 @@ export interface ResearchNode {
   y: number;
   engine?: string;
 }
+
+// ---------------------------------------------------------------------------
+// AI route contracts: request and response bodies of the /api AI routes.
+// The server validates model output against a schema for each response before sending it,
+// and services/geminiService.ts types its calls from AIRoutes.
+// ---------------------------------------------------------------------------
+
+export interface ResearchBrief {
+  summary: string;
+  key_facts: string[];
+  expert_suggestions: string[];
+}
+
+export interface ResearchBriefResponse extends ResearchBrief {
+  urls: string[];
+  provider: AIProviderId;
+  model: string;
+}
+
+export interface SeriesOutlineItem {
+  title: string;
+  research_focus: string;
+  suggested_engine: ResearchEngine;
+}
+
+export interface SeriesStructure {
+  episodes: SeriesOutlineItem[];
+  themes: SeriesOutlineItem[];
+}
+
+export interface ArchiveSearchResult {
+  title: string;
+  duration_seconds: number;
+  visual_description: string;
+  archive_source: string;
+  category: string;
+  year_range?: string;
+  quality?: string;
+}
+
+export interface ClipAnalysis {
+  visual_description: string;
+  mood: string;
+  quality_score: number;
+}
+
+export interface GeneratedBeat {
+  type: ScriptBeat['type'];
+  content: string;
+  speaker?: string;
+  duration_seconds: number;
+}
+
+export interface GeneratedScene {
+  title: string;
+  beats: GeneratedBeat[];
+}
+
+export interface GeneratedScriptPart {
+  title: string;
+  scenes: GeneratedScene[];
+}
+
+export type ExpertSuggestion = Required<Pick<ExpertCandidate, 'name' | 'title' | 'relevance' | 'affiliation' | 'relevance_score'>>;
+
+export interface InterviewPlanDraft {
+  ideal_soundbite: string;
+  questions: string[];
+}
+
+export interface StyleAnalysis {
+  tone: string;
+  pacing: string;
+  structure: string;
+  visual_style?: string;
+  narrative_voice?: string;
+}
+
+export interface SourceAnalysis {
+  status: 'indexed';
+  title: string;
+  summary: string;
+  key_topics: string[];
+  key_facts: string[];
+  content_type: string;
+  suggested_questions: string[];
+  content: string;
+  transcript_available?: boolean;
+  fetched_at?: string;
+}
+
+export interface QuerySourcesResponse {
+  response: string;
+  key_facts: string[];
+  cited_facts: CitedFact[];
+  source_citations: SourceCitation[];
+  follow_up_questions: string[];
+  confidence_level?: 'high' | 'medium' | 'low';
+  contradictions?: string[];
+  gaps?: string[];
+  passages_retrieved: number;
+  web_urls: string[];
+  provider: AIProviderId;
+  model: string;
+}
+
+// Summary of a source as sent with a query; vector_id adds its retrieved passages
+export interface QuerySourceInput {
+  id: string;
+  vector_id?: string;
+  title: string;
+  summary: string;
+  key_facts: string[];
+  key_topics?: string[];
+  type?: ResearchSource['type'];
+}
+
+export interface ChatTurnInput {
+  role: 'user' | 'model';
+  parts: { text: string }[];
+}
+
+export interface AIRoutes {
+  '/research': {
+    request: { topic: string; engine?: ResearchEngine; systemInstruction?: string; project_id?: string };
+    response: ResearchBriefResponse;
+  };
+  '/series-structure': {
+    request: { premise: string; episodesCount?: number };
+    response: SeriesStructure;
+  };
+  '/search-archive': {
+    request: { query: string; source: string };
+    response: ArchiveSearchResult[];
+  };
+  '/analyze-clip': {
+    request: { clipTitle: string };
+    response: ClipAnalysis;
+  };
+  '/generate-script': {
+    request: {
+      title: string;
+      description: string;
+      duration: number;
+      referenceStyle?: string;
+      researchContext?: string[];
+      archiveContext?: string[];
+    };
+    response: GeneratedScriptPart[];
+  };
+  '/find-experts': {
+    request: { topic: string };
+    response: ExpertSuggestion[];
+  };
+  '/refine-beat': {
+    request: { currentContent: string; instruction: string; context?: string; alternatives?: number }; // 1-3 rewrites
+    response: { refined: string; alternatives: string[] };
+  };
+  '/interview-plan': {
+    request: { sceneContext: string; topic: string };
+    response: InterviewPlanDraft;
+  };
+  '/analyze-style': {
+    request: { fileName: string; content?: string };
+    response: StyleAnalysis;
+  };
+  '/index-source': {
+    request: { type: ResearchSource['type']; url?: string; content?: string; title?: string };
+    response: SourceAnalysis;
+  };
+  '/query-sources': {
+    request: { query: string; sources: QuerySourceInput[]; engine?: ResearchEngine; project_id?: string; top_k?: number };
+    response: QuerySourcesResponse;
+  };
+  '/chat': {
+    request: { message: string; systemInstruction?: string; history?: ChatTurnInput[] };
+    response: { response: string };
+  };
+  '/generate-broll': {
+    request: { prompt: string };
+    response: { videoUri: string };
+  };
+}
+
+export type AIRoute = keyof AIRoutes;
+export type AIRequest<R extends AIRoute> = AIRoutes[R]['request'];
+export type AIResponse<R extends AIRoute> = AIRoutes[R]['response'];
@@ -8,6 +8,10 @@ export default defineConfig(({ mode }) => {
       server: {
         port: 3000,
         host: '0.0.0.0',
+        // Forward API calls (AI proxy + project store) to the Express server
+        proxy: {
+          '/api': env.VITE_API_URL || 'http://localhost:3001',
+        },
       },
       plugins: [react()],
       define: {